@@ -0,0 +1,12 @@
+import { defineConfig } from '@playwright/test';
+
+/**
+ * Engine tests run in Node with the Playwright test runner; they need no browser
+ */
+export default defineConfig({
+  testDir: './tests',
+  tsconfig: './tsconfig.test.json',
+  fullyParallel: false,
+  workers: 1,
+  reporter: 'list',
+});
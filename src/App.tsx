@@ -8,12 +8,13 @@ import { ThemeProvider, createTheme, CssBaseline, Snackbar, Alert, CircularProgr
 import { AppLayout } from '@/components/layout/AppLayout';
 import { ConfigPage } from '@/pages/ConfigPage';
 import { ExecutionPage } from '@/pages/ExecutionPage';
+import { HistoryPage } from '@/pages/HistoryPage';
 import { ImportExportDialog } from '@/components/common/ImportExportDialog';
 import { ErrorBoundary } from '@/components/common/ErrorBoundary';
 import { useUIMode } from '@/store/hooks';
 import { useEffect, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { useLoadOnMount, useAutoSave, useManualSave } from '@/hooks/useStorage';
+import { useLoadOnMount, useAutoSave, useManualSave, useExecutionHistoryPersistence } from '@/hooks/useStorage';
 
 // Create MUI theme
 const theme = createTheme({
@@ -58,9 +59,12 @@ function AppRouter() {
   // Manual save functionality
   const { save } = useManualSave();
 
+  // Keep execution history across reloads
+  useExecutionHistoryPersistence();
+
   // Sync route with mode
   useEffect(() => {
-    const expectedPath = mode === 'config' ? '/config' : '/execution';
+    const expectedPath = `/${mode}`;
     if (location.pathname !== expectedPath && location.pathname !== '/') {
       navigate(expectedPath, { replace: true });
     }
@@ -144,6 +148,14 @@ function AppRouter() {
               </ErrorBoundary>
             }
           />
+          <Route
+            path="/history"
+            element={
+              <ErrorBoundary fallbackMessage="History panel encountered an error">
+                <HistoryPage />
+              </ErrorBoundary>
+            }
+          />
           <Route path="*" element={<Navigate to="/config" replace />} />
         </Routes>
       </AppLayout>
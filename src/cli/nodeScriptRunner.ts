@@ -0,0 +1,63 @@
+/**
+ * Script runner for the CLI
+ * Runs script steps in a Node worker thread, since Node has no Web Workers.
+ * Inside the thread the script runs in a vm context holding only the
+ * JavaScript built-ins: no process, require, timers, import or network
+ */
+
+import { Worker } from 'node:worker_threads';
+import {
+  runScriptOnWorker,
+  SCRIPT_RUNTIME_SOURCE,
+  type ScriptRunRequest,
+  type ScriptRunResult,
+} from '@/engine';
+
+/**
+ * Source of the worker thread running scripts
+ *
+ * The context is created from an object without a prototype, so scripts cannot
+ * reach the thread's own Object or Function through its global object, and it
+ * refuses code generation from strings. Only strings cross between the thread
+ * and the context: runScript() resolves to the serialized response, so the
+ * thread never calls a then() the script defined. The thread's own functions are
+ * strict, so stack trace call sites cannot hand them to a script.
+ *
+ * The runtime refuses scripts containing import; as a second line, scripts are
+ * compiled with vm.Script so that import() rejects with an error created inside
+ * the context (this needs --experimental-vm-modules; without it Node rejects with
+ * an error from the thread's realm, whose constructor leads back to process).
+ */
+const NODE_WORKER_SOURCE = `"use strict";
+const vm = require('node:vm');
+const { parentPort } = require('node:worker_threads');
+
+const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+vm.runInContext(${JSON.stringify(`${SCRIPT_RUNTIME_SOURCE}\nlockDownGlobals();`)}, context);
+const rejectImport = () => vm.runInContext('Promise.reject(new TypeError("Scripts cannot import modules"))', context);
+const compile = (code) =>
+  new vm.Script(context.getScriptSource(code), { importModuleDynamically: rejectImport }).runInContext(context);
+
+parentPort.on('message', async (message) => {
+  parentPort.postMessage(await context.runScript(message.code, message.scope, compile));
+});
+`;
+
+/**
+ * Runs a script in a Node worker thread
+ *
+ * @param request - Script to run
+ * @returns Script result
+ */
+export function runScriptInWorkerThread(request: ScriptRunRequest): Promise<ScriptRunResult> {
+  return runScriptOnWorker(request, (onResponse, onCrash) => {
+    const worker = new Worker(NODE_WORKER_SOURCE, { eval: true, execArgv: ['--experimental-vm-modules'] });
+    worker.on('message', (response: string) => onResponse(response));
+    worker.on('error', onCrash);
+    worker.on('exit', (code) => onCrash(new Error(`worker exited with code ${code}`)));
+    return {
+      post: (message) => worker.postMessage(message),
+      terminate: () => void worker.terminate(),
+    };
+  });
+}
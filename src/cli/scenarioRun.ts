@@ -0,0 +1,259 @@
+/**
+ * scenario-run CLI
+ * Runs a scenario exported from the UI (JSON or YAML) without a browser
+ * and prints the execution result as JSON to stdout
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { executeScenario, type ExecutionResult, type ManualStepHandling } from '@/engine';
+import {
+  importFromJson,
+  importFromYaml,
+  importServersFromJson,
+  importEnvironmentsFromJson,
+} from '@/services/storage';
+import { generateJUnitReport, generateHtmlReport } from '@/services/reports';
+import { runScriptInWorkerThread } from './nodeScriptRunner';
+import type { Environment, Scenario, Server } from '@/types';
+
+const USAGE = `Usage: scenario-run <scenario.yaml|scenario.json> --servers <servers.json> [options]
+
+Options:
+  --servers <file>   Servers as a JSON array, or a full backup export (required);
+                     scenarios in a backup export can be run by call steps
+  --params <file>    JSON object of parameter values (merged over schema defaults)
+  --secrets <file>   JSON object of secret values by name (\${secret.name})
+  --env <name>       Environment to run against, by name or ID (from a backup export)
+  --manual <mode>    How to handle manual steps: "fail" (default) or "auto"
+  --continue-on-error
+                     Record failed steps and keep running (steps with their own
+                     failure policy keep it); the run still fails at the end
+  --run-number <n>   Run number for \${system.runNumber}, e.g. the CI build number (default 1)
+  --junit <file>     Also write a JUnit XML report
+  --html <file>      Also write a self-contained HTML report
+  -h, --help         Show this help
+
+Exit codes:
+  0  Run completed
+  1  Run failed or was cancelled
+  2  Invalid arguments or input files`;
+
+const EXIT_COMPLETED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Error in the command line or an input file (exit code 2)
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Reads and parses a JSON file
+ */
+async function readJsonFile(path: string, label: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf-8');
+  } catch {
+    throw new UsageError(`Cannot read ${label} file "${path}"`);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`${label} file "${path}" is not valid JSON`);
+  }
+}
+
+/**
+ * Reads a JSON object whose values are used as-is (params, secrets)
+ */
+async function readObjectFile(path: string, label: string): Promise<Record<string, unknown>> {
+  const data = await readJsonFile(path, label);
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new UsageError(`${label} file "${path}" must contain a JSON object`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Loads a scenario exported as JSON or YAML (chosen by file extension)
+ */
+async function loadScenarioFile(path: string): Promise<Scenario> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf-8');
+  } catch {
+    throw new UsageError(`Cannot read scenario file "${path}"`);
+  }
+
+  const extension = extname(path).toLowerCase();
+  try {
+    return extension === '.yaml' || extension === '.yml'
+      ? importFromYaml(text)
+      : importFromJson(text);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Loads servers (and environments and scenarios, when given a backup export)
+ */
+async function loadServersFile(
+  path: string
+): Promise<{ servers: Server[]; environments: Environment[]; scenarios: Scenario[] }> {
+  const data = await readJsonFile(path, 'Servers');
+  const backup = (Array.isArray(data) ? { servers: data } : data) as {
+    servers?: unknown;
+    environments?: unknown;
+    scenarios?: unknown[];
+  };
+
+  try {
+    return {
+      servers: importServersFromJson(JSON.stringify(backup.servers ?? [])),
+      environments: importEnvironmentsFromJson(JSON.stringify(backup.environments ?? [])),
+      scenarios: (backup.scenarios ?? []).map(scenario => importFromJson(JSON.stringify(scenario))),
+    };
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Summarizes the run on stderr so stdout stays machine-readable
+ */
+function printSummary(scenario: Scenario, result: ExecutionResult): void {
+  const { passed, failed, warnings } = result.summary;
+  const duration = result.completedAt
+    ? new Date(result.completedAt).getTime() - new Date(result.startedAt).getTime()
+    : 0;
+
+  process.stderr.write(
+    `Scenario "${scenario.name}" ${result.status} in ${duration}ms (${passed} passed, ${failed} failed, ${warnings} warnings)\n`
+  );
+
+  const lastError = [...result.logs].reverse().find(log => log.level === 'error');
+  if (result.status === 'failed' && lastError) {
+    process.stderr.write(`${lastError.message}\n`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      servers: { type: 'string' },
+      params: { type: 'string' },
+      secrets: { type: 'string' },
+      env: { type: 'string' },
+      manual: { type: 'string', default: 'fail' },
+      'continue-on-error': { type: 'boolean', default: false },
+      'run-number': { type: 'string' },
+      junit: { type: 'string' },
+      html: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_COMPLETED;
+  }
+
+  if (positionals.length !== 1) {
+    throw new UsageError('Expected exactly one scenario file');
+  }
+  if (!values.servers) {
+    throw new UsageError('--servers is required');
+  }
+  if (values.manual !== 'fail' && values.manual !== 'auto') {
+    throw new UsageError(`--manual must be "fail" or "auto" (got "${values.manual}")`);
+  }
+  const runNumber = values['run-number'] !== undefined ? Number(values['run-number']) : undefined;
+  if (runNumber !== undefined && (!Number.isInteger(runNumber) || runNumber < 1)) {
+    throw new UsageError(`--run-number must be a positive integer (got "${values['run-number']}")`);
+  }
+
+  const scenario = await loadScenarioFile(positionals[0]);
+  const { servers, environments, scenarios } = await loadServersFile(values.servers);
+
+  // Scenario defaults first, then values from the params file
+  const params: Record<string, unknown> = {};
+  for (const schema of scenario.parameterSchema ?? []) {
+    if (schema.defaultValue !== undefined) {
+      params[schema.name] = schema.defaultValue;
+    }
+  }
+  if (values.params) {
+    Object.assign(params, await readObjectFile(values.params, 'Params'));
+  }
+
+  const secrets: Record<string, string> = {};
+  if (values.secrets) {
+    const data = await readObjectFile(values.secrets, 'Secrets');
+    for (const [name, value] of Object.entries(data)) {
+      secrets[name] = String(value);
+    }
+  }
+
+  let environment: Environment | null = null;
+  if (values.env) {
+    environment = environments.find(e => e.name === values.env || e.id === values.env) ?? null;
+    if (!environment) {
+      throw new UsageError(`Environment "${values.env}" not found in "${values.servers}"`);
+    }
+  }
+
+  const result = await executeScenario(
+    scenario,
+    new Map(servers.map(server => [server.id, server])),
+    params,
+    {
+      environment,
+      secrets,
+      manualSteps: values.manual as ManualStepHandling,
+      stopOnError: !values['continue-on-error'],
+      scenarios,
+      runNumber,
+      scriptRunner: runScriptInWorkerThread,
+    }
+  );
+
+  process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  printSummary(scenario, result);
+
+  const reportSource = { ...result, params };
+  if (values.junit) {
+    await writeFile(values.junit, generateJUnitReport(scenario, reportSource), 'utf-8');
+  }
+  if (values.html) {
+    await writeFile(values.html, generateHtmlReport(scenario, reportSource), 'utf-8');
+  }
+
+  return result.status === 'completed' ? EXIT_COMPLETED : EXIT_FAILED;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`scenario-run: ${message}\n`);
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      process.stderr.write('Run with --help for usage.\n');
+      process.exitCode = EXIT_USAGE;
+    } else {
+      process.exitCode = EXIT_FAILED;
+    }
+  });
@@ -19,11 +19,15 @@ import {
   RadioGroup,
   FormControlLabel,
   Radio,
+  Checkbox,
   Alert,
   LinearProgress,
   Paper,
   IconButton,
   Divider,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import {
   CloudUpload as UploadIcon,
@@ -33,6 +37,7 @@ import {
 } from '@mui/icons-material';
 import { useExport, useImport } from '@/hooks/useStorage';
 import { useAppSelector } from '@/store/hooks';
+import { detectImportFormat } from '@/services/storage';
 
 interface ImportExportDialogProps {
   open: boolean;
@@ -42,16 +47,21 @@ interface ImportExportDialogProps {
 type TabValue = 'import' | 'export';
 type ExportFormat = 'json' | 'yaml';
 type ExportScope = 'current' | 'all';
+type ImportFormat = ReturnType<typeof detectImportFormat>;
 
 export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
   const [activeTab, setActiveTab] = useState<TabValue>('export');
   const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
   const [exportScope, setExportScope] = useState<ExportScope>('current');
+  const [includeSecrets, setIncludeSecrets] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewContent, setPreviewContent] = useState<string>('');
   const [showPreview, setShowPreview] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string>('');
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [importFormat, setImportFormat] = useState<ImportFormat>('scenario');
+  const [environmentFile, setEnvironmentFile] = useState<File | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
 
   const currentScenario = useAppSelector(state => {
     const currentId = state.scenarios.present.currentScenarioId;
@@ -59,15 +69,26 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
   });
 
   const { exportScenario, exportAll, isExporting, error: exportError } = useExport();
-  const { importScenario, importAll, isImporting, error: importError } = useImport();
+  const {
+    importScenario,
+    importAll,
+    importPostman,
+    importOpenApi,
+    isImporting,
+    error: importError,
+  } = useImport();
 
   // Reset state when dialog closes
   const handleClose = useCallback(() => {
     setActiveTab('import');
+    setIncludeSecrets(false);
     setSuccessMessage('');
     setErrorMessage('');
     setSelectedFile(null);
     setShowPreview(false);
+    setImportFormat('scenario');
+    setEnvironmentFile(null);
+    setImportWarnings([]);
     onClose();
   }, [onClose]);
 
@@ -77,6 +98,9 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
     setErrorMessage('');
     setSelectedFile(null);
     setShowPreview(false);
+    setImportFormat('scenario');
+    setEnvironmentFile(null);
+    setImportWarnings([]);
   };
 
   const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -86,18 +110,28 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
     setSelectedFile(file);
     setSuccessMessage('');
     setErrorMessage('');
+    setEnvironmentFile(null);
+    setImportWarnings([]);
 
     // Read file for preview
     try {
       const content = await file.text();
       setPreviewContent(content);
       setShowPreview(true);
+
+      // Postman collections and OpenAPI documents are converted instead of imported as-is
+      setImportFormat(detectImportFormat(content));
     } catch {
       setErrorMessage('Failed to read file');
       setShowPreview(false);
     }
   }, []);
 
+  const handleEnvironmentSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setEnvironmentFile(event.target.files?.[0] ?? null);
+    event.target.value = '';
+  }, []);
+
   const handleImport = useCallback(async () => {
     if (!selectedFile) {
       setErrorMessage('Please select a file');
@@ -106,16 +140,52 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
 
     setSuccessMessage('');
     setErrorMessage('');
+    setImportWarnings([]);
 
     try {
       const filename = selectedFile.name.toLowerCase();
 
-      if (filename.includes('backup') || exportScope === 'all') {
+      if (importFormat === 'postman') {
+        // Convert Postman collection (the summary stays open so warnings can be read)
+        const result = await importPostman(selectedFile, environmentFile);
+        if (result.success && result.summary) {
+          const { summary } = result;
+          setSuccessMessage(
+            `Imported Postman collection as scenario: ${result.scenario?.name} ` +
+              `(${summary.requests} requests, ${summary.folders} groups, ${summary.servers} new servers, ` +
+              `${summary.parameters} parameters, ${summary.assertions} assertions, ${summary.extractions} extractions)`
+          );
+          setImportWarnings(summary.warnings);
+          setSelectedFile(null);
+          setEnvironmentFile(null);
+          setImportFormat('scenario');
+          setShowPreview(false);
+        } else {
+          setErrorMessage(result.error || 'Import failed');
+        }
+      } else if (importFormat === 'openapi') {
+        // Create (or refresh) a server with request templates for the Add Step dialog
+        const result = await importOpenApi(selectedFile);
+        if (result.success && result.server && result.summary) {
+          const { summary } = result;
+          setSuccessMessage(
+            `${result.created ? 'Created' : 'Updated'} server "${result.server.name}" with ` +
+              `${summary.endpoints} endpoint templates` +
+              (summary.secrets.length > 0 ? `. Define secrets: ${summary.secrets.join(', ')}` : '')
+          );
+          setImportWarnings(summary.warnings);
+          setSelectedFile(null);
+          setImportFormat('scenario');
+          setShowPreview(false);
+        } else {
+          setErrorMessage(result.error || 'Import failed');
+        }
+      } else if (filename.includes('backup') || exportScope === 'all') {
         // Import all data
         const result = await importAll(selectedFile);
         if (result.success) {
           setSuccessMessage(
-            `Successfully imported ${result.scenarios} scenarios and ${result.servers} servers`
+            `Successfully imported ${result.scenarios} scenarios, ${result.servers} servers, ${result.environments} environments and ${result.secrets} secrets`
           );
           setSelectedFile(null);
           setShowPreview(false);
@@ -138,7 +208,17 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
     } catch (err) {
       setErrorMessage(err instanceof Error ? err.message : 'Import failed');
     }
-  }, [selectedFile, exportScope, importAll, importScenario, handleClose]);
+  }, [
+    selectedFile,
+    importFormat,
+    environmentFile,
+    exportScope,
+    importAll,
+    importScenario,
+    importPostman,
+    importOpenApi,
+    handleClose,
+  ]);
 
   const handleExport = useCallback(async () => {
     setSuccessMessage('');
@@ -146,7 +226,7 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
 
     try {
       if (exportScope === 'all') {
-        const result = await exportAll();
+        const result = await exportAll(includeSecrets);
         if (result.success) {
           setSuccessMessage('Successfully exported all data');
         } else {
@@ -157,7 +237,7 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
           setErrorMessage('No scenario selected');
           return;
         }
-        const result = await exportScenario(exportFormat);
+        const result = await exportScenario(exportFormat, undefined, includeSecrets);
         if (result.success) {
           setSuccessMessage(`Successfully exported scenario: ${currentScenario.name}`);
         } else {
@@ -167,7 +247,7 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
     } catch (err) {
       setErrorMessage(err instanceof Error ? err.message : 'Export failed');
     }
-  }, [exportScope, exportFormat, currentScenario, exportAll, exportScenario]);
+  }, [exportScope, exportFormat, includeSecrets, currentScenario, exportAll, exportScenario]);
 
   return (
     <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
@@ -239,6 +319,29 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
               </RadioGroup>
             </FormControl>
 
+            <Box sx={{ mb: 2 }}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={includeSecrets}
+                    onChange={e => setIncludeSecrets(e.target.checked)}
+                  />
+                }
+                label="Include secret values"
+              />
+              <Typography variant="caption" color="text.secondary" component="div">
+                {includeSecrets
+                  ? 'Secret values will be written to the file in plain text.'
+                  : 'Secrets are left out and any secret value found in the data is masked.'}
+              </Typography>
+            </Box>
+
+            {includeSecrets && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                The exported file will contain secret values. Do not share or commit it.
+              </Alert>
+            )}
+
             {exportScope === 'current' && !currentScenario && (
               <Alert severity="warning">
                 Please select a scenario in the Configuration view before exporting.
@@ -279,8 +382,50 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
                   </Box>
                 </Paper>
               )}
+
+              {importFormat === 'postman' && (
+                <Alert severity="info" sx={{ mt: 2 }}>
+                  <Typography variant="body2" gutterBottom>
+                    Postman collection detected. Folders become groups and {'{{variables}}'} become
+                    scenario parameters. Optionally select a Postman environment for server URLs and
+                    parameter defaults.
+                  </Typography>
+                  <Button size="small" variant="outlined" component="label" startIcon={<UploadIcon />}>
+                    {environmentFile ? environmentFile.name : 'Select Environment'}
+                    <input type="file" hidden accept=".json" onChange={handleEnvironmentSelect} />
+                  </Button>
+                  {environmentFile && (
+                    <Button size="small" sx={{ ml: 1 }} onClick={() => setEnvironmentFile(null)}>
+                      Remove
+                    </Button>
+                  )}
+                </Alert>
+              )}
+
+              {importFormat === 'openapi' && (
+                <Alert severity="info" sx={{ mt: 2 }}>
+                  OpenAPI document detected. A server is created from servers[] (or the existing
+                  server with the same URL is updated) with one request template per operation,
+                  available when adding a Request step.
+                </Alert>
+              )}
             </Box>
 
+            {importWarnings.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                <Typography variant="body2" fontWeight="medium">
+                  {importWarnings.length} item(s) could not be fully converted:
+                </Typography>
+                <List dense disablePadding>
+                  {importWarnings.map(warning => (
+                    <ListItem key={warning} disableGutters sx={{ py: 0 }}>
+                      <ListItemText primary={warning} primaryTypographyProps={{ variant: 'body2' }} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
             {showPreview && previewContent && (
               <Box>
                 <Divider sx={{ my: 2 }} />
@@ -307,9 +452,10 @@ export function ImportExportDialog({ open, onClose }: ImportExportDialogProps) {
             )}
 
             <Alert severity="info" sx={{ mt: 2 }}>
-              Supported formats: JSON (.json) and YAML (.yaml, .yml)
+              Supported formats: JSON (.json) and YAML (.yaml, .yml), Postman v2.1 collections and
+              OpenAPI 3 documents
               <br />
-              Files named with "backup" will import all data (scenarios and servers).
+              Files named with "backup" will import all data (scenarios, servers, environments and secrets).
             </Alert>
           </Box>
         )}
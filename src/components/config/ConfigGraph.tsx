@@ -63,6 +63,7 @@ export interface ConfigGraphProps {
   onCloseDetailPanel: () => void;
   onUndo: () => void;
   onRedo: () => void;
+  onPasteCurl: (command: string) => void;
 }
 
 export function ConfigGraph({
@@ -87,6 +88,7 @@ export function ConfigGraph({
   onCloseDetailPanel,
   onUndo,
   onRedo,
+  onPasteCurl,
 }: ConfigGraphProps) {
   /**
    * Get the current container ID based on navigation path
@@ -290,6 +292,7 @@ export function ConfigGraph({
                 filteredSteps={filteredSteps}
                 filteredEdges={filteredEdges}
                 cutStepId={cutStepId}
+                onPasteCurl={onPasteCurl}
               />
             </>
           ) : (
@@ -0,0 +1,306 @@
+/**
+ * EnvironmentManagerDialog Component
+ * Dialog for creating and editing environments, their ${env.*} variables
+ * and per-server overrides
+ */
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Typography,
+  Stack,
+  Paper,
+  IconButton,
+  Switch,
+  Tooltip,
+  Divider,
+  Chip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ContentCopy as DuplicateIcon,
+} from '@mui/icons-material';
+import type { Environment, EnvironmentVariable, ServerOverride } from '@/types';
+import { useAppDispatch, useEnvironments, useServers, useAppSelector } from '@/store/hooks';
+import {
+  addEnvironment,
+  updateEnvironment,
+  deleteEnvironment,
+  duplicateEnvironment,
+} from '@/store/environmentsSlice';
+import { EmptyState } from '@/components/common/EmptyState';
+import { ServerHeaderEditor } from '@/components/servers/ServerHeaderEditor';
+
+interface VariableListEditorProps {
+  variables: EnvironmentVariable[];
+  onChange: (variables: EnvironmentVariable[]) => void;
+}
+
+function VariableListEditor({ variables, onChange }: VariableListEditorProps) {
+  const handleChange = (index: number, changes: Partial<EnvironmentVariable>) => {
+    onChange(variables.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  return (
+    <Stack spacing={1.5}>
+      {variables.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No variables. Variables are referenced as {'${env.name}'}.
+        </Typography>
+      )}
+      {variables.map((variable, index) => (
+        <Stack key={index} direction="row" spacing={1} alignItems="center">
+          <TextField
+            label="Name"
+            value={variable.key}
+            onChange={(e) => handleChange(index, { key: e.target.value })}
+            placeholder="apiHost"
+            size="small"
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label="Value"
+            value={variable.value}
+            onChange={(e) => handleChange(index, { value: e.target.value })}
+            placeholder="http://localhost:3000"
+            size="small"
+            sx={{ flex: 2 }}
+          />
+          <Tooltip title={variable.enabled ? 'Enabled' : 'Disabled'}>
+            <Switch
+              checked={variable.enabled}
+              onChange={(e) => handleChange(index, { enabled: e.target.checked })}
+              size="small"
+            />
+          </Tooltip>
+          <IconButton
+            onClick={() => onChange(variables.filter((_, i) => i !== index))}
+            color="error"
+            size="small"
+            aria-label="Delete variable"
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Stack>
+      ))}
+      <Box>
+        <Button
+          startIcon={<AddIcon />}
+          size="small"
+          onClick={() => onChange([...variables, { key: '', value: '', enabled: true }])}
+        >
+          Add Variable
+        </Button>
+      </Box>
+    </Stack>
+  );
+}
+
+interface EnvironmentEditorProps {
+  environment: Environment;
+}
+
+function EnvironmentEditor({ environment }: EnvironmentEditorProps) {
+  const dispatch = useAppDispatch();
+  const servers = useServers();
+
+  const handleChange = (changes: Partial<Environment>) => {
+    dispatch(updateEnvironment({ id: environment.id, changes }));
+  };
+
+  const handleOverrideChange = (serverId: string, changes: Partial<ServerOverride>) => {
+    const existing = environment.serverOverrides.find(o => o.serverId === serverId);
+    const updated: ServerOverride = { ...(existing ?? { serverId }), ...changes };
+    const isEmpty = !updated.baseUrl && (!updated.headers || updated.headers.length === 0);
+
+    const others = environment.serverOverrides.filter(o => o.serverId !== serverId);
+    handleChange({ serverOverrides: isEmpty ? others : [...others, updated] });
+  };
+
+  return (
+    <Stack spacing={3}>
+      <Stack direction="row" spacing={2}>
+        <TextField
+          label="Name"
+          value={environment.name}
+          onChange={(e) => handleChange({ name: e.target.value })}
+          size="small"
+          required
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          label="Description"
+          value={environment.description ?? ''}
+          onChange={(e) => handleChange({ description: e.target.value })}
+          size="small"
+          sx={{ flex: 2 }}
+        />
+      </Stack>
+
+      <Box>
+        <Typography variant="subtitle2" sx={{ mb: 1.5 }}>
+          Variables
+        </Typography>
+        <VariableListEditor
+          variables={environment.variables}
+          onChange={(variables) => handleChange({ variables })}
+        />
+      </Box>
+
+      <Divider />
+
+      <Box>
+        <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+          Server Overrides
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Leave a field empty to use the server's own setting. Override headers replace
+          server headers with the same key.
+        </Typography>
+        <Stack spacing={2}>
+          {servers.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No servers configured.
+            </Typography>
+          )}
+          {servers.map(server => {
+            const override = environment.serverOverrides.find(o => o.serverId === server.id);
+            return (
+              <Paper key={server.id} variant="outlined" sx={{ p: 2 }}>
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1.5 }}>
+                  <Typography variant="body2" fontWeight={600}>
+                    {server.name}
+                  </Typography>
+                  {override && <Chip label="Overridden" size="small" color="primary" variant="outlined" />}
+                </Stack>
+                <Stack spacing={2}>
+                  <TextField
+                    label="Base URL"
+                    value={override?.baseUrl ?? ''}
+                    onChange={(e) => handleOverrideChange(server.id, { baseUrl: e.target.value || undefined })}
+                    placeholder={server.baseUrl}
+                    size="small"
+                    fullWidth
+                  />
+                  <ServerHeaderEditor
+                    headers={override?.headers ?? []}
+                    onChange={(headers) => handleOverrideChange(server.id, { headers })}
+                  />
+                </Stack>
+              </Paper>
+            );
+          })}
+        </Stack>
+      </Box>
+    </Stack>
+  );
+}
+
+interface EnvironmentManagerDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function EnvironmentManagerDialog({ open, onClose }: EnvironmentManagerDialogProps) {
+  const dispatch = useAppDispatch();
+  const environments = useEnvironments();
+  const activeEnvironmentId = useAppSelector(state => state.environments.activeEnvironmentId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = environments.find(env => env.id === selectedId) ?? environments[0] ?? null;
+
+  const handleAdd = () => {
+    const now = new Date().toISOString();
+    const environment: Environment = {
+      id: `env_${Date.now()}`,
+      name: `environment_${environments.length + 1}`,
+      variables: [],
+      serverOverrides: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    dispatch(addEnvironment(environment));
+    setSelectedId(environment.id);
+  };
+
+  const handleDelete = (environment: Environment) => {
+    if (confirm(`Delete environment "${environment.name}"?`)) {
+      dispatch(deleteEnvironment(environment.id));
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth aria-labelledby="environment-manager-title">
+      <DialogTitle id="environment-manager-title">Environments</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', gap: 2, minHeight: 420, p: 0 }}>
+        {/* Environment List */}
+        <Box sx={{ width: 220, flexShrink: 0, borderRight: 1, borderColor: 'divider', display: 'flex', flexDirection: 'column' }}>
+          <List dense sx={{ flexGrow: 1, overflow: 'auto' }}>
+            {environments.map(env => (
+              <ListItemButton
+                key={env.id}
+                selected={selected?.id === env.id}
+                onClick={() => setSelectedId(env.id)}
+              >
+                <ListItemText
+                  primary={env.name}
+                  secondary={env.id === activeEnvironmentId ? 'Active' : undefined}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+          <Box sx={{ p: 1, borderTop: 1, borderColor: 'divider' }}>
+            <Button startIcon={<AddIcon />} onClick={handleAdd} size="small" fullWidth>
+              New Environment
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Environment Editor */}
+        <Box sx={{ flexGrow: 1, overflow: 'auto', p: 2 }}>
+          {selected ? (
+            <>
+              <Stack direction="row" justifyContent="flex-end" spacing={1} sx={{ mb: 2 }}>
+                <Tooltip title="Duplicate">
+                  <IconButton size="small" onClick={() => dispatch(duplicateEnvironment(selected.id))}>
+                    <DuplicateIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <IconButton size="small" color="error" onClick={() => handleDelete(selected)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Stack>
+              <EnvironmentEditor key={selected.id} environment={selected} />
+            </>
+          ) : (
+            <EmptyState
+              title="No Environments"
+              message="Create an environment to run the same scenario against local, dev or staging servers."
+              action={
+                <Button variant="contained" startIcon={<AddIcon />} onClick={handleAdd}>
+                  New Environment
+                </Button>
+              }
+            />
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * EnvironmentSelector Component
+ * Switches the active environment and opens the environment manager
+ */
+
+import { useState } from 'react';
+import {
+  FormControl,
+  Select,
+  MenuItem,
+  Divider,
+  ListItemIcon,
+  Typography,
+  Tooltip,
+} from '@mui/material';
+import {
+  Public as EnvironmentIcon,
+  Settings as ManageIcon,
+} from '@mui/icons-material';
+import { useAppDispatch, useEnvironments, useAppSelector } from '@/store/hooks';
+import { setActiveEnvironment } from '@/store/environmentsSlice';
+import { EnvironmentManagerDialog } from './EnvironmentManagerDialog';
+
+const NO_ENVIRONMENT = '__none__';
+const MANAGE_ENVIRONMENTS = '__manage__';
+
+interface EnvironmentSelectorProps {
+  /** "header" renders light text for the app bar */
+  variant?: 'header' | 'default';
+  /** Disable switching (e.g., while a scenario is running) */
+  disabled?: boolean;
+}
+
+export function EnvironmentSelector({ variant = 'default', disabled = false }: EnvironmentSelectorProps) {
+  const dispatch = useAppDispatch();
+  const environments = useEnvironments();
+  const activeEnvironmentId = useAppSelector(state => state.environments.activeEnvironmentId);
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  const handleChange = (value: string) => {
+    if (value === MANAGE_ENVIRONMENTS) {
+      setManagerOpen(true);
+      return;
+    }
+    dispatch(setActiveEnvironment(value === NO_ENVIRONMENT ? null : value));
+  };
+
+  const headerStyles = variant === 'header'
+    ? {
+        color: 'white',
+        bgcolor: 'rgba(255, 255, 255, 0.1)',
+        '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.3)' },
+        '&:hover .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.6)' },
+        '& .MuiSvgIcon-root': { color: 'rgba(255, 255, 255, 0.7)' },
+      }
+    : {};
+
+  return (
+    <>
+      <Tooltip title={disabled ? 'Environment cannot be changed while running' : 'Active environment'}>
+        <FormControl size="small" sx={{ minWidth: 160 }} disabled={disabled}>
+          <Select
+            value={activeEnvironmentId ?? NO_ENVIRONMENT}
+            onChange={(e) => handleChange(e.target.value)}
+            aria-label="Active environment"
+            renderValue={(value) => (
+              <Typography variant="body2" noWrap sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                <EnvironmentIcon sx={{ fontSize: 16 }} />
+                {value === NO_ENVIRONMENT
+                  ? 'No Environment'
+                  : environments.find(env => env.id === value)?.name ?? 'Unknown'}
+              </Typography>
+            )}
+            sx={{ height: 32, ...headerStyles }}
+          >
+            <MenuItem value={NO_ENVIRONMENT}>
+              <Typography variant="body2" color="text.secondary">
+                No Environment (server defaults)
+              </Typography>
+            </MenuItem>
+            {environments.map(env => (
+              <MenuItem key={env.id} value={env.id}>
+                {env.name}
+              </MenuItem>
+            ))}
+            <Divider />
+            <MenuItem value={MANAGE_ENVIRONMENTS}>
+              <ListItemIcon>
+                <ManageIcon fontSize="small" />
+              </ListItemIcon>
+              Manage Environments...
+            </MenuItem>
+          </Select>
+        </FormControl>
+      </Tooltip>
+
+      <EnvironmentManagerDialog open={managerOpen} onClose={() => setManagerOpen(false)} />
+    </>
+  );
+}
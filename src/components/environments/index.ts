@@ -0,0 +1,7 @@
+/**
+ * Environment Components
+ * Export all environment-related UI components
+ */
+
+export { EnvironmentSelector } from './EnvironmentSelector';
+export { EnvironmentManagerDialog } from './EnvironmentManagerDialog';
@@ -0,0 +1,52 @@
+/**
+ * AssertionResultsList Component
+ * Shows the pass/fail outcome of each response assertion of a request step
+ */
+
+import { Box, Stack, Typography, Chip } from '@mui/material';
+import {
+  CheckCircle as PassedIcon,
+  Cancel as FailedIcon,
+} from '@mui/icons-material';
+import type { AssertionResult } from '@/types';
+
+interface AssertionResultsListProps {
+  results: AssertionResult[];
+}
+
+export function AssertionResultsList({ results }: AssertionResultsListProps) {
+  const passedCount = results.filter((r) => r.passed).length;
+  const allPassed = passedCount === results.length;
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+          Assertions
+        </Typography>
+        <Chip
+          label={`${passedCount}/${results.length} passed`}
+          size="small"
+          color={allPassed ? 'success' : 'error'}
+        />
+      </Stack>
+      {results.map((result) => (
+        <Stack key={result.assertionId} direction="row" spacing={1} alignItems="flex-start">
+          <Box sx={{ color: result.passed ? 'success.main' : 'error.main', display: 'flex', pt: 0.25 }}>
+            {result.passed ? <PassedIcon fontSize="small" /> : <FailedIcon fontSize="small" />}
+          </Box>
+          <Box sx={{ minWidth: 0 }}>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {result.label}
+            </Typography>
+            {result.message && (
+              <Typography variant="caption" color="error" sx={{ display: 'block', wordBreak: 'break-word' }}>
+                {result.message}
+              </Typography>
+            )}
+          </Box>
+        </Stack>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * CopyRequestMenu Component
+ * Copies a request as a curl, HTTPie, fetch or Python requests snippet
+ * Executed steps use the request as sent; other request steps are previewed
+ * from the step definition with the given parameter values
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  IconButton,
+  Tooltip,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  Divider,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import { ContentCopy as CopyIcon } from '@mui/icons-material';
+import type { Step } from '@/types';
+import {
+  useServerById,
+  useActiveEnvironment,
+  useSecrets,
+  useExecutionResponses,
+  useExecutionVariables,
+} from '@/store/hooks';
+import {
+  applyEnvironment,
+  createVariableContext,
+  describeStepRequest,
+  getEnvironmentVariables,
+  getSecretValues,
+  redactSecrets,
+} from '@/engine';
+import {
+  generateSnippet,
+  SNIPPET_FORMATS,
+  type SnippetFormat,
+  type SnippetRequest,
+} from '@/utils/requestSnippets';
+
+interface CopyRequestMenuProps {
+  /** Request as sent (takes precedence over the preview) */
+  request?: SnippetRequest;
+  /** Step to preview when no request was recorded */
+  step?: Step | null;
+  /** Parameter values used for the preview */
+  params?: Record<string, unknown>;
+}
+
+export function CopyRequestMenu({ request, step, params = {} }: CopyRequestMenuProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [copied, setCopied] = useState<SnippetFormat | null>(null);
+
+  const requestStep = step?.type === 'request' ? step : null;
+  const server = useServerById(requestStep?.serverId);
+  const environment = useActiveEnvironment();
+  const secrets = useSecrets();
+  const responses = useExecutionResponses();
+  const vars = useExecutionVariables();
+
+  // Request the step would send now (active environment, current params and run data)
+  const preview = useMemo(() => {
+    if (request || !requestStep || !server) return null;
+    const effectiveServer = applyEnvironment(new Map([[server.id, server]]), environment).get(server.id)!;
+    const context = createVariableContext(
+      params,
+      responses,
+      [],
+      vars,
+      getEnvironmentVariables(environment)
+    );
+    return describeStepRequest(requestStep, effectiveServer, context);
+  }, [request, requestStep, server, environment, params, responses, vars]);
+
+  const source = request ?? preview;
+  if (!source) return null;
+
+  const handleCopy = async (format: SnippetFormat) => {
+    setAnchorEl(null);
+    const secretValues = getSecretValues(secrets);
+    const snippet = includeSecrets
+      ? generateSnippet(source, format, secretValues)
+      : generateSnippet(redactSecrets(source, secretValues), format);
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(format);
+    } catch (err) {
+      console.error('Failed to copy request:', err);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title={request ? 'Copy request as…' : 'Copy request preview as…'}>
+        <IconButton size="small" onClick={(e) => setAnchorEl(e.currentTarget)} aria-label="copy request">
+          <CopyIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {(Object.keys(SNIPPET_FORMATS) as SnippetFormat[]).map((format) => (
+          <MenuItem key={format} onClick={() => handleCopy(format)}>
+            <ListItemText>Copy as {SNIPPET_FORMATS[format]}</ListItemText>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem dense onClick={() => setIncludeSecrets(!includeSecrets)}>
+          <ListItemIcon>
+            <Checkbox checked={includeSecrets} size="small" edge="start" disableRipple sx={{ p: 0 }} />
+          </ListItemIcon>
+          <ListItemText
+            primary="Include secret values"
+            secondary={includeSecrets ? 'Snippet contains credentials' : 'Secrets stay as ${secret.*}'}
+          />
+        </MenuItem>
+      </Menu>
+      <Snackbar
+        open={copied !== null}
+        autoHideDuration={2000}
+        onClose={() => setCopied(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert onClose={() => setCopied(null)} severity="success" variant="filled" sx={{ width: '100%' }}>
+          {copied && `Copied as ${SNIPPET_FORMATS[copied]}${request ? '' : ' (preview, not executed yet)'}`}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+}
@@ -13,12 +13,21 @@ import {
   IconButton,
   Tooltip,
   LinearProgress,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   PlayArrow,
   Pause,
   Stop,
   Refresh,
+  Assessment as ReportIcon,
+  Code as XmlIcon,
+  Language as HtmlIcon,
 } from '@mui/icons-material';
 import {
   useExecutionContext,
@@ -26,11 +35,14 @@ import {
   useAppDispatch,
   useCurrentScenario,
   useExecutionStatistics,
+  useViewingRunId,
 } from '@/store/hooks';
 import {
   resetExecution,
 } from '@/store/executionSlice';
 import { useScenarioExecution } from '@/hooks/useScenarioExecution';
+import { EnvironmentSelector } from '@/components/environments';
+import { generateJUnitReport, generateHtmlReport } from '@/services/reports';
 import type { ExecutionStatus } from '@/types';
 
 const STATUS_CONFIG: Record<
@@ -45,6 +57,19 @@ const STATUS_CONFIG: Record<
   cancelled: { color: 'default', label: 'Cancelled' },
 };
 
+// Save generated content as a file
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 interface ExecutionControlsProps {
   params?: Record<string, unknown>;
 }
@@ -55,7 +80,10 @@ export function ExecutionControls({ params: externalParams }: ExecutionControlsP
   const status = useExecutionStatus();
   const scenario = useCurrentScenario();
   const stats = useExecutionStatistics();
+  const viewingRunId = useViewingRunId();
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [reportMenuAnchor, setReportMenuAnchor] = useState<HTMLElement | null>(null);
+  const [continueOnError, setContinueOnError] = useState(false);
 
   const {
     executeScenario,
@@ -85,7 +113,8 @@ export function ExecutionControls({ params: externalParams }: ExecutionControlsP
     if (!scenario) return;
     executeScenario(
       externalParams || context?.params || {},
-      context?.stepModeOverrides || {}
+      context?.stepModeOverrides || {},
+      { continueOnError }
     );
   };
 
@@ -94,6 +123,18 @@ export function ExecutionControls({ params: externalParams }: ExecutionControlsP
   const handleStop = () => stop();
   const handleReset = () => dispatch(resetExecution());
 
+  const handleDownloadReport = (format: 'junit' | 'html') => {
+    setReportMenuAnchor(null);
+    if (!scenario || !context) return;
+
+    const baseName = `${scenario.name}_${context.startedAt?.replace(/[:.]/g, '-') ?? context.id}`;
+    if (format === 'junit') {
+      downloadFile(generateJUnitReport(scenario, context), `${baseName}.junit.xml`, 'application/xml');
+    } else {
+      downloadFile(generateHtmlReport(scenario, context), `${baseName}.html`, 'text/html');
+    }
+  };
+
   const isIdle = status === 'idle';
   const isRunning = status === 'running';
   const isPaused = status === 'paused';
@@ -132,6 +173,11 @@ export function ExecutionControls({ params: externalParams }: ExecutionControlsP
                 ({stats.failedSteps} failed)
               </Typography>
             )}
+            {stats.warningSteps > 0 && (
+              <Typography variant="body2" color="warning.main" sx={{ fontSize: '0.75rem' }}>
+                ({stats.warningSteps} warnings)
+              </Typography>
+            )}
           </Stack>
         )}
 
@@ -144,11 +190,31 @@ export function ExecutionControls({ params: externalParams }: ExecutionControlsP
           </Typography>
         )}
 
+        {/* Environment */}
+        <EnvironmentSelector disabled={isRunning || isPaused || viewingRunId !== null} />
+
         {/* Spacer */}
         <Box sx={{ flexGrow: 1 }} />
 
         {/* Control Buttons - Compact */}
         <Stack direction="row" spacing={0.5} alignItems="center">
+          {/* Run-level failure policy for steps without their own */}
+          {isIdle && (
+            <Tooltip title="Record failed steps and keep running instead of stopping at the first failure">
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={continueOnError}
+                    onChange={(e) => setContinueOnError(e.target.checked)}
+                  />
+                }
+                label={<Typography variant="body2">Continue on error</Typography>}
+                sx={{ mr: 1 }}
+              />
+            </Tooltip>
+          )}
+
           {/* Start Button */}
           {isIdle && (
             <Button
@@ -209,8 +275,37 @@ export function ExecutionControls({ params: externalParams }: ExecutionControlsP
             </Tooltip>
           )}
 
-          {/* Reset Button */}
+          {/* Report Download */}
           {isCompleted && (
+            <>
+              <Tooltip title="Download report">
+                <IconButton
+                  onClick={(e) => setReportMenuAnchor(e.currentTarget)}
+                  size="small"
+                  aria-label="Download report"
+                >
+                  <ReportIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Menu
+                anchorEl={reportMenuAnchor}
+                open={Boolean(reportMenuAnchor)}
+                onClose={() => setReportMenuAnchor(null)}
+              >
+                <MenuItem onClick={() => handleDownloadReport('junit')}>
+                  <ListItemIcon><XmlIcon fontSize="small" /></ListItemIcon>
+                  <ListItemText primary="JUnit XML" secondary="For CI test dashboards" />
+                </MenuItem>
+                <MenuItem onClick={() => handleDownloadReport('html')}>
+                  <ListItemIcon><HtmlIcon fontSize="small" /></ListItemIcon>
+                  <ListItemText primary="HTML Report" secondary="Self-contained, for tickets" />
+                </MenuItem>
+              </Menu>
+            </>
+          )}
+
+          {/* Reset Button (a reopened past run is closed from its banner) */}
+          {isCompleted && !viewingRunId && (
             <Button
               variant="outlined"
               size="small"
@@ -4,7 +4,7 @@
  * Shows real-time status, duration, and results
  */
 
-import { useMemo, useEffect, useState } from 'react';
+import { Fragment, useMemo, useEffect, useState } from 'react';
 import {
   Box,
   Table,
@@ -17,6 +17,8 @@ import {
   Chip,
   Paper,
   Stack,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
 import {
   CheckCircle as SuccessIcon,
@@ -25,14 +27,23 @@ import {
   RadioButtonUnchecked as PendingIcon,
   RemoveCircle as SkippedIcon,
   HourglassEmpty as WaitingIcon,
+  Warning as WarningIcon,
   Loop as LoopIcon,
+  ForkRight as LaneIcon,
+  SubdirectoryArrowRight as SubStepIcon,
+  ExpandMore as ExpandMoreIcon,
 } from '@mui/icons-material';
 import type { Scenario, StepExecutionResult, Step, LoopIterationSnapshot } from '@/types';
+import { formatLoopPath, compareIterations } from '@/engine/iterations';
 
 interface ExecutionProgressTableProps {
   scenario: Scenario;
   stepResults?: Record<string, StepExecutionResult>;
+  /** Results of every step execution inside loops (iteration key -> result) */
+  iterationResults?: Record<string, StepExecutionResult>;
   onStepClick?: (stepId: string) => void;
+  /** Called when one loop iteration of a step is clicked */
+  onIterationClick?: (stepId: string, iterationKey: string) => void;
 }
 
 // Status icon and color mapping
@@ -50,6 +61,12 @@ const getStatusInfo = (status?: StepExecutionResult['status']) => {
         color: '#F44336',
         label: 'Failed',
       };
+    case 'warning':
+      return {
+        icon: <WarningIcon fontSize="small" />,
+        color: '#FFA000',
+        label: 'Warning',
+      };
     case 'running':
       return {
         icon: <RunningIcon fontSize="small" />,
@@ -91,8 +108,11 @@ const formatDuration = (ms?: number): string => {
   return `${(ms / 1000).toFixed(2)}s`;
 };
 
+// Step or lane result with timing information
+type TimedResult = Pick<StepExecutionResult, 'status' | 'startedAt' | 'completedAt' | 'response'>;
+
 // Calculate duration from timestamps or use provided duration
-const calculateDuration = (result?: StepExecutionResult): number | undefined => {
+const calculateDuration = (result?: TimedResult): number | undefined => {
   if (!result) return undefined;
 
   // If duration is provided, use it
@@ -119,6 +139,16 @@ const getStepTypeLabel = (step: Step): string => {
       return 'Loop';
     case 'group':
       return 'Group';
+    case 'setVariable':
+      return 'Set Variable';
+    case 'parallel':
+      return 'Parallel';
+    case 'poll':
+      return `Poll ${step.method}`;
+    case 'call':
+      return 'Call';
+    case 'script':
+      return 'Script';
   }
 };
 
@@ -131,9 +161,14 @@ const getResultSummary = (step: Step, result?: StepExecutionResult): string => {
     return result.error.message;
   }
 
-  // Request steps show status code
+  // Request steps show status code and assertion outcome
   if (step.type === 'request' && result.response) {
-    return `${result.response.status} ${result.response.statusText}`;
+    const statusText = `${result.response.status} ${result.response.statusText}`;
+    if (result.assertionResults && result.assertionResults.length > 0) {
+      const passed = result.assertionResults.filter(r => r.passed).length;
+      return `${statusText} · ${passed}/${result.assertionResults.length} assertions passed`;
+    }
+    return statusText;
   }
 
   // Condition steps show which branch was taken
@@ -143,10 +178,38 @@ const getResultSummary = (step: Step, result?: StepExecutionResult): string => {
   }
 
   // Loop steps show iteration count
+  if (step.type === 'loop' && result.loopExitReason) {
+    return `${result.iterations ?? 0} iterations · ${result.loopExitReason}`;
+  }
   if (step.type === 'loop' && result.iterations) {
     return `${result.currentIteration || 0}/${result.iterations} iterations`;
   }
 
+  // Poll steps show how many attempts it took
+  if (step.type === 'poll' && result.attempts) {
+    const last = result.attempts[result.attempts.length - 1];
+    return `${result.attempts.length} attempt(s)${last?.status ? ` · last ${last.status}` : ''}`;
+  }
+
+  // Parallel steps show how many lanes succeeded
+  if (step.type === 'parallel' && result.lanes) {
+    const succeeded = result.lanes.filter(lane => lane.status === 'success').length;
+    return `${succeeded}/${result.lanes.length} lanes succeeded`;
+  }
+
+  // Call steps show the called scenario and its step outcomes
+  if (step.type === 'call' && result.subScenario) {
+    const { scenarioName, steps } = result.subScenario;
+    const succeeded = steps.filter(s => s.status === 'success').length;
+    return `${scenarioName} · ${succeeded}/${steps.length} steps succeeded`;
+  }
+
+  // Script steps show the variables they set
+  if (step.type === 'script' && result.variables) {
+    const names = Object.keys(result.variables);
+    return names.length > 0 ? `Set ${names.join(', ')}` : 'No variables set';
+  }
+
   return '-';
 };
 
@@ -186,8 +249,12 @@ const formatLoopContext = (loopContext?: LoopIterationSnapshot[], scenario?: Sce
 export function ExecutionProgressTable({
   scenario,
   stepResults = {},
+  iterationResults = {},
   onStepClick,
+  onIterationClick,
 }: ExecutionProgressTableProps) {
+  const [expandedStepIds, setExpandedStepIds] = useState<Set<string>>(new Set());
+
   // Track current time for real-time duration updates
   // Use lazy initializer to avoid impure Date.now() call during render
   const [currentTime, setCurrentTime] = useState(() => Date.now());
@@ -234,8 +301,35 @@ export function ExecutionProgressTable({
     return steps;
   }, [scenario.steps]);
 
-  // Calculate real-time duration for running steps
-  const getRealTimeDuration = (result?: StepExecutionResult): number | undefined => {
+  // Group loop iteration results by step, in iteration order
+  const iterationsByStep = useMemo(() => {
+    const grouped = new Map<string, StepExecutionResult[]>();
+    Object.values(iterationResults).forEach(result => {
+      const list = grouped.get(result.stepId) ?? [];
+      list.push(result);
+      grouped.set(result.stepId, list);
+    });
+    grouped.forEach(list => list.sort(compareIterations));
+    return grouped;
+  }, [iterationResults]);
+
+  const getLoopName = (stepId: string) =>
+    scenario.steps.find(s => s.id === stepId)?.name || 'Loop';
+
+  const toggleExpanded = (stepId: string) => {
+    setExpandedStepIds(prev => {
+      const next = new Set(prev);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  };
+
+  // Calculate real-time duration for running steps and lanes
+  const getRealTimeDuration = (result?: TimedResult): number | undefined => {
     if (!result) return undefined;
 
     // Completed steps use calculated duration
@@ -275,64 +369,41 @@ export function ExecutionProgressTable({
             const statusInfo = getStatusInfo(result?.status);
             const duration = getRealTimeDuration(result);
             const isRunning = result?.status === 'running';
+            const iterations = iterationsByStep.get(step.id) ?? [];
+            const failedIterations = iterations.filter(r => r.status === 'failed').length;
+            const isExpanded = expandedStepIds.has(step.id);
 
             return (
-              <TableRow
-                key={step.id}
-                onClick={() => onStepClick?.(step.id)}
-                sx={{
-                  cursor: onStepClick ? 'pointer' : 'default',
-                  backgroundColor: isRunning ? 'rgba(33, 150, 243, 0.08)' : 'transparent',
-                  animation: isRunning ? 'pulse-row 2s ease-in-out infinite' : 'none',
-                  '@keyframes pulse-row': {
-                    '0%, 100%': { backgroundColor: 'rgba(33, 150, 243, 0.08)' },
-                    '50%': { backgroundColor: 'rgba(33, 150, 243, 0.15)' },
-                  },
-                  '&:hover': {
-                    backgroundColor: isRunning ? 'rgba(33, 150, 243, 0.15)' : 'rgba(0, 0, 0, 0.04)',
-                  },
-                  transition: 'background-color 0.2s',
-                }}
-              >
-                {/* Index */}
-                <TableCell>
-                  <Typography variant="body2" color="text.secondary">
-                    {index + 1}
-                  </Typography>
-                </TableCell>
-
-                {/* Step Name */}
-                <TableCell>
-                  <Typography
-                    variant="body2"
-                    sx={{
-                      fontWeight: isRunning ? 600 : 400,
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      whiteSpace: 'nowrap',
-                      maxWidth: 200,
-                      paddingLeft: step._depth && step._depth > 0 ? `${step._depth * 16}px` : 0,
-                    }}
-                  >
-                    {step._depth && step._depth > 0 && (
-                      <span
-                        style={{
-                          marginRight: '8px',
-                          fontSize: '0.8em',
-                          color: '#999',
-                        }}
-                      >
-                        ↳
-                      </span>
-                    )}
-                    {step.name}
-                  </Typography>
-                  {step.description && (
+              <Fragment key={step.id}>
+                <TableRow
+                  onClick={() => onStepClick?.(step.id)}
+                  sx={{
+                    cursor: onStepClick ? 'pointer' : 'default',
+                    backgroundColor: isRunning ? 'rgba(33, 150, 243, 0.08)' : 'transparent',
+                    animation: isRunning ? 'pulse-row 2s ease-in-out infinite' : 'none',
+                    '@keyframes pulse-row': {
+                      '0%, 100%': { backgroundColor: 'rgba(33, 150, 243, 0.08)' },
+                      '50%': { backgroundColor: 'rgba(33, 150, 243, 0.15)' },
+                    },
+                    '&:hover': {
+                      backgroundColor: isRunning ? 'rgba(33, 150, 243, 0.15)' : 'rgba(0, 0, 0, 0.04)',
+                    },
+                    transition: 'background-color 0.2s',
+                  }}
+                >
+                  {/* Index */}
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      {index + 1}
+                    </Typography>
+                  </TableCell>
+
+                  {/* Step Name */}
+                  <TableCell>
                     <Typography
-                      variant="caption"
-                      color="text.secondary"
+                      variant="body2"
                       sx={{
-                        display: 'block',
+                        fontWeight: isRunning ? 600 : 400,
                         overflow: 'hidden',
                         textOverflow: 'ellipsis',
                         whiteSpace: 'nowrap',
@@ -340,93 +411,356 @@ export function ExecutionProgressTable({
                         paddingLeft: step._depth && step._depth > 0 ? `${step._depth * 16}px` : 0,
                       }}
                     >
-                      {step.description}
+                      {step._depth && step._depth > 0 && (
+                        <span
+                          style={{
+                            marginRight: '8px',
+                            fontSize: '0.8em',
+                            color: '#999',
+                          }}
+                        >
+                          ↳
+                        </span>
+                      )}
+                      {step.name}
                     </Typography>
-                  )}
-                </TableCell>
-
-                {/* Type */}
-                <TableCell>
-                  <Chip
-                    label={getStepTypeLabel(step)}
-                    size="small"
-                    sx={{
-                      fontSize: '0.7rem',
-                      height: 20,
-                      backgroundColor:
-                        step.type === 'request'
-                          ? '#E3F2FD'
-                          : step.type === 'condition'
-                          ? '#FFF3E0'
-                          : step.type === 'loop'
-                          ? '#F3E5F5'
-                          : '#E8F5E9',
-                    }}
-                  />
-                </TableCell>
-
-                {/* Status */}
-                <TableCell>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                    <Box sx={{ color: statusInfo.color, display: 'flex', alignItems: 'center' }}>
-                      {statusInfo.icon}
+                    {iterations.length > 0 && (
+                      <Stack
+                        direction="row"
+                        spacing={0.5}
+                        alignItems="center"
+                        sx={{ paddingLeft: step._depth && step._depth > 0 ? `${step._depth * 16}px` : 0 }}
+                      >
+                        <Tooltip title={isExpanded ? 'Hide iterations' : 'Show every iteration'}>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleExpanded(step.id);
+                            }}
+                            sx={{ p: 0.25 }}
+                            aria-label="toggle iterations"
+                          >
+                            <ExpandMoreIcon
+                              sx={{
+                                fontSize: 16,
+                                transform: isExpanded ? 'rotate(180deg)' : 'rotate(0deg)',
+                                transition: 'transform 0.2s',
+                              }}
+                            />
+                          </IconButton>
+                        </Tooltip>
+                        <Typography variant="caption" color="text.secondary">
+                          {iterations.length} runs
+                        </Typography>
+                        {failedIterations > 0 && (
+                          <Typography variant="caption" color="error.main">
+                            · {failedIterations} failed
+                          </Typography>
+                        )}
+                      </Stack>
+                    )}
+                    {step.description && (
+                      <Typography
+                        variant="caption"
+                        color="text.secondary"
+                        sx={{
+                          display: 'block',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap',
+                          maxWidth: 200,
+                          paddingLeft: step._depth && step._depth > 0 ? `${step._depth * 16}px` : 0,
+                        }}
+                      >
+                        {step.description}
+                      </Typography>
+                    )}
+                  </TableCell>
+
+                  {/* Type */}
+                  <TableCell>
+                    <Chip
+                      label={getStepTypeLabel(step)}
+                      size="small"
+                      sx={{
+                        fontSize: '0.7rem',
+                        height: 20,
+                        backgroundColor:
+                          step.type === 'request'
+                            ? '#E3F2FD'
+                            : step.type === 'condition'
+                            ? '#FFF3E0'
+                            : step.type === 'loop'
+                            ? '#F3E5F5'
+                            : step.type === 'parallel'
+                            ? '#EDE7F6'
+                            : step.type === 'poll'
+                            ? '#FCE4EC'
+                            : step.type === 'call'
+                            ? '#EFEBE9'
+                            : '#E8F5E9',
+                      }}
+                    />
+                  </TableCell>
+
+                  {/* Status */}
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <Box sx={{ color: statusInfo.color, display: 'flex', alignItems: 'center' }}>
+                        {statusInfo.icon}
+                      </Box>
+                      <Typography
+                        variant="body2"
+                        sx={{
+                          color: statusInfo.color,
+                          fontWeight: isRunning ? 600 : 400,
+                          fontSize: '0.8rem',
+                        }}
+                      >
+                        {statusInfo.label}
+                      </Typography>
                     </Box>
+                  </TableCell>
+
+                  {/* Loop Context */}
+                  <TableCell>
+                    {formatLoopContext(result?.loopContext, scenario)}
+                  </TableCell>
+
+                  {/* Duration */}
+                  <TableCell>
                     <Typography
                       variant="body2"
                       sx={{
-                        color: statusInfo.color,
+                        fontFamily: 'monospace',
+                        fontSize: '0.75rem',
+                        color: isRunning ? 'primary.main' : 'text.secondary',
                         fontWeight: isRunning ? 600 : 400,
-                        fontSize: '0.8rem',
                       }}
                     >
-                      {statusInfo.label}
+                      {formatDuration(duration)}
+                      {isRunning && '...'}
+                    </Typography>
+                  </TableCell>
+
+                  {/* Result */}
+                  <TableCell>
+                    <Typography
+                      variant="body2"
+                      sx={{
+                        fontSize: '0.75rem',
+                        color:
+                          result?.status === 'failed'
+                            ? 'error.main'
+                            : result?.status === 'success'
+                            ? 'success.main'
+                            : 'text.secondary',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                        maxWidth: 200,
+                      }}
+                    >
+                      {getResultSummary(step, result)}
                     </Typography>
-                  </Box>
-                </TableCell>
-
-                {/* Loop Context */}
-                <TableCell>
-                  {formatLoopContext(result?.loopContext, scenario)}
-                </TableCell>
-
-                {/* Duration */}
-                <TableCell>
-                  <Typography
-                    variant="body2"
-                    sx={{
-                      fontFamily: 'monospace',
-                      fontSize: '0.75rem',
-                      color: isRunning ? 'primary.main' : 'text.secondary',
-                      fontWeight: isRunning ? 600 : 400,
-                    }}
-                  >
-                    {formatDuration(duration)}
-                    {isRunning && '...'}
-                  </Typography>
-                </TableCell>
-
-                {/* Result */}
-                <TableCell>
-                  <Typography
-                    variant="body2"
-                    sx={{
-                      fontSize: '0.75rem',
-                      color:
-                        result?.status === 'failed'
-                          ? 'error.main'
-                          : result?.status === 'success'
-                          ? 'success.main'
-                          : 'text.secondary',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      whiteSpace: 'nowrap',
-                      maxWidth: 200,
-                    }}
-                  >
-                    {getResultSummary(step, result)}
-                  </Typography>
-                </TableCell>
-              </TableRow>
+                  </TableCell>
+                </TableRow>
+
+                {/* Parallel lanes */}
+                {result?.lanes?.map(lane => {
+                  const laneStatus = getStatusInfo(lane.status);
+
+                  return (
+                    <TableRow key={lane.laneId} sx={{ backgroundColor: 'action.hover' }}>
+                      <TableCell />
+                      <TableCell colSpan={2}>
+                        <Box
+                          sx={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 0.5,
+                            paddingLeft: `${((step._depth ?? 0) + 1) * 16}px`,
+                          }}
+                        >
+                          <LaneIcon sx={{ fontSize: 14, color: 'text.secondary' }} />
+                          <Typography variant="body2" sx={{ fontSize: '0.75rem' }} noWrap>
+                            {lane.label}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                          <Box sx={{ color: laneStatus.color, display: 'flex', alignItems: 'center' }}>
+                            {laneStatus.icon}
+                          </Box>
+                          <Typography variant="body2" sx={{ color: laneStatus.color, fontSize: '0.8rem' }}>
+                            {laneStatus.label}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell />
+                      <TableCell>
+                        <Typography
+                          variant="body2"
+                          sx={{ fontFamily: 'monospace', fontSize: '0.75rem', color: 'text.secondary' }}
+                        >
+                          {formatDuration(getRealTimeDuration(lane))}
+                          {lane.status === 'running' && '...'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography
+                          variant="body2"
+                          sx={{
+                            fontSize: '0.75rem',
+                            color: lane.status === 'failed' ? 'error.main' : 'text.secondary',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                            maxWidth: 200,
+                          }}
+                        >
+                          {lane.error?.message ?? '-'}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+
+                {/* Steps of the called scenario */}
+                {result?.subScenario?.steps.map(subStep => {
+                  const subStatus = getStatusInfo(subStep.status);
+
+                  return (
+                    <TableRow key={`${step.id}/${subStep.stepId}`} sx={{ backgroundColor: 'action.hover' }}>
+                      <TableCell />
+                      <TableCell>
+                        <Box
+                          sx={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 0.5,
+                            paddingLeft: `${((step._depth ?? 0) + 1) * 16}px`,
+                          }}
+                        >
+                          <SubStepIcon sx={{ fontSize: 14, color: 'text.secondary' }} />
+                          <Typography variant="body2" sx={{ fontSize: '0.75rem' }} noWrap>
+                            {subStep.name}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption" color="text.secondary">
+                          {subStep.type}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                          <Box sx={{ color: subStatus.color, display: 'flex', alignItems: 'center' }}>
+                            {subStatus.icon}
+                          </Box>
+                          <Typography variant="body2" sx={{ color: subStatus.color, fontSize: '0.8rem' }}>
+                            {subStatus.label}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption" color="text.secondary" noWrap>
+                          {result.subScenario?.scenarioName}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography
+                          variant="body2"
+                          sx={{ fontFamily: 'monospace', fontSize: '0.75rem', color: 'text.secondary' }}
+                        >
+                          {formatDuration(getRealTimeDuration(subStep))}
+                          {subStep.status === 'running' && '...'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography
+                          variant="body2"
+                          sx={{
+                            fontSize: '0.75rem',
+                            color: subStep.status === 'failed' ? 'error.main' : 'text.secondary',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                            maxWidth: 200,
+                          }}
+                        >
+                          {subStep.error?.message ?? '-'}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+
+                {/* Loop iterations */}
+                {isExpanded && iterations.map(iteration => {
+                  const iterationStatus = getStatusInfo(iteration.status);
+                  const iterationKey = iteration.iterationKey!;
+
+                  return (
+                    <TableRow
+                      key={iterationKey}
+                      onClick={() => onIterationClick?.(step.id, iterationKey)}
+                      sx={{
+                        cursor: onIterationClick ? 'pointer' : 'default',
+                        backgroundColor: 'action.hover',
+                        '&:hover': { backgroundColor: 'action.selected' },
+                      }}
+                    >
+                      <TableCell />
+                      <TableCell colSpan={3}>
+                        <Box
+                          sx={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 0.5,
+                            paddingLeft: `${((step._depth ?? 0) + 1) * 16}px`,
+                          }}
+                        >
+                          <Box sx={{ color: iterationStatus.color, display: 'flex', alignItems: 'center' }}>
+                            {iterationStatus.icon}
+                          </Box>
+                          <Typography variant="body2" sx={{ fontSize: '0.75rem' }} noWrap>
+                            {formatLoopPath(iteration.loopContext, getLoopName)}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        {formatLoopContext(iteration.loopContext, scenario)}
+                      </TableCell>
+                      <TableCell>
+                        <Typography
+                          variant="body2"
+                          sx={{ fontFamily: 'monospace', fontSize: '0.75rem', color: 'text.secondary' }}
+                        >
+                          {formatDuration(getRealTimeDuration(iteration))}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography
+                          variant="body2"
+                          sx={{
+                            fontSize: '0.75rem',
+                            color: iteration.status === 'failed' ? 'error.main' : 'text.secondary',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                            maxWidth: 200,
+                          }}
+                        >
+                          {getResultSummary(step, iteration)}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </Fragment>
             );
           })}
         </TableBody>
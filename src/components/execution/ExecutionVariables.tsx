@@ -0,0 +1,92 @@
+/**
+ * ExecutionVariables Component
+ * Shows the current set of named scenario variables (${vars.name}) during execution
+ */
+
+import { useMemo } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { DataObject as VariablesIcon } from '@mui/icons-material';
+import { useExecutionVariables, useStepResults, useCurrentSteps } from '@/store/hooks';
+import { EmptyState } from '@/components/common/EmptyState';
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+export function ExecutionVariables() {
+  const variables = useExecutionVariables();
+  const stepResults = useStepResults();
+  const steps = useCurrentSteps();
+
+  // Name of the step that most recently assigned each variable
+  const assignedBy = useMemo(() => {
+    const byName: Record<string, { stepName: string; completedAt: string }> = {};
+    for (const result of Object.values(stepResults)) {
+      if (!result.variables || !result.completedAt) continue;
+      const stepName = steps.find((s) => s.id === result.stepId)?.name ?? result.stepId;
+      for (const name of Object.keys(result.variables)) {
+        const current = byName[name];
+        if (!current || current.completedAt < result.completedAt) {
+          byName[name] = { stepName, completedAt: result.completedAt };
+        }
+      }
+    }
+    return byName;
+  }, [stepResults, steps]);
+
+  const names = Object.keys(variables).sort();
+
+  if (names.length === 0) {
+    return (
+      <EmptyState
+        icon={VariablesIcon}
+        title="No Variables"
+        message="Variables extracted from responses or assigned by Set Variable steps appear here as ${vars.name}."
+      />
+    );
+  }
+
+  return (
+    <Box>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 'medium' }}>Name</TableCell>
+            <TableCell sx={{ fontWeight: 'medium' }}>Value</TableCell>
+            <TableCell sx={{ fontWeight: 'medium' }}>Set By</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {names.map((name) => (
+            <TableRow key={name}>
+              <TableCell sx={{ fontFamily: 'monospace', whiteSpace: 'nowrap' }}>{name}</TableCell>
+              <TableCell>
+                <Typography
+                  variant="body2"
+                  sx={{ fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all', maxHeight: 120, overflow: 'auto' }}
+                >
+                  {formatValue(variables[name])}
+                </Typography>
+              </TableCell>
+              <TableCell>
+                <Typography variant="caption" color="text.secondary">
+                  {assignedBy[name]?.stepName ?? '-'}
+                </Typography>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+}
@@ -2,9 +2,10 @@
  * LoopIterationIndicator Component
  * Compact component showing current loop iteration with progress bar
  * Displays iteration counter like "3/10" with visual progress indicator
+ * Loops with concurrent iterations also show which iterations are in flight
  */
 
-import { Box, Chip, LinearProgress, Stack, Typography } from '@mui/material';
+import { Box, Chip, LinearProgress, Stack, Tooltip, Typography } from '@mui/material';
 import { Loop as LoopIcon } from '@mui/icons-material';
 import { useExecutionContext } from '@/store/hooks';
 import type { LoopIterationSnapshot } from '@/types/execution';
@@ -61,6 +62,9 @@ export function LoopIterationIndicator({
   // Indentation for nested loops
   const indentPx = loopState.depth * 8;
 
+  // Running iterations of concurrent loops (currentIteration counts completed ones)
+  const inFlight = loopState.inFlight ?? [];
+
   return (
     <Box sx={{ pl: `${indentPx}px` }}>
       <Stack spacing={showProgressBar ? 0.5 : 0}>
@@ -99,6 +103,24 @@ export function LoopIterationIndicator({
           }}
         />
 
+        {inFlight.length > 0 && (
+          <Tooltip title={`Running: ${inFlight.map((n) => `#${n}`).join(', ')}`}>
+            <Chip
+              label={`${inFlight.length} in flight`}
+              size="small"
+              variant="outlined"
+              color={chipColor}
+              sx={{
+                height: chipHeight - 6,
+                fontSize: '0.65rem',
+                '& .MuiChip-label': {
+                  px: 0.75,
+                },
+              }}
+            />
+          </Tooltip>
+        )}
+
         {showProgressBar && (
           <LinearProgress
             variant="determinate"
@@ -2,10 +2,15 @@
  * NestedLoopBreadcrumb Component
  * Shows the full loop hierarchy as a breadcrumb trail
  * Example: "Loop A [2/5] > Loop B [1/3] > Loop C [7/10]"
+ * Call steps running a sub-scenario appear as "Step → Scenario"
  */
 
 import { Breadcrumbs, Chip, Typography, Box } from '@mui/material';
-import { NavigateNext as ChevronIcon, Loop as LoopIcon } from '@mui/icons-material';
+import {
+  NavigateNext as ChevronIcon,
+  Loop as LoopIcon,
+  CallMade as CallIcon,
+} from '@mui/icons-material';
 import { useExecutionContext, useCurrentScenario } from '@/store/hooks';
 import type { LoopIterationSnapshot } from '@/types/execution';
 
@@ -90,6 +95,7 @@ export function NestedLoopBreadcrumb({
 
           const stepName = getStepName(loop.stepId);
           const iterationText = `${loop.currentIteration}/${loop.totalIterations}`;
+          const isCall = loop.scenarioName !== undefined;
 
           // Color based on depth
           const depthColors = [
@@ -105,7 +111,7 @@ export function NestedLoopBreadcrumb({
           return (
             <Chip
               key={`${loop.stepId}-${originalIndex}`}
-              icon={<LoopIcon sx={{ fontSize: 14 }} />}
+              icon={isCall ? <CallIcon sx={{ fontSize: 14 }} /> : <LoopIcon sx={{ fontSize: 14 }} />}
               label={
                 <Typography
                   variant="caption"
@@ -114,7 +120,11 @@ export function NestedLoopBreadcrumb({
                     fontWeight: 500,
                   }}
                 >
-                  {stepName} <Box component="span" sx={{ fontFamily: 'monospace' }}>[{iterationText}]</Box>
+                  {isCall ? (
+                    <>{stepName} → {loop.scenarioName}</>
+                  ) : (
+                    <>{stepName} <Box component="span" sx={{ fontFamily: 'monospace' }}>[{iterationText}]</Box></>
+                  )}
                 </Typography>
               }
               size="small"
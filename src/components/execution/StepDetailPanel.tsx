@@ -16,15 +16,21 @@ import {
   Table,
   TableBody,
   TableCell,
+  TableHead,
   TableRow,
   IconButton,
   Collapse,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import {
   Close as CloseIcon,
   CheckCircle as SuccessIcon,
   Error as ErrorIcon,
   HourglassEmpty as WaitingIcon,
+  Warning as WarningIcon,
   Loop as RunningIcon,
   RemoveCircle as SkippedIcon,
   Cancel as CancelledIcon,
@@ -34,9 +40,15 @@ import {
 import { useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import type { Step, Scenario, StepExecutionResult, RequestStep, ConditionStep, LoopStep, GroupStep } from '@/types';
+import type { Step, Scenario, StepExecutionResult, RequestAttempt, RequestStep, ConditionStep, LoopStep, GroupStep, SetVariableStep, ParallelStep, PollStep, CallStep, ScriptStep } from '@/types';
 import FlowCanvas from '@/components/flow/FlowCanvas';
 import { NestedLoopBreadcrumb } from '@/components/execution/NestedLoopBreadcrumb';
+import { AssertionResultsList } from '@/components/execution/AssertionResultsList';
+import { CopyRequestMenu } from '@/components/execution/CopyRequestMenu';
+import { formatLoopPath } from '@/engine/iterations';
+import { formatJoinPolicy } from '@/engine/parallel';
+import { formatPollConfig } from '@/engine/polling';
+import { describeCondition } from '@/engine/conditionEvaluator';
 
 // Helper function to get step type emoji/icon
 function getStepTypeIcon(step: Step) {
@@ -49,6 +61,16 @@ function getStepTypeIcon(step: Step) {
       return '🔁';
     case 'group':
       return '📦';
+    case 'setVariable':
+      return '🏷️';
+    case 'parallel':
+      return '⑂';
+    case 'poll':
+      return '⏱️';
+    case 'call':
+      return '↗️';
+    case 'script':
+      return '📜';
     default:
       return '📋';
   }
@@ -65,6 +87,16 @@ function getStepTypeLabel(step: Step) {
       return 'Loop Step';
     case 'group':
       return 'Group Step';
+    case 'setVariable':
+      return 'Set Variable Step';
+    case 'parallel':
+      return 'Parallel Step';
+    case 'poll':
+      return 'Poll Step';
+    case 'call':
+      return 'Call Step';
+    case 'script':
+      return 'Script Step';
     default:
       return 'Step';
   }
@@ -77,6 +109,8 @@ function getStatusIcon(status: StepExecutionResult['status']) {
       return <SuccessIcon color="success" />;
     case 'failed':
       return <ErrorIcon color="error" />;
+    case 'warning':
+      return <WarningIcon color="warning" />;
     case 'running':
       return <RunningIcon color="primary" />;
     case 'waiting':
@@ -100,6 +134,7 @@ function getStatusColor(status: StepExecutionResult['status']) {
     case 'running':
       return 'primary';
     case 'waiting':
+    case 'warning':
       return 'warning';
     case 'skipped':
     case 'cancelled':
@@ -207,6 +242,61 @@ function InfoTable({ rows }: InfoTableProps) {
   );
 }
 
+interface AttemptHistoryProps {
+  attempts: RequestAttempt[];
+}
+
+function AttemptHistory({ attempts }: AttemptHistoryProps) {
+  // Poll attempts record whether the until condition held
+  const showCondition = attempts.some((attempt) => attempt.conditionMet !== undefined);
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell sx={{ fontWeight: 'medium' }}>#</TableCell>
+          <TableCell sx={{ fontWeight: 'medium' }}>Started</TableCell>
+          <TableCell sx={{ fontWeight: 'medium' }}>Status</TableCell>
+          <TableCell sx={{ fontWeight: 'medium' }}>Duration</TableCell>
+          {showCondition && <TableCell sx={{ fontWeight: 'medium' }}>Condition</TableCell>}
+          <TableCell sx={{ fontWeight: 'medium' }}>{showCondition ? 'Next Delay' : 'Retry Delay'}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {attempts.map((attempt) => (
+          <TableRow key={attempt.attempt}>
+            <TableCell>{attempt.attempt}</TableCell>
+            <TableCell sx={{ fontFamily: 'monospace' }}>{formatTime(attempt.startedAt)}</TableCell>
+            <TableCell>
+              {attempt.error ? (
+                <Typography variant="body2" color="error" sx={{ wordBreak: 'break-word' }}>
+                  {attempt.error}
+                </Typography>
+              ) : (
+                <Chip label={attempt.status} size="small" color="success" />
+              )}
+            </TableCell>
+            <TableCell>{formatDuration(attempt.duration)}</TableCell>
+            {showCondition && (
+              <TableCell>
+                {attempt.conditionMet === undefined ? '-' : (
+                  <Chip
+                    label={attempt.conditionMet ? 'met' : 'not met'}
+                    size="small"
+                    color={attempt.conditionMet ? 'success' : 'default'}
+                    variant="outlined"
+                  />
+                )}
+              </TableCell>
+            )}
+            <TableCell>{attempt.retryDelayMs !== undefined ? formatDuration(attempt.retryDelayMs) : '-'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
 interface RequestTabProps {
   step: RequestStep;
   result?: StepExecutionResult;
@@ -251,6 +341,47 @@ function RequestTab({ step, result }: RequestTabProps) {
   );
 }
 
+interface PollTabProps {
+  step: PollStep;
+  result?: StepExecutionResult;
+}
+
+function PollTab({ step, result }: PollTabProps) {
+  return (
+    <Stack spacing={3}>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Polling
+        </Typography>
+        <InfoTable
+          rows={[
+            { label: 'Method', value: <Chip label={step.method} size="small" color="primary" /> as React.ReactNode },
+            { label: 'Endpoint', value: <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{step.endpoint}</Typography> as React.ReactNode },
+            ...(result?.request ? [
+              { label: 'Full URL', value: <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{result.request.url}</Typography> as React.ReactNode }
+            ] : []),
+            { label: 'Schedule', value: <Typography variant="body2">{formatPollConfig(step.poll)}</Typography> as React.ReactNode },
+            { label: 'Response Alias', value: <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{step.responseAlias || step.id}</Typography> as React.ReactNode },
+          ]}
+        />
+      </Box>
+
+      <Divider />
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Attempts ({result?.attempts?.length ?? 0})
+        </Typography>
+        {result?.attempts && result.attempts.length > 0 ? (
+          <AttemptHistory attempts={result.attempts} />
+        ) : (
+          <Alert severity="info">No attempts yet.</Alert>
+        )}
+      </Box>
+    </Stack>
+  );
+}
+
 interface ResponseTabProps {
   result?: StepExecutionResult;
 }
@@ -293,6 +424,22 @@ function ResponseTab({ result }: ResponseTabProps) {
         />
       </Box>
 
+      {/* Assertion Results */}
+      {result.assertionResults && result.assertionResults.length > 0 ? (
+        <>
+          <Divider />
+          <AssertionResultsList results={result.assertionResults} />
+        </>
+      ) : null}
+
+      {/* Extracted Variables */}
+      {result.variables && Object.keys(result.variables).length > 0 ? (
+        <>
+          <Divider />
+          <JsonDisplay data={result.variables} label="Extracted Variables" />
+        </>
+      ) : null}
+
       {/* Response Headers */}
       {response.headers && Object.keys(response.headers).length > 0 ? (
         <>
@@ -380,7 +527,37 @@ function LoopTab({ step, result }: LoopTabProps) {
                 ) as React.ReactNode
               }
             ] : []),
+            ...(result?.loopExitReason ? [
+              {
+                label: 'Exit Reason',
+                value: (
+                  <Typography variant="body2">
+                    {result.loopExitReason} after {result.iterations ?? 0} iterations
+                  </Typography>
+                ) as React.ReactNode
+              }
+            ] : []),
             { label: 'Child Steps', value: <Typography variant="body2">{step.stepIds.length} steps</Typography> as React.ReactNode },
+            ...(step.breakCondition ? [
+              {
+                label: 'Break When',
+                value: (
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                    {describeCondition(step.breakCondition)}
+                  </Typography>
+                ) as React.ReactNode
+              }
+            ] : []),
+            ...(step.continueCondition ? [
+              {
+                label: 'Continue When',
+                value: (
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                    {describeCondition(step.continueCondition)}
+                  </Typography>
+                ) as React.ReactNode
+              }
+            ] : []),
           ]}
         />
       </Box>
@@ -412,6 +589,244 @@ function LoopTab({ step, result }: LoopTabProps) {
   );
 }
 
+interface SetVariableTabProps {
+  step: SetVariableStep;
+  result?: StepExecutionResult;
+}
+
+function SetVariableTab({ step, result }: SetVariableTabProps) {
+  return (
+    <Stack spacing={3}>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Assignments
+        </Typography>
+        {step.assignments.length === 0 ? (
+          <Alert severity="info">No assignments defined.</Alert>
+        ) : (
+          <InfoTable
+            rows={step.assignments.map((assignment) => ({
+              label: assignment.name || '(unnamed)',
+              value: (
+                <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all' }}>
+                  {typeof assignment.value === 'string' ? assignment.value : JSON.stringify(assignment.value)}
+                </Typography>
+              ) as React.ReactNode,
+            }))}
+          />
+        )}
+      </Box>
+
+      {result?.variables && (
+        <>
+          <Divider />
+          <JsonDisplay data={result.variables} label="Assigned Values" />
+        </>
+      )}
+    </Stack>
+  );
+}
+
+interface ParallelTabProps {
+  step: ParallelStep;
+  result?: StepExecutionResult;
+  scenario: Scenario;
+}
+
+function ParallelTab({ step, result, scenario }: ParallelTabProps) {
+  return (
+    <Stack spacing={3}>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Join Configuration
+        </Typography>
+        <InfoTable
+          rows={[
+            { label: 'Join Policy', value: <Chip label={formatJoinPolicy(step)} size="small" color="secondary" /> as React.ReactNode },
+            { label: 'Max Concurrency', value: <Typography variant="body2">{step.maxConcurrency ?? 'Unlimited'}</Typography> as React.ReactNode },
+          ]}
+        />
+      </Box>
+
+      <Divider />
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Lanes
+        </Typography>
+        {step.lanes.length === 0 ? (
+          <Alert severity="info">No lanes defined.</Alert>
+        ) : (
+          <Stack spacing={1.5}>
+            {step.lanes.map((lane) => {
+              const laneResult = result?.lanes?.find(l => l.laneId === lane.id);
+              const firstStep = scenario.steps.find(s => s.id === lane.nextStepId);
+              return (
+                <Paper key={lane.id} variant="outlined" sx={{ p: 1.5 }}>
+                  <Stack spacing={0.5}>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Typography variant="body2" fontWeight="medium" sx={{ flex: 1 }}>
+                        {lane.label}
+                      </Typography>
+                      {laneResult && (
+                        <Chip
+                          label={laneResult.status}
+                          size="small"
+                          color={getStatusColor(laneResult.status)}
+                        />
+                      )}
+                    </Stack>
+                    <Typography variant="caption" color="text.secondary">
+                      First step: {firstStep?.name ?? 'None'}
+                    </Typography>
+                    {laneResult?.error && (
+                      <Typography variant="caption" color="error.main">
+                        {laneResult.error.message}
+                      </Typography>
+                    )}
+                  </Stack>
+                </Paper>
+              );
+            })}
+          </Stack>
+        )}
+      </Box>
+    </Stack>
+  );
+}
+
+interface CallTabProps {
+  step: CallStep;
+  result?: StepExecutionResult;
+}
+
+function CallTab({ step, result }: CallTabProps) {
+  const subScenario = result?.subScenario;
+
+  return (
+    <Stack spacing={3}>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Called Scenario
+        </Typography>
+        <InfoTable
+          rows={[
+            { label: 'Scenario', value: <Typography variant="body2">{subScenario?.scenarioName ?? step.scenarioId}</Typography> as React.ReactNode },
+            ...(subScenario ? [
+              { label: 'Run Status', value: <Chip label={subScenario.status} size="small" color="secondary" /> as React.ReactNode },
+            ] : []),
+            { label: 'Outputs', value: <Typography variant="body2">{step.outputs.map(o => o.name).join(', ') || 'None'}</Typography> as React.ReactNode },
+          ]}
+        />
+      </Box>
+
+      {subScenario && (
+        <>
+          <Divider />
+          <JsonDisplay data={subScenario.params} label="Inputs" />
+        </>
+      )}
+
+      {result?.variables && (
+        <>
+          <Divider />
+          <JsonDisplay data={result.variables} label="Output Values" />
+        </>
+      )}
+
+      <Divider />
+
+      <Box>
+        <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Steps
+        </Typography>
+        {!subScenario || subScenario.steps.length === 0 ? (
+          <Alert severity="info">The called scenario has not run any steps yet.</Alert>
+        ) : (
+          <Stack spacing={1.5}>
+            {subScenario.steps.map((subStep) => (
+              <Paper key={subStep.stepId} variant="outlined" sx={{ p: 1.5 }}>
+                <Stack spacing={0.5}>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Typography variant="body2" fontWeight="medium" sx={{ flex: 1 }}>
+                      {subStep.name}
+                    </Typography>
+                    <Chip label={subStep.type} size="small" variant="outlined" />
+                    <Chip label={subStep.status} size="small" color={getStatusColor(subStep.status)} />
+                  </Stack>
+                  {subStep.error && (
+                    <Typography variant="caption" color="error.main">
+                      {subStep.error.message}
+                    </Typography>
+                  )}
+                </Stack>
+              </Paper>
+            ))}
+          </Stack>
+        )}
+      </Box>
+    </Stack>
+  );
+}
+
+interface ScriptTabProps {
+  step: ScriptStep;
+  result?: StepExecutionResult;
+}
+
+const CONSOLE_LEVEL_COLORS: Record<string, string> = {
+  warn: 'warning.main',
+  error: 'error.main',
+  debug: 'text.disabled',
+};
+
+function ScriptTab({ step, result }: ScriptTabProps) {
+  return (
+    <Stack spacing={3}>
+      <JsonDisplay data={step.code} label="Script" language="javascript" />
+
+      {result?.scriptConsole && (
+        <>
+          <Divider />
+          <Box>
+            <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+              Console ({result.scriptConsole.length})
+            </Typography>
+            {result.scriptConsole.length === 0 ? (
+              <Alert severity="info">No console output.</Alert>
+            ) : (
+              <Paper variant="outlined" sx={{ p: 1.5, maxHeight: 300, overflow: 'auto' }}>
+                {result.scriptConsole.map((entry, index) => (
+                  <Typography
+                    key={index}
+                    variant="body2"
+                    sx={{
+                      fontFamily: 'monospace',
+                      fontSize: '0.8rem',
+                      whiteSpace: 'pre-wrap',
+                      wordBreak: 'break-all',
+                      color: CONSOLE_LEVEL_COLORS[entry.level] ?? 'text.primary',
+                    }}
+                  >
+                    {entry.message}
+                  </Typography>
+                ))}
+              </Paper>
+            )}
+          </Box>
+        </>
+      )}
+
+      {result?.variables && (
+        <>
+          <Divider />
+          <JsonDisplay data={result.variables} label="Returned Variables" />
+        </>
+      )}
+    </Stack>
+  );
+}
+
 interface GroupTabProps {
   step: GroupStep;
   scenario: Scenario;
@@ -534,6 +949,18 @@ function LogsTab({ result }: LogsTabProps) {
         />
       </Box>
 
+      {result.attempts && result.attempts.length > 0 ? (
+        <>
+          <Divider />
+          <Box>
+            <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+              Attempts ({result.attempts.length})
+            </Typography>
+            <AttemptHistory attempts={result.attempts} />
+          </Box>
+        </>
+      ) : null}
+
       {result.error ? (
         <>
           <Divider />
@@ -559,11 +986,33 @@ export interface StepDetailPanelProps {
   stepResult?: StepExecutionResult;
   scenario: Scenario;
   onClose?: () => void;
+  /** Results of every execution of this step inside loops */
+  iterations?: StepExecutionResult[];
+  /** Iteration shown in the panel (null = latest execution) */
+  selectedIterationKey?: string | null;
+  /** Called when another iteration is chosen */
+  onIterationChange?: (iterationKey: string | null) => void;
+  /** Parameter values used to preview the request of an unexecuted step */
+  params?: Record<string, unknown>;
 }
 
-export function StepDetailPanel({ step, stepResult, scenario, onClose }: StepDetailPanelProps) {
+const LATEST_ITERATION = '__latest__';
+
+export function StepDetailPanel({
+  step,
+  stepResult,
+  scenario,
+  onClose,
+  iterations = [],
+  selectedIterationKey = null,
+  onIterationChange,
+  params,
+}: StepDetailPanelProps) {
   const [activeTab, setActiveTab] = useState(0);
 
+  const getLoopName = (stepId: string) =>
+    scenario.steps.find(s => s.id === stepId)?.name || 'Loop';
+
   // Calculate duration
   const duration = stepResult?.startedAt && stepResult?.completedAt
     ? new Date(stepResult.completedAt).getTime() - new Date(stepResult.startedAt).getTime()
@@ -583,6 +1032,17 @@ export function StepDetailPanel({ step, stepResult, scenario, onClose }: StepDet
   } else if (step.type === 'group') {
     tabs.push({ label: 'Group Info', value: 0 });
     tabs.push({ label: 'Sub Graph', value: 1 });
+  } else if (step.type === 'setVariable') {
+    tabs.push({ label: 'Variables', value: 0 });
+  } else if (step.type === 'parallel') {
+    tabs.push({ label: 'Lanes', value: 0 });
+  } else if (step.type === 'poll') {
+    tabs.push({ label: 'Polling', value: 0 });
+    tabs.push({ label: 'Response', value: 1 });
+  } else if (step.type === 'call') {
+    tabs.push({ label: 'Sub-scenario', value: 0 });
+  } else if (step.type === 'script') {
+    tabs.push({ label: 'Script', value: 0 });
   }
 
   tabs.push({ label: 'Logs', value: tabs.length });
@@ -622,6 +1082,9 @@ export function StepDetailPanel({ step, stepResult, scenario, onClose }: StepDet
           </Stack>
 
           <Stack direction="row" spacing={1} alignItems="center">
+            {step.type === 'request' && (
+              <CopyRequestMenu request={stepResult?.request} step={step} params={params} />
+            )}
             {stepResult && (
               <Stack direction="row" spacing={1} alignItems="center">
                 {getStatusIcon(stepResult.status)}
@@ -668,6 +1131,32 @@ export function StepDetailPanel({ step, stepResult, scenario, onClose }: StepDet
             </Stack>
           )}
 
+          {/* Iteration Selector */}
+          {iterations.length > 0 && onIterationChange && (
+            <FormControl size="small" fullWidth sx={{ mt: 1.5 }}>
+              <InputLabel>Iteration</InputLabel>
+              <Select
+                value={selectedIterationKey ?? LATEST_ITERATION}
+                label="Iteration"
+                onChange={(e) =>
+                  onIterationChange(e.target.value === LATEST_ITERATION ? null : e.target.value)
+                }
+              >
+                <MenuItem value={LATEST_ITERATION}>Latest execution</MenuItem>
+                {iterations.map(iteration => (
+                  <MenuItem key={iteration.iterationKey} value={iteration.iterationKey}>
+                    <Stack direction="row" spacing={1} alignItems="center" sx={{ width: '100%' }}>
+                      {getStatusIcon(iteration.status)}
+                      <Typography variant="body2" noWrap sx={{ flex: 1 }}>
+                        {formatLoopPath(iteration.loopContext, getLoopName)}
+                      </Typography>
+                    </Stack>
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
           {/* Loop Context Section */}
           {stepResult?.loopContext && stepResult.loopContext.length > 0 && (
             <Box sx={{ mt: 1, pt: 1, borderTop: 1, borderColor: 'divider' }}>
@@ -745,6 +1234,64 @@ export function StepDetailPanel({ step, stepResult, scenario, onClose }: StepDet
             </TabPanel>
           </>
         )}
+
+        {step.type === 'setVariable' && (
+          <>
+            <TabPanel value={activeTab} index={0}>
+              <SetVariableTab step={step as SetVariableStep} result={stepResult} />
+            </TabPanel>
+            <TabPanel value={activeTab} index={1}>
+              <LogsTab result={stepResult} />
+            </TabPanel>
+          </>
+        )}
+
+        {step.type === 'parallel' && (
+          <>
+            <TabPanel value={activeTab} index={0}>
+              <ParallelTab step={step as ParallelStep} result={stepResult} scenario={scenario} />
+            </TabPanel>
+            <TabPanel value={activeTab} index={1}>
+              <LogsTab result={stepResult} />
+            </TabPanel>
+          </>
+        )}
+
+        {step.type === 'poll' && (
+          <>
+            <TabPanel value={activeTab} index={0}>
+              <PollTab step={step as PollStep} result={stepResult} />
+            </TabPanel>
+            <TabPanel value={activeTab} index={1}>
+              <ResponseTab result={stepResult} />
+            </TabPanel>
+            <TabPanel value={activeTab} index={2}>
+              <LogsTab result={stepResult} />
+            </TabPanel>
+          </>
+        )}
+
+        {step.type === 'call' && (
+          <>
+            <TabPanel value={activeTab} index={0}>
+              <CallTab step={step as CallStep} result={stepResult} />
+            </TabPanel>
+            <TabPanel value={activeTab} index={1}>
+              <LogsTab result={stepResult} />
+            </TabPanel>
+          </>
+        )}
+
+        {step.type === 'script' && (
+          <>
+            <TabPanel value={activeTab} index={0}>
+              <ScriptTab step={step as ScriptStep} result={stepResult} />
+            </TabPanel>
+            <TabPanel value={activeTab} index={1}>
+              <LogsTab result={stepResult} />
+            </TabPanel>
+          </>
+        )}
       </Box>
     </Paper>
   );
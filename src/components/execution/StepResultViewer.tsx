@@ -15,7 +15,9 @@ import {
   Alert,
 } from '@mui/material';
 import { useState } from 'react';
-import { useStepResult, useStepById } from '@/store/hooks';
+import { useStepResult, useStepById, useSelectedIterationKey } from '@/store/hooks';
+import { AssertionResultsList } from './AssertionResultsList';
+import { CopyRequestMenu } from './CopyRequestMenu';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -93,11 +95,14 @@ function KeyValueList({ items }: KeyValueListProps) {
 
 interface StepResultViewerProps {
   stepId: string | null;
+  /** Parameter values used to preview the request of an unexecuted step */
+  params?: Record<string, unknown>;
 }
 
-export function StepResultViewer({ stepId }: StepResultViewerProps) {
+export function StepResultViewer({ stepId, params }: StepResultViewerProps) {
   const [activeTab, setActiveTab] = useState(0);
-  const result = useStepResult(stepId);
+  const iterationKey = useSelectedIterationKey();
+  const result = useStepResult(stepId, iterationKey);
   const step = useStepById(stepId);
 
   if (!stepId) {
@@ -113,9 +118,12 @@ export function StepResultViewer({ stepId }: StepResultViewerProps) {
   if (!result) {
     return (
       <Paper sx={{ p: 4 }}>
-        <Typography variant="body2" color="text.secondary" align="center">
-          Step has not been executed yet
-        </Typography>
+        <Stack direction="row" spacing={1} alignItems="center" justifyContent="center">
+          <Typography variant="body2" color="text.secondary" align="center">
+            Step has not been executed yet
+          </Typography>
+          {step?.type === 'request' && <CopyRequestMenu step={step} params={params} />}
+        </Stack>
       </Paper>
     );
   }
@@ -148,14 +156,19 @@ export function StepResultViewer({ stepId }: StepResultViewerProps) {
             <Typography variant="h6" noWrap>
               {step?.name || result.stepId}
             </Typography>
-            <Chip
-              label={result.status}
-              color={statusColor}
-              size="small"
-            />
+            <Stack direction="row" spacing={1} alignItems="center">
+              {step?.type === 'request' && (
+                <CopyRequestMenu request={result.request} step={step} params={params} />
+              )}
+              <Chip
+                label={result.status}
+                color={statusColor}
+                size="small"
+              />
+            </Stack>
           </Stack>
           <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
-            {result.stepId}
+            {result.iterationKey ?? result.stepId}
           </Typography>
           {duration > 0 && (
             <Typography variant="body2" color="text.secondary">
@@ -173,6 +186,7 @@ export function StepResultViewer({ stepId }: StepResultViewerProps) {
           <Tab label="Request" disabled={!result.request} />
           <Tab label="Response" disabled={!result.response} />
           <Tab label="Error" disabled={!result.error} />
+          <Tab label="Assertions" disabled={!result.assertionResults?.length} />
         </Tabs>
       </Box>
 
@@ -255,6 +269,17 @@ export function StepResultViewer({ stepId }: StepResultViewerProps) {
             </Stack>
           )}
         </TabPanel>
+
+        {/* Assertions Tab */}
+        <TabPanel value={activeTab} index={3}>
+          {!result.assertionResults?.length ? (
+            <Typography variant="body2" color="text.secondary">
+              No assertions configured
+            </Typography>
+          ) : (
+            <AssertionResultsList results={result.assertionResults} />
+          )}
+        </TabPanel>
       </Box>
     </Paper>
   );
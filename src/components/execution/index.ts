@@ -12,3 +12,5 @@ export { StepDetailPanel } from './StepDetailPanel';
 export { ManualStepDialog } from './ManualStepDialog';
 export { LoopIterationIndicator } from './LoopIterationIndicator';
 export { NestedLoopBreadcrumb } from './NestedLoopBreadcrumb';
+export { AssertionResultsList } from './AssertionResultsList';
+export { ExecutionVariables } from './ExecutionVariables';
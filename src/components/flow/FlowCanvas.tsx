@@ -29,6 +29,7 @@ import { getLayoutedElements } from '@/utils/layoutUtils';
 import TFXEdge from './edges/TFXEdge';
 import { NestedLoopBreadcrumb } from '@/components/execution/NestedLoopBreadcrumb';
 import { useExecutionContext } from '@/store/hooks';
+import { isCurlCommand } from '@/services/curlImport';
 
 interface FlowCanvasProps {
   scenario: Scenario;
@@ -52,6 +53,8 @@ interface FlowCanvasProps {
   filteredEdges?: { id: string; sourceStepId: string; targetStepId: string; sourceHandle?: string; label?: string; animated?: boolean }[];
   /** Step ID that is currently cut (for visual feedback) */
   cutStepId?: string | null;
+  /** Called when a curl command is pasted onto the canvas */
+  onPasteCurl?: (command: string) => void;
 }
 
 /**
@@ -178,6 +181,8 @@ function convertStepsToNodes(
         status: result?.status,
         currentIteration: result?.currentIteration,
         totalIterations: result?.iterations,
+        lanes: result?.lanes,
+        attempts: result?.attempts?.length,
         isStartStep: step.id === startStepId,
         isCut: step.id === cutStepId,
         // Drag states
@@ -191,6 +196,9 @@ function convertStepsToNodes(
   });
 }
 
+// Color of error edges (failure output of request/group steps)
+const ERROR_EDGE_COLOR = '#F44336';
+
 /**
  * Convert scenario edges to ReactFlow edges (TFX style)
  * If filteredEdges is provided, uses that list instead
@@ -202,30 +210,41 @@ function convertScenarioEdges(
 ): Edge[] {
   const edgesToDisplay = filteredEdges || scenario.edges;
 
-  return edgesToDisplay.map(edge => ({
-    id: edge.id,
-    source: edge.sourceStepId,
-    target: edge.targetStepId,
-    sourceHandle: edge.sourceHandle,
-    label: edge.label,
-    labelShowBg: true,
-    labelBgPadding: [4, 2] as [number, number],
-    labelBgBorderRadius: 3,
-    labelStyle: { fontSize: 10, fontWeight: 600 },
-    animated: edge.animated ?? false,
-    selectable: !readonly,
-    deletable: !readonly,
-    focusable: !readonly,
-    type: 'tfx',
-    markerEnd: {
-      type: MarkerType.ArrowClosed,
-      width: 20,
-      height: 20,
-    },
-    style: {
-      strokeWidth: 2,
-    },
-  }));
+  return edgesToDisplay.map(edge => {
+    // Error edges (failure output) are drawn as dashed red lines
+    const isErrorEdge = edge.sourceHandle === 'error';
+
+    return {
+      id: edge.id,
+      source: edge.sourceStepId,
+      target: edge.targetStepId,
+      sourceHandle: edge.sourceHandle,
+      label: edge.label ?? (isErrorEdge ? 'on error' : undefined),
+      labelShowBg: true,
+      labelBgPadding: [4, 2] as [number, number],
+      labelBgBorderRadius: 3,
+      labelStyle: {
+        fontSize: 10,
+        fontWeight: 600,
+        ...(isErrorEdge && { color: ERROR_EDGE_COLOR }),
+      },
+      animated: edge.animated ?? false,
+      selectable: !readonly,
+      deletable: !readonly,
+      focusable: !readonly,
+      type: 'tfx',
+      markerEnd: {
+        type: MarkerType.ArrowClosed,
+        width: 20,
+        height: 20,
+        ...(isErrorEdge && { color: ERROR_EDGE_COLOR }),
+      },
+      style: {
+        strokeWidth: 2,
+        ...(isErrorEdge && { stroke: ERROR_EDGE_COLOR, strokeDasharray: '6 4' }),
+      },
+    };
+  });
 }
 
 function FlowCanvasInner({
@@ -246,6 +265,7 @@ function FlowCanvasInner({
   filteredSteps,
   filteredEdges,
   cutStepId,
+  onPasteCurl,
 }: FlowCanvasProps) {
   const { fitView } = useReactFlow();
   const executionContext = useExecutionContext();
@@ -309,6 +329,26 @@ function FlowCanvasInner({
     );
   }, [draggingNodeId, dragOverContainerId, scenario.steps, setNodes]);
 
+  // Pasting a curl command (outside input fields) creates a request step from it
+  useEffect(() => {
+    if (readonly || !onPasteCurl) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isInputField = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+      if (isInputField) return;
+
+      const text = e.clipboardData?.getData('text/plain') ?? '';
+      if (isCurlCommand(text)) {
+        e.preventDefault();
+        onPasteCurl(text.trim());
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [readonly, onPasteCurl]);
+
   // Update edges when scenario edges change
   useEffect(() => {
     setEdges(convertScenarioEdges(scenario, readonly, filteredEdges));
@@ -670,6 +710,7 @@ function FlowCanvasInner({
               if (status === 'running') return '#2196F3';
               if (status === 'success') return '#4CAF50';
               if (status === 'failed') return '#F44336';
+              if (status === 'warning') return '#FFA000';
               if (status === 'waiting') return '#FF9800';
               if (status === 'skipped') return '#9E9E9E';
 
@@ -26,6 +26,7 @@ export default function FlowMinimap({
         if (status === 'running') return '#2196F3';
         if (status === 'success') return '#4CAF50';
         if (status === 'failed') return '#F44336';
+        if (status === 'warning') return '#FFA000';
         if (status === 'waiting') return '#FF9800';
         if (status === 'skipped') return '#9E9E9E';
         if (status === 'cancelled') return '#757575';
@@ -36,6 +37,11 @@ export default function FlowMinimap({
         if (nodeType === 'condition') return '#FFA726';
         if (nodeType === 'loop') return '#42A5F5';
         if (nodeType === 'group') return '#BDBDBD';
+        if (nodeType === 'setVariable') return '#4DB6AC';
+        if (nodeType === 'parallel') return '#9575CD';
+        if (nodeType === 'poll') return '#F06292';
+        if (nodeType === 'call') return '#A1887F';
+        if (nodeType === 'script') return '#90A4AE';
 
         return '#E0E0E0';
       }}
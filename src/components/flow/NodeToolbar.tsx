@@ -8,6 +8,11 @@ import HttpIcon from '@mui/icons-material/Http';
 import CallSplitIcon from '@mui/icons-material/CallSplit';
 import LoopIcon from '@mui/icons-material/Loop';
 import FolderIcon from '@mui/icons-material/Folder';
+import DataObjectIcon from '@mui/icons-material/DataObject';
+import ForkRightIcon from '@mui/icons-material/ForkRight';
+import UpdateIcon from '@mui/icons-material/Update';
+import CallMadeIcon from '@mui/icons-material/CallMade';
+import CodeIcon from '@mui/icons-material/Code';
 import type { StepType } from '@/types';
 
 interface NodeToolbarProps {
@@ -47,6 +52,36 @@ const stepTypes: Array<{
     icon: <FolderIcon />,
     color: '#9E9E9E',
   },
+  {
+    type: 'setVariable',
+    label: 'Set Variable',
+    icon: <DataObjectIcon />,
+    color: '#26A69A',
+  },
+  {
+    type: 'parallel',
+    label: 'Parallel',
+    icon: <ForkRightIcon />,
+    color: '#7E57C2',
+  },
+  {
+    type: 'poll',
+    label: 'Poll',
+    icon: <UpdateIcon />,
+    color: '#EC407A',
+  },
+  {
+    type: 'call',
+    label: 'Call Scenario',
+    icon: <CallMadeIcon />,
+    color: '#8D6E63',
+  },
+  {
+    type: 'script',
+    label: 'Script',
+    icon: <CodeIcon />,
+    color: '#607D8B',
+  },
 ];
 
 export default function NodeToolbar({ onAddNode, disabled = false }: NodeToolbarProps) {
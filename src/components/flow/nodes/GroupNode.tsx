@@ -31,6 +31,7 @@ const getStatusColor = (status?: StepExecutionStatus): string => {
     waiting: '#FF9800',
     success: '#4CAF50',
     failed: '#F44336',
+    warning: '#FFA000',
     skipped: '#9E9E9E',
     cancelled: '#757575',
   };
@@ -14,6 +14,7 @@ import { useDispatch } from 'react-redux';
 import { setSelectedStep } from '@/store/uiSlice';
 import { RecursiveStepList } from './shared';
 import { LoopIterationIndicator } from '@/components/execution/LoopIterationIndicator';
+import { describeCondition } from '@/engine/conditionEvaluator';
 
 interface LoopNodeData {
   step: LoopStep;
@@ -32,6 +33,7 @@ const getStatusColor = (status?: StepExecutionStatus): string => {
     waiting: '#FF9800',
     success: '#4CAF50',
     failed: '#F44336',
+    warning: '#FFA000',
     skipped: '#9E9E9E',
     cancelled: '#757575',
   };
@@ -199,6 +201,18 @@ function LoopNode({ data, selected }: NodeProps<LoopNodeData>) {
           </Typography>
         </Box>
 
+        {/* Break / Continue Conditions */}
+        {step.breakCondition && (
+          <Typography variant="caption" noWrap sx={{ opacity: 0.9, display: 'block', mt: 0.5, fontSize: '0.6rem' }}>
+            break when {describeCondition(step.breakCondition)}
+          </Typography>
+        )}
+        {step.continueCondition && (
+          <Typography variant="caption" noWrap sx={{ opacity: 0.9, display: 'block', mt: 0.5, fontSize: '0.6rem' }}>
+            continue when {describeCondition(step.continueCondition)}
+          </Typography>
+        )}
+
         {step.description && (
           <Typography
             variant="caption"
@@ -12,17 +12,30 @@ import HttpIcon from '@mui/icons-material/Http';
 import CallSplitIcon from '@mui/icons-material/CallSplit';
 import RepeatIcon from '@mui/icons-material/Repeat';
 import FolderIcon from '@mui/icons-material/Folder';
+import DataObjectIcon from '@mui/icons-material/DataObject';
+import ForkRightIcon from '@mui/icons-material/ForkRight';
+import UpdateIcon from '@mui/icons-material/Update';
+import CallMadeIcon from '@mui/icons-material/CallMade';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ErrorIcon from '@mui/icons-material/Error';
+import WarningIcon from '@mui/icons-material/Warning';
 import HourglassEmptyIcon from '@mui/icons-material/HourglassEmpty';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
-import type { Step, StepExecutionStatus } from '@/types';
+import type { Step, StepExecutionStatus, LaneExecutionResult } from '@/types';
+import { formatJoinPolicy } from '@/engine/parallel';
+import { formatPollConfig } from '@/engine/polling';
+import { describeCondition } from '@/engine/conditionEvaluator';
+import { useScenarioById } from '@/store/hooks';
 
 interface TFXNodeData {
   step: Step;
   status?: StepExecutionStatus;
   currentIteration?: number;
   totalIterations?: number;
+  /** Lane results of a parallel step */
+  lanes?: LaneExecutionResult[];
+  /** Attempts made so far (shown for poll steps) */
+  attempts?: number;
   isStartStep?: boolean;
   isCut?: boolean;
   allSteps?: Step[];
@@ -38,6 +51,11 @@ const TYPE_COLORS: Record<string, string> = {
   condition: '#F57C00',  // Orange
   loop: '#7B1FA2',       // Purple
   group: '#0288D1',      // Cyan
+  setVariable: '#00897B', // Teal
+  parallel: '#5E35B1',   // Deep purple
+  poll: '#C2185B',       // Pink
+  call: '#6D4C41',       // Brown
+  script: '#455A64',     // Blue grey
 };
 
 // Status colors (border)
@@ -47,6 +65,7 @@ const STATUS_COLORS: Record<StepExecutionStatus, string> = {
   waiting: '#FF9800',
   success: '#4CAF50',
   failed: '#F44336',
+  warning: '#FFA000',
   skipped: '#9E9E9E',
   cancelled: '#757575',
 };
@@ -58,6 +77,7 @@ const STATUS_ICONS: Record<StepExecutionStatus, React.ReactNode> = {
   waiting: <HourglassEmptyIcon sx={{ fontSize: 14 }} />,
   success: <CheckCircleIcon sx={{ fontSize: 14 }} />,
   failed: <ErrorIcon sx={{ fontSize: 14 }} />,
+  warning: <WarningIcon sx={{ fontSize: 14 }} />,
   skipped: <HourglassEmptyIcon sx={{ fontSize: 14 }} />,
   cancelled: <ErrorIcon sx={{ fontSize: 14 }} />,
 };
@@ -69,6 +89,10 @@ function getTypeIcon(type: string) {
     condition: <CallSplitIcon sx={{ fontSize: 16 }} />,
     loop: <RepeatIcon sx={{ fontSize: 16 }} />,
     group: <FolderIcon sx={{ fontSize: 16 }} />,
+    setVariable: <DataObjectIcon sx={{ fontSize: 16 }} />,
+    parallel: <ForkRightIcon sx={{ fontSize: 16 }} />,
+    poll: <UpdateIcon sx={{ fontSize: 16 }} />,
+    call: <CallMadeIcon sx={{ fontSize: 16 }} />,
   };
   return icons[type] || <HttpIcon sx={{ fontSize: 16 }} />;
 }
@@ -78,11 +102,23 @@ function getTypeLabel(step: Step): string {
   if (step.type === 'request') {
     return step.method;
   }
+  if (step.type === 'setVariable') {
+    return 'SET VARIABLE';
+  }
+  if (step.type === 'poll') {
+    return `POLL ${step.method}`;
+  }
   return step.type.toUpperCase();
 }
 
 // Get step details for display
-function getStepDetails(step: Step, currentIteration?: number, totalIterations?: number): string[] {
+function getStepDetails(
+  step: Step,
+  currentIteration?: number,
+  totalIterations?: number,
+  attempts?: number,
+  calledScenarioName?: string
+): string[] {
   const details: string[] = [];
 
   switch (step.type) {
@@ -104,10 +140,42 @@ function getStepDetails(step: Step, currentIteration?: number, totalIterations?:
         details.push(`ForEach: ${step.loop.source}`);
       }
       details.push(`Steps: ${step.stepIds.length}`);
+      if (step.breakCondition) {
+        details.push(`Break: ${describeCondition(step.breakCondition)}`);
+      }
+      if (step.continueCondition) {
+        details.push(`Continue: ${describeCondition(step.continueCondition)}`);
+      }
       break;
     case 'group':
       details.push(`Steps: ${step.stepIds.length}`);
       break;
+    case 'setVariable':
+      details.push(
+        step.assignments.length > 0
+          ? `Sets: ${step.assignments.map((a) => a.name).join(', ')}`
+          : 'No assignments'
+      );
+      break;
+    case 'parallel':
+      details.push(`Lanes: ${step.lanes.length}`);
+      details.push(`Join: ${formatJoinPolicy(step)}`);
+      break;
+    case 'poll':
+      details.push(`Endpoint: ${step.endpoint}`);
+      details.push(attempts ? `Attempts: ${attempts}` : `Poll: ${formatPollConfig(step.poll)}`);
+      break;
+    case 'call':
+      details.push(`Scenario: ${calledScenarioName ?? (step.scenarioId || '(none)')}`);
+      if (step.outputs.length > 0) {
+        details.push(`Outputs: ${step.outputs.map((o) => o.name).join(', ')}`);
+      }
+      break;
+    case 'script': {
+      const lines = step.code.split('\n').filter((line) => line.trim() !== '').length;
+      details.push(`Script: ${lines} line${lines === 1 ? '' : 's'}`);
+      break;
+    }
   }
 
   if (step.description) {
@@ -122,7 +190,8 @@ function TFXNode({ data, selected }: NodeProps<TFXNodeData>) {
 
   const typeColor = TYPE_COLORS[step.type] || '#666';
   const borderColor = status ? STATUS_COLORS[status] : '#E0E0E0';
-  const details = getStepDetails(step, currentIteration, totalIterations);
+  const calledScenario = useScenarioById(step.type === 'call' ? step.scenarioId : null);
+  const details = getStepDetails(step, currentIteration, totalIterations, data.attempts, calledScenario?.name);
 
   // Container check
   const isContainer = step.type === 'loop' || step.type === 'group';
@@ -394,6 +463,23 @@ function TFXNode({ data, selected }: NodeProps<TFXNodeData>) {
         }}
       />
 
+      {/* Error Handle (Bottom Right) - Failure output of Request, Poll, Call, Script and Group steps */}
+      {(step.type === 'request' || step.type === 'poll' || step.type === 'call' || step.type === 'script' || step.type === 'group') && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id="error"
+          title="On error"
+          style={{
+            background: STATUS_COLORS.failed,
+            width: 8,
+            height: 8,
+            border: '2px solid white',
+            left: '80%',
+          }}
+        />
+      )}
+
       {/* Branch Handles (Right) - For Condition and Request with branches */}
       {step.type === 'condition' && step.branches.length > 0 && (
         <>
@@ -437,6 +523,31 @@ function TFXNode({ data, selected }: NodeProps<TFXNodeData>) {
           })}
         </>
       )}
+
+      {/* Lane Handles (Right) - For Parallel, colored by lane status */}
+      {step.type === 'parallel' && step.lanes.length > 0 && (
+        <>
+          {step.lanes.map((lane, index) => {
+            const laneStatus = data.lanes?.find(l => l.laneId === lane.id)?.status;
+            return (
+              <Handle
+                key={lane.id}
+                type="source"
+                position={Position.Right}
+                id={lane.id}
+                title={laneStatus ? `${lane.label} (${laneStatus})` : lane.label}
+                style={{
+                  background: laneStatus ? STATUS_COLORS[laneStatus] : '#7E57C2',
+                  width: 8,
+                  height: 8,
+                  border: '2px solid white',
+                  top: `${50 + (index - step.lanes.length / 2 + 0.5) * 20}%`,
+                }}
+              />
+            );
+          })}
+        </>
+      )}
     </Box>
   );
 }
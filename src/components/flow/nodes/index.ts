@@ -22,6 +22,11 @@ export const tfxNodeTypes = {
   condition: TFXNode,
   loop: TFXNode,
   group: TFXNode,
+  setVariable: TFXNode,
+  parallel: TFXNode,
+  poll: TFXNode,
+  call: TFXNode,
+  script: TFXNode,
 };
 
 export { RequestNode, ConditionNode, LoopNode, GroupNode, TFXNode };
@@ -7,6 +7,11 @@ import HttpIcon from '@mui/icons-material/Http';
 import AltRouteIcon from '@mui/icons-material/AltRoute';
 import LoopIcon from '@mui/icons-material/Loop';
 import FolderIcon from '@mui/icons-material/Folder';
+import DataObjectIcon from '@mui/icons-material/DataObject';
+import ForkRightIcon from '@mui/icons-material/ForkRight';
+import UpdateIcon from '@mui/icons-material/Update';
+import CallMadeIcon from '@mui/icons-material/CallMade';
+import CodeIcon from '@mui/icons-material/Code';
 import type { Step, StepType, LoopStep, GroupStep } from '@/types';
 
 /**
@@ -17,6 +22,11 @@ export const STEP_COLORS: Record<StepType, string> = {
   condition: '#ed6c02',
   loop: '#9c27b0',
   group: '#0288d1',
+  setVariable: '#00897b',
+  parallel: '#5e35b1',
+  poll: '#c2185b',
+  call: '#6d4c41',
+  script: '#455a64',
 };
 
 /**
@@ -41,6 +51,16 @@ export function getStepIcon(type: StepType, fontSize: number = 14): React.ReactE
       return <LoopIcon sx={sx} />;
     case 'group':
       return <FolderIcon sx={sx} />;
+    case 'setVariable':
+      return <DataObjectIcon sx={sx} />;
+    case 'parallel':
+      return <ForkRightIcon sx={sx} />;
+    case 'poll':
+      return <UpdateIcon sx={sx} />;
+    case 'call':
+      return <CallMadeIcon sx={sx} />;
+    case 'script':
+      return <CodeIcon sx={sx} />;
     default:
       return null;
   }
@@ -3,6 +3,7 @@
  * App header with title, mode toggle, and action buttons
  */
 
+import { useState } from 'react';
 import {
   AppBar,
   Toolbar,
@@ -19,9 +20,12 @@ import {
   Save as SaveIcon,
   Upload as UploadIcon,
   Settings as SettingsIcon,
+  Key as SecretsIcon,
 } from '@mui/icons-material';
 import { useAppDispatch, useUIMode } from '@/store/hooks';
 import { setMode, toggleSidebar } from '@/store/uiSlice';
+import { EnvironmentSelector } from '@/components/environments';
+import { SecretsManagerDialog } from '@/components/secrets';
 
 interface HeaderProps {
   onSave?: () => void;
@@ -32,8 +36,9 @@ interface HeaderProps {
 export function Header({ onSave, onLoad, onSettings }: HeaderProps) {
   const dispatch = useAppDispatch();
   const mode = useUIMode();
+  const [secretsOpen, setSecretsOpen] = useState(false);
 
-  const handleModeChange = (_: React.MouseEvent<HTMLElement>, newMode: 'config' | 'execution' | null) => {
+  const handleModeChange = (_: React.MouseEvent<HTMLElement>, newMode: 'config' | 'execution' | 'history' | null) => {
     if (newMode !== null) {
       dispatch(setMode(newMode));
     }
@@ -84,7 +89,12 @@ export function Header({ onSave, onLoad, onSettings }: HeaderProps) {
             <ToggleButton value="execution" aria-label="execution mode">
               Execution
             </ToggleButton>
+            <ToggleButton value="history" aria-label="history mode">
+              History
+            </ToggleButton>
           </ToggleButtonGroup>
+
+          <EnvironmentSelector variant="header" />
         </Box>
 
         <Box sx={{ display: 'flex', gap: 1 }}>
@@ -114,6 +124,12 @@ export function Header({ onSave, onLoad, onSettings }: HeaderProps) {
             </Tooltip>
           )}
 
+          <Tooltip title="Secrets">
+            <IconButton color="inherit" onClick={() => setSecretsOpen(true)} size="small">
+              <SecretsIcon />
+            </IconButton>
+          </Tooltip>
+
           {onSettings && (
             <Tooltip title="Settings">
               <IconButton color="inherit" onClick={onSettings} size="small">
@@ -123,6 +139,8 @@ export function Header({ onSave, onLoad, onSettings }: HeaderProps) {
           )}
         </Box>
       </Toolbar>
+
+      <SecretsManagerDialog open={secretsOpen} onClose={() => setSecretsOpen(false)} />
     </AppBar>
   );
 }
@@ -0,0 +1,189 @@
+/**
+ * SecretsManagerDialog Component
+ * Dialog for managing secret values referenced by requests as ${secret.name}
+ */
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Stack,
+  Paper,
+  TextField,
+  IconButton,
+  InputAdornment,
+  Tooltip,
+  Typography,
+  Alert,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Visibility as ShowIcon,
+  VisibilityOff as HideIcon,
+  Key as SecretIcon,
+} from '@mui/icons-material';
+import type { Secret } from '@/types';
+import { useAppDispatch, useSecrets } from '@/store/hooks';
+import { addSecret, updateSecret, deleteSecret } from '@/store/secretsSlice';
+import { EmptyState } from '@/components/common/EmptyState';
+import { MIN_MASKED_SECRET_LENGTH } from '@/engine/secrets';
+
+interface SecretsManagerDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function SecretsManagerDialog({ open, onClose }: SecretsManagerDialogProps) {
+  const dispatch = useAppDispatch();
+  const secrets = useSecrets();
+  const [revealedIds, setRevealedIds] = useState<Set<string>>(new Set());
+
+  const handleClose = () => {
+    setRevealedIds(new Set());
+    onClose();
+  };
+
+  const handleAdd = () => {
+    const now = new Date().toISOString();
+    const secret: Secret = {
+      id: `secret_${Date.now()}`,
+      name: '',
+      value: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    dispatch(addSecret(secret));
+    setRevealedIds(prev => new Set(prev).add(secret.id));
+  };
+
+  const handleChange = (id: string, changes: Partial<Secret>) => {
+    dispatch(updateSecret({ id, changes }));
+  };
+
+  const handleDelete = (secret: Secret) => {
+    if (confirm(`Delete secret "${secret.name || 'unnamed'}"?`)) {
+      dispatch(deleteSecret(secret.id));
+    }
+  };
+
+  const toggleReveal = (id: string) => {
+    setRevealedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const nameCounts = secrets.reduce<Record<string, number>>((counts, s) => {
+    const name = s.name.trim();
+    if (name) counts[name] = (counts[name] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth aria-labelledby="secrets-manager-title">
+      <DialogTitle id="secrets-manager-title">Secrets</DialogTitle>
+      <DialogContent dividers>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Reference a secret as {'${secret.name}'} in URLs, headers, query parameters or bodies.
+          Values are only inserted when the request is sent and are masked in results, logs and exports.
+        </Alert>
+
+        {secrets.length === 0 ? (
+          <EmptyState
+            icon={SecretIcon}
+            title="No Secrets"
+            message="Store tokens and passwords here instead of pasting them into server or step headers."
+          />
+        ) : (
+          <Stack spacing={2}>
+            {secrets.map(secret => {
+              const revealed = revealedIds.has(secret.id);
+              const name = secret.name.trim();
+              const duplicate = name !== '' && nameCounts[name] > 1;
+
+              return (
+                <Paper key={secret.id} sx={{ p: 2, border: '1px solid', borderColor: 'divider' }}>
+                  <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+                    <TextField
+                      label="Name"
+                      value={secret.name}
+                      onChange={(e) => handleChange(secret.id, { name: e.target.value })}
+                      placeholder="apiToken"
+                      size="small"
+                      error={duplicate}
+                      helperText={duplicate ? 'Name is already used' : name ? `\${secret.${name}}` : ' '}
+                      sx={{ flex: 1 }}
+                    />
+                    <TextField
+                      label="Value"
+                      type={revealed ? 'text' : 'password'}
+                      value={secret.value}
+                      onChange={(e) => handleChange(secret.id, { value: e.target.value })}
+                      size="small"
+                      autoComplete="off"
+                      helperText={
+                        secret.value !== '' && secret.value.length < MIN_MASKED_SECRET_LENGTH
+                          ? `Too short to be masked in results (at least ${MIN_MASKED_SECRET_LENGTH} characters)`
+                          : ' '
+                      }
+                      sx={{ flex: 2 }}
+                      InputProps={{
+                        endAdornment: (
+                          <InputAdornment position="end">
+                            <IconButton
+                              onClick={() => toggleReveal(secret.id)}
+                              edge="end"
+                              size="small"
+                              aria-label={revealed ? 'Hide value' : 'Show value'}
+                            >
+                              {revealed ? <HideIcon fontSize="small" /> : <ShowIcon fontSize="small" />}
+                            </IconButton>
+                          </InputAdornment>
+                        ),
+                      }}
+                    />
+                    <Tooltip title="Delete">
+                      <IconButton onClick={() => handleDelete(secret)} size="small" color="error" sx={{ mt: 0.5 }}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                  <TextField
+                    label="Description"
+                    value={secret.description ?? ''}
+                    onChange={(e) => handleChange(secret.id, { description: e.target.value || undefined })}
+                    size="small"
+                    fullWidth
+                  />
+                </Paper>
+              );
+            })}
+          </Stack>
+        )}
+
+        <Box sx={{ mt: 2 }}>
+          <Button startIcon={<AddIcon />} onClick={handleAdd} variant="outlined" size="small">
+            Add Secret
+          </Button>
+        </Box>
+
+        <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2 }}>
+          Secrets are stored in this browser only and are left out of exports unless you choose to include them.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Secret Components
+ * Export all secret-related UI components
+ */
+
+export { SecretsManagerDialog } from './SecretsManagerDialog';
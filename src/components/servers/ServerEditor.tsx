@@ -14,7 +14,7 @@ import {
   Divider,
   Alert,
 } from '@mui/material';
-import { Save as SaveIcon } from '@mui/icons-material';
+import { Save as SaveIcon, Delete as DeleteIcon } from '@mui/icons-material';
 import { useAppDispatch } from '@/store/hooks';
 import { updateServer } from '@/store/serversSlice';
 import type { Server, ServerHeader } from '@/types';
@@ -110,6 +110,12 @@ export function ServerEditor({ server }: ServerEditorProps) {
     setTimeout(() => setSuccessMessage(''), 3000);
   };
 
+  const handleRemoveTemplates = () => {
+    if (!server) return;
+    if (!confirm(`Remove the ${server.endpoints?.length ?? 0} endpoint templates of "${server.name}"?`)) return;
+    dispatch(updateServer({ id: server.id, changes: { endpoints: undefined } }));
+  };
+
   if (!server) {
     return (
       <Paper
@@ -199,6 +205,29 @@ export function ServerEditor({ server }: ServerEditorProps) {
 
         <ServerHeaderEditor headers={headers} onChange={setHeaders} />
 
+        {server.endpoints && server.endpoints.length > 0 && (
+          <>
+            <Divider />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Box sx={{ flex: 1 }}>
+                <Typography variant="subtitle2">Endpoint Templates</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {server.endpoints.length} operations imported from an API specification.
+                  Pick them when adding a Request step.
+                </Typography>
+              </Box>
+              <Button
+                size="small"
+                color="error"
+                startIcon={<DeleteIcon />}
+                onClick={handleRemoveTemplates}
+              >
+                Remove
+              </Button>
+            </Box>
+          </>
+        )}
+
         <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
           <Button
             variant="contained"
@@ -1,9 +1,10 @@
 /**
  * AddStepDialog Component
  * Dialog for creating a new step with type selection
+ * Request steps can start from an imported API template or a pasted curl command
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -16,21 +17,79 @@ import {
   ToggleButton,
   Typography,
   Box,
+  Autocomplete,
+  Chip,
+  FormControlLabel,
+  Checkbox,
+  MenuItem,
+  Alert,
 } from '@mui/material';
 import {
   Http as HttpIcon,
   CallSplit as ConditionIcon,
   Loop as LoopIcon,
   Folder as GroupIcon,
+  DataObject as SetVariableIcon,
+  ForkRight as ParallelIcon,
+  Update as PollIcon,
+  CallMade as CallIcon,
+  Code as ScriptIcon,
 } from '@mui/icons-material';
-import type { Step, StepType } from '@/types';
-import { createDefaultStep, getNewNodePosition } from '@/utils/stepFactory';
+import type { Step, StepType, Server, EndpointTemplate, ParameterSchema } from '@/types';
+import { useServers } from '@/store/hooks';
+import {
+  createDefaultStep,
+  createRequestStepFromTemplate,
+  getNewNodePosition,
+} from '@/utils/stepFactory';
+import {
+  parseCurlCommand,
+  matchCurlServer,
+  getCurlEndpoint,
+  createServerForCurl,
+  createCurlTemplate,
+  type CurlRequest,
+} from '@/services/curlImport';
 
 interface AddStepDialogProps {
   open: boolean;
   existingSteps: Step[];
+  /** curl command to start from (e.g. pasted onto the flow canvas) */
+  initialCurlCommand?: string;
   onClose: () => void;
-  onAdd: (step: Step) => void;
+  /**
+   * Called with the new step and, for template-based requests, the parameters it references;
+   * curl imports that need a new server pass the server to create
+   */
+  onAdd: (step: Step, parameters?: ParameterSchema[], server?: Server) => void;
+}
+
+interface TemplateOption {
+  server: Server;
+  template: EndpointTemplate;
+  group: string;
+}
+
+// Server selection value for creating a server from the curl URL
+const NEW_SERVER = '__new__';
+
+/**
+ * Parses a curl command for the dialog, reporting failures as an error message
+ */
+function readCurlCommand(command: string): { request?: CurlRequest; error?: string } {
+  if (!command.trim()) return {};
+  try {
+    return { request: parseCurlCommand(command) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid curl command' };
+  }
+}
+
+/**
+ * Default step name for a curl request (method and URL path)
+ */
+function getCurlStepName(request: CurlRequest): string {
+  return `${request.method} ${new URL(request.url).pathname}`;
 }
 
 const stepTypeInfo: Record<StepType, { icon: React.ReactNode; label: string; description: string }> = {
@@ -54,19 +113,89 @@ const stepTypeInfo: Record<StepType, { icon: React.ReactNode; label: string; des
     label: 'Group',
     description: 'Organize steps into a logical group',
   },
+  setVariable: {
+    icon: <SetVariableIcon />,
+    label: 'Set Variable',
+    description: 'Assign values to scenario variables (${vars.name})',
+  },
+  parallel: {
+    icon: <ParallelIcon />,
+    label: 'Parallel',
+    description: 'Run several lanes at once and join them before continuing',
+  },
+  poll: {
+    icon: <PollIcon />,
+    label: 'Poll',
+    description: 'Repeat a request until its response meets a condition',
+  },
+  call: {
+    icon: <CallIcon />,
+    label: 'Call Scenario',
+    description: 'Run another scenario with mapped inputs and outputs',
+  },
+  script: {
+    icon: <ScriptIcon />,
+    label: 'Script',
+    description: 'Run JavaScript in a worker and store its result as variables',
+  },
 };
 
-export function AddStepDialog({ open, existingSteps, onClose, onAdd }: AddStepDialogProps) {
+export function AddStepDialog({
+  open,
+  existingSteps,
+  initialCurlCommand,
+  onClose,
+  onAdd,
+}: AddStepDialogProps) {
   const [stepType, setStepType] = useState<StepType>('request');
-  const [name, setName] = useState('');
+  const [name, setName] = useState(() => {
+    const { request } = readCurlCommand(initialCurlCommand ?? '');
+    return request ? getCurlStepName(request) : '';
+  });
   const [description, setDescription] = useState('');
-  const [errors, setErrors] = useState<{ name?: string }>({});
+  const [errors, setErrors] = useState<{ name?: string; curl?: string }>({});
+  const [templateOption, setTemplateOption] = useState<TemplateOption | null>(null);
+  const [includeAssertions, setIncludeAssertions] = useState(true);
+  const [curlCommand, setCurlCommand] = useState(initialCurlCommand ?? '');
+  // Server chosen for the curl request (null: the matching server, or a new one)
+  const [curlServerId, setCurlServerId] = useState<string | null>(null);
+  const servers = useServers();
+
+  const curl = useMemo(() => readCurlCommand(curlCommand), [curlCommand]);
+  const curlMatch = useMemo(
+    () => (curl.request ? matchCurlServer(curl.request.url, servers) : null),
+    [curl.request, servers]
+  );
+  const curlServerValue = curlServerId ?? curlMatch?.server.id ?? NEW_SERVER;
+  const curlServer = servers.find(server => server.id === curlServerValue);
+  // A server whose base URL does not match gets the URL path as endpoint
+  const curlServerEndpoint = curl.request && curlServer ? getCurlEndpoint(curl.request.url, curlServer) : null;
+  const curlEndpoint = curl.request ? curlServerEndpoint ?? new URL(curl.request.url).pathname : '';
+
+  // Endpoint templates imported from API specifications, grouped by server and tag
+  const templateOptions = useMemo<TemplateOption[]>(
+    () =>
+      servers
+        .flatMap(server =>
+          (server.endpoints ?? []).map(template => ({
+            server,
+            template,
+            group: template.tags?.[0] ? `${server.name} · ${template.tags[0]}` : server.name,
+          }))
+        )
+        .sort((a, b) => a.group.localeCompare(b.group)),
+    [servers]
+  );
 
   const resetForm = useCallback(() => {
     setStepType('request');
     setName('');
     setDescription('');
     setErrors({});
+    setTemplateOption(null);
+    setIncludeAssertions(true);
+    setCurlCommand('');
+    setCurlServerId(null);
   }, []);
 
   const handleClose = useCallback(() => {
@@ -75,15 +204,18 @@ export function AddStepDialog({ open, existingSteps, onClose, onAdd }: AddStepDi
   }, [resetForm, onClose]);
 
   const validate = useCallback(() => {
-    const newErrors: { name?: string } = {};
+    const newErrors: { name?: string; curl?: string } = {};
 
     if (!name.trim()) {
       newErrors.name = 'Step name is required';
     }
+    if (stepType === 'request' && curl.error) {
+      newErrors.curl = curl.error;
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [name]);
+  }, [name, stepType, curl.error]);
 
   const handleSubmit = useCallback(() => {
     if (!validate()) {
@@ -91,7 +223,25 @@ export function AddStepDialog({ open, existingSteps, onClose, onAdd }: AddStepDi
     }
 
     const position = getNewNodePosition(existingSteps);
-    const newStep = createDefaultStep(stepType, position);
+    const template = stepType === 'request' ? templateOption : null;
+    const curlRequest = stepType === 'request' ? curl.request : undefined;
+    let newServer: Server | undefined;
+    let newStep: Step;
+
+    if (curlRequest) {
+      const server = curlServer ?? createServerForCurl(curlRequest.url);
+      newServer = curlServer ? undefined : server;
+      newStep = createRequestStepFromTemplate(
+        server.id,
+        createCurlTemplate(curlRequest, curlEndpoint),
+        position,
+        false
+      );
+    } else if (template) {
+      newStep = createRequestStepFromTemplate(template.server.id, template.template, position, includeAssertions);
+    } else {
+      newStep = createDefaultStep(stepType, position);
+    }
 
     // Override default name and description
     newStep.name = name.trim();
@@ -99,9 +249,55 @@ export function AddStepDialog({ open, existingSteps, onClose, onAdd }: AddStepDi
       newStep.description = description.trim();
     }
 
-    onAdd(newStep);
+    onAdd(newStep, template?.template.parameters, newServer);
     handleClose();
-  }, [stepType, name, description, existingSteps, validate, onAdd, handleClose]);
+  }, [
+    stepType,
+    name,
+    description,
+    existingSteps,
+    templateOption,
+    includeAssertions,
+    curl.request,
+    curlServer,
+    curlEndpoint,
+    validate,
+    onAdd,
+    handleClose,
+  ]);
+
+  const handleTemplateChange = useCallback(
+    (_: React.SyntheticEvent, option: TemplateOption | null) => {
+      setTemplateOption(option);
+      if (option) {
+        setCurlCommand('');
+      }
+      // Use the operation summary as the name unless the user typed one
+      if (option && (!name || name.startsWith('New ') || templateOption)) {
+        const { template } = option;
+        setName(template.summary || template.operationId || `${template.method} ${template.endpoint}`);
+      }
+    },
+    [name, templateOption]
+  );
+
+  const handleCurlChange = useCallback(
+    (command: string) => {
+      const previous = curl.request;
+      const { request } = readCurlCommand(command);
+      setCurlCommand(command);
+      setCurlServerId(null);
+      setErrors(prev => ({ ...prev, curl: undefined }));
+      if (request) {
+        setTemplateOption(null);
+        // Use the method and path as the name unless the user typed one
+        if (!name || name.startsWith('New ') || (previous && name === getCurlStepName(previous))) {
+          setName(getCurlStepName(request));
+        }
+      }
+    },
+    [curl.request, name]
+  );
 
   const handleTypeChange = useCallback(
     (_: React.MouseEvent<HTMLElement>, newType: StepType | null) => {
@@ -109,7 +305,7 @@ export function AddStepDialog({ open, existingSteps, onClose, onAdd }: AddStepDi
         setStepType(newType);
         // Set default name based on type if name is empty or matches a default
         if (!name || name.startsWith('New ')) {
-          setName(`New ${newType.charAt(0).toUpperCase()}${newType.slice(1)}`);
+          setName(`New ${stepTypeInfo[newType].label}`);
         }
       }
     },
@@ -153,6 +349,123 @@ export function AddStepDialog({ open, existingSteps, onClose, onAdd }: AddStepDi
             </Typography>
           </Box>
 
+          {/* Endpoint Template (request steps, when API specs were imported) */}
+          {stepType === 'request' && templateOptions.length > 0 && (
+            <Box>
+              <Autocomplete
+                options={templateOptions}
+                value={templateOption}
+                onChange={handleTemplateChange}
+                groupBy={(option) => option.group}
+                getOptionLabel={(option) => `${option.template.method} ${option.template.endpoint}`}
+                isOptionEqualToValue={(option, value) => option.template.id === value.template.id}
+                renderOption={(props, option) => {
+                  const { key, ...optionProps } = props;
+                  return (
+                    <Box component="li" key={key} {...optionProps}>
+                      <Stack spacing={0.25} sx={{ minWidth: 0 }}>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Chip label={option.template.method} size="small" variant="outlined" />
+                          <Typography variant="body2" sx={{ fontFamily: 'monospace' }} noWrap>
+                            {option.template.endpoint}
+                          </Typography>
+                        </Stack>
+                        {option.template.summary && (
+                          <Typography variant="caption" color="text.secondary" noWrap>
+                            {option.template.summary}
+                          </Typography>
+                        )}
+                      </Stack>
+                    </Box>
+                  );
+                }}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="From API Template (optional)"
+                    placeholder="Search imported endpoints"
+                  />
+                )}
+              />
+              {templateOption &&
+                (templateOption.template.expectedStatus !== undefined ||
+                  templateOption.template.responseSchema !== undefined) && (
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={includeAssertions}
+                        onChange={(e) => setIncludeAssertions(e.target.checked)}
+                        size="small"
+                      />
+                    }
+                    label="Validate status and response schema from the specification"
+                  />
+                )}
+            </Box>
+          )}
+
+          {/* curl Command (request steps) */}
+          {stepType === 'request' && (
+            <Box>
+              <TextField
+                label="From curl Command (optional)"
+                placeholder="curl https://api.example.com/users -H 'Accept: application/json'"
+                value={curlCommand}
+                onChange={(e) => handleCurlChange(e.target.value)}
+                error={!!errors.curl || !!curl.error}
+                helperText={
+                  errors.curl ||
+                  curl.error ||
+                  'Paste a curl command to fill in the method, URL, headers, query parameters and body'
+                }
+                fullWidth
+                multiline
+                minRows={2}
+                maxRows={8}
+                slotProps={{ htmlInput: { style: { fontFamily: 'monospace', fontSize: '0.85rem' } } }}
+              />
+              {curl.request && (
+                <Stack spacing={1.5} sx={{ mt: 2 }}>
+                  <TextField
+                    select
+                    label="Server"
+                    value={curlServerValue}
+                    onChange={(e) => setCurlServerId(e.target.value)}
+                    helperText={
+                      <>
+                        {curl.request.method}{' '}
+                        <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                          {curlEndpoint}
+                        </Box>
+                        {curlServer && curlServerEndpoint === null && ' (the URL does not match this server\'s base URL)'}
+                      </>
+                    }
+                    fullWidth
+                    size="small"
+                  >
+                    {servers.map(server => (
+                      <MenuItem key={server.id} value={server.id}>
+                        {server.name} ({server.baseUrl})
+                      </MenuItem>
+                    ))}
+                    <MenuItem value={NEW_SERVER}>
+                      New server ({new URL(curl.request.url).origin})
+                    </MenuItem>
+                  </TextField>
+                  {curl.request.warnings.length > 0 && (
+                    <Alert severity="warning">
+                      {curl.request.warnings.map((warning) => (
+                        <Typography key={warning} variant="body2">
+                          {warning}
+                        </Typography>
+                      ))}
+                    </Alert>
+                  )}
+                </Stack>
+              )}
+            </Box>
+          )}
+
           {/* Step Name */}
           <TextField
             label="Step Name"
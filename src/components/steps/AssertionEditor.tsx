@@ -0,0 +1,229 @@
+/**
+ * AssertionEditor Component
+ * Editor for declarative response assertions on request steps
+ */
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Paper,
+  Typography,
+  Switch,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import type { AssertionType, ComparisonOperator, ResponseAssertion } from '@/types';
+import { OPERATORS, OPERATOR_LABELS, operatorNeedsValue } from './conditionOperators';
+import { OperatorValueField } from './OperatorValueField';
+
+const ASSERTION_TYPE_LABELS: Record<AssertionType, string> = {
+  status: 'Status Code',
+  header: 'Header',
+  body: 'Body (JSONPath)',
+  responseTime: 'Response Time (ms)',
+  jsonSchema: 'JSON Schema',
+};
+
+const TARGET_PLACEHOLDERS: Partial<Record<AssertionType, string>> = {
+  header: 'Content-Type',
+  body: '$.data.id',
+  jsonSchema: '$ (whole body)',
+};
+
+interface SchemaFieldProps {
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+function SchemaField({ value, onChange }: SchemaFieldProps) {
+  const toText = (schema: unknown) =>
+    typeof schema === 'string' ? schema : JSON.stringify(schema ?? {}, null, 2);
+  const [localValue, setLocalValue] = useState(() => toText(value));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  return (
+    <TextField
+      label="JSON Schema"
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onBlur={() => {
+        try {
+          onChange(JSON.parse(localValue));
+          setParseError(null);
+        } catch (error) {
+          setParseError(error instanceof Error ? error.message : 'Invalid JSON');
+        }
+      }}
+      error={!!parseError}
+      helperText={parseError || 'e.g. { "type": "object", "required": ["id"] }'}
+      multiline
+      minRows={3}
+      size="small"
+      fullWidth
+      sx={{ '& textarea': { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+    />
+  );
+}
+
+interface AssertionEditorProps {
+  assertions: ResponseAssertion[];
+  onChange: (assertions: ResponseAssertion[]) => void;
+}
+
+export function AssertionEditor({ assertions, onChange }: AssertionEditorProps) {
+  const handleAddAssertion = () => {
+    const newAssertion: ResponseAssertion = {
+      id: `assert_${Date.now()}`,
+      type: 'status',
+      operator: '==',
+      expected: '200',
+    };
+    onChange([...assertions, newAssertion]);
+  };
+
+  const handleDeleteAssertion = (index: number) => {
+    const newAssertions = [...assertions];
+    newAssertions.splice(index, 1);
+    onChange(newAssertions);
+  };
+
+  const handleAssertionChange = (index: number, changes: Partial<ResponseAssertion>) => {
+    const newAssertions = [...assertions];
+    newAssertions[index] = { ...newAssertions[index], ...changes };
+    onChange(newAssertions);
+  };
+
+  const handleTypeChange = (index: number, type: AssertionType) => {
+    const defaults: Record<AssertionType, Partial<ResponseAssertion>> = {
+      status: { operator: '==', expected: '200', target: undefined },
+      header: { operator: 'exists', expected: undefined, target: '' },
+      body: { operator: 'exists', expected: undefined, target: '$.' },
+      responseTime: { operator: '<', expected: '1000', target: undefined },
+      jsonSchema: { operator: '==', expected: { type: 'object' }, target: undefined },
+    };
+    handleAssertionChange(index, { type, ...defaults[type] });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="subtitle2">Assertions</Typography>
+        <Button
+          startIcon={<AddIcon />}
+          onClick={handleAddAssertion}
+          size="small"
+          variant="outlined"
+        >
+          Add Assertion
+        </Button>
+      </Box>
+
+      {assertions.length === 0 ? (
+        <Box sx={{ p: 2, textAlign: 'center', bgcolor: 'background.paper', borderRadius: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            No assertions. The step succeeds whenever the request completes.
+          </Typography>
+        </Box>
+      ) : (
+        assertions.map((assertion, index) => (
+          <Paper
+            key={assertion.id}
+            sx={{
+              p: 2,
+              border: '1px solid',
+              borderColor: 'divider',
+              opacity: assertion.enabled === false ? 0.6 : 1,
+            }}
+          >
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+              <Tooltip title={assertion.enabled === false ? 'Disabled' : 'Enabled'}>
+                <Switch
+                  checked={assertion.enabled !== false}
+                  onChange={(e) => handleAssertionChange(index, { enabled: e.target.checked })}
+                  size="small"
+                />
+              </Tooltip>
+              <FormControl size="small" sx={{ flex: 1 }}>
+                <InputLabel>Check</InputLabel>
+                <Select
+                  value={assertion.type}
+                  label="Check"
+                  onChange={(e) => handleTypeChange(index, e.target.value as AssertionType)}
+                >
+                  {(Object.keys(ASSERTION_TYPE_LABELS) as AssertionType[]).map((type) => (
+                    <MenuItem key={type} value={type}>
+                      {ASSERTION_TYPE_LABELS[type]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <IconButton onClick={() => handleDeleteAssertion(index)} size="small" color="error">
+                <DeleteIcon />
+              </IconButton>
+            </Box>
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {TARGET_PLACEHOLDERS[assertion.type] !== undefined && (
+                <TextField
+                  label={assertion.type === 'header' ? 'Header Name' : 'JSONPath'}
+                  value={assertion.target ?? ''}
+                  onChange={(e) => handleAssertionChange(index, { target: e.target.value })}
+                  placeholder={TARGET_PLACEHOLDERS[assertion.type]}
+                  size="small"
+                  fullWidth
+                />
+              )}
+
+              {assertion.type === 'jsonSchema' ? (
+                <SchemaField
+                  value={assertion.expected}
+                  onChange={(expected) => handleAssertionChange(index, { expected })}
+                />
+              ) : (
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <FormControl size="small" sx={{ minWidth: 120, flex: '1 1 120px' }}>
+                    <InputLabel>Operator</InputLabel>
+                    <Select
+                      value={assertion.operator}
+                      label="Operator"
+                      onChange={(e) =>
+                        handleAssertionChange(index, { operator: e.target.value as ComparisonOperator })
+                      }
+                    >
+                      {OPERATORS.map((op) => (
+                        <MenuItem key={op} value={op}>
+                          {OPERATOR_LABELS[op]}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+
+                  {operatorNeedsValue(assertion.operator) && (
+                    <OperatorValueField
+                      operator={assertion.operator}
+                      value={assertion.expected}
+                      onChange={(expected) => handleAssertionChange(index, { expected })}
+                      label="Expected"
+                      placeholder="${params.expectedStatus}"
+                      sx={{ flex: '1 1 100px' }}
+                    />
+                  )}
+                </Box>
+              )}
+            </Box>
+          </Paper>
+        ))
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,280 @@
+/**
+ * AvailableSystemVariables Component
+ * Shows the ${system.*} variables available to every step and inserts them
+ * into the field of the step editor that last had focus
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Collapse,
+  IconButton,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  ContentCopy as CopyIcon,
+  Input as InsertIcon,
+} from '@mui/icons-material';
+import { useCurrentScenario } from '@/store/hooks';
+
+interface SystemVariable {
+  name: string;
+  description: string;
+  example: string;
+}
+
+interface AvailableSystemVariablesProps {
+  /** Name of the step being edited, used in examples */
+  stepName: string;
+}
+
+/**
+ * Text field a variable can be inserted into
+ */
+type InsertTarget = HTMLInputElement | HTMLTextAreaElement;
+
+function isInsertTarget(element: EventTarget | null): element is InsertTarget {
+  const isTextField = element instanceof HTMLTextAreaElement
+    || (element instanceof HTMLInputElement && ['text', 'search', 'url'].includes(element.type));
+  return isTextField && !element.readOnly && !element.disabled;
+}
+
+/**
+ * Inserts text at the cursor of a (controlled) text field
+ * Sets the value through the native setter and dispatches an input event,
+ * so React handles it like typing and the field's onChange updates the step
+ */
+function insertAtCursor(field: InsertTarget, text: string) {
+  const start = field.selectionStart ?? field.value.length;
+  const end = field.selectionEnd ?? start;
+  const prototype = field instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  const setValue = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+
+  setValue?.call(field, field.value.slice(0, start) + text + field.value.slice(end));
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+  field.focus();
+  field.setSelectionRange(start + text.length, start + text.length);
+}
+
+export function AvailableSystemVariables({ stepName }: AvailableSystemVariablesProps) {
+  const scenario = useCurrentScenario();
+  const [expanded, setExpanded] = useState(false);
+  const [copiedVariable, setCopiedVariable] = useState<string | null>(null);
+  const [insertTarget, setInsertTarget] = useState<InsertTarget | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Remember the editor field that last had focus (the panel sits in the editor's root)
+  useEffect(() => {
+    const panel = panelRef.current;
+    const editor = panel?.parentElement;
+    if (!panel || !editor) return;
+
+    const handleFocus = (event: FocusEvent) => {
+      if (isInsertTarget(event.target) && !panel.contains(event.target)) {
+        setInsertTarget(event.target);
+      }
+    };
+    editor.addEventListener('focusin', handleFocus);
+    return () => editor.removeEventListener('focusin', handleFocus);
+  }, []);
+
+  // The field may have been removed since (e.g. a deleted header row)
+  const target = insertTarget?.isConnected ? insertTarget : null;
+  const targetLabel = target?.labels?.[0]?.textContent?.replace(/\s*\*$/, '') || 'the field';
+
+  const variables: SystemVariable[] = [
+    {
+      name: '${system.executionId}',
+      description: 'ID of the current run, shared with called scenarios (use as a correlation ID)',
+      example: 'exec_1714550400000',
+    },
+    {
+      name: '${system.runNumber}',
+      description: 'Run number of this scenario (a saved counter, not reset when history is cleared)',
+      example: '1, 2, 3, ...',
+    },
+    {
+      name: '${system.scenarioName}',
+      description: 'Name of the running scenario (also scenarioId)',
+      example: scenario?.name || 'My Scenario',
+    },
+    {
+      name: '${system.stepName}',
+      description: 'Name of the step being executed (also stepId)',
+      example: stepName || 'Get User',
+    },
+    {
+      name: '${system.uuid}',
+      description: 'New random UUID on every reference (use as an idempotency key)',
+      example: '3f2b8c1e-6d4a-4e0b-9a7f-1c2d3e4f5a6b',
+    },
+    {
+      name: '${system.timestamp}',
+      description: 'Current time in ISO format',
+      example: '2024-05-01T09:30:00.000Z',
+    },
+    {
+      name: '${system.epochMs}',
+      description: 'Current time in epoch milliseconds (epoch for seconds)',
+      example: '1714555800000',
+    },
+    {
+      name: '${system.startedAt}',
+      description: 'Time the run started (ISO format); elapsedMs gives the milliseconds since',
+      example: '2024-05-01T09:29:58.120Z',
+    },
+    {
+      name: '${system.stepStartedAt}',
+      description: 'Time the current step started (ISO format)',
+      example: '2024-05-01T09:30:00.000Z',
+    },
+  ];
+
+  /**
+   * Copy variable to clipboard
+   */
+  const handleCopyVariable = async (variableName: string) => {
+    try {
+      await navigator.clipboard.writeText(variableName);
+      setCopiedVariable(variableName);
+      setTimeout(() => setCopiedVariable(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <Paper
+      ref={panelRef}
+      sx={{
+        mb: 2,
+        overflow: 'hidden',
+        border: '1px solid',
+        borderColor: 'divider',
+        bgcolor: 'background.paper',
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          p: 1.5,
+          bgcolor: 'action.hover',
+          cursor: 'pointer',
+        }}
+        onClick={() => setExpanded(!expanded)}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="subtitle2" fontWeight={600}>
+            System Variables
+          </Typography>
+          <Chip
+            label={variables.length}
+            size="small"
+            sx={{ height: 20, fontSize: '0.7rem' }}
+          />
+        </Box>
+        <IconButton
+          size="small"
+          sx={{
+            transform: expanded ? 'rotate(180deg)' : 'none',
+            transition: 'transform 0.2s',
+          }}
+        >
+          <ExpandMoreIcon />
+        </IconButton>
+      </Box>
+
+      <Collapse in={expanded}>
+        <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Typography variant="caption" color="text.secondary">
+            Available in every step. Insert a variable at the cursor of the field you last edited,
+            or copy it to the clipboard.
+          </Typography>
+
+          {variables.map((variable) => (
+            <Box
+              key={variable.name}
+              sx={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: 1,
+                p: 1,
+                borderRadius: 1,
+                bgcolor: copiedVariable === variable.name
+                  ? 'success.light'
+                  : 'background.default',
+                transition: 'background-color 0.3s',
+                '&:hover': {
+                  bgcolor: copiedVariable === variable.name
+                    ? 'success.light'
+                    : 'action.hover',
+                },
+              }}
+            >
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography
+                  variant="body2"
+                  fontFamily="monospace"
+                  sx={{ fontWeight: 600, wordBreak: 'break-all', mb: 0.5 }}
+                >
+                  {variable.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {variable.description}
+                </Typography>
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  display="block"
+                  fontFamily="monospace"
+                  sx={{
+                    mt: 0.5,
+                    fontStyle: 'italic',
+                    opacity: 0.7,
+                  }}
+                >
+                  Example: {variable.example}
+                </Typography>
+              </Box>
+              <Tooltip
+                title={target ? `Insert into ${targetLabel}` : 'Click into a field of this step first'}
+                arrow
+              >
+                <span>
+                  <IconButton
+                    size="small"
+                    onClick={() => target && insertAtCursor(target, variable.name)}
+                    disabled={!target}
+                    sx={{ color: 'text.secondary' }}
+                  >
+                    <InsertIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip
+                title={copiedVariable === variable.name ? 'Copied!' : 'Copy to clipboard'}
+                arrow
+              >
+                <IconButton
+                  size="small"
+                  onClick={() => handleCopyVariable(variable.name)}
+                  sx={{
+                    color: copiedVariable === variable.name ? 'success.main' : 'text.secondary',
+                  }}
+                >
+                  <CopyIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+        </Box>
+      </Collapse>
+    </Paper>
+  );
+}
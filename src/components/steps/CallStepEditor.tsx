@@ -0,0 +1,226 @@
+/**
+ * CallStepEditor Component
+ * Editor for call step configuration (called scenario, input and output mapping)
+ */
+
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import type { CallStep, VariableAssignment } from '@/types';
+import { useCurrentScenario, useScenarios } from '@/store/hooks';
+import { AvailableLoopVariables } from './AvailableLoopVariables';
+import { AvailableSystemVariables } from './AvailableSystemVariables';
+
+interface CallStepEditorProps {
+  step: CallStep;
+  onChange: (changes: Partial<CallStep>) => void;
+}
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value ?? '');
+
+const createInput = (name: string, value: string): VariableAssignment => ({
+  id: `input_${Date.now()}`,
+  name,
+  value,
+});
+
+export function CallStepEditor({ step, onChange }: CallStepEditorProps) {
+  const scenario = useCurrentScenario();
+  const scenarios = useScenarios();
+  const callableScenarios = scenarios.filter((s) => s.id !== scenario?.id);
+  const calledScenario = scenarios.find((s) => s.id === step.scenarioId);
+  const parameterNames = new Set(calledScenario?.parameterSchema.map((p) => p.name) ?? []);
+  const unknownInputs = calledScenario
+    ? step.inputs.filter((input) => !parameterNames.has(input.name))
+    : step.inputs;
+
+  const handleInputChange = (name: string, value: string) => {
+    const index = step.inputs.findIndex((input) => input.name === name);
+    const newInputs = [...step.inputs];
+    if (index === -1) {
+      newInputs.push(createInput(name, value));
+    } else if (value === '') {
+      newInputs.splice(index, 1);
+    } else {
+      newInputs[index] = { ...newInputs[index], value };
+    }
+    onChange({ inputs: newInputs });
+  };
+
+  const handleDeleteInput = (id: string) => {
+    onChange({ inputs: step.inputs.filter((input) => input.id !== id) });
+  };
+
+  const handleAddOutput = () => {
+    const newOutput: VariableAssignment = {
+      id: `output_${Date.now()}`,
+      name: '',
+      value: '',
+    };
+    onChange({ outputs: [...step.outputs, newOutput] });
+  };
+
+  const handleDeleteOutput = (index: number) => {
+    const newOutputs = [...step.outputs];
+    newOutputs.splice(index, 1);
+    onChange({ outputs: newOutputs });
+  };
+
+  const handleOutputChange = (index: number, changes: Partial<VariableAssignment>) => {
+    const newOutputs = [...step.outputs];
+    newOutputs[index] = { ...newOutputs[index], ...changes };
+    onChange({ outputs: newOutputs });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Available Loop Variables */}
+      {scenario && (
+        <AvailableLoopVariables
+          currentStepId={step.id}
+          allSteps={scenario.steps}
+        />
+      )}
+
+      {/* System Variables */}
+      <AvailableSystemVariables stepName={step.name} />
+
+      {/* Called Scenario */}
+      <FormControl fullWidth>
+        <InputLabel>Scenario</InputLabel>
+        <Select
+          value={calledScenario ? step.scenarioId : ''}
+          label="Scenario"
+          onChange={(e) => onChange({ scenarioId: e.target.value })}
+        >
+          {callableScenarios.map((s) => (
+            <MenuItem key={s.id} value={s.id}>
+              {s.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {step.scenarioId && !calledScenario && (
+        <Alert severity="warning">
+          Scenario "{step.scenarioId}" was not found. The step fails until another scenario is selected.
+        </Alert>
+      )}
+
+      {/* Inputs */}
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Typography variant="subtitle2">Inputs</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Parameter values for the called scenario. Values can reference this scenario, e.g.{' '}
+          {'${vars.userId}'}. Empty parameters use their default value.
+        </Typography>
+
+        {calledScenario && calledScenario.parameterSchema.length === 0 && (
+          <Box sx={{ p: 2, textAlign: 'center', bgcolor: 'background.paper', borderRadius: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              The called scenario has no parameters.
+            </Typography>
+          </Box>
+        )}
+
+        {calledScenario?.parameterSchema.map((param) => {
+          const input = step.inputs.find((i) => i.name === param.name);
+          return (
+            <TextField
+              key={param.id}
+              label={`${param.name}${param.required ? ' *' : ''}`}
+              value={input ? formatValue(input.value) : ''}
+              onChange={(e) => handleInputChange(param.name, e.target.value)}
+              placeholder={param.defaultValue !== undefined ? formatValue(param.defaultValue) : `\${params.${param.name}}`}
+              helperText={param.description || param.type}
+              size="small"
+              fullWidth
+            />
+          );
+        })}
+
+        {unknownInputs.map((input) => (
+          <Box key={input.id} sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+            <TextField
+              label={input.name || '(unnamed)'}
+              value={formatValue(input.value)}
+              helperText="Not a parameter of the called scenario"
+              error
+              size="small"
+              disabled
+              sx={{ flex: 1 }}
+            />
+            <IconButton onClick={() => handleDeleteInput(input.id)} size="small" color="error">
+              <DeleteIcon />
+            </IconButton>
+          </Box>
+        ))}
+      </Box>
+
+      {/* Outputs */}
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="subtitle2">Outputs</Typography>
+          <Button
+            startIcon={<AddIcon />}
+            onClick={handleAddOutput}
+            size="small"
+            variant="outlined"
+          >
+            Add Output
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Set as {'${vars.name}'} in this scenario once the called scenario completes. Values are
+          resolved against the called scenario, e.g. {'${response.login.token}'}.
+        </Typography>
+
+        {step.outputs.length === 0 ? (
+          <Box sx={{ p: 2, textAlign: 'center', bgcolor: 'background.paper', borderRadius: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              No outputs. Responses and variables of the called scenario stay private.
+            </Typography>
+          </Box>
+        ) : (
+          step.outputs.map((output, index) => (
+            <Box key={output.id} sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+              <TextField
+                label="Variable"
+                value={output.name}
+                onChange={(e) => handleOutputChange(index, { name: e.target.value })}
+                placeholder="sessionToken"
+                size="small"
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Value"
+                value={formatValue(output.value)}
+                onChange={(e) => handleOutputChange(index, { value: e.target.value })}
+                placeholder="${response.login.token}"
+                size="small"
+                sx={{ flex: 2 }}
+              />
+              <IconButton onClick={() => handleDeleteOutput(index)} size="small" color="error">
+                <DeleteIcon />
+              </IconButton>
+            </Box>
+          ))
+        )}
+      </Box>
+    </Box>
+  );
+}
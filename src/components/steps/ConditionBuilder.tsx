@@ -29,39 +29,15 @@ import type {
   Condition,
   ConditionGroup,
   ConditionSource,
-  ComparisonOperator,
   LogicalOperator,
   RequestStep,
+  PollStep,
 } from '@/types';
-import { useCurrentSteps } from '@/store/hooks';
-
-const OPERATORS: ComparisonOperator[] = [
-  '==',
-  '!=',
-  '>',
-  '>=',
-  '<',
-  '<=',
-  'contains',
-  'notContains',
-  'isEmpty',
-  'isNotEmpty',
-  'exists',
-];
-
-const OPERATOR_LABELS: Record<ComparisonOperator, string> = {
-  '==': 'Equals',
-  '!=': 'Not Equals',
-  '>': 'Greater Than',
-  '>=': 'Greater or Equal',
-  '<': 'Less Than',
-  '<=': 'Less or Equal',
-  'contains': 'Contains',
-  'notContains': 'Does Not Contain',
-  'isEmpty': 'Is Empty',
-  'isNotEmpty': 'Is Not Empty',
-  'exists': 'Exists',
-};
+import { useMemo } from 'react';
+import { useCurrentSteps, useExecutionContext } from '@/store/hooks';
+import { queryJsonPath } from '@/engine';
+import { OPERATORS, OPERATOR_LABELS, operatorNeedsValue } from './conditionOperators';
+import { OperatorValueField } from './OperatorValueField';
 
 interface ConditionBuilderProps {
   value: ConditionExpression | undefined;
@@ -71,7 +47,9 @@ interface ConditionBuilderProps {
 
 export function ConditionBuilder({ value, onChange, depth = 0 }: ConditionBuilderProps) {
   const steps = useCurrentSteps();
-  const requestSteps = steps.filter((s) => s.type === 'request');
+  const requestSteps = steps.filter(
+    (s): s is RequestStep | PollStep => s.type === 'request' || s.type === 'poll'
+  );
 
   const isGroup = value && 'operator' in value && 'conditions' in value;
 
@@ -244,11 +222,61 @@ interface ConditionEditorProps {
   onChange: (value: Condition) => void;
   onDelete: () => void;
   depth: number;
-  requestSteps: RequestStep[];
+  requestSteps: (RequestStep | PollStep)[];
+}
+
+const PREVIEW_MAX_LENGTH = 200;
+
+const codeStyle = { backgroundColor: 'rgba(0,0,0,0.1)', padding: '0 4px', borderRadius: '2px' };
+
+/**
+ * Live preview of what the field path selects from the last run's
+ * parameters or step response
+ */
+function FieldPreview({ condition }: { condition: Condition }) {
+  const context = useExecutionContext();
+  const stepId = condition.source === 'response' ? condition.stepId : undefined;
+
+  const preview = useMemo((): { text: string; error?: boolean } | null => {
+    if (!condition.field.trim()) return null;
+    if (condition.field.includes('${')) {
+      return { text: 'Preview is not available for paths with ${...} references' };
+    }
+
+    const data = condition.source === 'params'
+      ? context?.params
+      : stepId ? context?.responses[stepId] : undefined;
+    if (data === undefined) {
+      return { text: 'Run the scenario to preview the selected value' };
+    }
+
+    try {
+      const selected = queryJsonPath(data, condition.field);
+      const text = selected === undefined ? 'undefined' : JSON.stringify(selected);
+      return {
+        text: text.length > PREVIEW_MAX_LENGTH ? `${text.substring(0, PREVIEW_MAX_LENGTH)}…` : text,
+      };
+    } catch (error) {
+      return { text: error instanceof Error ? error.message : String(error), error: true };
+    }
+  }, [condition.field, condition.source, stepId, context]);
+
+  if (!preview) return null;
+
+  return (
+    <Typography
+      variant="caption"
+      component="div"
+      color={preview.error ? 'error' : 'text.secondary'}
+      sx={{ mt: 0.5, fontFamily: 'monospace', wordBreak: 'break-all' }}
+    >
+      Preview: {preview.text}
+    </Typography>
+  );
 }
 
 function ConditionEditor({ value, onChange, onDelete, depth, requestSteps }: ConditionEditorProps) {
-  const needsValue = !['isEmpty', 'isNotEmpty', 'exists'].includes(value.operator);
+  const needsValue = operatorNeedsValue(value.operator);
 
   const handleChange = (field: string, fieldValue: Condition[keyof Condition]) => {
     onChange({ ...value, [field]: fieldValue } as Condition);
@@ -344,17 +372,22 @@ function ConditionEditor({ value, onChange, onDelete, depth, requestSteps }: Con
             value={value.field}
             onChange={(e) => handleChange('field', e.target.value)}
             size="small"
-            placeholder="data.status, items[0].name, ${loop.item}.id"
+            placeholder="data.status, items[0].name, items[*].id, ${loop.item}.id"
             helperText={
               <Box component="span" sx={{ fontSize: '0.75rem' }}>
-                JSON path to field. Array: <code style={{ backgroundColor: 'rgba(0,0,0,0.1)', padding: '0 4px', borderRadius: '2px' }}>items[0]</code>,
-                Loop item: <code style={{ backgroundColor: 'rgba(0,0,0,0.1)', padding: '0 4px', borderRadius: '2px' }}>{'${loop.item}'}</code>,
-                Loop index: <code style={{ backgroundColor: 'rgba(0,0,0,0.1)', padding: '0 4px', borderRadius: '2px' }}>{'${loop.index}'}</code>
+                JSON path to field. Array: <code style={codeStyle}>items[0]</code>,
+                All items: <code style={codeStyle}>items[*].id</code>,
+                Filter: <code style={codeStyle}>{"items[?(@.status == 'FAILED')]"}</code>,
+                Loop item: <code style={codeStyle}>{'${loop.item}'}</code>,
+                Loop index: <code style={codeStyle}>{'${loop.index}'}</code>
               </Box>
             }
             fullWidth
           />
 
+          {/* Live preview against the last run */}
+          <FieldPreview condition={value} />
+
           {/* Quick insert templates */}
           <Box sx={{ display: 'flex', gap: 0.5, mt: 1, flexWrap: 'wrap' }}>
             <Typography variant="caption" sx={{ color: 'text.secondary', alignSelf: 'center', mr: 0.5 }}>
@@ -381,6 +414,15 @@ function ConditionEditor({ value, onChange, onDelete, depth, requestSteps }: Con
               }}
               sx={{ cursor: 'pointer', height: 20, fontSize: '0.7rem' }}
             />
+            <Chip
+              label="[*]"
+              size="small"
+              onClick={() => {
+                const currentField = value.field || '';
+                handleChange('field', `${currentField}[*]`);
+              }}
+              sx={{ cursor: 'pointer', height: 20, fontSize: '0.7rem' }}
+            />
           </Box>
         </Box>
 
@@ -402,11 +444,11 @@ function ConditionEditor({ value, onChange, onDelete, depth, requestSteps }: Con
           </FormControl>
 
           {needsValue && (
-            <TextField
+            <OperatorValueField
+              operator={value.operator}
+              value={value.value}
+              onChange={(newValue) => handleChange('value', newValue)}
               label="Value"
-              value={value.value ?? ''}
-              onChange={(e) => handleChange('value', e.target.value)}
-              size="small"
               sx={{ flex: '1 1 100px' }}
             />
           )}
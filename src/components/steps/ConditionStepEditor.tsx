@@ -8,6 +8,7 @@ import type { ConditionStep } from '@/types';
 import { useCurrentScenario } from '@/store/hooks';
 import { BranchEditor } from './BranchEditor';
 import { AvailableLoopVariables } from './AvailableLoopVariables';
+import { AvailableSystemVariables } from './AvailableSystemVariables';
 
 interface ConditionStepEditorProps {
   step: ConditionStep;
@@ -27,6 +28,9 @@ export function ConditionStepEditor({ step, onChange }: ConditionStepEditorProps
         />
       )}
 
+      {/* System Variables */}
+      <AvailableSystemVariables stepName={step.name} />
+
       <Typography variant="body2" color="text.secondary">
         Condition steps evaluate branches in order and navigate to the first matching branch.
         Configure at least one default branch as fallback.
@@ -0,0 +1,175 @@
+/**
+ * ExtractionEditor Component
+ * Editor for capturing request step response values into named variables
+ */
+
+import {
+  Box,
+  Button,
+  IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Paper,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import type { ExtractionSource, VariableExtraction } from '@/types';
+
+const SOURCE_LABELS: Record<ExtractionSource, string> = {
+  body: 'Body (JSONPath)',
+  header: 'Header',
+  regex: 'Regex',
+  status: 'Status Code',
+};
+
+const EXPRESSION_LABELS: Partial<Record<ExtractionSource, { label: string; placeholder: string }>> = {
+  body: { label: 'JSONPath', placeholder: '$.data.token' },
+  header: { label: 'Header Name', placeholder: 'Location' },
+  regex: { label: 'Pattern', placeholder: '"id":\\s*"([^"]+)"' },
+};
+
+interface ExtractionEditorProps {
+  extractions: VariableExtraction[];
+  onChange: (extractions: VariableExtraction[]) => void;
+}
+
+export function ExtractionEditor({ extractions, onChange }: ExtractionEditorProps) {
+  const handleAddExtraction = () => {
+    const newExtraction: VariableExtraction = {
+      id: `extract_${Date.now()}`,
+      name: '',
+      source: 'body',
+      expression: '$.',
+    };
+    onChange([...extractions, newExtraction]);
+  };
+
+  const handleDeleteExtraction = (index: number) => {
+    const newExtractions = [...extractions];
+    newExtractions.splice(index, 1);
+    onChange(newExtractions);
+  };
+
+  const handleExtractionChange = (index: number, changes: Partial<VariableExtraction>) => {
+    const newExtractions = [...extractions];
+    newExtractions[index] = { ...newExtractions[index], ...changes };
+    onChange(newExtractions);
+  };
+
+  const handleSourceChange = (index: number, source: ExtractionSource) => {
+    const defaults: Record<ExtractionSource, Partial<VariableExtraction>> = {
+      body: { expression: '$.', group: undefined },
+      header: { expression: '', group: undefined },
+      regex: { expression: '', group: undefined },
+      status: { expression: '', group: undefined },
+    };
+    handleExtractionChange(index, { source, ...defaults[source] });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="subtitle2">Extract Variables</Typography>
+        <Button
+          startIcon={<AddIcon />}
+          onClick={handleAddExtraction}
+          size="small"
+          variant="outlined"
+        >
+          Add Variable
+        </Button>
+      </Box>
+
+      {extractions.length === 0 ? (
+        <Box sx={{ p: 2, textAlign: 'center', bgcolor: 'background.paper', borderRadius: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            No variables extracted. Extracted values are available as {'${vars.name}'}.
+          </Typography>
+        </Box>
+      ) : (
+        extractions.map((extraction, index) => {
+          const expressionField = EXPRESSION_LABELS[extraction.source];
+
+          return (
+            <Paper key={extraction.id} sx={{ p: 2, border: '1px solid', borderColor: 'divider' }}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+                <TextField
+                  label="Variable Name"
+                  value={extraction.name}
+                  onChange={(e) => handleExtractionChange(index, { name: e.target.value })}
+                  placeholder="authToken"
+                  size="small"
+                  sx={{ flex: 1 }}
+                />
+                <FormControl size="small" sx={{ flex: 1 }}>
+                  <InputLabel>Source</InputLabel>
+                  <Select
+                    value={extraction.source}
+                    label="Source"
+                    onChange={(e) => handleSourceChange(index, e.target.value as ExtractionSource)}
+                  >
+                    {(Object.keys(SOURCE_LABELS) as ExtractionSource[]).map((source) => (
+                      <MenuItem key={source} value={source}>
+                        {SOURCE_LABELS[source]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <IconButton onClick={() => handleDeleteExtraction(index)} size="small" color="error">
+                  <DeleteIcon />
+                </IconButton>
+              </Box>
+
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                {expressionField && (
+                  <TextField
+                    label={expressionField.label}
+                    value={extraction.expression}
+                    onChange={(e) => handleExtractionChange(index, { expression: e.target.value })}
+                    placeholder={expressionField.placeholder}
+                    size="small"
+                    sx={{ flex: '2 1 160px', '& input': { fontFamily: 'monospace' } }}
+                  />
+                )}
+                {extraction.source === 'regex' && (
+                  <TextField
+                    label="Group"
+                    type="number"
+                    value={extraction.group ?? ''}
+                    onChange={(e) =>
+                      handleExtractionChange(index, {
+                        group: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value, 10) || 0),
+                      })
+                    }
+                    placeholder="1"
+                    size="small"
+                    sx={{ flex: '0 1 80px' }}
+                  />
+                )}
+                <TextField
+                  label="Default Value"
+                  value={extraction.defaultValue === undefined ? '' : String(extraction.defaultValue)}
+                  onChange={(e) =>
+                    handleExtractionChange(index, {
+                      defaultValue: e.target.value === '' ? undefined : e.target.value,
+                    })
+                  }
+                  placeholder="(unchanged)"
+                  helperText="Used when nothing matches"
+                  size="small"
+                  sx={{ flex: '1 1 120px' }}
+                />
+              </Box>
+            </Paper>
+          );
+        })
+      )}
+    </Box>
+  );
+}
@@ -31,6 +31,7 @@ import { useCurrentScenario, useAppDispatch } from '@/store/hooks';
 import { addStep } from '@/store/scenariosSlice';
 import { MiniFlowPreview } from './MiniFlowPreview';
 import { AvailableLoopVariables } from './AvailableLoopVariables';
+import { AvailableSystemVariables } from './AvailableSystemVariables';
 import { wouldExceedNestingLimit, getNestingLimitMessage } from '@/utils/nestingUtils';
 
 interface GroupStepEditorProps {
@@ -239,6 +240,9 @@ export function GroupStepEditor({ step, allSteps, onChange }: GroupStepEditorPro
         />
       )}
 
+      {/* System Variables */}
+      <AvailableSystemVariables stepName={step.name} />
+
       {/* Collapsed toggle */}
       <FormControlLabel
         control={
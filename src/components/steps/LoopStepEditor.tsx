@@ -32,6 +32,7 @@ import { addStep } from '@/store/scenariosSlice';
 import { ConditionBuilder } from './ConditionBuilder';
 import { MiniFlowPreview } from './MiniFlowPreview';
 import { AvailableLoopVariables } from './AvailableLoopVariables';
+import { AvailableSystemVariables } from './AvailableSystemVariables';
 import { wouldExceedNestingLimit, getNestingLimitMessage } from '@/utils/nestingUtils';
 
 interface LoopStepEditorProps {
@@ -267,6 +268,9 @@ export function LoopStepEditor({ step, onChange }: LoopStepEditorProps) {
         />
       )}
 
+      {/* System Variables */}
+      <AvailableSystemVariables stepName={step.name} />
+
       {/* Variable Name for Loop Reference */}
       <TextField
         label="Variable Name"
@@ -310,8 +314,8 @@ export function LoopStepEditor({ step, onChange }: LoopStepEditorProps) {
             label="Source Array"
             value={(step.loop as ForEachLoop).source}
             onChange={(e) => handleLoopChange('source', e.target.value)}
-            placeholder="params.items or responses.stepId.data"
-            helperText="JSON path to the array to iterate over"
+            placeholder="params.items or response.stepId.data.items[*].lines[*]"
+            helperText="Path to the array to iterate over. Wildcards and filters collect all matches, e.g. items[?(@.status == 'FAILED')]"
             fullWidth
           />
           <TextField
@@ -338,6 +342,17 @@ export function LoopStepEditor({ step, onChange }: LoopStepEditorProps) {
             helperText="Field in each item specifying repeat count"
             fullWidth
           />
+          <TextField
+            label="Parallelism (optional)"
+            type="number"
+            value={(step.loop as ForEachLoop).parallelism || ''}
+            onChange={(e) =>
+              handleLoopChange('parallelism', e.target.value ? parseInt(e.target.value) : undefined)
+            }
+            helperText="Iterations that run at once. Use only when the loop body is safe to run concurrently"
+            inputProps={{ min: 1 }}
+            fullWidth
+          />
         </>
       )}
 
@@ -386,6 +401,34 @@ export function LoopStepEditor({ step, onChange }: LoopStepEditorProps) {
         fullWidth
       />
 
+      {/* Break / Continue Conditions */}
+      <Box>
+        <Typography variant="subtitle2" sx={{ mb: 2 }}>
+          Break When (optional)
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Checked after every step in the loop body. The loop ends as soon as this condition is met.
+        </Typography>
+        <ConditionBuilder
+          value={step.breakCondition}
+          onChange={(breakCondition) => onChange({ breakCondition })}
+        />
+      </Box>
+
+      <Box>
+        <Typography variant="subtitle2" sx={{ mb: 2 }}>
+          Continue When (optional)
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Checked after every step in the loop body. The rest of the iteration is skipped when this
+          condition is met.
+        </Typography>
+        <ConditionBuilder
+          value={step.continueCondition}
+          onChange={(continueCondition) => onChange({ continueCondition })}
+        />
+      </Box>
+
       <Divider />
 
       {/* Child Steps Selection - Improved UI */}
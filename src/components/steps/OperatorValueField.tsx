@@ -0,0 +1,133 @@
+/**
+ * OperatorValueField Component
+ * Value input matching a comparison operator: a type select for isType,
+ * min/max fields for between and a validated text field otherwise
+ */
+
+import { useMemo } from 'react';
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import type { SxProps, Theme } from '@mui/material';
+import type { ComparisonOperator } from '@/types';
+import { VALUE_TYPES, compareValues, resolveExpectedValue } from '@/engine/conditionEvaluator';
+import { createVariableContext } from '@/engine/variableResolver';
+import { OPERATOR_VALUE_HINTS } from './conditionOperators';
+
+interface OperatorValueFieldProps {
+  operator: ComparisonOperator;
+  value: unknown;
+  onChange: (value: string) => void;
+  /** Label of the text field (e.g. "Value", "Expected") */
+  label: string;
+  /** Placeholder for operators without a specific value format */
+  placeholder?: string;
+  sx?: SxProps<Theme>;
+}
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value ?? '');
+
+/**
+ * Splits a between value ("min, max" or [min, max]) into its bounds
+ */
+function splitRange(value: unknown): [string, string] {
+  if (Array.isArray(value)) {
+    return [formatValue(value[0] ?? ''), formatValue(value[1] ?? '')];
+  }
+  const text = formatValue(value);
+  const comma = text.indexOf(',');
+  return comma === -1 ? [text.trim(), ''] : [text.substring(0, comma).trim(), text.substring(comma + 1).trim()];
+}
+
+const joinRange = (min: string, max: string): string =>
+  min === '' && max === '' ? '' : `${min}, ${max}`;
+
+export function OperatorValueField({
+  operator,
+  value,
+  onChange,
+  label,
+  placeholder,
+  sx,
+}: OperatorValueFieldProps) {
+  const hint = OPERATOR_VALUE_HINTS[operator];
+
+  // Check the value format (regex, range, length, type) the same way the engine does;
+  // values with ${...} references can only be checked at run time
+  const error = useMemo(() => {
+    const text = formatValue(value);
+    if (text.trim() === '' || text.includes('${')) return undefined;
+    try {
+      const expected = resolveExpectedValue(value, createVariableContext({}), operator);
+      compareValues(operator, '', expected);
+      return undefined;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [operator, value]);
+
+  if (operator === 'isType') {
+    return (
+      <FormControl size="small" sx={sx}>
+        <InputLabel>Type</InputLabel>
+        <Select
+          value={VALUE_TYPES.includes(formatValue(value)) ? formatValue(value) : ''}
+          label="Type"
+          onChange={(e) => onChange(e.target.value)}
+        >
+          {VALUE_TYPES.map((type) => (
+            <MenuItem key={type} value={type}>
+              {type}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    );
+  }
+
+  if (operator === 'between') {
+    const [min, max] = splitRange(value);
+    return (
+      <Box sx={[{ display: 'flex', gap: 1 }, ...(Array.isArray(sx) ? sx : [sx])]}>
+        <TextField
+          label="Min"
+          value={min}
+          onChange={(e) => onChange(joinRange(e.target.value, max))}
+          placeholder="1"
+          error={!!error}
+          helperText={error ?? 'Inclusive'}
+          size="small"
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          label="Max"
+          value={max}
+          onChange={(e) => onChange(joinRange(min, e.target.value))}
+          placeholder="100"
+          error={!!error}
+          size="small"
+          sx={{ flex: 1 }}
+        />
+      </Box>
+    );
+  }
+
+  return (
+    <TextField
+      label={label}
+      value={formatValue(value)}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={hint?.placeholder ?? placeholder}
+      error={!!error}
+      helperText={error ?? hint?.helperText}
+      size="small"
+      sx={sx}
+    />
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * ParallelStepEditor Component
+ * Editor for parallel step configuration (lanes, join policy and concurrency)
+ */
+
+import {
+  Box,
+  Button,
+  IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Paper,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import type { JoinPolicy, ParallelLane, ParallelStep } from '@/types';
+import { useCurrentSteps } from '@/store/hooks';
+
+interface ParallelStepEditorProps {
+  step: ParallelStep;
+  onChange: (changes: Partial<ParallelStep>) => void;
+}
+
+export function ParallelStepEditor({ step, onChange }: ParallelStepEditorProps) {
+  const steps = useCurrentSteps();
+  const laneTargets = steps.filter((s) => s.id !== step.id);
+
+  const handleAddLane = () => {
+    const newLane: ParallelLane = {
+      id: `lane_${Date.now()}`,
+      label: `Lane ${step.lanes.length + 1}`,
+      nextStepId: '',
+    };
+    onChange({ lanes: [...step.lanes, newLane] });
+  };
+
+  const handleDeleteLane = (index: number) => {
+    const newLanes = [...step.lanes];
+    newLanes.splice(index, 1);
+    onChange({ lanes: newLanes });
+  };
+
+  const handleLaneChange = (index: number, changes: Partial<ParallelLane>) => {
+    const newLanes = [...step.lanes];
+    newLanes[index] = { ...newLanes[index], ...changes };
+    onChange({ lanes: newLanes });
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Typography variant="body2" color="text.secondary">
+        Each lane starts at its first step and follows the flow from there. The step after
+        this one runs once the join policy is met.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel>Join Policy</InputLabel>
+          <Select
+            value={step.joinPolicy}
+            label="Join Policy"
+            onChange={(e) => onChange({ joinPolicy: e.target.value as JoinPolicy })}
+          >
+            <MenuItem value="all">All lanes succeed</MenuItem>
+            <MenuItem value="any">Any lane succeeds</MenuItem>
+            <MenuItem value="count">N of M lanes succeed</MenuItem>
+          </Select>
+        </FormControl>
+        {step.joinPolicy === 'count' && (
+          <TextField
+            label="Required Lanes"
+            type="number"
+            value={step.joinCount ?? ''}
+            onChange={(e) => onChange({ joinCount: parseOptionalNumber(e.target.value) })}
+            size="small"
+            sx={{ width: 140 }}
+            inputProps={{ min: 1, max: step.lanes.length }}
+          />
+        )}
+      </Box>
+
+      <TextField
+        label="Max Concurrency"
+        type="number"
+        value={step.maxConcurrency ?? ''}
+        onChange={(e) => onChange({ maxConcurrency: parseOptionalNumber(e.target.value) })}
+        helperText="Lanes that may run at once. Leave empty to run every lane at once."
+        size="small"
+        inputProps={{ min: 1 }}
+      />
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="subtitle2">Lanes</Typography>
+          <Button
+            startIcon={<AddIcon />}
+            onClick={handleAddLane}
+            size="small"
+            variant="outlined"
+          >
+            Add Lane
+          </Button>
+        </Box>
+
+        {step.lanes.length === 0 ? (
+          <Box sx={{ p: 2, textAlign: 'center', bgcolor: 'background.paper', borderRadius: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              No lanes configured. Add at least one lane.
+            </Typography>
+          </Box>
+        ) : (
+          step.lanes.map((lane, index) => (
+            <Paper key={lane.id} sx={{ p: 2, border: '1px solid', borderColor: 'divider' }}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+                <TextField
+                  label="Lane Label"
+                  value={lane.label}
+                  onChange={(e) => handleLaneChange(index, { label: e.target.value })}
+                  size="small"
+                  sx={{ flex: 1 }}
+                />
+                <FormControl size="small" sx={{ flex: 1 }}>
+                  <InputLabel>First Step</InputLabel>
+                  <Select
+                    value={lane.nextStepId}
+                    label="First Step"
+                    onChange={(e) => handleLaneChange(index, { nextStepId: e.target.value })}
+                  >
+                    <MenuItem value="">
+                      <em>None (Empty lane)</em>
+                    </MenuItem>
+                    {laneTargets.map((target) => (
+                      <MenuItem key={target.id} value={target.id}>
+                        {target.name} ({target.type})
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <IconButton onClick={() => handleDeleteLane(index)} size="small" color="error">
+                  <DeleteIcon />
+                </IconButton>
+              </Box>
+            </Paper>
+          ))
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,323 @@
+/**
+ * PollStepEditor Component
+ * Editor for poll step configuration (request, until condition, interval and timeout)
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  IconButton,
+  Button,
+  Switch,
+  Paper,
+  Collapse,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ExpandMore as ExpandMoreIcon,
+} from '@mui/icons-material';
+import type { PollStep, PollConfig, HttpMethod, StepHeader } from '@/types';
+import { useServers, useCurrentScenario } from '@/store/hooks';
+import { ConditionBuilder } from './ConditionBuilder';
+import { ExtractionEditor } from './ExtractionEditor';
+import { AvailableLoopVariables } from './AvailableLoopVariables';
+import { AvailableSystemVariables } from './AvailableSystemVariables';
+
+interface PollStepEditorProps {
+  step: PollStep;
+  onChange: (changes: Partial<PollStep>) => void;
+}
+
+export function PollStepEditor({ step, onChange }: PollStepEditorProps) {
+  const servers = useServers();
+  const scenario = useCurrentScenario();
+  const [expandHeaders, setExpandHeaders] = useState(false);
+  const [expandExtract, setExpandExtract] = useState(false);
+
+  // Body editing state - use focus/blur pattern to avoid input issues
+  const [bodyLocalValue, setBodyLocalValue] = useState(() =>
+    typeof step.body === 'string' ? step.body : JSON.stringify(step.body, null, 2)
+  );
+  const [isBodyEditing, setIsBodyEditing] = useState(false);
+
+  // Sync body from external changes when not editing
+  useEffect(() => {
+    if (!isBodyEditing) {
+      queueMicrotask(() => {
+        setBodyLocalValue(
+          typeof step.body === 'string' ? step.body : JSON.stringify(step.body, null, 2)
+        );
+      });
+    }
+  }, [step.body, isBodyEditing]);
+
+  const handlePollChange = (changes: Partial<PollConfig>) => {
+    onChange({ poll: { ...step.poll, ...changes } });
+  };
+
+  const handleHeaderChange = (index: number, field: keyof StepHeader, value: StepHeader[keyof StepHeader]) => {
+    const newHeaders = [...step.headers];
+    newHeaders[index] = { ...newHeaders[index], [field]: value };
+    onChange({ headers: newHeaders });
+  };
+
+  const handleDeleteHeader = (index: number) => {
+    const newHeaders = [...step.headers];
+    newHeaders.splice(index, 1);
+    onChange({ headers: newHeaders });
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+  };
+
+  const alias = step.responseAlias || step.id;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Available Loop Variables */}
+      {scenario && (
+        <AvailableLoopVariables
+          currentStepId={step.id}
+          allSteps={scenario.steps}
+        />
+      )}
+
+      {/* System Variables */}
+      <AvailableSystemVariables stepName={step.name} />
+
+      {/* Server and Method */}
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <FormControl fullWidth>
+          <InputLabel>Target Server</InputLabel>
+          <Select
+            value={step.serverId}
+            label="Target Server"
+            onChange={(e) => onChange({ serverId: e.target.value })}
+          >
+            {servers.map((server) => (
+              <MenuItem key={server.id} value={server.id}>
+                {server.name} ({server.baseUrl})
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl sx={{ minWidth: 120 }}>
+          <InputLabel>Method</InputLabel>
+          <Select
+            value={step.method}
+            label="Method"
+            onChange={(e) => onChange({ method: e.target.value as HttpMethod })}
+          >
+            <MenuItem value="GET">GET</MenuItem>
+            <MenuItem value="POST">POST</MenuItem>
+            <MenuItem value="PUT">PUT</MenuItem>
+            <MenuItem value="PATCH">PATCH</MenuItem>
+            <MenuItem value="DELETE">DELETE</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+
+      {/* Endpoint */}
+      <TextField
+        label="Endpoint"
+        value={step.endpoint}
+        onChange={(e) => onChange({ endpoint: e.target.value })}
+        placeholder="/api/jobs/${responses.createJob.id}"
+        fullWidth
+      />
+
+      {/* Headers Section */}
+      <Box>
+        <Button
+          onClick={() => setExpandHeaders(!expandHeaders)}
+          endIcon={<ExpandMoreIcon sx={{ transform: expandHeaders ? 'rotate(180deg)' : 'none' }} />}
+          fullWidth
+          sx={{ justifyContent: 'space-between' }}
+        >
+          Headers ({step.headers.length})
+        </Button>
+        <Collapse in={expandHeaders}>
+          <Paper sx={{ p: 2, mt: 1 }}>
+            {step.headers.map((header, index) => (
+              <Box key={index} sx={{ display: 'flex', gap: 1, mb: 2, alignItems: 'center' }}>
+                <Switch
+                  checked={header.enabled}
+                  onChange={(e) => handleHeaderChange(index, 'enabled', e.target.checked)}
+                  size="small"
+                />
+                <TextField
+                  label="Key"
+                  value={header.key}
+                  onChange={(e) => handleHeaderChange(index, 'key', e.target.value)}
+                  size="small"
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  label="Value"
+                  value={header.value}
+                  onChange={(e) => handleHeaderChange(index, 'value', e.target.value)}
+                  size="small"
+                  sx={{ flex: 2 }}
+                />
+                <IconButton onClick={() => handleDeleteHeader(index)} size="small" color="error">
+                  <DeleteIcon />
+                </IconButton>
+              </Box>
+            ))}
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() => onChange({ headers: [...step.headers, { key: '', value: '', enabled: true }] })}
+              size="small"
+              variant="outlined"
+              fullWidth
+            >
+              Add Header
+            </Button>
+          </Paper>
+        </Collapse>
+      </Box>
+
+      {/* Request Body */}
+      {['POST', 'PUT', 'PATCH'].includes(step.method) && (
+        <TextField
+          label="Request Body"
+          value={bodyLocalValue}
+          onFocus={() => setIsBodyEditing(true)}
+          onChange={(e) => setBodyLocalValue(e.target.value)}
+          onBlur={() => {
+            setIsBodyEditing(false);
+            try {
+              onChange({ body: JSON.parse(bodyLocalValue) });
+            } catch {
+              onChange({ body: bodyLocalValue });
+            }
+          }}
+          multiline
+          rows={4}
+          helperText="JSON format"
+          fullWidth
+        />
+      )}
+
+      {/* Response Alias */}
+      <TextField
+        label="Response Alias"
+        value={step.responseAlias || ''}
+        onChange={(e) => onChange({ responseAlias: e.target.value })}
+        placeholder={step.id}
+        helperText={
+          <Box component="span">
+            The latest response is saved as{' '}
+            <code style={{ backgroundColor: '#f5f5f5', padding: '0 4px', borderRadius: 2 }}>
+              {`\${responses.${alias}.field}`}
+            </code>
+          </Box>
+        }
+        size="small"
+      />
+
+      {/* Until Condition */}
+      <Box>
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          Poll Until
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Checked after every attempt. Use a response condition on this step to read the latest response.
+        </Typography>
+        <ConditionBuilder
+          value={step.poll.until}
+          onChange={(until) => {
+            if (until) {
+              handlePollChange({ until });
+            }
+          }}
+        />
+      </Box>
+
+      {/* Interval and Backoff */}
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <TextField
+          label="Interval (ms)"
+          type="number"
+          value={step.poll.intervalMs}
+          onChange={(e) => handlePollChange({ intervalMs: parseInt(e.target.value) || 0 })}
+          size="small"
+          sx={{ flex: 1 }}
+          inputProps={{ min: 0 }}
+        />
+        <TextField
+          label="Backoff Multiplier"
+          type="number"
+          value={step.poll.backoffMultiplier ?? ''}
+          onChange={(e) => handlePollChange({ backoffMultiplier: parseOptionalNumber(e.target.value) })}
+          helperText="e.g. 1.5; empty keeps the interval fixed"
+          size="small"
+          sx={{ flex: 1 }}
+          inputProps={{ min: 1, step: 0.1 }}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <TextField
+          label="Max Interval (ms)"
+          type="number"
+          value={step.poll.maxIntervalMs ?? ''}
+          onChange={(e) => handlePollChange({ maxIntervalMs: parseOptionalNumber(e.target.value) })}
+          disabled={!step.poll.backoffMultiplier || step.poll.backoffMultiplier <= 1}
+          size="small"
+          sx={{ flex: 1 }}
+          inputProps={{ min: 1 }}
+        />
+        <TextField
+          label="Timeout (ms)"
+          type="number"
+          value={step.poll.timeoutMs}
+          onChange={(e) => handlePollChange({ timeoutMs: parseInt(e.target.value) || 0 })}
+          helperText="Wall-clock limit for all attempts"
+          size="small"
+          sx={{ flex: 1 }}
+          inputProps={{ min: 0 }}
+        />
+      </Box>
+
+      <TextField
+        label="Request Timeout Override (ms)"
+        type="number"
+        value={step.timeout || ''}
+        onChange={(e) => onChange({ timeout: e.target.value ? parseInt(e.target.value) : undefined })}
+        helperText="Per attempt, never longer than the time left. Leave empty to use server default"
+        size="small"
+      />
+
+      {/* Extract Variables Section */}
+      <Box>
+        <Button
+          onClick={() => setExpandExtract(!expandExtract)}
+          endIcon={<ExpandMoreIcon sx={{ transform: expandExtract ? 'rotate(180deg)' : 'none' }} />}
+          fullWidth
+          sx={{ justifyContent: 'space-between' }}
+        >
+          Extract Variables ({step.extract?.length || 0})
+        </Button>
+        <Collapse in={expandExtract}>
+          <Box sx={{ mt: 2 }}>
+            <ExtractionEditor
+              extractions={step.extract || []}
+              onChange={(extract) => onChange({ extract })}
+            />
+          </Box>
+        </Collapse>
+      </Box>
+    </Box>
+  );
+}
@@ -27,7 +27,10 @@ import {
 import type { RequestStep, HttpMethod, StepHeader } from '@/types';
 import { useServers, useCurrentScenario } from '@/store/hooks';
 import { BranchEditor } from './BranchEditor';
+import { AssertionEditor } from './AssertionEditor';
+import { ExtractionEditor } from './ExtractionEditor';
 import { AvailableLoopVariables } from './AvailableLoopVariables';
+import { AvailableSystemVariables } from './AvailableSystemVariables';
 
 interface RequestStepEditorProps {
   step: RequestStep;
@@ -40,6 +43,8 @@ export function RequestStepEditor({ step, onChange }: RequestStepEditorProps) {
   const [expandHeaders, setExpandHeaders] = useState(false);
   const [expandBranches, setExpandBranches] = useState(false);
   const [expandRetry, setExpandRetry] = useState(false);
+  const [expandAssertions, setExpandAssertions] = useState(false);
+  const [expandExtract, setExpandExtract] = useState(false);
 
   // Body editing state - use focus/blur pattern to avoid input issues
   const [bodyLocalValue, setBodyLocalValue] = useState(() =>
@@ -101,6 +106,9 @@ export function RequestStepEditor({ step, onChange }: RequestStepEditorProps) {
         />
       )}
 
+      {/* System Variables */}
+      <AvailableSystemVariables stepName={step.name} />
+
       {/* Server and Method */}
       <Box sx={{ display: 'flex', gap: 2 }}>
         <FormControl fullWidth>
@@ -298,15 +306,29 @@ export function RequestStepEditor({ step, onChange }: RequestStepEditorProps) {
           fullWidth
           sx={{ justifyContent: 'space-between' }}
         >
-          Retry Configuration
+          Retry Configuration{step.retryConfig ? ` (${step.retryConfig.maxRetries} retries)` : ''}
         </Button>
         <Collapse in={expandRetry}>
           <Paper sx={{ p: 2, mt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={!!step.retryConfig}
+                  onChange={(e) =>
+                    e.target.checked
+                      ? handleRetryConfigChange('maxRetries', step.retryConfig?.maxRetries ?? 3)
+                      : onChange({ retryConfig: undefined })
+                  }
+                />
+              }
+              label="Retry failed requests"
+            />
             <TextField
               label="Max Retries"
               type="number"
               value={step.retryConfig?.maxRetries ?? 3}
               onChange={(e) => handleRetryConfigChange('maxRetries', parseInt(e.target.value))}
+              disabled={!step.retryConfig}
               size="small"
             />
             <TextField
@@ -314,6 +336,8 @@ export function RequestStepEditor({ step, onChange }: RequestStepEditorProps) {
               type="number"
               value={step.retryConfig?.retryDelayMs ?? 1000}
               onChange={(e) => handleRetryConfigChange('retryDelayMs', parseInt(e.target.value))}
+              disabled={!step.retryConfig}
+              helperText="Doubled on each retry, with random jitter"
               size="small"
             />
             <TextField
@@ -325,12 +349,54 @@ export function RequestStepEditor({ step, onChange }: RequestStepEditorProps) {
                   e.target.value.split(',').map((s) => parseInt(s.trim())).filter((n) => !isNaN(n))
                 )
               }
+              disabled={!step.retryConfig}
+              helperText="Network errors and timeouts are always retried"
               size="small"
             />
           </Paper>
         </Collapse>
       </Box>
 
+      {/* Assertions Section */}
+      <Box>
+        <Button
+          onClick={() => setExpandAssertions(!expandAssertions)}
+          endIcon={<ExpandMoreIcon sx={{ transform: expandAssertions ? 'rotate(180deg)' : 'none' }} />}
+          fullWidth
+          sx={{ justifyContent: 'space-between' }}
+        >
+          Response Assertions ({step.assertions?.length || 0})
+        </Button>
+        <Collapse in={expandAssertions}>
+          <Box sx={{ mt: 2 }}>
+            <AssertionEditor
+              assertions={step.assertions || []}
+              onChange={(assertions) => onChange({ assertions })}
+            />
+          </Box>
+        </Collapse>
+      </Box>
+
+      {/* Extract Variables Section */}
+      <Box>
+        <Button
+          onClick={() => setExpandExtract(!expandExtract)}
+          endIcon={<ExpandMoreIcon sx={{ transform: expandExtract ? 'rotate(180deg)' : 'none' }} />}
+          fullWidth
+          sx={{ justifyContent: 'space-between' }}
+        >
+          Extract Variables ({step.extract?.length || 0})
+        </Button>
+        <Collapse in={expandExtract}>
+          <Box sx={{ mt: 2 }}>
+            <ExtractionEditor
+              extractions={step.extract || []}
+              onChange={(extract) => onChange({ extract })}
+            />
+          </Box>
+        </Collapse>
+      </Box>
+
       <Divider />
 
       {/* Branches Section */}
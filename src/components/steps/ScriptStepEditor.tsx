@@ -0,0 +1,99 @@
+/**
+ * ScriptStepEditor Component
+ * Editor for script step configuration (JavaScript code and time limit)
+ */
+
+import { useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type { ScriptStep } from '@/types';
+import { DEFAULT_SCRIPT_TIMEOUT_MS, MAX_SCRIPT_TIMEOUT_MS, SCRIPT_IMPORT_PATTERN } from '@/engine';
+
+interface ScriptStepEditorProps {
+  step: ScriptStep;
+  onChange: (changes: Partial<ScriptStep>) => void;
+}
+
+const SCRIPT_GLOBALS = ['params', 'responses', 'vars', 'env', 'loop', 'loops', 'error', 'system'];
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+  ...args: string[]
+) => unknown;
+
+/**
+ * Compiles the code without running it to report syntax errors
+ * Also reports import, which the worker refuses
+ */
+function getSyntaxError(code: string): string | undefined {
+  if (SCRIPT_IMPORT_PATTERN.test(code)) {
+    return 'SyntaxError: Scripts cannot use import (the word is refused in strings and comments too)';
+  }
+  try {
+    new AsyncFunction(...SCRIPT_GLOBALS, 'console', `"use strict";\n${code}`);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  }
+}
+
+export function ScriptStepEditor({ step, onChange }: ScriptStepEditorProps) {
+  const syntaxError = useMemo(() => getSyntaxError(step.code), [step.code]);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Alert severity="info">
+        <Typography variant="body2">
+          The script runs in a worker and is stopped after its time limit. It can read{' '}
+          {SCRIPT_GLOBALS.map((name, index) => (
+            <span key={name}>
+              {index > 0 && ', '}
+              <code>{name}</code>
+            </span>
+          ))}{' '}
+          (read-only) and use <code>await</code>. Network globals such as <code>fetch</code> are removed,
+          code cannot be compiled at run time and <code>import</code> is refused.
+        </Typography>
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          Return an object to set variables, e.g. <code>{'return { total: 3 }'}</code> sets{' '}
+          <code>{'${vars.total}'}</code>. Console output appears in the execution logs.
+        </Typography>
+      </Alert>
+
+      {/* Code */}
+      <TextField
+        label="Script"
+        value={step.code}
+        onChange={(e) => onChange({ code: e.target.value })}
+        multiline
+        minRows={10}
+        placeholder={`const failed = responses.getOrders.items.filter((item) => item.status === 'FAILED');
+console.log('Failed orders:', failed.length);
+return { failedIds: failed.map((item) => item.id) };`}
+        error={!!syntaxError}
+        helperText={syntaxError ?? 'JavaScript function body. Values must be JSON-compatible.'}
+        slotProps={{
+          htmlInput: {
+            spellCheck: false,
+            style: { fontFamily: 'monospace', fontSize: '0.85rem' },
+          },
+        }}
+        fullWidth
+      />
+
+      {/* Time limit */}
+      <TextField
+        label="Time Limit (ms)"
+        type="number"
+        value={step.timeoutMs || ''}
+        onChange={(e) => onChange({ timeoutMs: e.target.value ? parseInt(e.target.value) : undefined })}
+        placeholder={String(DEFAULT_SCRIPT_TIMEOUT_MS)}
+        helperText={`Defaults to ${DEFAULT_SCRIPT_TIMEOUT_MS} ms, at most ${MAX_SCRIPT_TIMEOUT_MS} ms`}
+        size="small"
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * SetVariableStepEditor Component
+ * Editor for set variable step configuration (named variable assignments)
+ */
+
+import {
+  Box,
+  Button,
+  IconButton,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import type { SetVariableStep, VariableAssignment } from '@/types';
+import { useCurrentScenario } from '@/store/hooks';
+import { AvailableLoopVariables } from './AvailableLoopVariables';
+import { AvailableSystemVariables } from './AvailableSystemVariables';
+
+interface SetVariableStepEditorProps {
+  step: SetVariableStep;
+  onChange: (changes: Partial<SetVariableStep>) => void;
+}
+
+export function SetVariableStepEditor({ step, onChange }: SetVariableStepEditorProps) {
+  const scenario = useCurrentScenario();
+
+  const handleAddAssignment = () => {
+    const newAssignment: VariableAssignment = {
+      id: `assign_${Date.now()}`,
+      name: '',
+      value: '',
+    };
+    onChange({ assignments: [...step.assignments, newAssignment] });
+  };
+
+  const handleDeleteAssignment = (index: number) => {
+    const newAssignments = [...step.assignments];
+    newAssignments.splice(index, 1);
+    onChange({ assignments: newAssignments });
+  };
+
+  const handleAssignmentChange = (index: number, changes: Partial<VariableAssignment>) => {
+    const newAssignments = [...step.assignments];
+    newAssignments[index] = { ...newAssignments[index], ...changes };
+    onChange({ assignments: newAssignments });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Available Loop Variables */}
+      {scenario && (
+        <AvailableLoopVariables
+          currentStepId={step.id}
+          allSteps={scenario.steps}
+        />
+      )}
+
+      {/* System Variables */}
+      <AvailableSystemVariables stepName={step.name} />
+
+      <Typography variant="body2" color="text.secondary">
+        Assignments run in order and are available to later steps as {'${vars.name}'}.
+        A value that is a single reference like {'${response.login.token}'} keeps its original type.
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="subtitle2">Assignments</Typography>
+          <Button
+            startIcon={<AddIcon />}
+            onClick={handleAddAssignment}
+            size="small"
+            variant="outlined"
+          >
+            Add Assignment
+          </Button>
+        </Box>
+
+        {step.assignments.length === 0 ? (
+          <Box sx={{ p: 2, textAlign: 'center', bgcolor: 'background.paper', borderRadius: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              No assignments. Add one to set a scenario variable.
+            </Typography>
+          </Box>
+        ) : (
+          step.assignments.map((assignment, index) => (
+            <Box key={assignment.id} sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+              <TextField
+                label="Name"
+                value={assignment.name}
+                onChange={(e) => handleAssignmentChange(index, { name: e.target.value })}
+                placeholder="authToken"
+                size="small"
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Value"
+                value={typeof assignment.value === 'string' ? assignment.value : JSON.stringify(assignment.value ?? '')}
+                onChange={(e) => handleAssignmentChange(index, { value: e.target.value })}
+                placeholder="${response.login.data.token}"
+                size="small"
+                sx={{ flex: 2 }}
+              />
+              <IconButton onClick={() => handleDeleteAssignment(index)} size="small" color="error">
+                <DeleteIcon />
+              </IconButton>
+            </Box>
+          ))
+        )}
+      </Box>
+    </Box>
+  );
+}
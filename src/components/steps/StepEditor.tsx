@@ -22,8 +22,9 @@ import {
   Delete as DeleteIcon,
   MoveDown as MoveIcon,
   ExitToApp as RemoveIcon,
+  ErrorOutline as ErrorEdgeIcon,
 } from '@mui/icons-material';
-import type { Step, ExecutionMode, LoopStep, GroupStep } from '@/types';
+import type { Step, ExecutionMode, FailurePolicy, LoopStep, GroupStep, ScenarioEdge } from '@/types';
 import { useCurrentScenario, useSelectedStep, useAppDispatch } from '@/store/hooks';
 import {
   updateStep,
@@ -38,8 +39,23 @@ import { RequestStepEditor } from './RequestStepEditor';
 import { ConditionStepEditor } from './ConditionStepEditor';
 import { LoopStepEditor } from './LoopStepEditor';
 import { GroupStepEditor } from './GroupStepEditor';
+import { SetVariableStepEditor } from './SetVariableStepEditor';
+import { ParallelStepEditor } from './ParallelStepEditor';
+import { PollStepEditor } from './PollStepEditor';
+import { CallStepEditor } from './CallStepEditor';
+import { ScriptStepEditor } from './ScriptStepEditor';
 import { ConditionBuilder } from './ConditionBuilder';
 
+// Default flow edges leave a step without a branch, lane or error handle
+const isDefaultEdge = (edge: ScenarioEdge, stepId: string) =>
+  edge.sourceStepId === stepId &&
+  !edge.sourceHandle?.startsWith('branch_') &&
+  !edge.sourceHandle?.startsWith('lane_') &&
+  edge.sourceHandle !== 'error';
+
+const isErrorEdge = (edge: ScenarioEdge, stepId: string) =>
+  edge.sourceStepId === stepId && edge.sourceHandle === 'error';
+
 export function StepEditor() {
   const dispatch = useAppDispatch();
   const scenario = useCurrentScenario();
@@ -49,12 +65,17 @@ export function StepEditor() {
   // Find the current next step from edges (default edge, not branch edges)
   const currentNextStep = useMemo(() => {
     if (!scenario || !step) return '';
-    const defaultEdge = scenario.edges.find(
-      (e) => e.sourceStepId === step.id && !e.sourceHandle?.startsWith('branch_')
-    );
+    const defaultEdge = scenario.edges.find((e) => isDefaultEdge(e, step.id));
     return defaultEdge?.targetStepId || '';
   }, [scenario, step]);
 
+  // Find the step that runs when this step fails (error edge)
+  const currentErrorStep = useMemo(() => {
+    if (!scenario || !step) return '';
+    const errorEdge = scenario.edges.find((e) => isErrorEdge(e, step.id));
+    return errorEdge?.targetStepId || '';
+  }, [scenario, step]);
+
   // Get other steps (excluding current step) for next step selection
   const otherSteps = useMemo(() => {
     if (!scenario || !step) return [];
@@ -113,56 +134,45 @@ export function StepEditor() {
     );
   };
 
-  // Handle next step change - creates or updates edge
-  const handleNextStepChange = (nextStepId: string) => {
-    // Find existing default edge from this step
-    const existingEdge = scenario.edges.find(
-      (e) => e.sourceStepId === step.id && !e.sourceHandle?.startsWith('branch_')
-    );
-
-    if (nextStepId === '') {
-      // Remove edge if clearing the selection
-      if (existingEdge) {
-        dispatch(
-          deleteEdge({
-            scenarioId: scenario.id,
-            edgeId: existingEdge.id,
-          })
-        );
-      }
-    } else if (existingEdge) {
-      // Update existing edge target - delete and recreate
+  // Replaces an edge leaving this step - removes it when the target is cleared
+  const replaceEdge = (
+    existingEdge: ScenarioEdge | undefined,
+    targetStepId: string,
+    sourceHandle?: string
+  ) => {
+    if (existingEdge) {
       dispatch(
         deleteEdge({
           scenarioId: scenario.id,
           edgeId: existingEdge.id,
         })
       );
+    }
+    if (targetStepId !== '') {
       dispatch(
         addEdge({
           scenarioId: scenario.id,
           edge: {
             id: `edge_${Date.now()}`,
             sourceStepId: step.id,
-            targetStepId: nextStepId,
-          },
-        })
-      );
-    } else {
-      // Create new edge
-      dispatch(
-        addEdge({
-          scenarioId: scenario.id,
-          edge: {
-            id: `edge_${Date.now()}`,
-            sourceStepId: step.id,
-            targetStepId: nextStepId,
+            targetStepId,
+            sourceHandle,
           },
         })
       );
     }
   };
 
+  // Handle next step change - creates or updates the default edge
+  const handleNextStepChange = (nextStepId: string) => {
+    replaceEdge(scenario.edges.find((e) => isDefaultEdge(e, step.id)), nextStepId);
+  };
+
+  // Handle error step change - creates or updates the error edge
+  const handleErrorStepChange = (errorStepId: string) => {
+    replaceEdge(scenario.edges.find((e) => isErrorEdge(e, step.id)), errorStepId, 'error');
+  };
+
   // Handle delete step
   const handleDeleteStep = () => {
     if (confirm('Are you sure you want to delete this step?')) {
@@ -267,6 +277,23 @@ export function StepEditor() {
               fullWidth
             />
           )}
+
+          <FormControl fullWidth>
+            <InputLabel>On Failure</InputLabel>
+            <Select
+              value={step.onFailure ?? ''}
+              label="On Failure"
+              onChange={(e) =>
+                handleCommonChange('onFailure', (e.target.value || undefined) as FailurePolicy | undefined)
+              }
+            >
+              <MenuItem value="">Default - Follow the run setting</MenuItem>
+              <MenuItem value="stop">Stop - Fail the run</MenuItem>
+              <MenuItem value="continue">Continue - Record the failure and go on</MenuItem>
+              <MenuItem value="skipIteration">Skip Iteration - End the current loop iteration</MenuItem>
+              <MenuItem value="warning">Warning - Mark as warning and go on</MenuItem>
+            </Select>
+          </FormControl>
         </Box>
       </Paper>
 
@@ -306,6 +333,36 @@ export function StepEditor() {
             )}
           </Typography>
         </Alert>
+
+        {(step.type === 'request' || step.type === 'poll' || step.type === 'call' || step.type === 'script' || step.type === 'group') && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 3, mb: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+              <ErrorEdgeIcon fontSize="small" color="error" />
+              On Error
+            </Typography>
+            <FormControl fullWidth>
+              <InputLabel>Error Step</InputLabel>
+              <Select
+                value={currentErrorStep}
+                label="Error Step"
+                onChange={(e) => handleErrorStepChange(e.target.value)}
+              >
+                <MenuItem value="">
+                  <em>(Fail the run)</em>
+                </MenuItem>
+                {otherSteps.map((s) => (
+                  <MenuItem key={s.id} value={s.id}>
+                    {s.name} ({s.type})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              When this step fails, execution continues here instead of stopping.
+              The failure is available as {'${error.message}'}, {'${error.code}'} and {'${error.status}'}.
+            </Typography>
+          </>
+        )}
       </Paper>
 
       {/* Container Management - Move to/from Loop/Group */}
@@ -390,7 +447,7 @@ export function StepEditor() {
       {/* Type-specific Editor */}
       <Paper sx={{ p: 2 }}>
         <Typography variant="subtitle2" sx={{ mb: 2, textTransform: 'capitalize' }}>
-          {step.type} Configuration
+          {step.type === 'setVariable' ? 'Set Variable' : step.type} Configuration
         </Typography>
 
         {step.type === 'request' && (
@@ -412,6 +469,26 @@ export function StepEditor() {
             onChange={handleTypeSpecificChange}
           />
         )}
+
+        {step.type === 'setVariable' && (
+          <SetVariableStepEditor step={step} onChange={handleTypeSpecificChange} />
+        )}
+
+        {step.type === 'parallel' && (
+          <ParallelStepEditor step={step} onChange={handleTypeSpecificChange} />
+        )}
+
+        {step.type === 'poll' && (
+          <PollStepEditor step={step} onChange={handleTypeSpecificChange} />
+        )}
+
+        {step.type === 'call' && (
+          <CallStepEditor step={step} onChange={handleTypeSpecificChange} />
+        )}
+
+        {step.type === 'script' && (
+          <ScriptStepEditor step={step} onChange={handleTypeSpecificChange} />
+        )}
       </Paper>
 
       {/* Save indicator - changes are saved automatically in Redux */}
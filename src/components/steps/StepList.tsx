@@ -26,17 +26,28 @@ import {
   AccountTree as ConditionIcon,
   Loop as LoopIcon,
   Folder as GroupIcon,
+  DataObject as SetVariableIcon,
+  ForkRight as ParallelIcon,
+  Update as PollIcon,
+  CallMade as CallIcon,
+  Code as ScriptIcon,
 } from '@mui/icons-material';
 import type { Step, StepType, ExecutionMode } from '@/types';
 import { useCurrentScenario, useCurrentSteps, useSelectedStepId, useAppDispatch } from '@/store/hooks';
 import { addStep, deleteStep } from '@/store/scenariosSlice';
 import { setSelectedStep } from '@/store/uiSlice';
+import { DEFAULT_SCRIPT_CODE } from '@/utils/stepFactory';
 
 const STEP_TYPE_CONFIG: Record<StepType, { icon: React.ReactElement; label: string; color: string }> = {
   request: { icon: <HttpIcon />, label: 'Request', color: '#2196f3' },
   condition: { icon: <ConditionIcon />, label: 'Condition', color: '#ff9800' },
   loop: { icon: <LoopIcon />, label: 'Loop', color: '#9c27b0' },
   group: { icon: <GroupIcon />, label: 'Group', color: '#4caf50' },
+  setVariable: { icon: <SetVariableIcon />, label: 'Set Variable', color: '#009688' },
+  parallel: { icon: <ParallelIcon />, label: 'Parallel', color: '#5e35b1' },
+  poll: { icon: <PollIcon />, label: 'Poll', color: '#c2185b' },
+  call: { icon: <CallIcon />, label: 'Call Scenario', color: '#6d4c41' },
+  script: { icon: <ScriptIcon />, label: 'Script', color: '#455a64' },
 };
 
 const EXECUTION_MODE_CONFIG: Record<ExecutionMode, { label: string; color: 'default' | 'primary' | 'secondary' | 'error' | 'info' | 'success' | 'warning' }> = {
@@ -119,6 +130,63 @@ export function StepList() {
           stepIds: [],
         };
         break;
+      case 'setVariable':
+        newStep = {
+          ...baseStep,
+          type: 'setVariable',
+          assignments: [],
+        };
+        break;
+      case 'parallel':
+        newStep = {
+          ...baseStep,
+          type: 'parallel',
+          lanes: [1, 2].map(n => ({
+            id: `lane_${crypto.randomUUID().slice(0, 8)}`,
+            label: `Lane ${n}`,
+            nextStepId: '',
+          })),
+          joinPolicy: 'all',
+        };
+        break;
+      case 'poll':
+        newStep = {
+          ...baseStep,
+          type: 'poll',
+          serverId: '',
+          method: 'GET',
+          endpoint: '',
+          headers: [],
+          poll: {
+            until: {
+              id: `cond_${uniqueId}`,
+              source: 'response',
+              stepId,
+              field: 'status',
+              operator: '==',
+              value: 'DONE',
+            },
+            intervalMs: 2000,
+            timeoutMs: 60000,
+          },
+        };
+        break;
+      case 'call':
+        newStep = {
+          ...baseStep,
+          type: 'call',
+          scenarioId: '',
+          inputs: [],
+          outputs: [],
+        };
+        break;
+      case 'script':
+        newStep = {
+          ...baseStep,
+          type: 'script',
+          code: DEFAULT_SCRIPT_CODE,
+        };
+        break;
     }
 
     dispatch(addStep({ scenarioId: scenario.id, step: newStep }));
@@ -0,0 +1,86 @@
+/**
+ * Comparison operator metadata shared by condition and assertion editors
+ */
+
+import type { ComparisonOperator } from '@/types';
+
+export const OPERATORS: ComparisonOperator[] = [
+  '==',
+  '!=',
+  'equalsIgnoreCase',
+  '>',
+  '>=',
+  '<',
+  '<=',
+  'between',
+  'contains',
+  'notContains',
+  'startsWith',
+  'endsWith',
+  'matches',
+  'in',
+  'notIn',
+  'isType',
+  'lengthEquals',
+  'lengthGreaterThan',
+  'isEmpty',
+  'isNotEmpty',
+  'exists',
+];
+
+export const OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+  '==': 'Equals',
+  '!=': 'Not Equals',
+  'equalsIgnoreCase': 'Equals (Ignore Case)',
+  '>': 'Greater Than',
+  '>=': 'Greater or Equal',
+  '<': 'Less Than',
+  '<=': 'Less or Equal',
+  'between': 'Between',
+  'contains': 'Contains',
+  'notContains': 'Does Not Contain',
+  'startsWith': 'Starts With',
+  'endsWith': 'Ends With',
+  'matches': 'Matches Regex',
+  'in': 'In List',
+  'notIn': 'Not In List',
+  'isType': 'Is Type',
+  'lengthEquals': 'Length Equals',
+  'lengthGreaterThan': 'Length Greater Than',
+  'isEmpty': 'Is Empty',
+  'isNotEmpty': 'Is Not Empty',
+  'exists': 'Exists',
+};
+
+/**
+ * Placeholder and help text for operators whose value has a specific format
+ */
+export const OPERATOR_VALUE_HINTS: Partial<Record<ComparisonOperator, { placeholder: string; helperText: string }>> = {
+  'matches': {
+    placeholder: '^ORD-\\d+$',
+    helperText: 'Regular expression, or /pattern/flags (e.g. /^ord-\\d+$/i)',
+  },
+  'in': {
+    placeholder: 'ACTIVE, PENDING',
+    helperText: 'Comma-separated values or a JSON array',
+  },
+  'notIn': {
+    placeholder: 'FAILED, CANCELLED',
+    helperText: 'Comma-separated values or a JSON array',
+  },
+  'lengthEquals': {
+    placeholder: '3',
+    helperText: 'Length of a string or array (key count for objects)',
+  },
+  'lengthGreaterThan': {
+    placeholder: '0',
+    helperText: 'Length of a string or array (key count for objects)',
+  },
+};
+
+/**
+ * Checks if an operator compares against a value (isEmpty, isNotEmpty and exists do not)
+ */
+export function operatorNeedsValue(operator: ComparisonOperator): boolean {
+  return !['isEmpty', 'isNotEmpty', 'exists'].includes(operator);
+}
@@ -11,3 +11,10 @@ export { ConditionStepEditor } from './ConditionStepEditor';
 export { LoopStepEditor } from './LoopStepEditor';
 export { ConditionBuilder } from './ConditionBuilder';
 export { BranchEditor } from './BranchEditor';
+export { AssertionEditor } from './AssertionEditor';
+export { ExtractionEditor } from './ExtractionEditor';
+export { SetVariableStepEditor } from './SetVariableStepEditor';
+export { ParallelStepEditor } from './ParallelStepEditor';
+export { PollStepEditor } from './PollStepEditor';
+export { CallStepEditor } from './CallStepEditor';
+export { ScriptStepEditor } from './ScriptStepEditor';
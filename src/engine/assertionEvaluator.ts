@@ -0,0 +1,204 @@
+/**
+ * Response assertion evaluation
+ * Checks a request step's response against its declarative assertions
+ */
+
+import { z } from 'zod';
+import type { ResponseAssertion, AssertionResult } from '../types';
+import { getResponseHeader, type HttpResponse } from './httpClient';
+import type { VariableContext } from './variableResolver';
+import { compareValues, resolveExpectedValue } from './conditionEvaluator';
+import { queryJsonPath } from './jsonPath';
+
+/**
+ * Operators that do not use an expected value
+ */
+const VALUELESS_OPERATORS = ['isEmpty', 'isNotEmpty', 'exists'];
+
+/**
+ * Extracts the actual value an assertion checks from the response
+ *
+ * @param assertion - Assertion to evaluate
+ * @param response - HTTP response
+ * @returns Value to compare against the expected value
+ */
+function getActualValue(assertion: ResponseAssertion, response: HttpResponse): unknown {
+  switch (assertion.type) {
+    case 'status':
+      return response.status;
+    case 'header':
+      return getResponseHeader(response.headers, assertion.target ?? '');
+    case 'body':
+    case 'jsonSchema':
+      return queryJsonPath(response.data, assertion.target || '$');
+    case 'responseTime':
+      return response.duration;
+    default:
+      throw new Error(`Unsupported assertion type: ${(assertion as ResponseAssertion).type}`);
+  }
+}
+
+/**
+ * Builds a short human-readable label for an assertion (e.g., "status == 200")
+ *
+ * @param assertion - Assertion to describe
+ * @returns Label shown in execution results
+ */
+export function describeAssertion(assertion: ResponseAssertion): string {
+  if (assertion.description) {
+    return assertion.description;
+  }
+
+  const expected = VALUELESS_OPERATORS.includes(assertion.operator)
+    ? ''
+    : ` ${typeof assertion.expected === 'string' ? assertion.expected : JSON.stringify(assertion.expected)}`;
+
+  switch (assertion.type) {
+    case 'status':
+      return `status ${assertion.operator}${expected}`;
+    case 'header':
+      return `header ${assertion.target} ${assertion.operator}${expected}`;
+    case 'body':
+      return `${assertion.target || '$'} ${assertion.operator}${expected}`;
+    case 'responseTime':
+      return `response time ${assertion.operator}${expected} ms`;
+    case 'jsonSchema':
+      return `${assertion.target || '$'} matches JSON schema`;
+    default:
+      return assertion.type;
+  }
+}
+
+/**
+ * Validates data against a JSON Schema
+ *
+ * @param data - Data to validate
+ * @param schema - JSON Schema object
+ * @returns Error message, or undefined if the data is valid
+ */
+function validateJsonSchema(data: unknown, schema: unknown): string | undefined {
+  if (!schema || (typeof schema !== 'object' && typeof schema !== 'boolean')) {
+    return 'Expected value is not a valid JSON schema';
+  }
+
+  let validator: z.ZodType;
+  try {
+    validator = z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch (error) {
+    return `Invalid JSON schema: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const result = validator.safeParse(data);
+  if (result.success) {
+    return undefined;
+  }
+
+  return result.error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '$'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Evaluates a single assertion against a response
+ *
+ * @param assertion - Assertion to evaluate
+ * @param response - HTTP response
+ * @param context - Variable context for resolving expected values
+ * @returns Assertion result
+ */
+export function evaluateAssertion(
+  assertion: ResponseAssertion,
+  response: HttpResponse,
+  context: VariableContext
+): AssertionResult {
+  const label = describeAssertion(assertion);
+
+  try {
+    const actual = getActualValue(assertion, response);
+    const expected = resolveExpectedValue(
+      assertion.expected,
+      context,
+      assertion.type === 'jsonSchema' ? undefined : assertion.operator
+    );
+
+    if (assertion.type === 'jsonSchema') {
+      const message = validateJsonSchema(actual, expected);
+      return {
+        assertionId: assertion.id,
+        type: assertion.type,
+        label,
+        passed: message === undefined,
+        message,
+      };
+    }
+
+    const passed = compareValues(assertion.operator, actual, expected);
+    return {
+      assertionId: assertion.id,
+      type: assertion.type,
+      label,
+      passed,
+      actual,
+      expected,
+      message: passed
+        ? undefined
+        : `Expected ${JSON.stringify(actual)} ${assertion.operator}` +
+          (VALUELESS_OPERATORS.includes(assertion.operator) ? '' : ` ${JSON.stringify(expected)}`),
+    };
+  } catch (error) {
+    return {
+      assertionId: assertion.id,
+      type: assertion.type,
+      label,
+      passed: false,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Evaluates all enabled assertions of a request step
+ *
+ * @param assertions - Assertions to evaluate
+ * @param response - HTTP response
+ * @param context - Variable context for resolving expected values
+ * @returns Results for each enabled assertion, in definition order
+ */
+export function evaluateAssertions(
+  assertions: ResponseAssertion[],
+  response: HttpResponse,
+  context: VariableContext
+): AssertionResult[] {
+  return assertions
+    .filter((assertion) => assertion.enabled !== false)
+    .map((assertion) => evaluateAssertion(assertion, response, context));
+}
+
+/**
+ * Checks if enabled assertions include a status assertion
+ * Such a step decides on error statuses (4xx/5xx) through its assertions
+ * instead of failing as a request error
+ *
+ * @param assertions - Assertions of a request step
+ * @returns True if an enabled assertion checks the status code
+ */
+export function hasStatusAssertion(assertions: ResponseAssertion[] | undefined): boolean {
+  return (assertions ?? []).some((assertion) => assertion.enabled !== false && assertion.type === 'status');
+}
+
+/**
+ * Error thrown when a request step's response fails its assertions
+ */
+export class AssertionFailedError extends Error {
+  readonly results: AssertionResult[];
+
+  constructor(stepName: string, results: AssertionResult[]) {
+    const failed = results.filter((r) => !r.passed);
+    super(
+      `${failed.length} of ${results.length} assertion(s) failed for step "${stepName}": ` +
+      failed.map((r) => r.label).join('; ')
+    );
+    this.name = 'AssertionFailedError';
+    this.results = results;
+  }
+}
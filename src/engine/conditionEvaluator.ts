@@ -3,7 +3,6 @@
  * Supports single conditions and complex condition groups with AND/OR logic
  */
 
-import { get } from 'lodash-es';
 import type {
   Condition,
   ConditionGroup,
@@ -11,13 +10,16 @@ import type {
   ComparisonOperator,
 } from '../types';
 import type { VariableContext } from './variableResolver';
-import { resolveStringVariables } from './variableResolver';
+import { resolveStringVariables, resolveVariablePath } from './variableResolver';
+import { queryJsonPath } from './jsonPath';
 
 /**
  * Retrieves the value for a condition from the context
  *
  * Resolves variables in the field path before accessing the value.
  * This allows dynamic field paths like "items[${loop.index}].name".
+ * The field is a JSONPath, so "items[?(@.status == 'FAILED')].id" selects
+ * an array of all matches.
  *
  * @param condition - Condition to evaluate
  * @param context - Variable context
@@ -30,8 +32,10 @@ function getConditionValue(
   // Resolve variables in the field path (e.g., "items[${loop.index}].name" -> "items[2].name")
   const resolvedField = resolveStringVariables(condition.field, context);
 
+  const resolveVariable = (path: string) => resolveVariablePath(path, context);
+
   if (condition.source === 'params') {
-    return get(context.params, resolvedField);
+    return queryJsonPath(context.params, resolvedField, resolveVariable);
   }
 
   if (condition.source === 'response') {
@@ -39,7 +43,7 @@ function getConditionValue(
     if (!response) {
       return undefined;
     }
-    return get(response, resolvedField);
+    return queryJsonPath(response, resolvedField, resolveVariable);
   }
 
   return undefined;
@@ -108,15 +112,156 @@ function contains(haystack: unknown, needle: unknown): boolean {
   return false;
 }
 
+/**
+ * Type names accepted by the isType operator
+ */
+export const VALUE_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
+
+/**
+ * Operators whose expected value is text, so "007" or "null" are not converted
+ */
+const TEXT_OPERATORS: ComparisonOperator[] = ['equalsIgnoreCase', 'matches', 'startsWith', 'endsWith', 'isType'];
+
+/**
+ * Converts a scalar to text for string operators (objects and arrays have no text form)
+ *
+ * @param value - Value to convert
+ * @returns Text, or undefined for null, undefined, objects and arrays
+ */
+function toComparableText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+/**
+ * Builds a regular expression from a pattern
+ * Accepts a plain pattern ("^ORD-\d+$") or a literal with flags ("/^ord-\d+$/i")
+ *
+ * @param pattern - Pattern text
+ * @returns Regular expression
+ * @throws Error if the pattern is invalid
+ */
+function toRegExp(pattern: string): RegExp {
+  const literal = /^\/(.+)\/([dgimsuyv]*)$/s.exec(pattern);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+/**
+ * Converts a numeric string to a number, the way expected values are parsed
+ * ("42" -> 42); other values are returned unchanged
+ *
+ * @param value - Value to convert
+ * @returns Number for numeric strings, otherwise the value itself
+ */
+function toNumericValue(value: unknown): unknown {
+  return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+}
+
+/**
+ * Checks list membership with strict equality, comparing numeric strings as numbers
+ * (so a "200" header matches 200 but "true" does not match true)
+ */
+function isInList(value: unknown, list: unknown): boolean {
+  const actual = toNumericValue(value);
+  return toList(list).some((item) => toNumericValue(item) === actual);
+}
+
+/**
+ * Reads a list from an expected value: an array, or comma-separated values
+ * ("ACTIVE, PENDING" -> ["ACTIVE", "PENDING"], "200, 201" -> [200, 201])
+ *
+ * @param value - Expected value
+ * @returns List items
+ */
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    return value === '' ? [] : value.split(',').map((item) => parseStringValue(item.trim()));
+  }
+  return [value];
+}
+
+/**
+ * Reads the inclusive range of the between operator: [min, max] or "min, max"
+ *
+ * @param value - Expected value
+ * @returns Minimum and maximum
+ * @throws Error if the value is not a pair of numbers
+ */
+function toRange(value: unknown): [number, number] {
+  const bounds = toList(value).map(toNumericValue);
+  if (bounds.length !== 2 || !bounds.every((bound) => typeof bound === 'number' && !isNaN(bound))) {
+    throw new Error(`between expects "min, max", got ${JSON.stringify(value)}`);
+  }
+  const [min, max] = bounds as [number, number];
+  return min <= max ? [min, max] : [max, min];
+}
+
+/**
+ * Reads the length of a string or array, or the key count of an object
+ *
+ * @param value - Value to measure
+ * @returns Length, or undefined for other types
+ */
+function lengthOf(value: unknown): number | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (value !== null && typeof value === 'object') return Object.keys(value).length;
+  return undefined;
+}
+
+/**
+ * Reads the number a length operator compares against
+ *
+ * @throws Error if the expected value is not a non-negative integer
+ */
+function toExpectedLength(operator: ComparisonOperator, value: unknown): number {
+  const length = toNumericValue(value);
+  if (typeof length !== 'number' || !Number.isInteger(length) || length < 0) {
+    throw new Error(`${operator} expects a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+  return length;
+}
+
+/**
+ * Checks the type of a value
+ *
+ * @param value - Value to check
+ * @param type - Type name (see VALUE_TYPES)
+ * @returns True if the value has the type
+ * @throws Error if the type name is unknown
+ */
+function isType(value: unknown, type: unknown): boolean {
+  switch (typeof type === 'string' ? type.trim().toLowerCase() : type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      throw new Error(`isType expects one of ${VALUE_TYPES.join(', ')}, got ${JSON.stringify(type)}`);
+  }
+}
+
 /**
  * Compares two values using the specified operator
+ * Shared by condition evaluation and response assertions
  *
  * @param operator - Comparison operator
  * @param actualValue - Value from context
  * @param expectedValue - Value to compare against
  * @returns True if comparison passes
  */
-function compareValues(
+export function compareValues(
   operator: ComparisonOperator,
   actualValue: unknown,
   expectedValue: unknown
@@ -167,6 +312,53 @@ function compareValues(
     case 'exists':
       return exists(actualValue);
 
+    case 'equalsIgnoreCase': {
+      const actual = toComparableText(actualValue);
+      const expected = toComparableText(expectedValue);
+      return actual !== undefined && expected !== undefined && actual.toLowerCase() === expected.toLowerCase();
+    }
+
+    case 'matches': {
+      const actual = toComparableText(actualValue);
+      return actual !== undefined && toRegExp(String(expectedValue ?? '')).test(actual);
+    }
+
+    case 'startsWith': {
+      const actual = toComparableText(actualValue);
+      return actual !== undefined && actual.startsWith(String(expectedValue ?? ''));
+    }
+
+    case 'endsWith': {
+      const actual = toComparableText(actualValue);
+      return actual !== undefined && actual.endsWith(String(expectedValue ?? ''));
+    }
+
+    case 'in':
+      return isInList(actualValue, expectedValue);
+
+    case 'notIn':
+      return !isInList(actualValue, expectedValue);
+
+    case 'isType':
+      return isType(actualValue, expectedValue);
+
+    case 'between': {
+      const [min, max] = toRange(expectedValue);
+      const actual = toNumericValue(actualValue);
+      return typeof actual === 'number' && actual >= min && actual <= max;
+    }
+
+    case 'lengthEquals': {
+      const expected = toExpectedLength(operator, expectedValue);
+      return lengthOf(actualValue) === expected;
+    }
+
+    case 'lengthGreaterThan': {
+      const expected = toExpectedLength(operator, expectedValue);
+      const length = lengthOf(actualValue);
+      return length !== undefined && length > expected;
+    }
+
     default:
       throw new Error(`Unsupported operator: ${operator}`);
   }
@@ -205,18 +397,30 @@ function parseStringValue(value: string): unknown {
 /**
  * Resolves the expected value from condition
  * If the value is a string containing variable references, resolve them
- * Also handles type conversion for string values (boolean, number, etc.)
+ * Also handles type conversion for string values (boolean, number, etc.),
+ * except for text operators such as startsWith where "007" stays a string
  *
  * @param value - Expected value (may contain variable references)
  * @param context - Variable context
+ * @param operator - Operator the value is compared with
  * @returns Resolved value
  */
-function resolveExpectedValue(value: unknown, context: VariableContext): unknown {
+export function resolveExpectedValue(
+  value: unknown,
+  context: VariableContext,
+  operator?: ComparisonOperator
+): unknown {
   if (typeof value === 'string') {
+    const isText = operator !== undefined && TEXT_OPERATORS.includes(operator);
+
     // Check if the value contains variable references like ${params.xxx} or ${response.xxx}
     if (value.includes('${')) {
       const resolved = resolveStringVariables(value, context);
-      return parseStringValue(resolved);
+      return isText ? resolved : parseStringValue(resolved);
+    }
+
+    if (isText) {
+      return value;
     }
 
     // Even without variable references, try to parse the string value
@@ -239,7 +443,7 @@ export function evaluateSingleCondition(
 ): boolean {
   const actualValue = getConditionValue(condition, context);
   // Resolve variable references in expected value (e.g., "${params.expectedStatus}")
-  const expectedValue = resolveExpectedValue(condition.value, context);
+  const expectedValue = resolveExpectedValue(condition.value, context, condition.operator);
   return compareValues(condition.operator, actualValue, expectedValue);
 }
 
@@ -333,3 +537,28 @@ export function evaluateOptionalCondition(
 
   return evaluateCondition(expression, context);
 }
+
+/**
+ * Describes a condition expression for display
+ * (e.g. "params.limit > 10", "(findUser.status == 200 AND params.dryRun == true)")
+ *
+ * @param expression - Condition expression to describe
+ * @returns Human-readable condition text
+ */
+export function describeCondition(expression: ConditionExpression): string {
+  if (isConditionGroup(expression)) {
+    const parts = expression.conditions.map(describeCondition);
+    return parts.length > 1 ? `(${parts.join(` ${expression.operator} `)})` : parts[0] ?? '';
+  }
+
+  const prefix = expression.source === 'response' ? expression.stepId : 'params';
+  const field = expression.field ? `${prefix}.${expression.field}` : prefix;
+  if (['isEmpty', 'isNotEmpty', 'exists'].includes(expression.operator)) {
+    return `${field} ${expression.operator}`;
+  }
+
+  const value = typeof expression.value === 'string'
+    ? expression.value
+    : JSON.stringify(expression.value);
+  return `${field} ${expression.operator} ${value}`;
+}
@@ -0,0 +1,87 @@
+/**
+ * Environment application
+ * Applies an environment's server overrides and exposes its ${env.*} variables
+ */
+
+import type { Environment, Server, ServerHeader } from '../types';
+
+/**
+ * Merges override headers over server headers
+ * An override replaces the server header with the same key (case-insensitive)
+ *
+ * @param serverHeaders - Headers from the server configuration
+ * @param overrideHeaders - Headers from the environment override
+ * @returns Merged header list
+ */
+function mergeOverrideHeaders(
+  serverHeaders: ServerHeader[],
+  overrideHeaders: ServerHeader[]
+): ServerHeader[] {
+  const overrideKeys = new Set(
+    overrideHeaders
+      .filter((h) => h.key.trim() !== '')
+      .map((h) => h.key.trim().toLowerCase())
+  );
+
+  return [
+    ...serverHeaders.filter((h) => !overrideKeys.has(h.key.trim().toLowerCase())),
+    ...overrideHeaders.filter((h) => h.key.trim() !== ''),
+  ];
+}
+
+/**
+ * Returns server configurations with an environment's overrides applied
+ *
+ * @param servers - Map of server configurations (serverId -> Server)
+ * @param environment - Active environment (servers are returned unchanged if omitted)
+ * @returns New map with overridden base URLs and headers
+ */
+export function applyEnvironment(
+  servers: Map<string, Server>,
+  environment?: Environment | null
+): Map<string, Server> {
+  if (!environment) {
+    return servers;
+  }
+
+  const result = new Map(servers);
+
+  for (const override of environment.serverOverrides) {
+    const server = servers.get(override.serverId);
+    if (!server) continue;
+
+    result.set(server.id, {
+      ...server,
+      baseUrl: override.baseUrl?.trim() ? override.baseUrl.trim() : server.baseUrl,
+      headers: override.headers && override.headers.length > 0
+        ? mergeOverrideHeaders(server.headers, override.headers)
+        : server.headers,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Collects the enabled variables of an environment
+ *
+ * @param environment - Active environment
+ * @returns Variables keyed by name (empty if no environment is active)
+ */
+export function getEnvironmentVariables(
+  environment?: Environment | null
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  if (!environment) {
+    return variables;
+  }
+
+  for (const variable of environment.variables) {
+    const key = variable.key.trim();
+    if (variable.enabled && key) {
+      variables[key] = variable.value;
+    }
+  }
+
+  return variables;
+}
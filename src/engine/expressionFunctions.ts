@@ -0,0 +1,431 @@
+/**
+ * Expression functions
+ * Built-in functions available in ${...} expressions, either called directly
+ * (${uuid()}) or through a pipe (${params.name | upper})
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * A built-in expression function
+ */
+interface ExpressionFunction {
+  /** Minimum number of arguments */
+  minArgs: number;
+  /** Maximum number of arguments */
+  maxArgs: number;
+  /** Implementation; throws an Error with a short reason for invalid input */
+  call: (...args: unknown[]) => unknown;
+}
+
+/**
+ * Converts a value to text the same way ${...} substitution does
+ * (null/undefined -> "", objects -> JSON)
+ */
+export function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Converts a value to a number (numeric strings are accepted)
+ *
+ * @throws Error if the value is not numeric
+ */
+export function toNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  throw new Error(`expected a number, got ${value === undefined ? 'undefined' : JSON.stringify(value)}`);
+}
+
+function toArray(value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`expected an array, got ${value === undefined ? 'undefined' : JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function toInteger(value: unknown): number {
+  const number = toNumber(value);
+  if (!Number.isInteger(number)) {
+    throw new Error(`expected an integer, got ${number}`);
+  }
+  return number;
+}
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/**
+ * Time offset accepted by now(), e.g. "+1d", "-2h", "30m"
+ */
+const OFFSET_PATTERN = /^([+-])?\s*(\d+)\s*(ms|s|m|h|d|w|M|y)$/;
+
+const OFFSET_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Applies an offset such as "+1d" or "-3M" to a date
+ *
+ * @param date - Date to shift
+ * @param offset - Signed amount and unit (ms, s, m, h, d, w, M = months, y = years)
+ * @returns Shifted date
+ */
+function applyOffset(date: Date, offset: string): Date {
+  const match = OFFSET_PATTERN.exec(offset.trim());
+  if (!match) {
+    throw new Error(`invalid offset "${offset}" (use e.g. "+1d", "-2h", "+30m")`);
+  }
+
+  const amount = Number(match[2]) * (match[1] === '-' ? -1 : 1);
+  const unit = match[3];
+  const shifted = new Date(date.getTime());
+
+  if (unit === 'M') {
+    shifted.setUTCMonth(shifted.getUTCMonth() + amount);
+  } else if (unit === 'y') {
+    shifted.setUTCFullYear(shifted.getUTCFullYear() + amount);
+  } else {
+    shifted.setTime(shifted.getTime() + amount * OFFSET_UNITS[unit]);
+  }
+  return shifted;
+}
+
+/**
+ * Formats a date in UTC
+ *
+ * Tokens: yyyy, yy, MM, dd, HH, mm, ss, SSS. The special formats "epoch"
+ * (seconds) and "epochMs" (milliseconds) return numbers.
+ *
+ * @param date - Date to format
+ * @param format - Format pattern
+ * @returns Formatted date
+ */
+function formatDate(date: Date, format: string): string | number {
+  if (format === 'epoch') {
+    return Math.floor(date.getTime() / 1000);
+  }
+  if (format === 'epochMs') {
+    return date.getTime();
+  }
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const tokens: Record<string, string> = {
+    yyyy: String(date.getUTCFullYear()),
+    yy: pad(date.getUTCFullYear() % 100),
+    MM: pad(date.getUTCMonth() + 1),
+    dd: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    SSS: pad(date.getUTCMilliseconds(), 3),
+  };
+  return format.replace(/yyyy|yy|MM|dd|HH|mm|ss|SSS/g, (token) => tokens[token]);
+}
+
+/**
+ * now([offset], [format]) - Current time, optionally shifted and formatted
+ * (ISO format when no format is given)
+ */
+function now(...args: unknown[]): unknown {
+  let offset: string | undefined;
+  let format: string | undefined;
+
+  if (args.length === 2) {
+    offset = toText(args[0]);
+    format = toText(args[1]);
+  } else if (args.length === 1) {
+    // A single argument is an offset when it looks like one, otherwise a format
+    const text = toText(args[0]);
+    if (OFFSET_PATTERN.test(text.trim())) {
+      offset = text;
+    } else {
+      format = text;
+    }
+  }
+
+  const date = offset ? applyOffset(new Date(), offset) : new Date();
+  return format ? formatDate(date, format) : date.toISOString();
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function base64Encode(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function base64Decode(text: string): string {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch {
+    throw new Error('invalid base64 input');
+  }
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * SHA-256 round constants
+ */
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+/**
+ * Computes the SHA-256 digest of a UTF-8 string
+ *
+ * Implemented inline because expressions are evaluated synchronously and
+ * Web Crypto only offers an async digest.
+ *
+ * @param text - Input text
+ * @returns Lowercase hex digest
+ */
+function sha256(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const bitLength = bytes.length * 8;
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const data = new Uint8Array(paddedLength);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + SHA256_K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    hash[0] = (hash[0] + a) >>> 0;
+    hash[1] = (hash[1] + b) >>> 0;
+    hash[2] = (hash[2] + c) >>> 0;
+    hash[3] = (hash[3] + d) >>> 0;
+    hash[4] = (hash[4] + e) >>> 0;
+    hash[5] = (hash[5] + f) >>> 0;
+    hash[6] = (hash[6] + g) >>> 0;
+    hash[7] = (hash[7] + h) >>> 0;
+  }
+
+  return hash.map((word) => word.toString(16).padStart(8, '0')).join('');
+}
+
+// ============================================================================
+// Function registry
+// ============================================================================
+
+const RANDOM_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Built-in functions by name
+ * In a pipe, the piped value is passed as the first argument
+ */
+const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  // Generators
+  uuid: { minArgs: 0, maxArgs: 0, call: () => uuidv4() },
+  now: { minArgs: 0, maxArgs: 2, call: now },
+  randomInt: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: (min, max) => {
+      const low = toInteger(min);
+      const high = toInteger(max);
+      if (low > high) {
+        throw new Error(`min (${low}) is greater than max (${high})`);
+      }
+      return low + Math.floor(Math.random() * (high - low + 1));
+    },
+  },
+  randomString: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: (length) => Array.from(
+      { length: Math.max(0, toInteger(length)) },
+      () => RANDOM_CHARACTERS[Math.floor(Math.random() * RANDOM_CHARACTERS.length)]
+    ).join(''),
+  },
+
+  // Encoding and hashing
+  base64: { minArgs: 1, maxArgs: 1, call: (value) => base64Encode(toText(value)) },
+  base64Decode: { minArgs: 1, maxArgs: 1, call: (value) => base64Decode(toText(value)) },
+  urlEncode: { minArgs: 1, maxArgs: 1, call: (value) => encodeURIComponent(toText(value)) },
+  urlDecode: { minArgs: 1, maxArgs: 1, call: (value) => decodeURIComponent(toText(value)) },
+  sha256: { minArgs: 1, maxArgs: 1, call: (value) => sha256(toText(value)) },
+  json: { minArgs: 1, maxArgs: 1, call: (value) => JSON.stringify(value ?? null) },
+  parseJson: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => {
+      try {
+        return JSON.parse(toText(value));
+      } catch {
+        throw new Error('input is not valid JSON');
+      }
+    },
+  },
+
+  // Conversion
+  string: { minArgs: 1, maxArgs: 1, call: (value) => toText(value) },
+  number: { minArgs: 1, maxArgs: 1, call: (value) => toNumber(value) },
+  default: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: (value, fallback) => (value === null || value === undefined || value === '' ? fallback : value),
+  },
+
+  // Strings
+  length: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => {
+      if (value === null || value === undefined) return 0;
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (typeof value === 'object') return Object.keys(value).length;
+      return toText(value).length;
+    },
+  },
+  upper: { minArgs: 1, maxArgs: 1, call: (value) => toText(value).toUpperCase() },
+  lower: { minArgs: 1, maxArgs: 1, call: (value) => toText(value).toLowerCase() },
+  trim: { minArgs: 1, maxArgs: 1, call: (value) => toText(value).trim() },
+  substring: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: (value, start, end) => toText(value).substring(
+      toInteger(start),
+      end === undefined ? undefined : toInteger(end)
+    ),
+  },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    call: (value, search, replacement) => toText(value).split(toText(search)).join(toText(replacement)),
+  },
+  split: { minArgs: 2, maxArgs: 2, call: (value, separator) => toText(value).split(toText(separator)) },
+
+  // Arrays
+  join: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: (value, separator) => toArray(value).map(toText).join(separator === undefined ? ',' : toText(separator)),
+  },
+  first: { minArgs: 1, maxArgs: 1, call: (value) => toArray(value)[0] },
+  last: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => {
+      const array = toArray(value);
+      return array[array.length - 1];
+    },
+  },
+
+  // Numbers
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: (value, digits) => {
+      const factor = 10 ** (digits === undefined ? 0 : toInteger(digits));
+      return Math.round(toNumber(value) * factor) / factor;
+    },
+  },
+  floor: { minArgs: 1, maxArgs: 1, call: (value) => Math.floor(toNumber(value)) },
+  ceil: { minArgs: 1, maxArgs: 1, call: (value) => Math.ceil(toNumber(value)) },
+  abs: { minArgs: 1, maxArgs: 1, call: (value) => Math.abs(toNumber(value)) },
+  min: { minArgs: 1, maxArgs: Infinity, call: (...values) => Math.min(...values.map(toNumber)) },
+  max: { minArgs: 1, maxArgs: Infinity, call: (...values) => Math.max(...values.map(toNumber)) },
+};
+
+/**
+ * Names of all built-in expression functions
+ */
+export const EXPRESSION_FUNCTION_NAMES = Object.keys(EXPRESSION_FUNCTIONS).sort();
+
+/**
+ * Calls a built-in expression function
+ *
+ * @param name - Function name
+ * @param args - Evaluated arguments (the piped value first, for pipes)
+ * @returns Function result
+ * @throws Error if the function is unknown, gets the wrong number of
+ *   arguments or rejects its input
+ */
+export function callExpressionFunction(name: string, args: unknown[]): unknown {
+  const fn = Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name)
+    ? EXPRESSION_FUNCTIONS[name]
+    : undefined;
+  if (!fn) {
+    throw new Error(`unknown function "${name}"`);
+  }
+
+  if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+    const expected = fn.minArgs === fn.maxArgs
+      ? `${fn.minArgs}`
+      : fn.maxArgs === Infinity
+        ? `at least ${fn.minArgs}`
+        : `${fn.minArgs}-${fn.maxArgs}`;
+    throw new Error(`${name}() expects ${expected} argument(s), got ${args.length}`);
+  }
+
+  try {
+    return fn.call(...args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${name}(): ${message}`);
+  }
+}
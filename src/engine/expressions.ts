@@ -0,0 +1,585 @@
+/**
+ * Expressions
+ * Parses and evaluates the contents of ${...} templates: variable paths,
+ * literals, arithmetic, comparisons, function calls and pipes.
+ * Expressions are interpreted by a small parser; nothing is passed to eval.
+ */
+
+import { get } from 'lodash-es';
+import { callExpressionFunction, toNumber, toText } from './expressionFunctions';
+
+/**
+ * Thrown when a ${...} expression cannot be parsed or evaluated
+ */
+export class ExpressionError extends Error {
+  /** Expression inside ${...} */
+  expression: string;
+
+  constructor(expression: string, reason: string) {
+    super(`Invalid expression "\${${expression}}": ${reason}`);
+    this.name = 'ExpressionError';
+    this.expression = expression;
+  }
+}
+
+/**
+ * Resolves a variable path such as "params.user.id" or "loop.item"
+ */
+export type PathResolver = (path: string) => unknown;
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  /** Offset of the token in the expression */
+  position: number;
+}
+
+/** Operators, longest first so "||" wins over "|" */
+const OPERATORS = [
+  '==', '!=', '<=', '>=', '&&', '||',
+  '+', '-', '*', '/', '%', '<', '>', '!', '|', '(', ')', '[', ']', '.', ',', '?', ':',
+];
+
+/**
+ * Splits an expression into tokens
+ *
+ * A name right after "." may contain hyphens (response.get-user.token), so
+ * subtraction needs spaces around the minus sign.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1];
+    const afterDot = previous?.type === 'operator' && previous.value === '.';
+
+    if (afterDot) {
+      const member = /^[\w$-]+/.exec(source.substring(index));
+      if (member) {
+        tokens.push({ type: 'identifier', value: member[0], position: index });
+        index += member[0].length;
+        continue;
+      }
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.substring(index));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    // "@" is the current node in JSONPath filters
+    const identifier = /^(?:[A-Za-z_$][\w$]*|@)/.exec(source.substring(index));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index];
+          index++;
+        }
+      }
+      if (index >= source.length) {
+        throw new Error(`unterminated string at position ${start}`);
+      }
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new Error(`unexpected character "${char}" at position ${index}`);
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  /**
+   * Variable path resolved in one lookup: names and numeric indexes, and
+   * from the first wildcard, filter, slice or ".." on, JSONPath segments
+   * (e.g. "response.list.items[?(@.status == 'FAILED')].id")
+   */
+  | { type: 'path'; path: string }
+  /** Property access with a computed key, e.g. params.list[loop.index] */
+  | { type: 'member'; object: ExpressionNode; key: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+/** Binary operators by precedence, lowest first */
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+/**
+ * Recursive descent parser producing an expression tree
+ *
+ * Precedence, lowest first: pipe (|), ||, &&, equality, comparison,
+ * additive, multiplicative, unary (- !), member access and calls.
+ */
+class ExpressionParser {
+  private source: string;
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parsePipe();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new Error(`unexpected "${token.value}" at position ${token.position}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      const found = token.type === 'end' ? 'end of expression' : `"${token.value}"`;
+      throw new Error(`expected "${value}" but found ${found} at position ${token.position}`);
+    }
+  }
+
+  private parsePipe(): ExpressionNode {
+    let node = this.parseBinary(0);
+
+    while (this.isOperator('|')) {
+      this.next();
+      const name = this.next();
+      if (name.type !== 'identifier') {
+        throw new Error(`expected a function name after "|" at position ${name.position}`);
+      }
+      const args = this.isOperator('(') ? this.parseArguments() : [];
+      node = { type: 'call', name: name.value, args: [node, ...args] };
+    }
+
+    return node;
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let node = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !BINARY_PRECEDENCE[level].includes(token.value)) {
+        return node;
+      }
+      this.next();
+      node = { type: 'binary', operator: token.value, left: node, right: this.parseBinary(level + 1) };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-') || this.isOperator('!')) {
+      const operator = this.next().value;
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.isQuerySegment()) {
+        if (node.type !== 'path') {
+          throw new Error(
+            `wildcards, filters and slices can only follow a variable path (position ${this.peek().position})`
+          );
+        }
+        return { type: 'path', path: node.path + this.readQuerySegments() };
+      }
+
+      if (this.isOperator('.')) {
+        this.next();
+        const name = this.next();
+        if (name.type !== 'identifier') {
+          throw new Error(`expected a property name after "." at position ${name.position}`);
+        }
+        node = node.type === 'path'
+          ? { type: 'path', path: `${node.path}.${name.value}` }
+          : { type: 'member', object: node, key: { type: 'literal', value: name.value } };
+      } else if (this.isOperator('[')) {
+        this.next();
+        const key = this.parsePipe();
+        this.expectOperator(']');
+        node = node.type === 'path' && key.type === 'literal' && typeof key.value === 'number'
+          ? { type: 'path', path: `${node.path}[${key.value}]` }
+          : { type: 'member', object: node, key };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /**
+   * Finds the index of the "]" closing the "[" at the given token index
+   */
+  private findClosingBracket(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'operator') continue;
+      if (token.value === '[' || token.value === '(') depth++;
+      if (token.value === ']' || token.value === ')') depth--;
+      if (depth === 0) return i;
+    }
+    throw new Error(`unclosed "[" at position ${this.tokens[openIndex].position}`);
+  }
+
+  /**
+   * Checks if the next tokens start a JSONPath segment that can select
+   * several values: ".*", "..", "[*]", "[?...]", "[-1]", slices and unions
+   */
+  private isQuerySegment(): boolean {
+    const token = this.peek();
+    const following = this.tokens[this.index + 1];
+    const isOp = (t: Token | undefined, value: string) => t?.type === 'operator' && t.value === value;
+
+    if (isOp(token, '.')) {
+      return isOp(following, '.') || isOp(following, '*');
+    }
+    if (!isOp(token, '[')) {
+      return false;
+    }
+    if (isOp(following, '*') || isOp(following, '?') || isOp(following, '-') || isOp(following, ':')) {
+      return true;
+    }
+
+    const close = this.findClosingBracket(this.index);
+    let depth = 0;
+    for (let i = this.index + 1; i < close; i++) {
+      const inner = this.tokens[i];
+      if (inner.type !== 'operator') continue;
+      if (inner.value === '[' || inner.value === '(') depth++;
+      if (inner.value === ']' || inner.value === ')') depth--;
+      if (depth === 0 && (inner.value === ':' || inner.value === ',')) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Consumes the rest of a postfix chain once it contains a JSONPath
+   * segment and returns its source text
+   */
+  private readQuerySegments(): string {
+    const start = this.peek().position;
+    for (;;) {
+      if (this.isOperator('[')) {
+        this.index = this.findClosingBracket(this.index) + 1;
+      } else if (this.isOperator('.')) {
+        this.next();
+        if (this.isOperator('.')) {
+          this.next();
+        }
+        const token = this.peek();
+        if (token.type === 'identifier' || (token.type === 'operator' && token.value === '*')) {
+          this.next();
+        } else if (!this.isOperator('[')) {
+          throw new Error(`expected a property name after "." at position ${token.position}`);
+        }
+      } else {
+        return this.source.substring(start, this.peek().position).trim();
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (this.isOperator('(')) {
+          return { type: 'call', name: token.value, args: this.parseArguments() };
+        }
+        return { type: 'path', path: token.value };
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parsePipe();
+          this.expectOperator(')');
+          return node;
+        }
+        throw new Error(`unexpected "${token.value}" at position ${token.position}`);
+
+      default:
+        throw new Error('unexpected end of expression');
+    }
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    this.expectOperator('(');
+    const args: ExpressionNode[] = [];
+    if (this.isOperator(')')) {
+      this.next();
+      return args;
+    }
+
+    for (;;) {
+      args.push(this.parsePipe());
+      if (this.isOperator(',')) {
+        this.next();
+        continue;
+      }
+      this.expectOperator(')');
+      return args;
+    }
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Parsed expressions by source, since the same templates are resolved on
+ * every loop iteration
+ */
+const parseCache = new Map<string, ExpressionNode>();
+const PARSE_CACHE_LIMIT = 500;
+
+function parseExpression(source: string): ExpressionNode {
+  let node = parseCache.get(source);
+  if (!node) {
+    node = new ExpressionParser(source).parse();
+    if (parseCache.size >= PARSE_CACHE_LIMIT) {
+      parseCache.clear();
+    }
+    parseCache.set(source, node);
+  }
+  return node;
+}
+
+/**
+ * Converts an operand for an arithmetic or comparison operator
+ */
+function toOperand(operator: string, value: unknown): number {
+  try {
+    return toNumber(value);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`operator "${operator}" ${message}`);
+  }
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  if (typeof left === 'string' && typeof right === 'string') {
+    switch (operator) {
+      case '<': return left < right;
+      case '>': return left > right;
+      case '<=': return left <= right;
+      default: return left >= right;
+    }
+  }
+
+  const a = toOperand(operator, left);
+  const b = toOperand(operator, right);
+  switch (operator) {
+    case '<': return a < b;
+    case '>': return a > b;
+    case '<=': return a <= b;
+    default: return a >= b;
+  }
+}
+
+function evaluateBinary(
+  operator: string,
+  left: ExpressionNode,
+  right: ExpressionNode,
+  resolvePath: PathResolver
+): unknown {
+  const leftValue = evaluateNode(left, resolvePath);
+
+  // Logical operators short-circuit and return an operand, so
+  // ${vars.name || 'guest'} yields a fallback value
+  if (operator === '&&') {
+    return leftValue ? evaluateNode(right, resolvePath) : leftValue;
+  }
+  if (operator === '||') {
+    return leftValue ? leftValue : evaluateNode(right, resolvePath);
+  }
+
+  const rightValue = evaluateNode(right, resolvePath);
+
+  switch (operator) {
+    case '==':
+      return leftValue == rightValue;
+    case '!=':
+      return leftValue != rightValue;
+    case '<':
+    case '>':
+    case '<=':
+    case '>=':
+      return compare(operator, leftValue, rightValue);
+    case '+':
+      // String on either side concatenates, like ${...} substitution
+      if (typeof leftValue === 'string' || typeof rightValue === 'string') {
+        return toText(leftValue) + toText(rightValue);
+      }
+      return toOperand(operator, leftValue) + toOperand(operator, rightValue);
+    case '-':
+      return toOperand(operator, leftValue) - toOperand(operator, rightValue);
+    case '*':
+      return toOperand(operator, leftValue) * toOperand(operator, rightValue);
+    case '/':
+    case '%': {
+      const divisor = toOperand(operator, rightValue);
+      if (divisor === 0) {
+        throw new Error('division by zero');
+      }
+      const dividend = toOperand(operator, leftValue);
+      return operator === '/' ? dividend / divisor : dividend % divisor;
+    }
+    default:
+      throw new Error(`unsupported operator "${operator}"`);
+  }
+}
+
+function evaluateNode(node: ExpressionNode, resolvePath: PathResolver): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'path':
+      return resolvePath(node.path);
+
+    case 'member': {
+      const object = evaluateNode(node.object, resolvePath);
+      const key = evaluateNode(node.key, resolvePath);
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        throw new Error(`property key must be a string or number, got ${JSON.stringify(key ?? null)}`);
+      }
+      return get(object, [key]);
+    }
+
+    case 'call':
+      return callExpressionFunction(
+        node.name,
+        node.args.map((arg) => evaluateNode(arg, resolvePath))
+      );
+
+    case 'unary': {
+      const value = evaluateNode(node.operand, resolvePath);
+      return node.operator === '!' ? !value : -toOperand('-', value);
+    }
+
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, resolvePath);
+  }
+}
+
+/**
+ * Parses an expression once for repeated evaluation (used by JSONPath filters)
+ *
+ * @param source - Expression source
+ * @returns Function evaluating the expression with a path resolver
+ * @throws ExpressionError if the expression cannot be parsed
+ */
+export function compileExpression(source: string): (resolvePath: PathResolver) => unknown {
+  let node: ExpressionNode;
+  try {
+    node = parseExpression(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ExpressionError(source.trim(), message);
+  }
+  return (resolvePath) => evaluateNode(node, resolvePath);
+}
+
+/**
+ * Evaluates the contents of a ${...} template
+ *
+ * Examples:
+ * - "params.list | length" -> 3
+ * - "now('+1d', 'yyyy-MM-dd')" -> "2024-05-02"
+ * - "'Bearer ' + response.login.token" -> "Bearer abc"
+ * - "params.list[loop.index].id" -> 42
+ * - "response.list.items[*].id | join(',')" -> "1,2"
+ *
+ * @param source - Expression inside ${...}
+ * @param resolvePath - Resolves variable paths such as "params.id"
+ * @returns Expression value
+ * @throws ExpressionError naming the expression if it is invalid or fails
+ */
+export function evaluateExpression(source: string, resolvePath: PathResolver): unknown {
+  try {
+    return evaluateNode(parseExpression(source), resolvePath);
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ExpressionError(source.trim(), message);
+  }
+}
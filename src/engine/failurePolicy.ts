@@ -0,0 +1,28 @@
+/**
+ * Failure policies
+ * Decides what happens to a run when a step fails
+ */
+
+import type { FailurePolicy, Step } from '../types';
+
+/**
+ * Gets the failure policy that applies to a step
+ *
+ * @param step - Step that failed
+ * @param stopOnError - Run-level setting used when the step has no policy
+ * @returns The step's own policy, or the run default
+ */
+export function getFailurePolicy(step: Step, stopOnError: boolean): FailurePolicy {
+  return step.onFailure ?? (stopOnError ? 'stop' : 'continue');
+}
+
+/**
+ * Thrown by a step with the "skipIteration" policy to end the current loop
+ * iteration; the loop catches it and moves on to the next iteration
+ */
+export class LoopIterationSkipped extends Error {
+  constructor(stepId: string) {
+    super(`Iteration skipped after step "${stepId}" failed`);
+    this.name = 'LoopIterationSkipped';
+  }
+}
@@ -1,11 +1,11 @@
 /**
  * HTTP client for making API requests
- * Wraps axios with variable resolution and error handling
+ * Wraps axios with variable resolution, secret substitution and error handling
  */
 
 import axios, { AxiosError } from 'axios';
 import type { AxiosRequestConfig, AxiosResponse } from 'axios';
-import type { HttpMethod, Server, StepHeader } from '../types';
+import type { HttpMethod, PollStep, RequestStep, Server, StepExecutionResult, StepHeader } from '../types';
 import { resolveVariables, type VariableContext } from './variableResolver';
 
 /**
@@ -50,13 +50,16 @@ export class HttpRequestError extends Error {
   readonly statusText?: string;
   readonly response?: unknown;
   override readonly cause?: Error;
+  /** Full response when the server answered with an error status (4xx/5xx) */
+  readonly httpResponse?: HttpResponse;
 
   constructor(
     message: string,
     status?: number,
     statusText?: string,
     response?: unknown,
-    cause?: Error
+    cause?: Error,
+    httpResponse?: HttpResponse
   ) {
     super(message);
     this.name = 'HttpRequestError';
@@ -64,6 +67,7 @@ export class HttpRequestError extends Error {
     this.statusText = statusText;
     this.response = response;
     this.cause = cause;
+    this.httpResponse = httpResponse;
   }
 }
 
@@ -155,6 +159,22 @@ export function mergeHeaders(
   return merged;
 }
 
+/**
+ * Looks up a response header by name (case-insensitive)
+ *
+ * @param headers - Response headers
+ * @param name - Header name
+ * @returns Header value or undefined if not present
+ */
+export function getResponseHeader(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const lowerName = name.trim().toLowerCase();
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === lowerName);
+  return key !== undefined ? headers[key] : undefined;
+}
+
 /**
  * Builds full URL from base URL and endpoint
  * Handles trailing slashes properly
@@ -239,6 +259,55 @@ export function resolveRequestConfig(
   };
 }
 
+/**
+ * Regular expression to match secret references: ${secret.name}
+ */
+const SECRET_PATTERN = /\$\{\s*secret\.([^}]+)\}/g;
+
+/**
+ * Substitutes ${secret.name} references with secret values
+ *
+ * This is the only place secret values are inserted into a request, so they
+ * never appear in the variable context or in anything derived from it.
+ *
+ * @param template - Value potentially containing secret references (any type)
+ * @param secrets - Secret values keyed by name
+ * @returns Value with all secret references replaced
+ * @throws HttpRequestError if a referenced secret is not defined
+ */
+function resolveSecretReferences(
+  template: unknown,
+  secrets: Record<string, string>
+): unknown {
+  if (typeof template === 'string') {
+    return template.replace(SECRET_PATTERN, (_match, name: string) => {
+      const value = secrets[name.trim()];
+      if (value === undefined) {
+        throw new HttpRequestError(
+          `Secret "${name.trim()}" is not defined`,
+          undefined,
+          'Missing Secret'
+        );
+      }
+      return value;
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => resolveSecretReferences(item, secrets));
+  }
+
+  if (template !== null && typeof template === 'object') {
+    const resolved: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(template)) {
+      resolved[key] = resolveSecretReferences(value, secrets);
+    }
+    return resolved;
+  }
+
+  return template;
+}
+
 /**
  * Converts Axios response to our HttpResponse format
  *
@@ -296,7 +365,8 @@ function handleHttpError(error: unknown, duration: number): HttpRequestError {
         axiosError.response.status,
         axiosError.response.statusText,
         axiosError.response.data,
-        axiosError
+        axiosError,
+        formatResponse(axiosError.response, duration)
       );
     }
 
@@ -380,9 +450,111 @@ export async function makeHttpRequest(
   }
 }
 
+/**
+ * Resolves the request a request or poll step sends
+ * Variables are resolved; ${secret.*} references are kept for sendRequest to substitute
+ *
+ * The result is both sent and recorded, so dynamic values (${system.uuid}, now(),
+ * random) in the recorded request are the ones that went over the wire.
+ *
+ * @param step - Request or poll step
+ * @param server - Server configuration (with any environment overrides applied)
+ * @param context - Variable context for resolution
+ * @returns Resolved request configuration
+ * @throws HttpRequestError if the body template does not resolve to valid JSON
+ */
+export function resolveStepRequest(
+  step: RequestStep | PollStep,
+  server: Server,
+  context: VariableContext
+): HttpRequestConfig {
+  return resolveRequestConfig(
+    {
+      method: step.method,
+      url: buildUrl(server.baseUrl, step.endpoint),
+      headers: mergeHeaders(server.headers, step.headers),
+      body: step.body,
+      queryParams: step.queryParams,
+      timeout: step.timeout ?? server.timeout,
+    },
+    context
+  );
+}
+
+/**
+ * Describes a request configuration for step results
+ *
+ * @param config - Request configuration (resolved, with ${secret.*} references kept)
+ * @returns Method, full URL (including query string), headers and body
+ */
+export function describeRequestConfig(
+  config: HttpRequestConfig
+): NonNullable<StepExecutionResult['request']> {
+  const query = config.queryParams && Object.keys(config.queryParams).length > 0
+    ? `${config.url.includes('?') ? '&' : '?'}${new URLSearchParams(config.queryParams).toString()}`
+    : '';
+
+  return {
+    url: `${config.url}${query}`,
+    method: config.method,
+    headers: config.headers ?? {},
+    body: config.body,
+  };
+}
+
+/**
+ * Describes the request a request or poll step would send
+ * Used for previews; templates that cannot be resolved (e.g. an invalid JSON body) are shown as written
+ *
+ * @param step - Request or poll step
+ * @param server - Server configuration (with any environment overrides applied)
+ * @param context - Variable context for resolution
+ * @returns Method, full URL (including query string), headers and body
+ */
+export function describeStepRequest(
+  step: RequestStep | PollStep,
+  server: Server,
+  context: VariableContext
+): NonNullable<StepExecutionResult['request']> {
+  try {
+    return describeRequestConfig(resolveStepRequest(step, server, context));
+  } catch {
+    return describeRequestConfig({
+      method: step.method,
+      url: buildUrl(server.baseUrl, step.endpoint),
+      headers: mergeHeaders(server.headers, step.headers),
+      body: step.body,
+      queryParams: step.queryParams,
+    });
+  }
+}
+
+/**
+ * Sends a resolved request, substituting ${secret.name} references just before sending
+ *
+ * @param config - Resolved request configuration
+ * @param secrets - Secret values for ${secret.name} references
+ * @returns Promise resolving to HTTP response
+ * @throws HttpRequestError on failure or if a referenced secret is not defined
+ */
+export async function sendRequest(
+  config: HttpRequestConfig,
+  secrets: Record<string, string> = {}
+): Promise<HttpResponse> {
+  const securedConfig: HttpRequestConfig = {
+    ...config,
+    url: resolveSecretReferences(config.url, secrets) as string,
+    headers: resolveSecretReferences(config.headers, secrets) as Record<string, string> | undefined,
+    body: resolveSecretReferences(config.body, secrets),
+    queryParams: resolveSecretReferences(config.queryParams, secrets) as Record<string, string> | undefined,
+  };
+
+  return makeHttpRequest(securedConfig);
+}
+
 /**
  * Executes an HTTP request for a scenario step
- * Handles server configuration, header merging, and variable resolution
+ * Handles server configuration, header merging, variable resolution and secret substitution
  *
  * @param server - Server configuration
  * @param method - HTTP method
@@ -392,6 +564,7 @@ export async function makeHttpRequest(
  * @param queryParams - Query parameters
  * @param timeout - Request timeout (overrides server timeout)
  * @param context - Variable context for resolution
+ * @param secrets - Secret values for ${secret.name} references
  * @returns Promise resolving to HTTP response
  */
 export async function executeStepRequest(
@@ -402,7 +575,8 @@ export async function executeStepRequest(
   body: unknown,
   queryParams: Record<string, string> | undefined,
   timeout: number | undefined,
-  context: VariableContext
+  context: VariableContext,
+  secrets: Record<string, string> = {}
 ): Promise<HttpResponse> {
   // Build full URL
   const fullUrl = buildUrl(server.baseUrl, endpoint);
@@ -420,9 +594,6 @@ export async function executeStepRequest(
     timeout: timeout ?? server.timeout,
   };
 
-  // Resolve variables in configuration
-  const resolvedConfig = resolveRequestConfig(config, context);
-
-  // Execute request
-  return makeHttpRequest(resolvedConfig);
+  // Resolve variables in configuration, then substitute secrets
+  return sendRequest(resolveRequestConfig(config, context), secrets);
 }
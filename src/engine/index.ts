@@ -12,23 +12,38 @@ export {
   resolveVariablePath,
   resolveStringVariables,
   resolveSingleVariable,
+  resolveExpression,
   hasVariableReferences,
   createVariableContext,
   type VariableContext,
+  type RunInfo,
+  type SystemVariables,
 } from './variableResolver';
 
+// Expressions
+export {
+  evaluateExpression,
+  ExpressionError,
+  type PathResolver,
+} from './expressions';
+export { EXPRESSION_FUNCTION_NAMES } from './expressionFunctions';
+
 // Condition evaluation
 export {
   evaluateCondition,
   evaluateOptionalCondition,
   evaluateSingleCondition,
   evaluateConditionGroup,
+  compareValues,
+  describeCondition,
+  VALUE_TYPES,
 } from './conditionEvaluator';
 
 // Loop processing
 export {
   createLoopIterator,
   updateWhileLoopCondition,
+  getLoopParallelism,
   LoopLimitExceededError,
   type LoopIterator,
 } from './loopProcessor';
@@ -39,18 +54,125 @@ export {
   executeStepRequest,
   mergeHeaders,
   buildUrl,
+  getResponseHeader,
   resolveRequestConfig,
+  resolveStepRequest,
+  sendRequest,
+  describeRequestConfig,
+  describeStepRequest,
   HttpRequestError,
   type HttpResponse,
   type HttpRequestConfig,
 } from './httpClient';
 
+// Response assertions
+export {
+  evaluateAssertions,
+  evaluateAssertion,
+  describeAssertion,
+  hasStatusAssertion,
+  AssertionFailedError,
+} from './assertionEvaluator';
+
+// Environments
+export {
+  applyEnvironment,
+  getEnvironmentVariables,
+} from './environment';
+
+// Secrets
+export {
+  getSecretValues,
+  getUnmaskedSecretNames,
+  redactSecrets,
+  SECRET_MASK,
+  MIN_MASKED_SECRET_LENGTH,
+} from './secrets';
+
+// Loop iterations
+export {
+  getLoopPath,
+  getIterationKey,
+  getStepIterations,
+  compareIterations,
+  summarizeResults,
+  formatLoopPath,
+} from './iterations';
+
+// Parallel lanes
+export {
+  getRequiredLanes,
+  getJoinOutcome,
+  getLaneConcurrency,
+  formatJoinPolicy,
+  type JoinOutcome,
+} from './parallel';
+
+// Failure policies
+export { getFailurePolicy, LoopIterationSkipped } from './failurePolicy';
+
+// Polling
+export {
+  getPollDelay,
+  canPollAgain,
+  getAttemptTimeout,
+  formatPollConfig,
+} from './polling';
+
+// Sub-scenarios
+export {
+  findCalledScenario,
+  getCallParams,
+  ScenarioNotFoundError,
+  RecursiveScenarioCallError,
+} from './subScenario';
+
+// Script steps
+export {
+  runScriptInWebWorker,
+  runScriptOnWorker,
+  createScriptScope,
+  getScriptTimeout,
+  getScriptVariables,
+  ScriptError,
+  ScriptTimeoutError,
+  SCRIPT_RUNTIME_SOURCE,
+  SCRIPT_IMPORT_PATTERN,
+  DEFAULT_SCRIPT_TIMEOUT_MS,
+  MAX_SCRIPT_TIMEOUT_MS,
+  type ScriptRunner,
+  type ScriptRunRequest,
+  type ScriptRunResult,
+  type ScriptScope,
+  type ScriptWorker,
+  type ScriptWorkerRequest,
+  type ScriptWorkerResponse,
+} from './scriptRunner';
+
+// Variable extraction
+export {
+  extractVariable,
+  extractVariables,
+  applyAssignments,
+  type ExtractionOutcome,
+} from './variableExtractor';
+
+// JSONPath
+export { queryJsonPath, toPropertyPath, isMultiValuePath, findQueryStart } from './jsonPath';
+
+// Retry policy
+export {
+  isRetryableError,
+  calculateRetryDelay,
+} from './retryPolicy';
+
 // Scenario executor
 export {
   ScenarioExecutor,
   executeScenario,
   type ExecutionCallbacks,
   type ExecutionOptions,
+  type ManualStepHandling,
   type ExecutionControl,
   type ExecutionResult,
 } from './scenarioExecutor';
@@ -0,0 +1,140 @@
+/**
+ * Loop iteration tracking
+ * Identifies each execution of a step inside loops by the step ID and its loop path
+ */
+
+import type {
+  ExecutionSummary,
+  LoopContext,
+  LoopIterationSnapshot,
+  StepExecutionResult,
+} from '../types';
+
+/**
+ * Builds the loop path of a step from the active loop stack
+ *
+ * @param loopContextStack - Active loop contexts (outermost first)
+ * @param stepId - Step being executed (its own loop context is left out, so a
+ *   loop step's summary result is not attributed to one of its iterations)
+ * @returns One snapshot per enclosing loop iteration (outermost first)
+ */
+export function getLoopPath(
+  loopContextStack: LoopContext[],
+  stepId: string
+): LoopIterationSnapshot[] {
+  const enclosing = loopContextStack.filter((ctx) => ctx.loopId !== stepId);
+
+  return enclosing.map((ctx, depth) => ({
+    stepId: ctx.loopId,
+    currentIteration: ctx.currentIndex + 1,
+    totalIterations: ctx.totalIterations,
+    depth,
+    parentLoopId: depth > 0 ? enclosing[depth - 1].loopId : undefined,
+  }));
+}
+
+/**
+ * Creates the key of one step execution inside loops
+ *
+ * @param stepId - Executed step ID
+ * @param loopPath - Enclosing loop iterations (outermost first)
+ * @returns Key such as "step_1@loop_1#3/loop_2#1" (1-based iterations)
+ */
+export function getIterationKey(stepId: string, loopPath: LoopIterationSnapshot[]): string {
+  const path = loopPath
+    .map((loop) => `${loop.stepId}#${loop.currentIteration}`)
+    .join('/');
+  return `${stepId}@${path}`;
+}
+
+/**
+ * Orders step executions by their loop path (outermost iteration first)
+ * Concurrent iterations finish out of order, so results are sorted by index for display
+ *
+ * @param a - First execution
+ * @param b - Second execution
+ * @returns Negative when a ran at an earlier iteration than b
+ */
+export function compareIterations(a: StepExecutionResult, b: StepExecutionResult): number {
+  const pathA = a.loopContext ?? [];
+  const pathB = b.loopContext ?? [];
+  const depth = Math.min(pathA.length, pathB.length);
+
+  for (let i = 0; i < depth; i++) {
+    const diff = pathA[i].currentIteration - pathB[i].currentIteration;
+    if (diff !== 0) return diff;
+  }
+  return pathA.length - pathB.length;
+}
+
+/**
+ * Collects the per-iteration results of a step in iteration order
+ *
+ * @param iterationResults - Results keyed by iteration key
+ * @param stepId - Step to collect results for
+ * @returns Results of every execution of the step inside loops
+ */
+export function getStepIterations(
+  iterationResults: Record<string, StepExecutionResult> | undefined,
+  stepId: string
+): StepExecutionResult[] {
+  if (!iterationResults) return [];
+  return Object.values(iterationResults)
+    .filter((result) => result.stepId === stepId)
+    .sort(compareIterations);
+}
+
+/**
+ * Counts passed, failed, warning and skipped steps of a run
+ * Steps inside loops count once per iteration; each result counts by its status,
+ * so a failure handled by an error edge or policy other than warning counts as failed
+ *
+ * @param stepResults - Latest result of each step
+ * @param iterationResults - Results keyed by iteration key
+ */
+export function summarizeResults(
+  stepResults: Record<string, StepExecutionResult>,
+  iterationResults: Record<string, StepExecutionResult>
+): ExecutionSummary {
+  const summary: ExecutionSummary = { passed: 0, failed: 0, warnings: 0, skipped: 0 };
+  const iterated = new Set(Object.values(iterationResults).map((result) => result.stepId));
+  const results = [
+    ...Object.values(stepResults).filter((result) => !iterated.has(result.stepId)),
+    ...Object.values(iterationResults),
+  ];
+
+  for (const result of results) {
+    switch (result.status) {
+      case 'success':
+        summary.passed++;
+        break;
+      case 'failed':
+        summary.failed++;
+        break;
+      case 'warning':
+        summary.warnings++;
+        break;
+      case 'skipped':
+        summary.skipped++;
+        break;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Formats a loop path for display
+ *
+ * @param loopPath - Enclosing loop iterations (outermost first)
+ * @param getLoopName - Resolves a loop step ID to its display name
+ * @returns Label such as "Users 3/50 › Orders 1/2"
+ */
+export function formatLoopPath(
+  loopPath: LoopIterationSnapshot[] | undefined,
+  getLoopName: (stepId: string) => string
+): string {
+  if (!loopPath || loopPath.length === 0) return '';
+  return loopPath
+    .map((loop) => `${getLoopName(loop.stepId)} ${loop.currentIteration}/${loop.totalIterations}`)
+    .join(' › ');
+}
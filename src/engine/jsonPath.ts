@@ -0,0 +1,397 @@
+/**
+ * JSONPath support for response data access
+ * Used by response assertions, variable extraction, condition fields,
+ * forEach sources and ${...} references to select values
+ */
+
+import { compileExpression, type PathResolver } from './expressions';
+
+/**
+ * Converts a JSONPath expression into a lodash-style property path
+ *
+ * Supports the root selector, dot notation and bracket notation:
+ * - "$" -> "" (whole document)
+ * - "$.data.items[0].id" -> "data.items[0].id"
+ * - "$['data']['id']" -> "data.id"
+ * - "data.id" (no root selector) -> "data.id"
+ *
+ * @param path - JSONPath expression
+ * @returns Property path for lodash get (empty string for the root)
+ */
+export function toPropertyPath(path: string): string {
+  let normalized = path.trim();
+
+  if (normalized.startsWith('$')) {
+    normalized = normalized.substring(1);
+  }
+
+  // Convert quoted bracket access (['key'] or ["key"]) to dot notation
+  normalized = normalized.replace(/\[\s*(['"])(.*?)\1\s*\]/g, '.$2');
+
+  if (normalized.startsWith('.')) {
+    normalized = normalized.substring(1);
+  }
+
+  return normalized;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type Selector =
+  | { type: 'name'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'slice'; start?: number; end?: number; step?: number }
+  | { type: 'filter'; evaluate: (resolvePath: PathResolver) => unknown };
+
+interface Segment {
+  selectors: Selector[];
+  /** Applies the selectors to the node and all its descendants ("..") */
+  descendant: boolean;
+  /** Offset of the segment in the path */
+  position: number;
+}
+
+/**
+ * Parses a JSONPath expression into segments
+ *
+ * Supported syntax:
+ * - Root and children: "$", "$.data.id", "$['data']", "data.id" (root optional)
+ * - Indexes: "[0]", "[-1]" (from the end)
+ * - Wildcards: "[*]", ".*"
+ * - Recursive descent: "..id", "..[0]", "..*"
+ * - Slices: "[1:3]", "[:2]", "[::2]"
+ * - Unions: "[0,2]", "['id','name']"
+ * - Filters: "[?(@.status == 'FAILED')]", "[?(@.price > 10 && @.stock)]"
+ *
+ * @throws Error if the path is malformed
+ */
+function parseJsonPath(path: string): Segment[] {
+  const source = path.trim();
+  const segments: Segment[] = [];
+  let index = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid JSONPath "${source}": ${reason}`);
+  };
+
+  const readName = (): string => {
+    const match = /^[^.[\]]+/.exec(source.substring(index));
+    if (!match) {
+      fail(`expected a property name at position ${index}`);
+    }
+    index += match![0].length;
+    return match![0];
+  };
+
+  /** Reads up to the "]" (or ",") ending a bracket selector, skipping quoted strings and nesting */
+  const readUntilSelectorEnd = (): string => {
+    const start = index;
+    let depth = 0;
+    while (index < source.length) {
+      const char = source[index];
+      if (char === '"' || char === "'") {
+        index++;
+        while (index < source.length && source[index] !== char) {
+          index += source[index] === '\\' ? 2 : 1;
+        }
+      } else if (char === '(' || char === '[') {
+        depth++;
+      } else if (char === ')' || (char === ']' && depth > 0)) {
+        depth--;
+      } else if (depth === 0 && (char === ']' || char === ',')) {
+        return source.substring(start, index);
+      }
+      index++;
+    }
+    return fail('unclosed "["');
+  };
+
+  const readBracket = (): Selector[] => {
+    index++; // [
+    const selectors: Selector[] = [];
+
+    for (;;) {
+      while (source[index] === ' ') index++;
+      const char = source[index];
+
+      if (char === '*') {
+        index++;
+        selectors.push({ type: 'wildcard' });
+      } else if (char === '"' || char === "'") {
+        let name = '';
+        index++;
+        while (index < source.length && source[index] !== char) {
+          if (source[index] === '\\') index++;
+          name += source[index];
+          index++;
+        }
+        if (index >= source.length) fail('unterminated string');
+        index++;
+        selectors.push({ type: 'name', name });
+      } else if (char === '?') {
+        index++;
+        // "?(@.a == 1)" and "?@.a == 1" are both accepted; parentheses are part of the expression
+        selectors.push({ type: 'filter', evaluate: compileExpression(readUntilSelectorEnd()) });
+      } else {
+        const text = readUntilSelectorEnd().trim();
+        const slice = /^(-?\d+)?\s*:\s*(-?\d+)?\s*(?::\s*(-?\d+)?)?$/.exec(text);
+        if (slice) {
+          selectors.push({
+            type: 'slice',
+            start: slice[1] !== undefined ? Number(slice[1]) : undefined,
+            end: slice[2] !== undefined ? Number(slice[2]) : undefined,
+            step: slice[3] !== undefined ? Number(slice[3]) : undefined,
+          });
+        } else if (/^-?\d+$/.test(text)) {
+          selectors.push({ type: 'index', index: Number(text) });
+        } else {
+          fail(`invalid selector "${text}"`);
+        }
+      }
+
+      while (source[index] === ' ') index++;
+      if (source[index] === ',') {
+        index++;
+        continue;
+      }
+      if (source[index] !== ']') {
+        fail(`expected "]" at position ${index}`);
+      }
+      index++;
+      return selectors;
+    }
+  };
+
+  if (source.startsWith('$')) {
+    index = 1;
+  } else if (source !== '' && source[0] !== '.' && source[0] !== '[') {
+    // Paths without a root selector start with a property name ("data.id")
+    segments.push({ selectors: [{ type: 'name', name: readName() }], descendant: false, position: 0 });
+  }
+
+  while (index < source.length) {
+    const position = index;
+
+    if (source.startsWith('..', index)) {
+      index += 2;
+      const selectors = source[index] === '['
+        ? readBracket()
+        : source[index] === '*'
+          ? (index++, [{ type: 'wildcard' } as Selector])
+          : [{ type: 'name', name: readName() } as Selector];
+      segments.push({ selectors, descendant: true, position });
+    } else if (source[index] === '.') {
+      index++;
+      const selectors: Selector[] = source[index] === '*'
+        ? (index++, [{ type: 'wildcard' }])
+        : [{ type: 'name', name: readName() }];
+      segments.push({ selectors, descendant: false, position });
+    } else if (source[index] === '[') {
+      segments.push({ selectors: readBracket(), descendant: false, position });
+    } else {
+      fail(`unexpected "${source[index]}" at position ${index}`);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Checks if a segment selects at most one value
+ */
+function isDefinite(segment: Segment): boolean {
+  return !segment.descendant
+    && segment.selectors.length === 1
+    && (segment.selectors[0].type === 'name' || segment.selectors[0].type === 'index');
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/** Parsed paths by source, since the same paths are queried on every loop iteration */
+const parseCache = new Map<string, Segment[]>();
+const PARSE_CACHE_LIMIT = 500;
+
+function getSegments(path: string): Segment[] {
+  let segments = parseCache.get(path);
+  if (!segments) {
+    segments = parseJsonPath(path);
+    if (parseCache.size >= PARSE_CACHE_LIMIT) {
+      parseCache.clear();
+    }
+    parseCache.set(path, segments);
+  }
+  return segments;
+}
+
+function childValues(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === 'object') return Object.values(value);
+  return [];
+}
+
+function descendants(value: unknown, into: unknown[]): unknown[] {
+  for (const child of childValues(value)) {
+    into.push(child);
+    descendants(child, into);
+  }
+  return into;
+}
+
+function applySelector(
+  selector: Selector,
+  value: unknown,
+  root: unknown,
+  resolveVariable: PathResolver | undefined,
+  into: unknown[]
+): void {
+  switch (selector.type) {
+    case 'name':
+      if (Array.isArray(value) || typeof value === 'string') {
+        // Numeric names index arrays ("items.0") and "length" reads the length, like lodash get
+        if (selector.name === 'length') {
+          into.push(value.length);
+        } else if (Array.isArray(value) && /^\d+$/.test(selector.name) && Number(selector.name) < value.length) {
+          into.push(value[Number(selector.name)]);
+        }
+      } else if (
+        value !== null &&
+        typeof value === 'object' &&
+        Object.prototype.hasOwnProperty.call(value, selector.name)
+      ) {
+        into.push((value as Record<string, unknown>)[selector.name]);
+      }
+      return;
+
+    case 'index':
+      if (Array.isArray(value)) {
+        const index = selector.index < 0 ? value.length + selector.index : selector.index;
+        if (index >= 0 && index < value.length) {
+          into.push(value[index]);
+        }
+      }
+      return;
+
+    case 'wildcard':
+      into.push(...childValues(value));
+      return;
+
+    case 'slice': {
+      if (!Array.isArray(value)) return;
+      const step = selector.step ?? 1;
+      if (step === 0) return;
+      const length = value.length;
+      const normalize = (n: number) => (n < 0 ? Math.max(length + n, step > 0 ? 0 : -1) : Math.min(n, step > 0 ? length : length - 1));
+      const start = selector.start !== undefined ? normalize(selector.start) : step > 0 ? 0 : length - 1;
+      const end = selector.end !== undefined ? normalize(selector.end) : step > 0 ? length : -1;
+      for (let i = start; step > 0 ? i < end : i > end; i += step) {
+        into.push(value[i]);
+      }
+      return;
+    }
+
+    case 'filter':
+      for (const child of childValues(value)) {
+        let matches: unknown;
+        try {
+          matches = selector.evaluate((path) => {
+            if (path === '@' || path.startsWith('@.') || path.startsWith('@[')) {
+              return queryJsonPath(child, `$${path.substring(1)}`, resolveVariable);
+            }
+            if (path === '$' || path.startsWith('$.') || path.startsWith('$[')) {
+              return queryJsonPath(root, path, resolveVariable);
+            }
+            return resolveVariable?.(path);
+          });
+        } catch {
+          // Comparisons that cannot be made (e.g. a missing field) do not match
+          matches = false;
+        }
+        if (matches) {
+          into.push(child);
+        }
+      }
+      return;
+  }
+}
+
+/**
+ * Checks if a JSONPath expression can select several values
+ * (wildcards, filters, slices, unions or recursive descent)
+ *
+ * @param path - JSONPath expression
+ * @throws Error if the path is malformed
+ */
+export function isMultiValuePath(path: string): boolean {
+  return !getSegments(path).every(isDefinite);
+}
+
+/**
+ * Selects a value from data using a JSONPath expression
+ *
+ * Paths that can select several values (wildcards, filters, slices, unions,
+ * recursive descent) return an array of all matches, which is empty when
+ * nothing matches. Other paths return the single value or undefined.
+ *
+ * Examples:
+ * - "$.data.id" -> 42
+ * - "items[?(@.status == 'FAILED')].id" -> [3, 7]
+ * - "orders[*].lines[*]" -> all lines of all orders
+ * - "$..id" -> every id in the document
+ *
+ * @param data - Document to query
+ * @param path - JSONPath expression (e.g., "$.data.id")
+ * @param resolveVariable - Resolves other variables used in filters
+ *   (e.g. "vars.userId" in "[?(@.owner == vars.userId)]")
+ * @returns Selected value, array of matches, or undefined if the path does not exist
+ * @throws Error if the path is malformed
+ */
+export function queryJsonPath(
+  data: unknown,
+  path: string,
+  resolveVariable?: PathResolver
+): unknown {
+  const segments = getSegments(path);
+  let nodes: unknown[] = [data];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      const candidates = segment.descendant ? descendants(node, [node]) : [node];
+      for (const candidate of candidates) {
+        for (const selector of segment.selectors) {
+          applySelector(selector, candidate, data, resolveVariable, next);
+        }
+      }
+    }
+    nodes = next;
+  }
+
+  return segments.every(isDefinite) ? nodes[0] : nodes;
+}
+
+/**
+ * Finds where the JSONPath part of a variable path starts: the first
+ * wildcard, filter, slice, union, negative index or recursive descent
+ * (e.g. 20 for "response.list.items[*].id")
+ *
+ * @param path - Variable path such as "response.list.items[*].id"
+ * @returns Offset of the first multi-value segment, or -1 if there is none
+ * @throws Error if the path is malformed
+ */
+export function findQueryStart(path: string): number {
+  if (!/[*?:,]|\.\.|\[\s*-/.test(path)) {
+    return -1;
+  }
+
+  const segments = getSegments(path);
+  const first = segments.find((segment) =>
+    !isDefinite(segment) ||
+    segment.selectors.some((selector) => selector.type === 'index' && selector.index < 0)
+  );
+  return first ? first.position : -1;
+}
@@ -7,7 +7,7 @@ import { get } from 'lodash-es';
 import type { Loop, ForEachLoop, CountLoop, WhileLoop, LoopContext } from '../types';
 import type { VariableContext } from './variableResolver';
 import { evaluateCondition } from './conditionEvaluator';
-import { resolveVariables } from './variableResolver';
+import { resolveExpression, resolveVariables } from './variableResolver';
 
 /**
  * Default maximum iterations to prevent infinite loops
@@ -46,6 +46,10 @@ export class LoopLimitExceededError extends Error {
 /**
  * Resolves the source array for a forEach loop
  *
+ * The source is either a template ("${params.list}") or a bare variable
+ * path ("params.list"). Paths may use JSONPath wildcards and filters
+ * ("response.orders.items[*].lines[*]"); all matches become the items.
+ *
  * @param loop - ForEach loop configuration
  * @param context - Variable context
  * @returns Array to iterate over
@@ -55,8 +59,10 @@ function resolveForEachSource(
   loop: ForEachLoop,
   context: VariableContext
 ): unknown[] {
-  // Resolve the source path (e.g., "${params.list}")
-  const resolvedSource = resolveVariables(loop.source, context);
+  // Resolve the source path (e.g., "${params.list}" or "params.list")
+  const resolvedSource = loop.source.includes('${')
+    ? resolveVariables(loop.source, context)
+    : resolveExpression(loop.source, context);
 
   if (resolvedSource === undefined || resolvedSource === null) {
     // Check if this might be a timing issue with fire-and-forget requests
@@ -402,3 +408,15 @@ export function updateWhileLoopCondition(
     iterator.hasNext = false;
   }
 }
+
+/**
+ * Gets how many iterations of a loop may run at once
+ * Only forEach loops run concurrently; other loops depend on the previous iteration
+ *
+ * @param loop - Loop configuration
+ * @returns Maximum iterations in flight (1 = sequential)
+ */
+export function getLoopParallelism(loop: Loop): number {
+  if (loop.type !== 'forEach') return 1;
+  return Math.max(1, Math.floor(loop.parallelism ?? 1));
+}
@@ -0,0 +1,81 @@
+/**
+ * Parallel lanes
+ * Join policy evaluation for parallel steps
+ */
+
+import type { JoinPolicy, ParallelStep } from '../types';
+
+/**
+ * State of a join while lanes are running
+ * - pending: the outcome depends on lanes that have not finished
+ * - satisfied: enough lanes succeeded
+ * - failed: too many lanes failed for the policy to be met
+ */
+export type JoinOutcome = 'pending' | 'satisfied' | 'failed';
+
+/**
+ * Gets the number of lanes that must succeed
+ *
+ * @param policy - Join policy
+ * @param joinCount - Required lanes for the "count" policy
+ * @param laneCount - Number of lanes that run
+ * @returns Required successful lanes (0 when there are no lanes)
+ */
+export function getRequiredLanes(
+  policy: JoinPolicy,
+  joinCount: number | undefined,
+  laneCount: number
+): number {
+  if (laneCount === 0) return 0;
+
+  switch (policy) {
+    case 'any':
+      return 1;
+    case 'count':
+      return Math.min(Math.max(1, Math.floor(joinCount ?? 1)), laneCount);
+    case 'all':
+    default:
+      return laneCount;
+  }
+}
+
+/**
+ * Decides a join from the lanes finished so far
+ *
+ * @param required - Required successful lanes
+ * @param laneCount - Number of lanes that run
+ * @param succeeded - Lanes that succeeded
+ * @param failed - Lanes that failed
+ */
+export function getJoinOutcome(
+  required: number,
+  laneCount: number,
+  succeeded: number,
+  failed: number
+): JoinOutcome {
+  if (succeeded >= required) return 'satisfied';
+  if (laneCount - failed < required) return 'failed';
+  return 'pending';
+}
+
+/**
+ * Gets the number of lanes that may run at once
+ *
+ * @param step - Parallel step
+ * @param laneCount - Number of lanes that run
+ */
+export function getLaneConcurrency(step: ParallelStep, laneCount: number): number {
+  const limit = Math.floor(step.maxConcurrency ?? 0);
+  return limit > 0 ? Math.min(limit, laneCount) : laneCount;
+}
+
+/**
+ * Formats a join policy for display (e.g. "all", "any", "2 of 3")
+ */
+export function formatJoinPolicy(step: ParallelStep): string {
+  if (step.joinPolicy === 'count') {
+    const laneCount = step.lanes.length;
+    return `${getRequiredLanes('count', step.joinCount, laneCount) || step.joinCount || 1} of ${laneCount}`;
+  }
+  return step.joinPolicy;
+}
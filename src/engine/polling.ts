@@ -0,0 +1,72 @@
+/**
+ * Polling
+ * Delay and timeout calculations for poll steps
+ */
+
+import type { PollConfig } from '../types';
+
+/**
+ * Calculates the delay before the next poll attempt
+ *
+ * Without a backoff multiplier every attempt waits intervalMs. With one, the
+ * delay grows by the multiplier after each attempt (1x, 1.5x, 2.25x, ...)
+ * and is capped at maxIntervalMs when set.
+ *
+ * @param poll - Polling configuration of the step
+ * @param attempt - Number of the attempt that just finished (1-based)
+ * @returns Delay in milliseconds before the next attempt
+ */
+export function getPollDelay(poll: PollConfig, attempt: number): number {
+  const base = Math.max(0, poll.intervalMs);
+  const multiplier = Math.max(1, poll.backoffMultiplier ?? 1);
+  const delay = base * multiplier ** (attempt - 1);
+  const cap = poll.maxIntervalMs && poll.maxIntervalMs > 0 ? poll.maxIntervalMs : Infinity;
+  return Math.round(Math.min(delay, cap));
+}
+
+/**
+ * Checks if another attempt can start before the poll step times out
+ *
+ * @param startedAt - Step start time in epoch milliseconds
+ * @param timeoutMs - Wall-clock limit of the step
+ * @param delayMs - Delay before the next attempt
+ * @param now - Current time in epoch milliseconds
+ */
+export function canPollAgain(
+  startedAt: number,
+  timeoutMs: number,
+  delayMs: number,
+  now = Date.now()
+): boolean {
+  return now + delayMs < startedAt + Math.max(0, timeoutMs);
+}
+
+/**
+ * Calculates the timeout of the next poll request, so an attempt cannot outlast the step
+ *
+ * @param startedAt - Step start time in epoch milliseconds
+ * @param timeoutMs - Wall-clock limit of the step
+ * @param requestTimeout - Timeout of the step or server, if any
+ * @param now - Current time in epoch milliseconds
+ * @returns The time left before the step times out (at least 1ms), or the request timeout when shorter
+ */
+export function getAttemptTimeout(
+  startedAt: number,
+  timeoutMs: number,
+  requestTimeout?: number,
+  now = Date.now()
+): number {
+  const remaining = Math.max(1, startedAt + Math.max(0, timeoutMs) - now);
+  return requestTimeout && requestTimeout > 0 ? Math.min(requestTimeout, remaining) : remaining;
+}
+
+/**
+ * Formats a polling configuration for display (e.g. "every 2s ×1.5 up to 10s, 60s timeout")
+ */
+export function formatPollConfig(poll: PollConfig): string {
+  const seconds = (ms: number) => `${Math.round(ms / 100) / 10}s`;
+  const backoff = poll.backoffMultiplier && poll.backoffMultiplier > 1
+    ? ` ×${poll.backoffMultiplier}${poll.maxIntervalMs ? ` up to ${seconds(poll.maxIntervalMs)}` : ''}`
+    : '';
+  return `every ${seconds(poll.intervalMs)}${backoff}, ${seconds(poll.timeoutMs)} timeout`;
+}
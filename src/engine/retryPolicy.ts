@@ -0,0 +1,62 @@
+/**
+ * Retry policy for request steps
+ * Decides which request failures are retryable and computes backoff delays
+ */
+
+import type { RetryConfig } from '../types';
+import { HttpRequestError } from './httpClient';
+
+/**
+ * Upper bound for a single backoff delay, regardless of attempt number
+ */
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Status texts assigned by the HTTP client to transport-level failures
+ * These are always retried because no response was received
+ */
+const TRANSIENT_ERROR_TYPES = ['Timeout', 'Network Error'];
+
+/**
+ * Checks if a failed request should be retried
+ *
+ * Retries on:
+ * - HTTP responses whose status code is listed in retryConfig.retryOn
+ * - Network errors and timeouts (no response received)
+ *
+ * Configuration errors and body parse errors are never retried,
+ * since repeating the same request cannot fix them.
+ *
+ * @param error - Error thrown by the HTTP client
+ * @param retryConfig - Retry configuration of the step
+ * @returns True if the request should be retried
+ */
+export function isRetryableError(error: unknown, retryConfig: RetryConfig): boolean {
+  if (!(error instanceof HttpRequestError)) {
+    return false;
+  }
+
+  if (error.status !== undefined) {
+    return retryConfig.retryOn.includes(error.status);
+  }
+
+  return error.statusText !== undefined && TRANSIENT_ERROR_TYPES.includes(error.statusText);
+}
+
+/**
+ * Calculates the delay before the next attempt using exponential backoff with jitter
+ *
+ * The base delay doubles for every failed attempt (1x, 2x, 4x, ...).
+ * Half of the delay is fixed and the other half is randomized, so that
+ * concurrent runs hitting the same server do not retry in lockstep.
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param baseDelayMs - Configured retry delay in milliseconds
+ * @returns Delay in milliseconds before the next attempt
+ */
+export function calculateRetryDelay(attempt: number, baseDelayMs: number): number {
+  const base = Math.max(0, baseDelayMs);
+  const exponential = Math.min(base * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  const half = exponential / 2;
+  return Math.round(half + Math.random() * half);
+}
@@ -10,27 +10,71 @@ import type {
   RequestStep,
   ConditionStep,
   LoopStep,
+  SetVariableStep,
+  ParallelStep,
+  ParallelLane,
+  PollStep,
+  CallStep,
+  ScriptStep,
+  ScriptConsoleEntry,
+  LaneExecutionResult,
+  SubScenarioStepResult,
+  CaughtStepError,
   ExecutionMode,
   ExecutionStatus,
   StepExecutionStatus,
   StepExecutionResult,
+  LoopExitReason,
   ExecutionLog,
   LoopContext,
   LoopIterationSnapshot,
   Server,
   Branch,
   WhileLoop,
+  RequestAttempt,
+  Environment,
+  ExecutionSummary,
 } from '../types';
 import {
   createVariableContext,
   type VariableContext,
 } from './variableResolver';
-import { evaluateCondition, evaluateOptionalCondition } from './conditionEvaluator';
+import { evaluateCondition, evaluateOptionalCondition, describeCondition } from './conditionEvaluator';
 import {
   createLoopIterator,
   updateWhileLoopCondition,
+  getLoopParallelism,
+  type LoopIterator,
 } from './loopProcessor';
-import { executeStepRequest, serializeError } from './httpClient';
+import {
+  sendRequest,
+  serializeError,
+  HttpRequestError,
+  resolveStepRequest,
+  describeRequestConfig,
+  describeStepRequest,
+  type HttpResponse,
+  type HttpRequestConfig,
+} from './httpClient';
+import { isRetryableError, calculateRetryDelay } from './retryPolicy';
+import { evaluateAssertions, hasStatusAssertion, AssertionFailedError } from './assertionEvaluator';
+import { extractVariables, applyAssignments } from './variableExtractor';
+import { applyEnvironment, getEnvironmentVariables } from './environment';
+import { redactSecrets, getUnmaskedSecretNames, MIN_MASKED_SECRET_LENGTH } from './secrets';
+import { getLoopPath, getIterationKey, summarizeResults } from './iterations';
+import { getFailurePolicy, LoopIterationSkipped } from './failurePolicy';
+import { getRequiredLanes, getJoinOutcome, getLaneConcurrency } from './parallel';
+import { getPollDelay, canPollAgain, getAttemptTimeout } from './polling';
+import { findCalledScenario, getCallParams } from './subScenario';
+import {
+  runScriptInWebWorker,
+  createScriptScope,
+  getScriptTimeout,
+  getScriptVariables,
+  ScriptError,
+  ScriptTimeoutError,
+  type ScriptRunner,
+} from './scriptRunner';
 
 /**
  * Callback functions for execution events
@@ -48,12 +92,22 @@ export interface ExecutionCallbacks {
   onStatusChange?: (status: ExecutionStatus) => void;
   /** Called when entering a loop */
   onEnterLoop?: (snapshot: LoopIterationSnapshot) => void;
-  /** Called when loop iteration updates */
-  onUpdateLoopIteration?: (stepId: string, currentIteration: number) => void;
+  /** Called when loop iteration updates (inFlight lists running iterations of concurrent loops) */
+  onUpdateLoopIteration?: (stepId: string, currentIteration: number, inFlight?: number[]) => void;
   /** Called when exiting a loop */
   onExitLoop?: (stepId: string) => void;
+  /** Called when scenario variables change (receives the full variable set) */
+  onVariablesChange?: (variables: Record<string, unknown>) => void;
 }
 
+/**
+ * How manual steps are handled
+ * - pause: wait for resume() (interactive UI)
+ * - auto: run them like auto steps
+ * - fail: fail the step and the run (unattended runs)
+ */
+export type ManualStepHandling = 'pause' | 'auto' | 'fail';
+
 /**
  * Options for scenario execution
  */
@@ -62,8 +116,28 @@ export interface ExecutionOptions {
   stepModeOverrides?: Record<string, ExecutionMode>;
   /** Callbacks for execution events */
   callbacks?: ExecutionCallbacks;
-  /** Whether to stop execution on first error */
+  /**
+   * Whether to stop execution on first error (defaults to true)
+   * Sets the failure policy of steps without their own onFailure; when false,
+   * failed steps are recorded and the run continues with the next step
+   */
   stopOnError?: boolean;
+  /** Environment whose server overrides and ${env.*} variables apply to this run */
+  environment?: Environment | null;
+  /** Secret values by name, substituted into requests for ${secret.name} references */
+  secrets?: Record<string, string>;
+  /** How manual steps are handled (defaults to 'pause') */
+  manualSteps?: ManualStepHandling;
+  /** Scenarios that call steps can run, looked up by ID */
+  scenarios?: Scenario[];
+  /** IDs of the scenarios whose call steps started this run, outermost first (set for sub-scenario runs) */
+  callStack?: string[];
+  /** ID of this run, available as ${system.executionId} (defaults to a generated UUID) */
+  executionId?: string;
+  /** Run number of the scenario, available as ${system.runNumber} (defaults to 1) */
+  runNumber?: number;
+  /** Runs the code of script steps (defaults to a Web Worker, which needs a browser) */
+  scriptRunner?: ScriptRunner;
 }
 
 /**
@@ -90,12 +164,22 @@ export interface ExecutionResult {
   id: string;
   /** Final execution status */
   status: ExecutionStatus;
-  /** Results for each executed step */
+  /** ID of the environment the scenario ran against */
+  environmentId?: string;
+  /** Name of that environment */
+  environmentName?: string;
+  /** Results for each executed step (latest execution) */
   stepResults: Record<string, StepExecutionResult>;
+  /** Results of every step execution inside loops (iteration key -> result) */
+  iterationResults: Record<string, StepExecutionResult>;
   /** Saved responses */
   responses: Record<string, unknown>;
+  /** Final scenario variables */
+  variables: Record<string, unknown>;
   /** Execution logs */
   logs: ExecutionLog[];
+  /** Passed, failed, warning and skipped step counts */
+  summary: ExecutionSummary;
   /** Start timestamp */
   startedAt: string;
   /** Completion timestamp */
@@ -108,6 +192,16 @@ export interface ExecutionResult {
   };
 }
 
+/**
+ * Responses and variables written by one concurrent loop iteration
+ * Steps of the iteration read them over the enclosing state; they are merged
+ * back in iteration order once the loop's iterations finish
+ */
+interface IterationScope {
+  responses: Map<string, unknown>;
+  variables: Map<string, unknown>;
+}
+
 /**
  * Main scenario executor class
  */
@@ -122,12 +216,25 @@ export class ScenarioExecutor {
   // Execution state
   private params: Record<string, unknown> = {};
   private stepResults: Map<string, StepExecutionResult> = new Map();
+  private iterationResults: Map<string, StepExecutionResult> = new Map();
   private responses: Map<string, unknown> = new Map();
-  private loopContextStack: LoopContext[] = [];
+  private variables: Map<string, unknown> = new Map();
+  private iterationScopes = new WeakMap<LoopContext, IterationScope>();
+  private caughtError?: CaughtStepError;
+  private failureCount = 0;
+  private environment: Environment | null = null;
+  private envVariables: Record<string, string> = {};
+  private secrets: Record<string, string> = {};
   private logs: ExecutionLog[] = [];
   private startedAt?: string;
   private completedAt?: string;
   private stepModeOverrides: Record<string, ExecutionMode> = {};
+  private stopOnError = true;
+  private manualSteps: ManualStepHandling = 'pause';
+  private scenarios: Scenario[] = [];
+  private callStack: string[] = [];
+  private runNumber = 1;
+  private scriptRunner: ScriptRunner = runScriptInWebWorker;
 
   // Callbacks
   private callbacks: ExecutionCallbacks = {};
@@ -135,6 +242,8 @@ export class ScenarioExecutor {
   // Control
   private resumePromise?: Promise<void>;
   private resumeResolver?: () => void;
+  private activeCalls = new Set<ExecutionControl>();
+  private activeScripts = new Set<AbortController>();
 
   /**
    * Creates a new scenario executor
@@ -162,11 +271,33 @@ export class ScenarioExecutor {
     this.params = params;
     this.stepModeOverrides = options.stepModeOverrides ?? {};
     this.callbacks = options.callbacks ?? {};
-    const stopOnError = options.stopOnError ?? true;
+    this.stopOnError = options.stopOnError ?? true;
+    this.environment = options.environment ?? null;
+    this.servers = applyEnvironment(this.servers, this.environment);
+    this.envVariables = getEnvironmentVariables(this.environment);
+    this.secrets = options.secrets ?? {};
+    this.manualSteps = options.manualSteps ?? 'pause';
+    this.scenarios = options.scenarios ?? [];
+    this.callStack = options.callStack ?? [];
+    this.executionId = options.executionId ?? this.executionId;
+    this.runNumber = options.runNumber ?? 1;
+    this.scriptRunner = options.scriptRunner ?? runScriptInWebWorker;
 
     this.startedAt = new Date().toISOString();
     this.setStatus('running');
     this.addLog('info', 'Execution started', { params });
+    if (this.environment) {
+      this.addLog('info', `Using environment "${this.environment.name}"`, {
+        environmentId: this.environment.id,
+      });
+    }
+    const unmaskedSecrets = getUnmaskedSecretNames(this.secrets);
+    if (unmaskedSecrets.length > 0) {
+      this.addLog(
+        'warn',
+        `Secrets shorter than ${MIN_MASKED_SECRET_LENGTH} characters are not masked: ${unmaskedSecrets.join(', ')}`
+      );
+    }
 
     try {
       // Start execution from the start step
@@ -184,10 +315,19 @@ export class ScenarioExecutor {
           break;
         }
 
-        const nextStepId = await this.executeStep(currentStep);
+        const nextStepId = await this.executeStep(currentStep, []);
         currentStepId = nextStepId;
       }
 
+      // Steps that failed without stopping the run still fail it
+      if (this.status === 'running' && this.failureCount > 0) {
+        const message = `${this.failureCount} step failure(s)`;
+        this.setStatus('failed');
+        this.completedAt = new Date().toISOString();
+        this.addLog('error', `Execution finished with ${message}`);
+        this.callbacks.onError?.(new Error(message));
+      }
+
       // Mark as completed if not already failed/cancelled
       if (this.status === 'running') {
         this.setStatus('completed');
@@ -197,14 +337,9 @@ export class ScenarioExecutor {
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.addLog('error', `Execution failed: ${message}`, { error: serializeError(error) });
-
-      if (stopOnError) {
-        this.setStatus('failed');
-        this.completedAt = new Date().toISOString();
-        this.callbacks.onError?.(
-          error instanceof Error ? error : new Error(message)
-        );
-      }
+      this.setStatus('failed');
+      this.completedAt = new Date().toISOString();
+      this.callbacks.onError?.(new Error(this.redact(message)));
     }
 
     return this.getResult();
@@ -242,7 +377,8 @@ export class ScenarioExecutor {
       this.paused = false;
       this.setStatus('running');
       this.addLog('info', 'Execution resumed');
-      this.resumeResolver?.();
+      this.releaseWaiters();
+      this.activeCalls.forEach((call) => call.resume());
     }
   }
 
@@ -254,33 +390,51 @@ export class ScenarioExecutor {
     this.setStatus('cancelled');
     this.completedAt = new Date().toISOString();
     this.addLog('info', 'Execution cancelled by user');
-    this.resumeResolver?.();
+    this.releaseWaiters();
+    this.activeCalls.forEach((call) => call.stop());
+    this.activeScripts.forEach((script) => script.abort());
   }
 
   /**
    * Waits for resume if paused
+   * Steps waiting at the same time (e.g. in parallel lanes) share one resume
    */
   private async waitForResume(): Promise<void> {
     if (!this.paused) return;
 
-    this.resumePromise = new Promise((resolve) => {
-      this.resumeResolver = resolve;
-    });
+    if (!this.resumePromise) {
+      this.resumePromise = new Promise((resolve) => {
+        this.resumeResolver = resolve;
+      });
+    }
 
     await this.resumePromise;
   }
 
+  /**
+   * Releases every step waiting for resume
+   */
+  private releaseWaiters(): void {
+    this.resumeResolver?.();
+    this.resumePromise = undefined;
+    this.resumeResolver = undefined;
+  }
+
   /**
    * Executes a single step
+   *
+   * @param step - Step to execute
+   * @param loopStack - Loop contexts enclosing the step (outermost first); each
+   *   loop iteration and parallel lane passes its own stack
    */
-  private async executeStep(step: Step): Promise<string | null> {
+  private async executeStep(step: Step, loopStack: LoopContext[]): Promise<string | null> {
     if (this.stopped) return null;
 
     // Notify step start - this sets currentStepId in Redux
     this.callbacks.onStepStart?.(step.id, 'pending');
 
     // Check step pre-condition
-    const context = this.createContext();
+    const context = this.createContext(loopStack, step);
     if (!evaluateOptionalCondition(step.condition, context)) {
       this.addLog('info', `Step "${step.name}" skipped (condition not met)`, {
         stepId: step.id,
@@ -290,7 +444,7 @@ export class ScenarioExecutor {
         status: 'skipped',
         startedAt: new Date().toISOString(),
         completedAt: new Date().toISOString(),
-      });
+      }, loopStack);
       return this.getNextStepId(step);
     }
 
@@ -308,7 +462,7 @@ export class ScenarioExecutor {
         status: 'skipped',
         startedAt: new Date().toISOString(),
         completedAt: new Date().toISOString(),
-      });
+      }, loopStack);
       return this.getNextStepId(step);
     }
 
@@ -320,8 +474,24 @@ export class ScenarioExecutor {
       await this.delay(step.delayMs);
     }
 
+    // Manual steps cannot run unattended
+    if (mode === 'manual' && this.manualSteps === 'fail') {
+      const message = `Step "${step.name}" requires manual confirmation`;
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'failed',
+        startedAt: new Date().toISOString(),
+        completedAt: new Date().toISOString(),
+        error: {
+          code: 'MANUAL_STEP',
+          message,
+        },
+      }, loopStack);
+      throw new Error(message);
+    }
+
     // Handle manual mode
-    if (mode === 'manual') {
+    if (mode === 'manual' && this.manualSteps === 'pause') {
       this.addLog('info', `Step "${step.name}" waiting for manual trigger (status: ${this.status}, paused: ${this.paused})`, {
         stepId: step.id,
       });
@@ -330,7 +500,7 @@ export class ScenarioExecutor {
         stepId: step.id,
         status: 'waiting',
         startedAt: new Date().toISOString(),
-      });
+      }, loopStack);
       this.addLog('debug', `Calling pause(), current status: ${this.status}`, { stepId: step.id });
       this.pause();
       this.addLog('debug', `After pause(), paused: ${this.paused}, status: ${this.status}`, { stepId: step.id });
@@ -341,42 +511,142 @@ export class ScenarioExecutor {
     }
 
     // Execute based on step type
-    switch (step.type) {
-      case 'request':
-        return this.executeRequestStep(step);
-      case 'condition':
-        return this.executeConditionStep(step);
-      case 'loop':
-        return this.executeLoopStep(step);
-      case 'group':
-        return this.executeGroupStep(step);
+    try {
+      switch (step.type) {
+        case 'request':
+          return await this.executeRequestStep(step, loopStack);
+        case 'condition':
+          return await this.executeConditionStep(step, loopStack);
+        case 'loop':
+          return await this.executeLoopStep(step, loopStack);
+        case 'group':
+          return await this.executeGroupStep(step, loopStack);
+        case 'setVariable':
+          return await this.executeSetVariableStep(step, loopStack);
+        case 'parallel':
+          return await this.executeParallelStep(step, loopStack);
+        case 'poll':
+          return await this.executePollStep(step, loopStack);
+        case 'call':
+          return await this.executeCallStep(step, loopStack);
+        case 'script':
+          return await this.executeScriptStep(step, loopStack);
+        default:
+          throw new Error(`Unsupported step type: ${(step as Step).type}`);
+      }
+    } catch (error) {
+      if (error instanceof LoopIterationSkipped || this.stopped) {
+        throw error;
+      }
+
+      // Route the failure along the error edge, like a catch block
+      const errorStepId = this.getErrorStepId(step);
+      if (errorStepId) {
+        this.caughtError = this.captureError(step, error);
+        this.addLog('warn', `Step "${step.name}" failed, continuing on its error edge`, {
+          stepId: step.id,
+          errorStepId,
+          error: this.caughtError,
+        });
+        return errorStepId;
+      }
+
+      return this.applyFailurePolicy(step, error, loopStack);
+    }
+  }
+
+  /**
+   * Handles a step failure that has no error edge
+   *
+   * @returns The step to continue with
+   * @throws The step error when the policy stops the run, or
+   *   LoopIterationSkipped when it ends the current loop iteration
+   */
+  private applyFailurePolicy(step: Step, error: unknown, loopStack: LoopContext[]): string | null {
+    const policy = getFailurePolicy(step, this.stopOnError);
+    const message = error instanceof Error ? error.message : String(error);
+
+    switch (policy) {
+      case 'warning':
+        this.setStepResult(step.id, { ...this.getFailedResult(step, error, loopStack), status: 'warning' }, loopStack);
+        this.addLog('warn', `Step "${step.name}" failed, marked as warning: ${message}`, {
+          stepId: step.id,
+        });
+        return this.getNextStepId(step);
+
+      case 'continue':
+        this.failureCount++;
+        this.setStepResult(step.id, this.getFailedResult(step, error, loopStack), loopStack);
+        this.addLog('warn', `Step "${step.name}" failed, continuing with the next step`, {
+          stepId: step.id,
+        });
+        return this.getNextStepId(step);
+
+      case 'skipIteration':
+        if (loopStack.length > 0) {
+          this.failureCount++;
+          this.setStepResult(step.id, this.getFailedResult(step, error, loopStack), loopStack);
+          throw new LoopIterationSkipped(step.id);
+        }
+        throw error;
+
+      case 'stop':
       default:
-        throw new Error(`Unsupported step type: ${(step as Step).type}`);
+        throw error;
     }
   }
 
+  /**
+   * Gets the failed result a step recorded in the current iteration
+   * Falls back to a new failed result for failures that happen before the step records one
+   */
+  private getFailedResult(step: Step, error: unknown, loopStack: LoopContext[]): StepExecutionResult {
+    const recorded = this.getRecordedResult(step.id, loopStack);
+    if (recorded?.status === 'failed') {
+      return recorded;
+    }
+
+    const now = new Date().toISOString();
+    return {
+      stepId: step.id,
+      status: 'failed',
+      startedAt: recorded?.startedAt ?? now,
+      completedAt: now,
+      error: {
+        code: 'STEP_FAILED',
+        message: error instanceof Error ? error.message : String(error),
+        details: serializeError(error),
+      },
+    };
+  }
+
   /**
    * Executes a request step
    */
-  private async executeRequestStep(step: RequestStep): Promise<string | null> {
+  private async executeRequestStep(step: RequestStep, loopStack: LoopContext[]): Promise<string | null> {
     const startTime = new Date().toISOString();
+    const attempts: RequestAttempt[] = [];
     this.setStepResult(step.id, {
       stepId: step.id,
       status: 'running',
       startedAt: startTime,
-    });
+    }, loopStack);
 
     this.addLog('info', `Executing request: ${step.method} ${step.endpoint}`, {
       stepId: step.id,
     });
 
+    // Resolved once, so the recorded request is the one sent (including on retries)
+    let request: HttpRequestConfig | undefined;
+
     try {
       const server = this.servers.get(step.serverId);
       if (!server) {
         throw new Error(`Server "${step.serverId}" not found`);
       }
 
-      const context = this.createContext();
+      const context = this.createContext(loopStack, step);
+      request = resolveStepRequest(step, server, context);
 
       // Check if we should wait for response
       if (!step.waitForResponse) {
@@ -385,30 +655,25 @@ export class ScenarioExecutor {
           stepId: step.id,
         });
 
-        // Execute request in background
-        executeStepRequest(
-          server,
-          step.method,
-          step.endpoint,
-          step.headers,
-          step.body,
-          step.queryParams,
-          step.timeout,
-          context
-        ).then((response) => {
+        // Execute request in background (retries still apply)
+        this.sendRequestWithRetry(step, request, []).then((response) => {
           // Log successful response when it arrives
           this.addLog('info', `Background request completed: ${response.status} (${response.duration}ms)`, {
             stepId: step.id,
           });
 
           // Save response if configured
+          // Background responses may arrive after a concurrent iteration has been merged,
+          // so they always go to the run's responses and variables
           if (step.saveResponse) {
             const alias = step.responseAlias || step.id;
-            this.responses.set(alias, response.data);
+            this.setResponse(alias, response.data, []);
             this.addLog('debug', `Background response saved as "${alias}"`, {
               stepId: step.id,
             });
           }
+
+          this.applyExtractions(step, response, []);
         }).catch((error) => {
           // Log error when it arrives
           const message = error instanceof Error ? error.message : String(error);
@@ -424,16 +689,8 @@ export class ScenarioExecutor {
           status: 'success',
           startedAt: startTime,
           completedAt: new Date().toISOString(),
-          request: {
-            url: `${server.baseUrl}${step.endpoint}`,
-            method: step.method,
-            headers: step.headers.reduce((acc, h) => {
-              if (h.enabled) acc[h.key] = h.value;
-              return acc;
-            }, {} as Record<string, string>),
-            body: step.body,
-          },
-        });
+          request: describeRequestConfig(request),
+        }, loopStack);
 
         this.addLog('info', `Request sent, continuing to next step without waiting`, {
           stepId: step.id,
@@ -443,40 +700,41 @@ export class ScenarioExecutor {
       }
 
       // Standard mode: wait for response
-      const response = await executeStepRequest(
-        server,
-        step.method,
-        step.endpoint,
-        step.headers,
-        step.body,
-        step.queryParams,
-        step.timeout,
-        context
-      );
+      // With a status assertion, an error status is a response to check rather than a request failure
+      const response = await this.sendRequestWithRetry(step, request, attempts, startTime, loopStack)
+        .catch((error: unknown) => {
+          if (error instanceof HttpRequestError && error.httpResponse && hasStatusAssertion(step.assertions)) {
+            return error.httpResponse;
+          }
+          throw error;
+        });
 
       // Save response if configured
       if (step.saveResponse) {
         const alias = step.responseAlias || step.id;
-        this.responses.set(alias, response.data);
+        this.setResponse(alias, response.data, loopStack);
         this.addLog('debug', `Response saved as "${alias}"`, {
           stepId: step.id,
         });
       }
 
+      // Capture extracted values into scenario variables
+      const extracted = this.applyExtractions(step, response, loopStack);
+
+      // Evaluate response assertions
+      const assertionResults = step.assertions && step.assertions.length > 0
+        ? evaluateAssertions(step.assertions, response, context)
+        : undefined;
+      const assertionError = assertionResults?.some((r) => !r.passed)
+        ? new AssertionFailedError(step.name, assertionResults)
+        : undefined;
+
       const result: StepExecutionResult = {
         stepId: step.id,
-        status: 'success',
+        status: assertionError ? 'failed' : 'success',
         startedAt: startTime,
         completedAt: new Date().toISOString(),
-        request: {
-          url: `${server.baseUrl}${step.endpoint}`,
-          method: step.method,
-          headers: step.headers.reduce((acc, h) => {
-            if (h.enabled) acc[h.key] = h.value;
-            return acc;
-          }, {} as Record<string, string>),
-          body: step.body,
-        },
+        request: describeRequestConfig(request),
         response: {
           status: response.status,
           statusText: response.statusText,
@@ -484,305 +742,1084 @@ export class ScenarioExecutor {
           data: response.data,
           duration: response.duration,
         },
+        attempts,
+        assertionResults,
+        variables: extracted,
+        error: assertionError
+          ? { code: 'ASSERTION_FAILED', message: assertionError.message }
+          : undefined,
       };
 
-      this.setStepResult(step.id, result);
+      this.setStepResult(step.id, result, loopStack);
       this.addLog('info', `Request completed: ${response.status} (${response.duration}ms)`, {
         stepId: step.id,
       });
 
+      if (assertionResults) {
+        const passedCount = assertionResults.filter((r) => r.passed).length;
+        this.addLog(
+          assertionError ? 'error' : 'info',
+          `Assertions: ${passedCount}/${assertionResults.length} passed`,
+          { stepId: step.id, assertionResults }
+        );
+      }
+
+      if (assertionError) {
+        throw assertionError;
+      }
+
       // Handle branching based on response
       if (step.branches && step.branches.length > 0) {
-        return this.evaluateBranches(step.branches);
+        return this.evaluateBranches(step, step.branches, loopStack);
       }
 
       return this.getNextStepId(step);
     } catch (error) {
+      // Assertion failures already recorded their own step result
+      if (error instanceof AssertionFailedError) {
+        throw error;
+      }
+
       const message = error instanceof Error ? error.message : String(error);
+      const server = this.servers.get(step.serverId);
       const result: StepExecutionResult = {
         stepId: step.id,
         status: 'failed',
         startedAt: startTime,
         completedAt: new Date().toISOString(),
+        // A request that could not be resolved (e.g. an invalid JSON body) is shown as written
+        request: request
+          ? describeRequestConfig(request)
+          : server ? describeStepRequest(step, server, this.createContext(loopStack, step)) : undefined,
         error: {
           code: 'REQUEST_FAILED',
           message,
           details: serializeError(error),
         },
+        attempts: attempts.length > 0 ? attempts : undefined,
       };
 
-      this.setStepResult(step.id, result);
+      this.setStepResult(step.id, result, loopStack);
       this.addLog('error', `Request failed: ${message}`, { stepId: step.id });
       throw error;
     }
   }
 
   /**
-   * Executes a condition step
-   */
-  private async executeConditionStep(step: ConditionStep): Promise<string | null> {
-    const startTime = new Date().toISOString();
-    this.setStepResult(step.id, {
-      stepId: step.id,
-      status: 'running',
-      startedAt: startTime,
-    });
-
-    this.addLog('info', `Evaluating conditions for step "${step.name}"`, {
-      stepId: step.id,
-    });
-
-    try {
-      const nextStepId = this.evaluateBranches(step.branches);
-
-      this.setStepResult(step.id, {
-        stepId: step.id,
-        status: 'success',
-        startedAt: startTime,
-        completedAt: new Date().toISOString(),
-      });
-
-      return nextStepId;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      this.setStepResult(step.id, {
-        stepId: step.id,
-        status: 'failed',
-        startedAt: startTime,
-        completedAt: new Date().toISOString(),
-        error: {
-          code: 'CONDITION_EVAL_FAILED',
-          message,
-        },
-      });
-      throw error;
-    }
-  }
-
-  /**
-   * Executes a loop step
+   * Sends the HTTP request of a request step, retrying according to its retryConfig
+   *
+   * Every attempt is appended to `attempts`. When `startTime` is given, the
+   * running step result (recorded under `loopStack`) is refreshed after each
+   * failed attempt so the UI can show the attempt history while retries are
+   * still in progress.
+   *
+   * @throws The error of the last attempt if all attempts fail
    */
-  private async executeLoopStep(step: LoopStep): Promise<string | null> {
-    const startTime = new Date().toISOString();
-    this.setStepResult(step.id, {
-      stepId: step.id,
-      status: 'running',
-      startedAt: startTime,
-      iterations: 0,
-      currentIteration: 0,
-    });
-
-    this.addLog('info', `Starting loop "${step.name}"`, { stepId: step.id });
-
-    try {
-      const context = this.createContext();
-      const iterator = createLoopIterator(step.loop, context, step.variableName);
-
-      let iteration = 0;
-
-      while (iterator.hasNext && !this.stopped) {
-        const loopContext = iterator.next();
-        if (!loopContext) break;
-
-        // Push loop context onto stack
-        this.loopContextStack.push(loopContext);
-
-        // Create and dispatch loop iteration snapshot for visualization
-        const loopSnapshot: LoopIterationSnapshot = {
+  private async sendRequestWithRetry(
+    step: RequestStep,
+    request: HttpRequestConfig,
+    attempts: RequestAttempt[],
+    startTime?: string,
+    loopStack: LoopContext[] = []
+  ): Promise<HttpResponse> {
+    const retryConfig = step.retryConfig;
+    const maxAttempts = 1 + Math.max(0, retryConfig?.maxRetries ?? 0);
+
+    for (let attempt = 1; ; attempt++) {
+      const attemptStartedAt = new Date().toISOString();
+      const attemptStart = Date.now();
+
+      if (maxAttempts > 1) {
+        this.addLog('debug', `Request attempt ${attempt}/${maxAttempts}`, {
           stepId: step.id,
-          currentIteration: iteration + 1, // 1-based for display
-          totalIterations: iterator.totalIterations,
-          depth: this.loopContextStack.length - 1, // 0-based depth
-          parentLoopId: this.loopContextStack.length > 1
-            ? this.loopContextStack[this.loopContextStack.length - 2].loopId
-            : undefined,
-        };
+          attempt,
+        });
+      }
 
-        // Dispatch enter loop on first iteration, update on subsequent iterations
-        if (iteration === 0) {
-          this.callbacks.onEnterLoop?.(loopSnapshot);
-        } else {
-          this.callbacks.onUpdateLoopIteration?.(step.id, iteration + 1);
-        }
+      try {
+        const response = await sendRequest(request, this.secrets);
 
-        this.addLog('debug', `Loop iteration ${iteration + 1}/${iterator.totalIterations}`, {
-          stepId: step.id,
-          iteration,
+        attempts.push({
+          attempt,
+          startedAt: attemptStartedAt,
+          completedAt: new Date().toISOString(),
+          status: response.status,
+          duration: response.duration,
         });
 
-        // Update step result with current iteration
-        const currentResult = this.stepResults.get(step.id);
-        if (currentResult) {
-          this.setStepResult(step.id, {
-            ...currentResult,
-            currentIteration: iteration + 1,
-            iterations: iterator.totalIterations,
+        if (attempt > 1) {
+          this.addLog('info', `Request succeeded on attempt ${attempt}/${maxAttempts}`, {
+            stepId: step.id,
+            attempt,
           });
         }
 
-        // Execute loop body - follow step flow within the loop
-        // This allows Condition steps to branch within the loop
-        // Note: Nested loops/groups have their own stepIds, so we track direct children only
-        let currentChildId: string | null = step.stepIds[0] || null;
-        const loopStepIds = new Set(step.stepIds);
+        return response;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const record: RequestAttempt = {
+          attempt,
+          startedAt: attemptStartedAt,
+          completedAt: new Date().toISOString(),
+          status: error instanceof HttpRequestError ? error.status : undefined,
+          duration: Date.now() - attemptStart,
+          error: message,
+        };
+        attempts.push(record);
 
-        this.addLog('debug', `Loop body stepIds: [${step.stepIds.join(', ')}]`, {
-          stepId: step.id,
-        });
+        const shouldRetry =
+          retryConfig !== undefined &&
+          attempt < maxAttempts &&
+          !this.stopped &&
+          isRetryableError(error, retryConfig);
 
-        while (currentChildId && !this.stopped) {
-          const childStep = this.findStep(currentChildId);
-          if (!childStep) {
-            this.addLog('warn', `Child step "${currentChildId}" not found in loop`, {
+        if (!shouldRetry) {
+          if (maxAttempts > 1) {
+            this.addLog('warn', `Request attempt ${attempt}/${maxAttempts} failed, not retrying: ${message}`, {
               stepId: step.id,
+              attempt,
             });
-            break;
           }
+          throw error;
+        }
 
-          // Check if this step is part of the loop's direct children
-          const isLoopChild = loopStepIds.has(currentChildId);
-
-          this.addLog('debug', `Executing child step "${childStep.name}" (${childStep.type}), isLoopChild: ${isLoopChild}`, {
-            stepId: step.id,
-            childStepId: currentChildId,
-          });
-
-          const nextStepId = await this.executeStep(childStep);
+        record.retryDelayMs = calculateRetryDelay(attempt, retryConfig.retryDelayMs);
+        this.addLog('warn', `Request attempt ${attempt}/${maxAttempts} failed: ${message}. Retrying in ${record.retryDelayMs}ms`, {
+          stepId: step.id,
+          attempt,
+          retryDelayMs: record.retryDelayMs,
+        });
 
-          this.addLog('debug', `Child step returned nextStepId: ${nextStepId}`, {
+        if (startTime) {
+          this.setStepResult(step.id, {
             stepId: step.id,
-            childStepId: currentChildId,
-          });
-
-          // If no next step, end this iteration
-          if (!nextStepId) {
-            break;
-          }
-
-          // If next step is in loop's stepIds, continue to that step
-          if (loopStepIds.has(nextStepId)) {
-            currentChildId = nextStepId;
-            continue;
-          }
-
-          // If next step is reached via branch but not in loop's stepIds,
-          // execute it and then end this iteration
-          const nextStep = this.findStep(nextStepId);
-          if (nextStep) {
-            this.addLog('debug', `Executing branched step "${nextStep.name}" (${nextStep.type})`, {
-              stepId: step.id,
-              branchedStepId: nextStepId,
-            });
-            // Execute the branched step - it may pause for manual mode
-            const afterBranchStepId = await this.executeStep(nextStep);
-
-            // If branched step returns another step, continue following the chain
-            // but only within this iteration
-            if (afterBranchStepId && !loopStepIds.has(afterBranchStepId)) {
-              // Could be another branched step, but for now we end iteration
-              this.addLog('debug', `Branched step chain ended, next would be: ${afterBranchStepId}`, {
-                stepId: step.id,
-              });
-            }
-          }
-
-          // End this iteration
-          break;
+            status: 'running',
+            startedAt: startTime,
+            attempts: [...attempts],
+          }, loopStack);
         }
 
-        // Pop loop context from stack
-        this.loopContextStack.pop();
+        await this.delay(record.retryDelayMs);
 
-        // Update while loop condition if needed
-        if (step.loop.type === 'while') {
-          const updatedContext = this.createContext();
-          updateWhileLoopCondition(iterator, step.loop as WhileLoop, updatedContext);
+        if (this.stopped) {
+          throw error;
         }
-
-        iteration++;
       }
+    }
+  }
 
-      // Exit loop - remove from active loop stack
-      this.callbacks.onExitLoop?.(step.id);
-
-      this.setStepResult(step.id, {
-        stepId: step.id,
-        status: 'success',
-        startedAt: startTime,
-        completedAt: new Date().toISOString(),
-        iterations: iteration,
-      });
+  /**
+   * Applies a request step's extractions to its response
+   *
+   * @returns Values assigned to scenario variables, or undefined if the step has no extractions
+   */
+  private applyExtractions(
+    step: RequestStep | PollStep,
+    response: HttpResponse,
+    loopStack: LoopContext[]
+  ): Record<string, unknown> | undefined {
+    if (!step.extract || step.extract.length === 0) {
+      return undefined;
+    }
 
-      this.addLog('info', `Loop completed: ${iteration} iterations`, {
-        stepId: step.id,
-      });
+    const { values, missing } = extractVariables(step.extract, response);
+    this.setVariables(values, step.id, loopStack);
 
-      return this.getNextStepId(step);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      this.setStepResult(step.id, {
+    if (missing.length > 0) {
+      this.addLog('warn', `No value extracted for variable(s): ${missing.join(', ')}`, {
         stepId: step.id,
-        status: 'failed',
-        startedAt: startTime,
-        completedAt: new Date().toISOString(),
-        error: {
-          code: 'LOOP_FAILED',
-          message,
-        },
       });
-      throw error;
     }
+
+    return values;
   }
 
   /**
-   * Executes a group step
+   * Executes a poll step
+   * Repeats the request until the until condition holds on the latest response,
+   * waiting between attempts; fails when the wall-clock timeout would be exceeded
    */
-  private async executeGroupStep(step: Step): Promise<string | null> {
-    // Groups are organizational only, execute contained steps in sequence
-    if (step.type !== 'group') return null;
-
+  private async executePollStep(step: PollStep, loopStack: LoopContext[]): Promise<string | null> {
     const startTime = new Date().toISOString();
+    const startedAt = Date.now();
+    const alias = step.responseAlias || step.id;
+    const attempts: RequestAttempt[] = [];
+    let request: HttpRequestConfig | undefined;
+    let response: HttpResponse | undefined;
+
     this.setStepResult(step.id, {
       stepId: step.id,
       status: 'running',
       startedAt: startTime,
-    });
+    }, loopStack);
 
-    // Execute group body - follow step flow within the group
-    // This allows Condition steps to branch within the group
-    let currentChildId: string | null = step.stepIds[0] || null;
-    const groupStepIds = new Set(step.stepIds);
+    this.addLog('info', `Polling: ${step.method} ${step.endpoint}`, {
+      stepId: step.id,
+    });
 
-    while (currentChildId && !this.stopped) {
-      const childStep = this.findStep(currentChildId);
-      if (!childStep) break;
+    const server = this.servers.get(step.serverId);
+    const describeResponse = (latest: HttpResponse) => ({
+      status: latest.status,
+      statusText: latest.statusText,
+      headers: latest.headers,
+      data: latest.data,
+      duration: latest.duration,
+    });
+    const fail = (code: string, message: string, error?: unknown): never => {
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'failed',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        request: request
+          ? describeRequestConfig(request)
+          : server ? describeStepRequest(step, server, this.createContext(loopStack, step)) : undefined,
+        response: response ? describeResponse(response) : undefined,
+        attempts: attempts.length > 0 ? attempts : undefined,
+        error: {
+          code,
+          message,
+          details: error !== undefined ? serializeError(error) : undefined,
+        },
+      }, loopStack);
+      this.addLog('error', `Polling failed: ${message}`, { stepId: step.id });
+      throw error instanceof Error ? error : new Error(message);
+    };
 
-      const nextStepId = await this.executeStep(childStep);
+    if (!server) {
+      return fail('REQUEST_FAILED', `Server "${step.serverId}" not found`);
+    }
 
-      // If no next step, exit the group
-      if (!nextStepId) {
-        break;
-      }
+    for (let attempt = 1; !this.stopped; attempt++) {
+      const context = this.createContext(loopStack, step);
+      const attemptStartedAt = new Date().toISOString();
+      const attemptStart = Date.now();
 
-      // If the next step is inside the group, continue to that step
-      if (groupStepIds.has(nextStepId)) {
-        currentChildId = nextStepId;
-        continue;
+      try {
+        // Each attempt resolves the request again, since it may read the previous response
+        request = resolveStepRequest(step, server, context);
+      } catch (error) {
+        return fail('REQUEST_FAILED', error instanceof Error ? error.message : String(error), error);
       }
-
-      // If next step is reached via branch but not in group's stepIds,
-      // execute it and then exit the group
-      const nextStep = this.findStep(nextStepId);
-      if (nextStep) {
-        this.addLog('debug', `Executing branched step "${nextStep.name}" (${nextStep.type}) from group`, {
-          stepId: step.id,
-          branchedStepId: nextStepId,
-        });
-        await this.executeStep(nextStep);
+      // An attempt may only use the time left before the step times out
+      request.timeout = getAttemptTimeout(startedAt, step.poll.timeoutMs, request.timeout);
+
+      // Failed requests are attempts too: the until condition or the timeout decides
+      let attemptError: string | undefined;
+      try {
+        response = await sendRequest(request, this.secrets);
+      } catch (error) {
+        if (error instanceof HttpRequestError && error.httpResponse) {
+          // An error status is a response the condition may be waiting for (e.g. 404 until created)
+          response = error.httpResponse;
+        } else {
+          attemptError = error instanceof Error ? error.message : String(error);
+        }
       }
 
-      // Exit the group
-      break;
+      const record: RequestAttempt = {
+        attempt,
+        startedAt: attemptStartedAt,
+        completedAt: new Date().toISOString(),
+        status: attemptError === undefined ? response?.status : undefined,
+        duration: attemptError === undefined && response ? response.duration : Date.now() - attemptStart,
+        error: attemptError,
+      };
+      attempts.push(record);
+
+      if (attemptError === undefined && response) {
+        // The until condition reads the latest response through the step's alias
+        this.setResponse(alias, response.data, loopStack);
+        try {
+          record.conditionMet = evaluateCondition(step.poll.until, this.createContext(loopStack, step));
+        } catch (error) {
+          // A condition that cannot be evaluated (e.g. an invalid regex) fails the step
+          const message = error instanceof Error ? error.message : String(error);
+          record.error = message;
+          return fail('CONDITION_EVAL_FAILED', `Polling condition could not be evaluated: ${message}`, error);
+        }
+
+        if (record.conditionMet) {
+          const extracted = this.applyExtractions(step, response, loopStack);
+          this.setStepResult(step.id, {
+            stepId: step.id,
+            status: 'success',
+            startedAt: startTime,
+            completedAt: new Date().toISOString(),
+            request: describeRequestConfig(request),
+            response: describeResponse(response),
+            attempts,
+            variables: extracted,
+          }, loopStack);
+          this.addLog('info', `Polling condition met after ${attempt} attempt(s)`, {
+            stepId: step.id,
+          });
+          return this.getNextStepId(step);
+        }
+      } else {
+        this.addLog('warn', `Polling request failed (attempt ${attempt}): ${attemptError}`, {
+          stepId: step.id,
+          attempt,
+        });
+      }
+
+      const delayMs = getPollDelay(step.poll, attempt);
+      if (!canPollAgain(startedAt, step.poll.timeoutMs, delayMs)) {
+        const lastError = attemptError ? ` (last attempt failed: ${attemptError})` : '';
+        return fail(
+          'POLL_TIMEOUT',
+          `Condition not met after ${attempt} attempt(s) within ${step.poll.timeoutMs}ms${lastError}`
+        );
+      }
+
+      record.retryDelayMs = delayMs;
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'running',
+        startedAt: startTime,
+        response: response ? describeResponse(response) : undefined,
+        attempts: [...attempts],
+      }, loopStack);
+      this.addLog('debug', `Polling condition not met (attempt ${attempt}), next attempt in ${delayMs}ms`, {
+        stepId: step.id,
+        attempt,
+      });
+
+      await this.delay(delayMs);
+    }
+
+    return null;
+  }
+
+  /**
+   * Executes a set variable step
+   */
+  private async executeSetVariableStep(step: SetVariableStep, loopStack: LoopContext[]): Promise<string | null> {
+    const startTime = new Date().toISOString();
+    this.setStepResult(step.id, {
+      stepId: step.id,
+      status: 'running',
+      startedAt: startTime,
+    }, loopStack);
+
+    try {
+      const values = applyAssignments(step.assignments, this.createContext(loopStack, step));
+      this.setVariables(values, step.id, loopStack);
+
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'success',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        variables: values,
+      }, loopStack);
+
+      return this.getNextStepId(step);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'failed',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        error: {
+          code: 'SET_VARIABLE_FAILED',
+          message,
+        },
+      }, loopStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Executes a call step
+   * Runs the called scenario in its own executor; its step results are kept
+   * in the call step's result and the mapped outputs become caller variables
+   */
+  private async executeCallStep(step: CallStep, loopStack: LoopContext[]): Promise<string | null> {
+    const startTime = new Date().toISOString();
+    const subSteps = new Map<string, SubScenarioStepResult>();
+    let scenario: Scenario | undefined;
+    let params: Record<string, unknown> = {};
+    let subStatus: ExecutionStatus = 'idle';
+
+    const publish = (
+      status: StepExecutionStatus,
+      extra: Partial<StepExecutionResult> = {}
+    ) => {
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status,
+        startedAt: startTime,
+        completedAt: status === 'running' || status === 'waiting' ? undefined : new Date().toISOString(),
+        subScenario: scenario && {
+          scenarioId: scenario.id,
+          scenarioName: scenario.name,
+          status: subStatus,
+          params,
+          steps: [...subSteps.values()],
+        },
+        ...extra,
+      }, loopStack);
+    };
+
+    publish('running');
+
+    try {
+      scenario = findCalledScenario(step, this.scenarios, [...this.callStack, this.scenario.id]);
+      const called = scenario;
+      params = getCallParams(step, called, this.createContext(loopStack, step));
+
+      this.addLog('info', `Calling scenario "${called.name}"`, { stepId: step.id, params });
+      this.callbacks.onEnterLoop?.({
+        stepId: step.id,
+        currentIteration: 1,
+        totalIterations: 1,
+        depth: loopStack.length,
+        parentLoopId: loopStack.length > 0
+          ? loopStack[loopStack.length - 1].loopId
+          : undefined,
+        scenarioName: called.name,
+      });
+
+      let lastError: Error | undefined;
+      const executor = new ScenarioExecutor(called, this.servers);
+      const control = executor.getControl();
+      this.activeCalls.add(control);
+
+      let result: ExecutionResult;
+      try {
+        result = await executor.execute(params, {
+          callbacks: {
+            onStepComplete: (stepId, stepResult) => {
+              const calledStep = called.steps.find((s) => s.id === stepId);
+              subSteps.set(stepId, {
+                stepId,
+                name: calledStep?.name ?? stepId,
+                type: calledStep?.type ?? 'request',
+                status: stepResult.status,
+                startedAt: stepResult.startedAt,
+                completedAt: stepResult.completedAt,
+                error: stepResult.error && {
+                  code: stepResult.error.code,
+                  message: stepResult.error.message,
+                },
+              });
+              publish(subStatus === 'paused' ? 'waiting' : 'running');
+            },
+            onLog: (log) => this.addLog(log.level, `[${called.name}] ${log.message}`, log.data),
+            onError: (error) => {
+              lastError = error;
+            },
+            onStatusChange: (status) => {
+              subStatus = status;
+              // A manual step of the called scenario pauses the caller
+              if (status === 'paused') {
+                publish('waiting');
+                this.pause();
+              } else if (status === 'running') {
+                publish('running');
+              }
+            },
+          },
+          stopOnError: this.stopOnError,
+          environment: this.environment,
+          secrets: this.secrets,
+          manualSteps: this.manualSteps,
+          scenarios: this.scenarios,
+          callStack: [...this.callStack, this.scenario.id],
+          executionId: this.executionId,
+          runNumber: this.runNumber,
+          scriptRunner: this.scriptRunner,
+        });
+      } finally {
+        this.activeCalls.delete(control);
+        this.callbacks.onExitLoop?.(step.id);
+      }
+
+      if (this.stopped) return null;
+
+      if (result.status !== 'completed') {
+        throw new Error(
+          `Scenario "${called.name}" ${result.status}${lastError ? `: ${lastError.message}` : ''}`
+        );
+      }
+
+      const values = applyAssignments(step.outputs, executor.createContext([]));
+      this.setVariables(values, step.id, loopStack);
+
+      publish('success', { variables: values });
+      this.addLog('info', `Scenario "${called.name}" completed`, { stepId: step.id });
+
+      return this.getNextStepId(step);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      publish('failed', {
+        error: {
+          code: 'CALL_FAILED',
+          message,
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Executes a script step
+   * The script runs in a worker; its console output is added to the logs and
+   * the object it returns becomes scenario variables
+   */
+  private async executeScriptStep(step: ScriptStep, loopStack: LoopContext[]): Promise<string | null> {
+    const startTime = new Date().toISOString();
+    this.setStepResult(step.id, {
+      stepId: step.id,
+      status: 'running',
+      startedAt: startTime,
+    }, loopStack);
+
+    const controller = new AbortController();
+    this.activeScripts.add(controller);
+    let scriptConsole: ScriptConsoleEntry[] = [];
+
+    try {
+      const timeoutMs = getScriptTimeout(step);
+      this.addLog('info', `Running script of step "${step.name}"`, { stepId: step.id, timeoutMs });
+
+      const result = await this.scriptRunner({
+        code: step.code,
+        scope: createScriptScope(this.createContext(loopStack, step)),
+        timeoutMs,
+        signal: controller.signal,
+      });
+      scriptConsole = result.console;
+      this.logScriptConsole(step, scriptConsole);
+
+      if (this.stopped) return null;
+
+      const values = getScriptVariables(result.value);
+      this.setVariables(values, step.id, loopStack);
+
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'success',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        variables: values,
+        scriptConsole,
+      }, loopStack);
+
+      return this.getNextStepId(step);
+    } catch (error) {
+      if (error instanceof ScriptError && error.console.length > 0) {
+        scriptConsole = error.console;
+        this.logScriptConsole(step, scriptConsole);
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'failed',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        scriptConsole,
+        error: {
+          code: error instanceof ScriptTimeoutError ? 'SCRIPT_TIMEOUT' : 'SCRIPT_FAILED',
+          message,
+        },
+      }, loopStack);
+      throw error;
+    } finally {
+      this.activeScripts.delete(controller);
+    }
+  }
+
+  /**
+   * Adds the console output of a script step to the execution logs
+   */
+  private logScriptConsole(step: ScriptStep, entries: ScriptConsoleEntry[]): void {
+    for (const entry of entries) {
+      const level = entry.level === 'log' ? 'info' : entry.level;
+      this.addLog(level, `[${step.name}] console.${entry.level}: ${entry.message}`, { stepId: step.id });
+    }
+  }
+
+  /**
+   * Executes a condition step
+   */
+  private async executeConditionStep(step: ConditionStep, loopStack: LoopContext[]): Promise<string | null> {
+    const startTime = new Date().toISOString();
+    this.setStepResult(step.id, {
+      stepId: step.id,
+      status: 'running',
+      startedAt: startTime,
+    }, loopStack);
+
+    this.addLog('info', `Evaluating conditions for step "${step.name}"`, {
+      stepId: step.id,
+    });
+
+    try {
+      const nextStepId = this.evaluateBranches(step, step.branches, loopStack);
+
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'success',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+      }, loopStack);
+
+      return nextStepId;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'failed',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        error: {
+          code: 'CONDITION_EVAL_FAILED',
+          message,
+        },
+      }, loopStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Executes a loop step
+   */
+  private async executeLoopStep(step: LoopStep, loopStack: LoopContext[]): Promise<string | null> {
+    const startTime = new Date().toISOString();
+    this.setStepResult(step.id, {
+      stepId: step.id,
+      status: 'running',
+      startedAt: startTime,
+      iterations: 0,
+      currentIteration: 0,
+    }, loopStack);
+
+    this.addLog('info', `Starting loop "${step.name}"`, { stepId: step.id });
+
+    try {
+      const context = this.createContext(loopStack, step);
+      const iterator = createLoopIterator(step.loop, context, step.variableName);
+      const parallelism = getLoopParallelism(step.loop);
+
+      let iteration = 0;
+      let breakMet = false;
+
+      if (parallelism > 1) {
+        ({ completed: iteration, breakMet } = await this.executeConcurrentIterations(
+          step, iterator, parallelism, loopStack
+        ));
+      } else {
+        while (iterator.hasNext && !this.stopped) {
+          const loopContext = iterator.next();
+          if (!loopContext) break;
+
+          // Loop contexts of this iteration, identified by the loop step
+          const iterationStack = [...loopStack, { ...loopContext, loopId: step.id }];
+
+          // Create and dispatch loop iteration snapshot for visualization
+          const loopSnapshot: LoopIterationSnapshot = {
+            stepId: step.id,
+            currentIteration: iteration + 1, // 1-based for display
+            totalIterations: iterator.totalIterations,
+            depth: iterationStack.length - 1, // 0-based depth
+            parentLoopId: loopStack.length > 0
+              ? loopStack[loopStack.length - 1].loopId
+              : undefined,
+          };
+
+          // Dispatch enter loop on first iteration, update on subsequent iterations
+          if (iteration === 0) {
+            this.callbacks.onEnterLoop?.(loopSnapshot);
+          } else {
+            this.callbacks.onUpdateLoopIteration?.(step.id, iteration + 1);
+          }
+
+          this.addLog('debug', `Loop iteration ${iteration + 1}/${iterator.totalIterations}`, {
+            stepId: step.id,
+            iteration,
+          });
+
+          // Update step result with current iteration
+          const currentResult = this.stepResults.get(step.id);
+          if (currentResult) {
+            this.setStepResult(step.id, {
+              ...currentResult,
+              currentIteration: iteration + 1,
+              iterations: iterator.totalIterations,
+            }, loopStack);
+          }
+
+          breakMet = await this.executeLoopIteration(step, iterationStack);
+          iteration++;
+          if (breakMet) break;
+
+          // Update while loop condition if needed
+          if (step.loop.type === 'while') {
+            const updatedContext = this.createContext(loopStack, step);
+            updateWhileLoopCondition(iterator, step.loop as WhileLoop, updatedContext);
+          }
+        }
+      }
+
+      let exitReason: LoopExitReason = 'completed';
+      if (breakMet) {
+        exitReason = 'break';
+      } else if (this.stopped) {
+        exitReason = 'stopped';
+      } else if (step.loop.type === 'while') {
+        exitReason = 'conditionFalse';
+      }
+
+      // Exit loop - remove from active loop stack
+      this.callbacks.onExitLoop?.(step.id);
+
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'success',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        iterations: iteration,
+        loopExitReason: exitReason,
+      }, loopStack);
+
+      this.addLog('info', `Loop completed: ${iteration} iterations (${exitReason})`, {
+        stepId: step.id,
+      });
+
+      return this.getNextStepId(step);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'failed',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        loopExitReason: 'failed',
+        error: {
+          code: 'LOOP_FAILED',
+          message,
+        },
+      }, loopStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Executes the body of one loop iteration
+   * Follows the step flow from the loop's first child until it leaves the loop body.
+   * The loop's break and continue conditions are checked after every body step.
+   *
+   * @returns True if the break condition ended the loop
+   */
+  private async executeLoopIteration(step: LoopStep, iterationStack: LoopContext[]): Promise<boolean> {
+    // Follow step flow within the loop
+    // This allows Condition steps to branch within the loop
+    // Note: Nested loops/groups have their own stepIds, so we track direct children only
+    let currentChildId: string | null = step.stepIds[0] || null;
+    const loopStepIds = new Set(step.stepIds);
+
+    this.addLog('debug', `Loop body stepIds: [${step.stepIds.join(', ')}]`, {
+      stepId: step.id,
+    });
+
+    try {
+      while (currentChildId && !this.stopped) {
+        const childStep = this.findStep(currentChildId);
+        if (!childStep) {
+          this.addLog('warn', `Child step "${currentChildId}" not found in loop`, {
+            stepId: step.id,
+          });
+          break;
+        }
+
+        // Check if this step is part of the loop's direct children
+        const isLoopChild = loopStepIds.has(currentChildId);
+
+        this.addLog('debug', `Executing child step "${childStep.name}" (${childStep.type}), isLoopChild: ${isLoopChild}`, {
+          stepId: step.id,
+          childStepId: currentChildId,
+        });
+
+        const nextStepId = await this.executeStep(childStep, iterationStack);
+
+        this.addLog('debug', `Child step returned nextStepId: ${nextStepId}`, {
+          stepId: step.id,
+          childStepId: currentChildId,
+        });
+
+        const control = this.checkLoopControl(step, childStep, iterationStack);
+        if (control === 'break') {
+          return true;
+        }
+        if (control === 'continue') {
+          break;
+        }
+
+        // If no next step, end this iteration
+        if (!nextStepId) {
+          break;
+        }
+
+        // If next step is in loop's stepIds, continue to that step
+        if (loopStepIds.has(nextStepId)) {
+          currentChildId = nextStepId;
+          continue;
+        }
+
+        // If next step is reached via branch but not in loop's stepIds,
+        // execute it and then end this iteration
+        const nextStep = this.findStep(nextStepId);
+        if (nextStep) {
+          this.addLog('debug', `Executing branched step "${nextStep.name}" (${nextStep.type})`, {
+            stepId: step.id,
+            branchedStepId: nextStepId,
+          });
+          // Execute the branched step - it may pause for manual mode
+          const afterBranchStepId = await this.executeStep(nextStep, iterationStack);
+          if (this.checkLoopControl(step, nextStep, iterationStack) === 'break') {
+            return true;
+          }
+
+          // If branched step returns another step, continue following the chain
+          // but only within this iteration
+          if (afterBranchStepId && !loopStepIds.has(afterBranchStepId)) {
+            // Could be another branched step, but for now we end iteration
+            this.addLog('debug', `Branched step chain ended, next would be: ${afterBranchStepId}`, {
+              stepId: step.id,
+            });
+          }
+        }
+
+        // End this iteration
+        break;
+      }
+    } catch (error) {
+      // A failed step with the skipIteration policy ends only this iteration
+      if (!(error instanceof LoopIterationSkipped)) {
+        throw error;
+      }
+      this.addLog('info', `Skipping the rest of the iteration: ${error.message}`, {
+        stepId: step.id,
+      });
+    }
+    return false;
+  }
+
+  /**
+   * Evaluates a loop's break and continue conditions after a body step
+   *
+   * @param step - Loop step
+   * @param bodyStep - Body step that just finished
+   * @param iterationStack - Loop contexts of the current iteration
+   * @returns "break" or "continue" when the matching condition holds
+   */
+  private checkLoopControl(
+    step: LoopStep,
+    bodyStep: Step,
+    iterationStack: LoopContext[]
+  ): 'break' | 'continue' | undefined {
+    if (!step.breakCondition && !step.continueCondition) {
+      return undefined;
+    }
+
+    const context = this.createContext(iterationStack, step);
+    if (step.breakCondition && evaluateCondition(step.breakCondition, context)) {
+      this.addLog('info', `Break condition met after "${bodyStep.name}": ${describeCondition(step.breakCondition)}`, {
+        stepId: step.id,
+      });
+      return 'break';
+    }
+    if (step.continueCondition && evaluateCondition(step.continueCondition, context)) {
+      this.addLog('debug', `Continue condition met after "${bodyStep.name}": ${describeCondition(step.continueCondition)}`, {
+        stepId: step.id,
+      });
+      return 'continue';
+    }
+    return undefined;
+  }
+
+  /**
+   * Runs forEach iterations concurrently, at most `parallelism` at once
+   * Every iteration gets its own loop context and its own responses and variables
+   * (see IterationScope), merged back in iteration order when all have finished.
+   * After a failure or a met break condition no new iterations start. The first
+   * error is rethrown once running iterations finish.
+   *
+   * @returns Number of completed iterations and whether the break condition was met
+   */
+  private async executeConcurrentIterations(
+    step: LoopStep,
+    iterator: LoopIterator,
+    parallelism: number,
+    loopStack: LoopContext[]
+  ): Promise<{ completed: number; breakMet: boolean }> {
+    const contexts: LoopContext[] = [];
+    while (iterator.hasNext) {
+      const loopContext = iterator.next();
+      if (!loopContext) break;
+      contexts.push(loopContext);
+    }
+
+    const total = contexts.length;
+    const scopes: IterationScope[] = contexts.map(() => ({ responses: new Map(), variables: new Map() }));
+    const inFlight = new Set<number>();
+    let nextIndex = 0;
+    let completed = 0;
+    let breakMet = false;
+    let failure: Error | undefined;
+
+    this.callbacks.onEnterLoop?.({
+      stepId: step.id,
+      currentIteration: 0,
+      totalIterations: total,
+      depth: loopStack.length,
+      parentLoopId: loopStack.length > 0
+        ? loopStack[loopStack.length - 1].loopId
+        : undefined,
+      inFlight: [],
+    });
+
+    // Progress counts completed iterations; running ones are reported separately
+    const reportProgress = () => {
+      this.callbacks.onUpdateLoopIteration?.(
+        step.id,
+        completed,
+        [...inFlight].sort((a, b) => a - b)
+      );
+
+      const currentResult = this.stepResults.get(step.id);
+      if (currentResult) {
+        this.setStepResult(step.id, {
+          ...currentResult,
+          currentIteration: completed,
+          iterations: total,
+        }, loopStack);
+      }
+    };
+
+    this.addLog('debug', `Running ${total} iterations, up to ${parallelism} at once`, {
+      stepId: step.id,
+    });
+
+    const worker = async () => {
+      while (!this.stopped && !failure && !breakMet && nextIndex < total) {
+        const index = nextIndex++;
+        inFlight.add(index + 1);
+        reportProgress();
+
+        this.addLog('debug', `Loop iteration ${index + 1}/${total} started`, {
+          stepId: step.id,
+          iteration: index,
+        });
+
+        const iterationContext: LoopContext = { ...contexts[index], loopId: step.id };
+        this.iterationScopes.set(iterationContext, scopes[index]);
+
+        try {
+          if (await this.executeLoopIteration(step, [...loopStack, iterationContext])) {
+            breakMet = true;
+          }
+          completed++;
+        } catch (error) {
+          failure ??= error instanceof Error ? error : new Error(String(error));
+        } finally {
+          inFlight.delete(index + 1);
+          reportProgress();
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(parallelism, total) }, worker));
+
+    // Later iterations win, as if the iterations had run one after another
+    const target: IterationScope = this.getIterationScopes(loopStack).at(-1)
+      ?? { responses: this.responses, variables: this.variables };
+    for (const scope of scopes) {
+      scope.responses.forEach((value, alias) => target.responses.set(alias, value));
+      scope.variables.forEach((value, name) => target.variables.set(name, value));
+    }
+    if (scopes.some((scope) => scope.variables.size > 0)) {
+      this.callbacks.onVariablesChange?.(this.redact(this.getVariables(loopStack)));
+    }
+
+    if (failure) {
+      throw failure;
+    }
+    return { completed, breakMet };
+  }
+
+  /**
+   * Executes a group step
+   */
+  private async executeGroupStep(step: Step, loopStack: LoopContext[]): Promise<string | null> {
+    // Groups are organizational only, execute contained steps in sequence
+    if (step.type !== 'group') return null;
+
+    const startTime = new Date().toISOString();
+    this.setStepResult(step.id, {
+      stepId: step.id,
+      status: 'running',
+      startedAt: startTime,
+    }, loopStack);
+
+    try {
+      // Execute group body - follow step flow within the group
+      // This allows Condition steps to branch within the group
+      let currentChildId: string | null = step.stepIds[0] || null;
+      const groupStepIds = new Set(step.stepIds);
+
+      while (currentChildId && !this.stopped) {
+        const childStep = this.findStep(currentChildId);
+        if (!childStep) break;
+
+        const nextStepId = await this.executeStep(childStep, loopStack);
+
+        // If no next step, exit the group
+        if (!nextStepId) {
+          break;
+        }
+
+        // If the next step is inside the group, continue to that step
+        if (groupStepIds.has(nextStepId)) {
+          currentChildId = nextStepId;
+          continue;
+        }
+
+        // If next step is reached via branch but not in group's stepIds,
+        // execute it and then exit the group
+        const nextStep = this.findStep(nextStepId);
+        if (nextStep) {
+          this.addLog('debug', `Executing branched step "${nextStep.name}" (${nextStep.type}) from group`, {
+            stepId: step.id,
+            branchedStepId: nextStepId,
+          });
+          await this.executeStep(nextStep, loopStack);
+        }
+
+        // Exit the group
+        break;
+      }
+    } catch (error) {
+      // A skipped iteration or a stopped run is not a failure of the group
+      if (error instanceof LoopIterationSkipped || this.stopped) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status: 'failed',
+        startedAt: startTime,
+        completedAt: new Date().toISOString(),
+        error: {
+          code: 'GROUP_FAILED',
+          message,
+        },
+      }, loopStack);
+      throw error;
     }
 
     this.setStepResult(step.id, {
@@ -790,17 +1827,138 @@ export class ScenarioExecutor {
       status: 'success',
       startedAt: startTime,
       completedAt: new Date().toISOString(),
+    }, loopStack);
+
+    return this.getNextStepId(step);
+  }
+
+  /**
+   * Executes a parallel step
+   * Lanes run concurrently (up to maxConcurrency at once) until the join policy is
+   * decided; lanes not started by then are skipped and running lanes are awaited
+   */
+  private async executeParallelStep(step: ParallelStep, loopStack: LoopContext[]): Promise<string | null> {
+    const startTime = new Date().toISOString();
+    const lanes = step.lanes.filter((lane) => lane.nextStepId);
+    const laneResults: LaneExecutionResult[] = lanes.map((lane) => ({
+      laneId: lane.id,
+      label: lane.label,
+      status: 'pending',
+    }));
+
+    const publish = (status: StepExecutionStatus, error?: StepExecutionResult['error']) => {
+      this.setStepResult(step.id, {
+        stepId: step.id,
+        status,
+        startedAt: startTime,
+        completedAt: status === 'running' ? undefined : new Date().toISOString(),
+        lanes: laneResults.map((lane) => ({ ...lane })),
+        error,
+      }, loopStack);
+    };
+
+    if (lanes.length < step.lanes.length) {
+      this.addLog('warn', `${step.lanes.length - lanes.length} lane(s) of "${step.name}" have no first step and were ignored`, {
+        stepId: step.id,
+      });
+    }
+
+    const required = getRequiredLanes(step.joinPolicy, step.joinCount, lanes.length);
+    const concurrency = getLaneConcurrency(step, lanes.length);
+    let nextLane = 0;
+    let succeeded = 0;
+    let failed = 0;
+
+    publish('running');
+    this.addLog('info', `Starting ${lanes.length} lane(s) of "${step.name}" (join: ${step.joinPolicy}, concurrency: ${concurrency})`, {
+      stepId: step.id,
     });
 
+    // Each worker takes the next lane until the join is decided or all lanes started
+    const worker = async () => {
+      while (!this.stopped && getJoinOutcome(required, lanes.length, succeeded, failed) === 'pending') {
+        const index = nextLane++;
+        if (index >= lanes.length) return;
+
+        const laneSucceeded = await this.runLane(lanes[index], laneResults[index], loopStack, () => publish('running'));
+        if (laneSucceeded) {
+          succeeded++;
+        } else {
+          failed++;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    if (this.stopped) {
+      for (const lane of laneResults) {
+        if (lane.status === 'pending') lane.status = 'cancelled';
+      }
+      publish('cancelled');
+      return null;
+    }
+
+    for (const lane of laneResults) {
+      if (lane.status === 'pending') lane.status = 'skipped';
+    }
+
+    if (getJoinOutcome(required, lanes.length, succeeded, failed) === 'failed') {
+      const message = `Join failed for "${step.name}": ${succeeded}/${lanes.length} lane(s) succeeded, ${required} required`;
+      publish('failed', { code: 'JOIN_FAILED', message });
+      this.addLog('error', message, { stepId: step.id });
+      throw new Error(message);
+    }
+
+    publish('success');
+    this.addLog('info', `Lanes joined: ${succeeded}/${lanes.length} succeeded`, { stepId: step.id });
+
     return this.getNextStepId(step);
   }
 
+  /**
+   * Runs the steps of one parallel lane, following the flow until a step has no next step
+   *
+   * @returns Whether the lane completed without error
+   */
+  private async runLane(
+    lane: ParallelLane,
+    laneResult: LaneExecutionResult,
+    loopStack: LoopContext[],
+    onUpdate: () => void
+  ): Promise<boolean> {
+    laneResult.status = 'running';
+    laneResult.startedAt = new Date().toISOString();
+    onUpdate();
+
+    try {
+      let currentStepId: string | null = lane.nextStepId;
+      while (currentStepId && !this.stopped) {
+        const laneStep = this.findStep(currentStepId);
+        if (!laneStep) {
+          throw new Error(`Step "${currentStepId}" not found`);
+        }
+        currentStepId = await this.executeStep(laneStep, loopStack);
+      }
+
+      laneResult.status = this.stopped ? 'cancelled' : 'success';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      laneResult.status = 'failed';
+      laneResult.error = { code: 'LANE_FAILED', message };
+      this.addLog('error', `Lane "${lane.label}" failed: ${message}`, { laneId: lane.id });
+    }
+
+    laneResult.completedAt = new Date().toISOString();
+    onUpdate();
+    return laneResult.status === 'success';
+  }
+
   /**
    * Evaluates branches and returns the next step ID
    * Evaluates conditional branches first, then falls back to default branch
    */
-  private evaluateBranches(branches: Branch[]): string | null {
-    const context = this.createContext();
+  private evaluateBranches(step: Step, branches: Branch[], loopStack: LoopContext[]): string | null {
+    const context = this.createContext(loopStack, step);
 
     // First, evaluate non-default branches with conditions
     for (const branch of branches) {
@@ -833,16 +1991,52 @@ export class ScenarioExecutor {
 
   /**
    * Gets the next step ID based on scenario edges
-   * Only considers edges from the default (bottom) handle, not branch handles
+   * Only considers edges from the default (bottom) handle, not branch or lane handles
    */
   private getNextStepId(step: Step): string | null {
-    // Find edge from this step that doesn't have a branch handle (regular flow)
+    // Find edge from this step that doesn't have a branch or lane handle (regular flow)
     const edge = this.scenario.edges.find(
-      (e) => e.sourceStepId === step.id && !e.sourceHandle?.startsWith('branch_')
+      (e) =>
+        e.sourceStepId === step.id &&
+        !e.sourceHandle?.startsWith('branch_') &&
+        !e.sourceHandle?.startsWith('lane_') &&
+        e.sourceHandle !== 'error'
     );
     return edge?.targetStepId ?? null;
   }
 
+  /**
+   * Gets the target of a step's error edge
+   * Only request, poll, call, script and group steps have an error output
+   */
+  private getErrorStepId(step: Step): string | null {
+    if (step.type !== 'request' && step.type !== 'poll' && step.type !== 'call' && step.type !== 'script' && step.type !== 'group') return null;
+
+    const edge = this.scenario.edges.find(
+      (e) => e.sourceStepId === step.id && e.sourceHandle === 'error'
+    );
+    return edge?.targetStepId ?? null;
+  }
+
+  /**
+   * Captures a step failure for ${error.*} references
+   * The error code comes from the failed step result recorded by the step itself
+   */
+  private captureError(step: Step, error: unknown): CaughtStepError {
+    const result = this.stepResults.get(step.id);
+    const httpError = error instanceof HttpRequestError ? error : undefined;
+
+    return {
+      stepId: step.id,
+      stepName: step.name,
+      code: result?.error?.code ?? 'STEP_FAILED',
+      message: error instanceof Error ? error.message : String(error),
+      status: httpError?.status,
+      statusText: httpError?.statusText,
+      response: httpError?.response,
+    };
+  }
+
   /**
    * Finds a step by ID
    */
@@ -850,23 +2044,115 @@ export class ScenarioExecutor {
     return this.scenario.steps.find((s) => s.id === stepId);
   }
 
+  /**
+   * Gets the result a step recorded in the current iteration (or run, outside loops)
+   */
+  private getRecordedResult(stepId: string, loopStack: LoopContext[]): StepExecutionResult | undefined {
+    const loopPath = getLoopPath(loopStack, stepId);
+    return loopPath.length > 0
+      ? this.iterationResults.get(getIterationKey(stepId, loopPath))
+      : this.stepResults.get(stepId);
+  }
+
   /**
    * Creates the current variable context
+   *
+   * @param loopStack - Loop contexts enclosing the step
+   * @param step - Step being executed, for ${system.stepId}, ${system.stepName}
+   *   and ${system.stepStartedAt}
    */
-  private createContext(): VariableContext {
+  private createContext(loopStack: LoopContext[], step?: Step): VariableContext {
     return createVariableContext(
       this.params,
+      this.getResponses(loopStack),
+      loopStack,
+      this.getVariables(loopStack),
+      this.envVariables,
+      this.caughtError,
+      {
+        executionId: this.executionId,
+        scenarioId: this.scenario.id,
+        scenarioName: this.scenario.name,
+        runNumber: this.runNumber,
+        startedAt: this.startedAt,
+        stepId: step?.id,
+        stepName: step?.name,
+        stepStartedAt: step ? this.getRecordedResult(step.id, loopStack)?.startedAt : undefined,
+      }
+    );
+  }
+
+  /**
+   * Gets the scopes of the concurrent loop iterations enclosing a step, outermost first
+   */
+  private getIterationScopes(loopStack: LoopContext[]): IterationScope[] {
+    return loopStack.flatMap((loopContext) => {
+      const scope = this.iterationScopes.get(loopContext);
+      return scope ? [scope] : [];
+    });
+  }
+
+  /**
+   * Gets the responses visible to a step: the run's, overlaid by those of its concurrent iterations
+   */
+  private getResponses(loopStack: LoopContext[]): Record<string, unknown> {
+    return Object.assign(
       Object.fromEntries(this.responses),
-      this.loopContextStack
+      ...this.getIterationScopes(loopStack).map((scope) => Object.fromEntries(scope.responses))
     );
   }
 
+  /**
+   * Gets the variables visible to a step: the run's, overlaid by those of its concurrent iterations
+   */
+  private getVariables(loopStack: LoopContext[]): Record<string, unknown> {
+    return Object.assign(
+      Object.fromEntries(this.variables),
+      ...this.getIterationScopes(loopStack).map((scope) => Object.fromEntries(scope.variables))
+    );
+  }
+
+  /**
+   * Saves a response under its alias, in the innermost concurrent iteration if there is one
+   */
+  private setResponse(alias: string, data: unknown, loopStack: LoopContext[]): void {
+    const scope = this.getIterationScopes(loopStack).at(-1);
+    (scope?.responses ?? this.responses).set(alias, data);
+  }
+
+  /**
+   * Assigns scenario variables (in the innermost concurrent iteration if there is one)
+   * and notifies listeners
+   */
+  private setVariables(values: Record<string, unknown>, stepId: string, loopStack: LoopContext[]): void {
+    const names = Object.keys(values);
+    if (names.length === 0) return;
+
+    const scope = this.getIterationScopes(loopStack).at(-1);
+    for (const name of names) {
+      (scope?.variables ?? this.variables).set(name, values[name]);
+    }
+
+    this.addLog('debug', `Variables set: ${names.join(', ')}`, { stepId, variables: values });
+    this.callbacks.onVariablesChange?.(this.redact(this.getVariables(loopStack)));
+  }
+
   /**
    * Sets a step execution result
+   * Inside loops the result is also recorded under its iteration key
    */
-  private setStepResult(stepId: string, result: StepExecutionResult): void {
-    this.stepResults.set(stepId, result);
-    this.callbacks.onStepComplete?.(stepId, result);
+  private setStepResult(stepId: string, result: StepExecutionResult, loopStack: LoopContext[]): void {
+    const loopPath = getLoopPath(loopStack, stepId);
+    const redacted = this.redact(
+      loopPath.length > 0
+        ? { ...result, loopContext: loopPath, iterationKey: getIterationKey(stepId, loopPath) }
+        : result
+    );
+    this.stepResults.set(stepId, redacted);
+    if (redacted.iterationKey) {
+      this.iterationResults.set(redacted.iterationKey, redacted);
+    }
+    this.callbacks.onStepComplete?.(stepId, redacted);
   }
 
   /**
@@ -881,13 +2167,20 @@ export class ScenarioExecutor {
       id: uuidv4(),
       timestamp: new Date().toISOString(),
       level,
-      message,
-      data,
+      message: this.redact(message),
+      data: this.redact(data),
     };
     this.logs.push(log);
     this.callbacks.onLog?.(log);
   }
 
+  /**
+   * Masks secret values in data that leaves the executor (results, logs, callbacks)
+   */
+  private redact<T>(value: T): T {
+    return redactSecrets(value, this.secrets);
+  }
+
   /**
    * Sets the execution status
    */
@@ -907,12 +2200,19 @@ export class ScenarioExecutor {
    * Gets the execution result
    */
   private getResult(): ExecutionResult {
+    const stepResults = Object.fromEntries(this.stepResults);
+    const iterationResults = Object.fromEntries(this.iterationResults);
     return {
       id: this.executionId,
       status: this.status,
-      stepResults: Object.fromEntries(this.stepResults),
-      responses: Object.fromEntries(this.responses),
+      environmentId: this.environment?.id,
+      environmentName: this.environment?.name,
+      stepResults,
+      iterationResults,
+      responses: this.redact(Object.fromEntries(this.responses)),
+      variables: this.redact(Object.fromEntries(this.variables)),
       logs: this.logs,
+      summary: summarizeResults(stepResults, iterationResults),
       startedAt: this.startedAt!,
       completedAt: this.completedAt,
     };
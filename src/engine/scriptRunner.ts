@@ -0,0 +1,474 @@
+/**
+ * Script step execution
+ * Runs user JavaScript in a worker with a time limit and read-only copies of
+ * the scenario data
+ */
+
+import type { ScriptConsoleEntry, ScriptStep, LoopContext } from '../types';
+import type { VariableContext } from './variableResolver';
+
+/**
+ * Default time limit for a script step in milliseconds
+ */
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 5000;
+
+/**
+ * Upper bound for the time limit of a script step in milliseconds
+ */
+export const MAX_SCRIPT_TIMEOUT_MS = 60000;
+
+/**
+ * Console entries kept per script run; later output is dropped
+ */
+const MAX_CONSOLE_ENTRIES = 500;
+
+/**
+ * Matches the import keyword, which scripts may not contain
+ * import() loads modules from any URL and cannot be turned off in a browser worker,
+ * so scripts using it are refused before they are compiled. The keyword cannot be
+ * written with escapes and code cannot be generated at run time, so the check
+ * cannot be bypassed; it also refuses the word in strings and comments.
+ */
+export const SCRIPT_IMPORT_PATTERN = /\bimport\b/;
+
+/**
+ * Read-only data a script receives as variables
+ * (params, responses, vars, env, loop, loops, error, system)
+ */
+export type ScriptScope = Record<string, unknown>;
+
+/**
+ * Script to run with its data and limits
+ */
+export interface ScriptRunRequest {
+  /** Body of an async function; its return value becomes the result */
+  code: string;
+  /** Data available to the script */
+  scope: ScriptScope;
+  /** Time limit in milliseconds */
+  timeoutMs: number;
+  /** Stops the script when aborted (e.g. the run is cancelled) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a script that completed
+ */
+export interface ScriptRunResult {
+  /** Value returned by the script (JSON-compatible) */
+  value: unknown;
+  /** Console output of the script */
+  console: ScriptConsoleEntry[];
+}
+
+/**
+ * Runs the code of script steps outside the executor (e.g. in a worker)
+ */
+export type ScriptRunner = (request: ScriptRunRequest) => Promise<ScriptRunResult>;
+
+/**
+ * Error thrown by a script, or raised when it could not run
+ * Keeps the console output written before the failure
+ */
+export class ScriptError extends Error {
+  console: ScriptConsoleEntry[];
+
+  constructor(message: string, output: ScriptConsoleEntry[] = []) {
+    super(message);
+    this.name = 'ScriptError';
+    this.console = output;
+  }
+}
+
+/**
+ * Error raised when a script exceeds its time limit
+ */
+export class ScriptTimeoutError extends ScriptError {
+  constructor(timeoutMs: number) {
+    super(`Script timed out after ${timeoutMs}ms`);
+    this.name = 'ScriptTimeoutError';
+  }
+}
+
+/**
+ * Message sent to a script worker
+ */
+export interface ScriptWorkerRequest {
+  code: string;
+  /** Scope serialized as JSON, so the worker gets plain data only */
+  scope: string;
+}
+
+/**
+ * Result of a script run, sent back by a script worker serialized as JSON
+ */
+export type ScriptWorkerResponse =
+  | { ok: true; value?: string; console: ScriptConsoleEntry[] }
+  | { ok: false; error: string; console: ScriptConsoleEntry[] };
+
+/**
+ * Worker-side runtime shared by the browser and Node workers
+ *
+ * Defines runScript(code, scopeJson, compile?), which compiles the code as the
+ * body of an async function and calls it with the deep-frozen scope entries and
+ * a capturing console. It refuses code containing import and resolves to the
+ * ScriptWorkerResponse serialized as JSON: a string, so code awaiting it never
+ * looks up then() on an object the script could have changed. Workers that
+ * compile scripts themselves pass compile and wrap the code with getScriptSource(code).
+ *
+ * lockDownGlobals() must run before any script. It removes network and host
+ * globals (fetch, XMLHttpRequest, importScripts, FontFace, process, ...), makes
+ * the Function, AsyncFunction, generator function and eval entry points throw,
+ * and freezes Promise so awaiting runScript() cannot call a patched then().
+ */
+export const SCRIPT_RUNTIME_SOURCE = `"use strict";
+const MAX_CONSOLE_ENTRIES = ${MAX_CONSOLE_ENTRIES};
+const IMPORT_PATTERN = ${SCRIPT_IMPORT_PATTERN};
+const SCRIPT_PARAMETERS = ['params', 'responses', 'vars', 'env', 'loop', 'loops', 'error', 'system', 'console'];
+const HOST_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB',
+  'caches', 'BroadcastChannel', 'Worker', 'SharedWorker', 'navigator', 'location', 'postMessage',
+  'FontFace', 'fonts', 'WebSocketStream', 'cookieStore', 'self', 'globalThis', 'require', 'process', 'module',
+];
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+// Captured before any script runs, since scripts can replace JSON.stringify
+const stringify = JSON.stringify;
+
+function refuseCodeGeneration() {
+  throw new TypeError('Scripts cannot compile code at run time');
+}
+
+function blockConstructor(prototype) {
+  const blocked = function () {
+    refuseCodeGeneration();
+  };
+  blocked.prototype = prototype;
+  Object.defineProperty(prototype, 'constructor', { value: blocked });
+  return blocked;
+}
+
+function allowFunctionTimer(root, name) {
+  const timer = root[name];
+  if (typeof timer !== 'function') return;
+  root[name] = (handler, ...args) => {
+    if (typeof handler !== 'function') throw new TypeError(name + ' needs a function');
+    return timer(handler, ...args);
+  };
+}
+
+function removeGlobal(root, name) {
+  for (let target = root; target; target = Object.getPrototypeOf(target)) {
+    Reflect.deleteProperty(target, name);
+  }
+  if (name in root) {
+    Object.defineProperty(root, name, { value: undefined });
+  }
+}
+
+function lockDownGlobals() {
+  const root = globalThis;
+  const GeneratorFunction = Object.getPrototypeOf(function* () {}).constructor;
+  const AsyncGeneratorFunction = Object.getPrototypeOf(async function* () {}).constructor;
+  const prototypes = [
+    Function.prototype, AsyncFunction.prototype, GeneratorFunction.prototype, AsyncGeneratorFunction.prototype,
+  ];
+
+  root.Function = blockConstructor(Function.prototype);
+  for (const prototype of prototypes.slice(1)) blockConstructor(prototype);
+  root.eval = refuseCodeGeneration;
+  allowFunctionTimer(root, 'setTimeout');
+  allowFunctionTimer(root, 'setInterval');
+  for (const name of HOST_GLOBALS) removeGlobal(root, name);
+  for (const value of [...prototypes, Promise, Promise.prototype]) Object.freeze(value);
+}
+
+function getScriptSource(code) {
+  return '(async function (' + SCRIPT_PARAMETERS.join(', ') + ') {\\n"use strict";\\n' + code + '\\n})';
+}
+
+function compileScript(code) {
+  return new AsyncFunction(...SCRIPT_PARAMETERS, '"use strict";\\n' + code);
+}
+
+function isError(value) {
+  return Object.prototype.toString.call(value) === '[object Error]';
+}
+
+function formatConsoleArg(value) {
+  if (typeof value === 'string') return value;
+  if (isError(value)) return value.name + ': ' + value.message;
+  try {
+    const text = stringify(value);
+    return text === undefined ? String(value) : text;
+  } catch {
+    return String(value);
+  }
+}
+
+function randomUUID() {
+  const bytes = new Uint8Array(16);
+  // Browser workers have Web Crypto; the Node vm context only has the JavaScript built-ins
+  if (typeof crypto === 'object' && crypto !== null && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+}
+
+function deepFreeze(value) {
+  if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
+
+function describeError(error) {
+  try {
+    return isError(error) ? error.name + ': ' + error.message : 'Uncaught ' + formatConsoleArg(error);
+  } catch {
+    return 'Script failed with an error that cannot be described';
+  }
+}
+
+function serializeResponse(response) {
+  let text;
+  try {
+    text = stringify(response);
+  } catch {
+    // e.g. the script added a throwing toJSON() to Object.prototype
+  }
+  return typeof text === 'string' ? text : '{"ok":false,"error":"Script result could not be sent","console":[]}';
+}
+
+async function runScript(code, scopeJson, compile = compileScript) {
+  const output = [];
+  const write = (level) => (...args) => {
+    if (output.length > MAX_CONSOLE_ENTRIES) return;
+    output.push(output.length === MAX_CONSOLE_ENTRIES
+      ? { level: 'warn', message: 'Console output truncated after ' + MAX_CONSOLE_ENTRIES + ' entries' }
+      : { level, message: args.map(formatConsoleArg).join(' ') });
+  };
+  const console = {
+    log: write('log'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+    debug: write('debug'),
+  };
+
+  let response;
+  try {
+    if (IMPORT_PATTERN.test(code)) throw new SyntaxError('Scripts cannot use import');
+    const scope = JSON.parse(scopeJson);
+    if (scope.system) {
+      // Like \${system.uuid} in templates, every reference gets a new UUID
+      Object.defineProperty(scope.system, 'uuid', { get: randomUUID, enumerable: true });
+    }
+    deepFreeze(scope);
+    const run = compile(code);
+    const value = await run(...SCRIPT_PARAMETERS.map((name) => name === 'console' ? console : scope[name]));
+    response = { ok: true, value: value === undefined ? undefined : stringify(value), console: output };
+  } catch (error) {
+    response = { ok: false, error: describeError(error), console: output };
+  }
+  return serializeResponse(response);
+}
+`;
+
+/**
+ * Source of the Web Worker running scripts in the browser
+ * postMessage is captured and the message handler installed before the globals are locked down
+ */
+const WEB_WORKER_SOURCE = `${SCRIPT_RUNTIME_SOURCE}
+const respond = self.postMessage.bind(self);
+self.onmessage = async (event) => {
+  respond(await runScript(event.data.code, event.data.scope));
+};
+lockDownGlobals();
+`;
+
+/**
+ * Worker running a single script
+ */
+export interface ScriptWorker {
+  /** Sends the script to the worker */
+  post(message: ScriptWorkerRequest): void;
+  /** Stops the worker */
+  terminate(): void;
+}
+
+/**
+ * Runs a script on a worker, enforcing the time limit and abort signal
+ * Shared by the Web Worker runner and runners for other platforms (e.g. Node worker threads)
+ *
+ * @param request - Script to run
+ * @param startWorker - Starts a worker that reports its serialized response or a crash
+ * @returns Script result
+ * @throws ScriptError if the script throws or its result is not JSON-compatible
+ * @throws ScriptTimeoutError if the script exceeds its time limit
+ */
+export function runScriptOnWorker(
+  request: ScriptRunRequest,
+  startWorker: (
+    onResponse: (response: string) => void,
+    onCrash: (error: Error) => void
+  ) => ScriptWorker
+): Promise<ScriptRunResult> {
+  return new Promise((resolve, reject) => {
+    if (request.signal?.aborted) {
+      reject(new ScriptError('Script cancelled'));
+      return;
+    }
+
+    let worker: ScriptWorker | undefined;
+    let settled = false;
+
+    const finish = (complete: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+      worker?.terminate();
+      complete();
+    };
+
+    const onAbort = () => finish(() => reject(new ScriptError('Script cancelled')));
+    const timer = setTimeout(
+      () => finish(() => reject(new ScriptTimeoutError(request.timeoutMs))),
+      request.timeoutMs
+    );
+    request.signal?.addEventListener('abort', onAbort);
+
+    try {
+      worker = startWorker(
+        (message) => finish(() => {
+          const response = JSON.parse(message) as ScriptWorkerResponse;
+          if (!response.ok) {
+            reject(new ScriptError(response.error, response.console));
+            return;
+          }
+          resolve({
+            value: response.value === undefined ? undefined : JSON.parse(response.value),
+            console: response.console,
+          });
+        }),
+        (error) => finish(() => reject(new ScriptError(`Script worker failed: ${error.message}`)))
+      );
+      worker.post({ code: request.code, scope: JSON.stringify(request.scope) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      finish(() => reject(new ScriptError(`Script worker could not start: ${message}`)));
+    }
+  });
+}
+
+/**
+ * Runs a script in a browser Web Worker (the default script runner)
+ *
+ * @param request - Script to run
+ * @returns Script result
+ * @throws ScriptError if Web Workers are not available (use ExecutionOptions.scriptRunner)
+ */
+export function runScriptInWebWorker(request: ScriptRunRequest): Promise<ScriptRunResult> {
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL.createObjectURL !== 'function') {
+    return Promise.reject(
+      new ScriptError('Script steps need Web Worker support; pass a scriptRunner in the execution options')
+    );
+  }
+
+  return runScriptOnWorker(request, (onResponse, onCrash) => {
+    const url = URL.createObjectURL(new Blob([WEB_WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    worker.onmessage = (event: MessageEvent<string>) => onResponse(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      onCrash(new Error(event.message || 'worker error'));
+    };
+    return {
+      post: (message) => worker.postMessage(message),
+      terminate: () => {
+        worker.terminate();
+        URL.revokeObjectURL(url);
+      },
+    };
+  });
+}
+
+/**
+ * Describes a loop context for scripts: item, index and total, plus the
+ * custom item and index aliases
+ */
+function describeLoop(loop: LoopContext): Record<string, unknown> {
+  const described: Record<string, unknown> = {
+    name: loop.loopName,
+    item: loop.currentItem,
+    index: loop.currentIndex,
+    total: loop.totalIterations,
+  };
+  if (loop.itemAlias) described[loop.itemAlias] = loop.currentItem;
+  if (loop.indexAlias) described[loop.indexAlias] = loop.currentIndex;
+  return described;
+}
+
+/**
+ * Builds the data a script receives from the variable context
+ * Secrets are never included; they stay out of the variable context
+ *
+ * - loop: innermost loop ({ item, index, total, ... }) with the enclosing loop as loop.parent
+ * - loops: every enclosing loop by name
+ *
+ * @param context - Variable context of the script step
+ * @returns Script scope
+ */
+export function createScriptScope(context: VariableContext): ScriptScope {
+  const loops = context.loopContexts;
+  const current = loops[loops.length - 1];
+  const parent = loops[loops.length - 2];
+
+  return {
+    params: context.params,
+    responses: context.responses,
+    vars: context.vars,
+    env: context.env,
+    loop: current && { ...describeLoop(current), parent: parent && describeLoop(parent) },
+    loops: Object.fromEntries(loops.map((loop) => [loop.loopName, describeLoop(loop)])),
+    error: context.error,
+    // The worker defines system.uuid as a getter, since a copied value would repeat
+    system: { ...context.system, uuid: undefined },
+  };
+}
+
+/**
+ * Gets the time limit of a script step
+ *
+ * @param step - Script step
+ * @returns Time limit in milliseconds (default DEFAULT_SCRIPT_TIMEOUT_MS, at most MAX_SCRIPT_TIMEOUT_MS)
+ */
+export function getScriptTimeout(step: ScriptStep): number {
+  const timeoutMs = step.timeoutMs && step.timeoutMs > 0 ? step.timeoutMs : DEFAULT_SCRIPT_TIMEOUT_MS;
+  return Math.min(timeoutMs, MAX_SCRIPT_TIMEOUT_MS);
+}
+
+/**
+ * Converts the value returned by a script into scenario variables
+ * A script returns an object whose entries become ${vars.name}; returning nothing sets no variables
+ *
+ * @param value - Value returned by the script
+ * @returns Variables to set
+ * @throws Error if the value is not an object
+ */
+export function getScriptVariables(value: unknown): Record<string, unknown> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    const type = Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+    throw new ScriptError(`Script must return an object of variables (e.g. return { total: 3 }), got ${type}`);
+  }
+  return value as Record<string, unknown>;
+}
@@ -0,0 +1,95 @@
+/**
+ * Secret handling
+ * Collects ${secret.name} values and masks them wherever execution data is displayed or exported
+ */
+
+import type { Secret } from '../types';
+
+/**
+ * Replacement shown in place of a secret value
+ */
+export const SECRET_MASK = '********';
+
+/**
+ * Shortest secret value that is masked
+ * Masking shorter values would replace those characters in every result, log and export
+ */
+export const MIN_MASKED_SECRET_LENGTH = 4;
+
+/**
+ * Collects secret values by name
+ *
+ * @param secrets - Stored secrets
+ * @returns Values keyed by secret name (secrets without a name are skipped)
+ */
+export function getSecretValues(secrets: Secret[]): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const secret of secrets) {
+    const name = secret.name.trim();
+    if (name) {
+      values[name] = secret.value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Finds secrets whose values are too short to be masked
+ *
+ * @param secrets - Secret values keyed by name
+ * @returns Names of non-empty secrets shorter than MIN_MASKED_SECRET_LENGTH
+ */
+export function getUnmaskedSecretNames(secrets: Record<string, string>): string[] {
+  return Object.entries(secrets)
+    .filter(([, value]) => value !== '' && value.length < MIN_MASKED_SECRET_LENGTH)
+    .map(([name]) => name);
+}
+
+/**
+ * Replaces every occurrence of a secret value with the mask
+ *
+ * Strings are searched for each secret value of at least MIN_MASKED_SECRET_LENGTH
+ * characters (longest first, so a secret that contains another one is masked as
+ * a whole). Arrays and plain objects are redacted recursively; other values are
+ * returned unchanged.
+ *
+ * @param value - Value to redact (any type)
+ * @param secrets - Secret values keyed by name
+ * @returns Copy of the value with secret values masked
+ */
+export function redactSecrets<T>(value: T, secrets: Record<string, string>): T {
+  const secretValues = Object.values(secrets)
+    .filter((v) => v.length >= MIN_MASKED_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+
+  if (secretValues.length === 0) {
+    return value;
+  }
+
+  const redact = (input: unknown): unknown => {
+    if (typeof input === 'string') {
+      return secretValues.reduce(
+        (result, secret) => result.split(secret).join(SECRET_MASK),
+        input
+      );
+    }
+
+    if (Array.isArray(input)) {
+      return input.map(redact);
+    }
+
+    if (input !== null && typeof input === 'object' && Object.getPrototypeOf(input) === Object.prototype) {
+      const redacted: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(input)) {
+        redacted[key] = redact(item);
+      }
+      return redacted;
+    }
+
+    return input;
+  };
+
+  return redact(value) as T;
+}
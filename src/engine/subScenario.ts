@@ -0,0 +1,90 @@
+/**
+ * Sub-scenarios
+ * Scenario lookup and parameter mapping for call steps
+ */
+
+import type { CallStep, Scenario } from '../types';
+import type { VariableContext } from './variableResolver';
+import { applyAssignments } from './variableExtractor';
+
+/**
+ * Thrown when a call step references a scenario that is not available
+ */
+export class ScenarioNotFoundError extends Error {
+  constructor(scenarioId: string) {
+    super(`Called scenario "${scenarioId}" not found`);
+    this.name = 'ScenarioNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a call step would run a scenario that is already running
+ * further up the call chain
+ */
+export class RecursiveScenarioCallError extends Error {
+  constructor(callStack: string[], scenarioId: string) {
+    super(`Recursive scenario call: ${[...callStack, scenarioId].join(' → ')}`);
+    this.name = 'RecursiveScenarioCallError';
+  }
+}
+
+/**
+ * Finds the scenario a call step runs
+ *
+ * @param step - Call step
+ * @param scenarios - Scenarios available to call steps
+ * @param callStack - IDs of the scenarios currently running, outermost first
+ * @returns The called scenario
+ * @throws ScenarioNotFoundError if the scenario is unknown
+ * @throws RecursiveScenarioCallError if the scenario is already in the call chain
+ */
+export function findCalledScenario(
+  step: CallStep,
+  scenarios: Scenario[],
+  callStack: string[]
+): Scenario {
+  if (callStack.includes(step.scenarioId)) {
+    throw new RecursiveScenarioCallError(callStack, step.scenarioId);
+  }
+
+  const scenario = scenarios.find((s) => s.id === step.scenarioId);
+  if (!scenario) {
+    throw new ScenarioNotFoundError(step.scenarioId);
+  }
+  return scenario;
+}
+
+/**
+ * Builds the parameters of a called scenario
+ *
+ * Parameter defaults of the called scenario apply first, then the step's
+ * inputs resolved against the caller's context.
+ *
+ * @param step - Call step
+ * @param scenario - Called scenario
+ * @param context - Variable context of the caller
+ * @returns Parameters for the called scenario
+ * @throws Error if a required parameter has no value
+ */
+export function getCallParams(
+  step: CallStep,
+  scenario: Scenario,
+  context: VariableContext
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const schema of scenario.parameterSchema) {
+    if (schema.defaultValue !== undefined) {
+      params[schema.name] = schema.defaultValue;
+    }
+  }
+  Object.assign(params, applyAssignments(step.inputs, context));
+
+  const missing = scenario.parameterSchema
+    .filter((schema) => schema.required && (params[schema.name] === undefined || params[schema.name] === ''))
+    .map((schema) => schema.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required parameter(s) for scenario "${scenario.name}": ${missing.join(', ')}`);
+  }
+
+  return params;
+}
@@ -0,0 +1,127 @@
+/**
+ * Scenario variable extraction and assignment
+ * Captures response values into named variables and applies set variable assignments
+ */
+
+import type { VariableExtraction, VariableAssignment } from '../types';
+import { getResponseHeader, type HttpResponse } from './httpClient';
+import { resolveVariables, type VariableContext } from './variableResolver';
+import { queryJsonPath } from './jsonPath';
+
+/**
+ * Outcome of applying a list of extractions to a response
+ */
+export interface ExtractionOutcome {
+  /** Variables that received a value (name -> value) */
+  values: Record<string, unknown>;
+  /** Names of extractions that matched nothing and had no default value */
+  missing: string[];
+}
+
+/**
+ * Matches a regular expression against the raw response body
+ *
+ * @param data - Response body
+ * @param pattern - Regular expression source
+ * @param group - Capture group to return (defaults to 1, or 0 if the pattern has no groups)
+ * @returns Captured text or undefined if nothing matched
+ * @throws Error if the pattern is not a valid regular expression
+ */
+function matchRegex(data: unknown, pattern: string, group?: number): string | undefined {
+  const text = typeof data === 'string' ? data : JSON.stringify(data ?? '');
+  const match = new RegExp(pattern).exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const index = group ?? (match.length > 1 ? 1 : 0);
+  return match[index];
+}
+
+/**
+ * Reads the value of a single extraction from a response
+ *
+ * @param extraction - Extraction definition
+ * @param response - HTTP response
+ * @returns Extracted value or undefined if nothing matched
+ */
+export function extractVariable(
+  extraction: VariableExtraction,
+  response: HttpResponse
+): unknown {
+  switch (extraction.source) {
+    case 'body':
+      return queryJsonPath(response.data, extraction.expression || '$');
+    case 'header':
+      return getResponseHeader(response.headers, extraction.expression);
+    case 'regex':
+      return matchRegex(response.data, extraction.expression, extraction.group);
+    case 'status':
+      return response.status;
+    default:
+      throw new Error(`Unsupported extraction source: ${(extraction as VariableExtraction).source}`);
+  }
+}
+
+/**
+ * Applies all extractions of a request step to its response
+ *
+ * Extractions without a name are ignored. When an extraction matches nothing,
+ * its default value is used; without a default the variable is left unchanged
+ * and the extraction is reported as missing.
+ *
+ * @param extractions - Extraction definitions
+ * @param response - HTTP response
+ * @returns Extracted values and the names of extractions that matched nothing
+ */
+export function extractVariables(
+  extractions: VariableExtraction[],
+  response: HttpResponse
+): ExtractionOutcome {
+  const outcome: ExtractionOutcome = { values: {}, missing: [] };
+
+  for (const extraction of extractions) {
+    const name = extraction.name.trim();
+    if (!name) continue;
+
+    const value = extractVariable(extraction, response);
+    if (value !== undefined) {
+      outcome.values[name] = value;
+    } else if (extraction.defaultValue !== undefined) {
+      outcome.values[name] = extraction.defaultValue;
+    } else {
+      outcome.missing.push(name);
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Resolves the values of set variable assignments
+ *
+ * Assignments are applied in order, so later assignments can reference
+ * variables assigned earlier in the same step.
+ *
+ * @param assignments - Assignments to apply
+ * @param context - Variable context for resolving values
+ * @returns Assigned values (name -> value)
+ */
+export function applyAssignments(
+  assignments: VariableAssignment[],
+  context: VariableContext
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  const vars = { ...context.vars };
+
+  for (const assignment of assignments) {
+    const name = assignment.name.trim();
+    if (!name) continue;
+
+    const value = resolveVariables(assignment.value, { ...context, vars });
+    values[name] = value;
+    vars[name] = value;
+  }
+
+  return values;
+}
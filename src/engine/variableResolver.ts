@@ -1,10 +1,13 @@
 /**
  * Variable resolution for scenario execution
- * Resolves ${...} variable references in strings, objects, and arrays
+ * Resolves ${...} variable references and expressions in strings, objects, and arrays
  */
 
 import { get } from 'lodash-es';
-import type { LoopContext } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import type { CaughtStepError, LoopContext } from '../types';
+import { evaluateExpression } from './expressions';
+import { findQueryStart, queryJsonPath } from './jsonPath';
 
 /**
  * Context containing all available variables for resolution
@@ -14,13 +17,55 @@ export interface VariableContext {
   params: Record<string, unknown>;
   /** Saved responses from completed steps (by stepId or alias) */
   responses: Record<string, unknown>;
+  /** Named scenario variables (extracted from responses or assigned by set variable steps) */
+  vars: Record<string, unknown>;
+  /** Variables of the active environment */
+  env: Record<string, unknown>;
   /** Stack of loop contexts for nested loop support */
   loopContexts: LoopContext[];
+  /** Failure that routed execution along an error edge (if any) */
+  error?: CaughtStepError;
   /** System variables */
-  system: {
-    /** Current timestamp in ISO format */
-    timestamp: string;
-  };
+  system: SystemVariables;
+}
+
+/**
+ * Run and step details available as ${system.*}
+ * Set by the executor; undefined outside a run (e.g. request previews)
+ */
+export interface RunInfo {
+  /** ID of the execution run */
+  executionId?: string;
+  /** ID of the running scenario */
+  scenarioId?: string;
+  /** Name of the running scenario */
+  scenarioName?: string;
+  /** Run number of the scenario (1 for its first run) */
+  runNumber?: number;
+  /** ISO timestamp when the run started */
+  startedAt?: string;
+  /** ID of the step being executed */
+  stepId?: string;
+  /** Name of the step being executed */
+  stepName?: string;
+  /** ISO timestamp when the step being executed started */
+  stepStartedAt?: string;
+}
+
+/**
+ * System variables (${system.*})
+ */
+export interface SystemVariables extends RunInfo {
+  /** Current timestamp in ISO format */
+  timestamp: string;
+  /** Current time in epoch milliseconds */
+  epochMs: number;
+  /** Current time in epoch seconds */
+  epoch: number;
+  /** Milliseconds since the run started (undefined outside a run) */
+  elapsedMs?: number;
+  /** New random UUID on every reference */
+  readonly uuid: string;
 }
 
 /**
@@ -29,16 +74,85 @@ export interface VariableContext {
  */
 const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
 
+/**
+ * Checks whether a variable path references a secret (${secret.name})
+ * Secret references are kept as-is so their values never enter the variable context
+ */
+function isSecretPath(path: string): boolean {
+  return /^\s*secret\.[\w$.-]+\s*$/.test(path);
+}
+
+/**
+ * Matches a plain variable path (no operators, calls or pipes), which is
+ * looked up directly without parsing
+ */
+const PLAIN_PATH_PATTERN = /^\s*[A-Za-z_$][\w$-]*(?:\.[\w$-]+|\[\d+\])*\s*$/;
+
+/**
+ * Resolves a variable path that may end in JSONPath segments
+ *
+ * The part before the first wildcard, filter, slice or ".." is looked up
+ * with resolveVariablePath and the rest is queried with JSONPath, e.g.
+ * "response.list.items[?(@.status == 'FAILED')].id" -> [3, 7]
+ *
+ * @param path - Variable path
+ * @param context - Variable context
+ * @returns Resolved value (an array of matches for multi-value paths)
+ */
+function resolveQueryPath(path: string, context: VariableContext): unknown {
+  const queryStart = findQueryStart(path);
+  if (queryStart === -1) {
+    return resolveVariablePath(path, context);
+  }
+
+  const base = resolveVariablePath(path.substring(0, queryStart), context);
+  return queryJsonPath(base, `$${path.substring(queryStart)}`, (variablePath) =>
+    resolveQueryPath(variablePath, context)
+  );
+}
+
+/**
+ * Resolves the contents of a ${...} reference
+ *
+ * Plain paths are looked up with resolveVariablePath; anything else is
+ * evaluated as an expression (functions, pipes, arithmetic, JSONPath
+ * wildcards and filters).
+ *
+ * @param source - Text inside ${...}
+ * @param context - Variable context
+ * @returns Resolved value
+ * @throws ExpressionError if the expression is invalid or fails
+ */
+export function resolveExpression(
+  source: string,
+  context: VariableContext
+): unknown {
+  if (PLAIN_PATH_PATTERN.test(source)) {
+    return resolveVariablePath(source, context);
+  }
+
+  return evaluateExpression(source, (path) => {
+    if (path.startsWith('secret.')) {
+      throw new Error('secrets can only be used as a plain ${secret.name} reference');
+    }
+    return resolveQueryPath(path, context);
+  });
+}
+
 /**
  * Resolves a variable path to its value from the context
  *
  * Supports:
  * - ${params.field} - Parameter values
  * - ${response.stepId.field} - Response from a step
+ * - ${vars.name} - Named scenario variable
+ * - ${env.name} - Variable of the active environment
+ * - ${error.message} - Failure captured by the last error edge taken
+ * - ${secret.name} - Left unresolved; secrets are only substituted by the HTTP client
  * - ${loop.item} - Current loop item
  * - ${loop.item.field} - Field in current loop item
  * - ${loop.index} - Current loop index
- * - ${system.timestamp} - Current timestamp
+ * - ${system.timestamp} - Current timestamp (also epochMs, epoch, uuid, executionId, stepName, ...)
  * - Nested paths: ${params.user.address.city}
  * - Array access: ${params.list[0].id}
  *
@@ -80,6 +194,24 @@ export function resolveVariablePath(
     return get(response, fieldPath);
   }
 
+  // Handle vars.* paths
+  if (trimmedPath.startsWith('vars.')) {
+    const varPath = trimmedPath.substring('vars.'.length);
+    return get(context.vars, varPath);
+  }
+
+  // Handle env.* paths
+  if (trimmedPath.startsWith('env.')) {
+    const envPath = trimmedPath.substring('env.'.length);
+    return get(context.env, envPath);
+  }
+
+  // Handle error.* paths
+  if (trimmedPath.startsWith('error.')) {
+    const errorPath = trimmedPath.substring('error.'.length);
+    return get(context.error, errorPath);
+  }
+
   // Handle loop.* paths (uses the most recent loop context)
   if (trimmedPath.startsWith('loop.')) {
     const loopPath = trimmedPath.substring('loop.'.length);
@@ -237,17 +369,23 @@ export function resolveVariablePath(
  * - "User ${params.name}" -> "User John"
  * - "/api/users/${params.id}" -> "/api/users/123"
  * - "${params.count}" -> "5" (if count is 5)
+ * - "Total: ${params.count * 2}" -> "Total: 10"
  *
  * @param template - String potentially containing ${...} references
  * @param context - Variable context
  * @returns String with all variables replaced
+ * @throws ExpressionError if an expression is invalid or fails
  */
 export function resolveStringVariables(
   template: string,
   context: VariableContext
 ): string {
-  return template.replace(VARIABLE_PATTERN, (_match, path) => {
-    const value = resolveVariablePath(path, context);
+  return template.replace(VARIABLE_PATTERN, (match, path) => {
+    if (isSecretPath(path)) {
+      return match;
+    }
+
+    const value = resolveExpression(path, context);
 
     // Convert value to string
     if (value === null || value === undefined) {
@@ -281,6 +419,7 @@ export function hasVariableReferences(value: string): boolean {
  * Examples:
  * - "${params.count}" -> 5 (number)
  * - "${params.user}" -> {name: "John"} (object)
+ * - "${params.list | length}" -> 3 (number)
  * - "Count: ${params.count}" -> "Count: 5" (string)
  *
  * @param value - String value to resolve
@@ -297,8 +436,12 @@ export function resolveSingleVariable(
   const singleVarMatch = /^\$\{([^}]+)\}$/.exec(trimmed);
 
   if (singleVarMatch) {
+    if (isSecretPath(singleVarMatch[1])) {
+      return value;
+    }
+
     // Return the actual value, preserving its type
-    return resolveVariablePath(singleVarMatch[1], context);
+    return resolveExpression(singleVarMatch[1], context);
   }
 
   // Otherwise, perform string substitution
@@ -358,19 +501,39 @@ export function resolveVariables(
  * @param params - Scenario input parameters
  * @param responses - Step responses
  * @param loopContexts - Loop context stack
+ * @param vars - Named scenario variables
+ * @param env - Variables of the active environment
+ * @param error - Failure captured by the last error edge taken
+ * @param run - Run and step details for ${system.*}
  * @returns Variable context ready for resolution
  */
 export function createVariableContext(
   params: Record<string, unknown>,
   responses: Record<string, unknown> = {},
-  loopContexts: LoopContext[] = []
+  loopContexts: LoopContext[] = [],
+  vars: Record<string, unknown> = {},
+  env: Record<string, unknown> = {},
+  error?: CaughtStepError,
+  run: RunInfo = {}
 ): VariableContext {
+  const now = new Date();
   return {
     params,
     responses,
+    vars,
+    env,
     loopContexts,
+    error,
     system: {
-      timestamp: new Date().toISOString(),
+      ...run,
+      timestamp: now.toISOString(),
+      epochMs: now.getTime(),
+      epoch: Math.floor(now.getTime() / 1000),
+      elapsedMs: run.startedAt ? now.getTime() - new Date(run.startedAt).getTime() : undefined,
+      // A getter, so every ${system.uuid} reference gets its own value
+      get uuid() {
+        return uuidv4();
+      },
     },
   };
 }
@@ -5,14 +5,17 @@
  */
 
 import { useCallback } from 'react';
-import { ScenarioExecutor, type ExecutionCallbacks } from '@/engine';
+import { ScenarioExecutor, getSecretValues, type ExecutionCallbacks } from '@/engine';
 import {
   useAppDispatch,
   useAppSelector,
   useCurrentScenario,
+  useScenarios,
   useServers,
   useExecutionContext,
   useExecutionParams,
+  useActiveEnvironment,
+  useSecrets,
 } from '@/store/hooks';
 import {
   startExecution,
@@ -23,9 +26,11 @@ import {
   updateStepResult,
   addLog,
   saveResponse,
+  setVariables,
   setExecutor,
   clearExecutor,
   selectExecutor,
+  selectRunCounters,
   enterLoop,
   updateLoopIteration,
   exitLoop,
@@ -39,10 +44,14 @@ import type { ExecutionMode, StepExecutionResult, ExecutionLog } from '@/types';
 export function useScenarioExecution() {
   const dispatch = useAppDispatch();
   const currentScenario = useCurrentScenario();
+  const scenarios = useScenarios();
   const servers = useServers();
   const executionContext = useExecutionContext();
   const params = useExecutionParams();
+  const activeEnvironment = useActiveEnvironment();
+  const secrets = useSecrets();
   const executor = useAppSelector(selectExecutor);
+  const runCounters = useAppSelector(selectRunCounters);
 
   /**
    * Create execution callbacks that dispatch to Redux
@@ -114,13 +123,17 @@ export function useScenarioExecution() {
         dispatch(enterLoop(snapshot));
       },
 
-      onUpdateLoopIteration: (stepId, currentIteration) => {
-        dispatch(updateLoopIteration({ stepId, currentIteration }));
+      onUpdateLoopIteration: (stepId, currentIteration, inFlight) => {
+        dispatch(updateLoopIteration({ stepId, currentIteration, inFlight }));
       },
 
       onExitLoop: (stepId) => {
         dispatch(exitLoop(stepId));
       },
+
+      onVariablesChange: (variables) => {
+        dispatch(setVariables(variables));
+      },
     };
   }, [dispatch, currentScenario]);
 
@@ -130,7 +143,8 @@ export function useScenarioExecution() {
   const executeScenario = useCallback(
     async (
       parameterValues?: Record<string, unknown>,
-      stepModeOverrides?: Record<string, ExecutionMode>
+      stepModeOverrides?: Record<string, ExecutionMode>,
+      options?: { continueOnError?: boolean }
     ) => {
       if (!currentScenario) {
         console.error('No scenario selected');
@@ -155,12 +169,21 @@ export function useScenarioExecution() {
         return;
       }
 
+      // The run ID doubles as ${system.executionId}; run numbers come from the
+      // scenario's persisted counter, so deleted runs do not free their numbers
+      const executionId = `exec_${Date.now()}`;
+      const runNumber = (runCounters[currentScenario.id] ?? 0) + 1;
+
       // Initialize execution in Redux
       dispatch(
         startExecution({
+          id: executionId,
           scenarioId: currentScenario.id,
+          runNumber,
           params: parameterValues || params || {},
           stepModeOverrides: stepModeOverrides || executionContext?.stepModeOverrides || {},
+          environmentId: activeEnvironment?.id,
+          environmentName: activeEnvironment?.name,
         })
       );
 
@@ -175,7 +198,12 @@ export function useScenarioExecution() {
         .execute(parameterValues || params || {}, {
           stepModeOverrides: stepModeOverrides || executionContext?.stepModeOverrides || {},
           callbacks,
-          stopOnError: true,
+          stopOnError: !options?.continueOnError,
+          environment: activeEnvironment,
+          secrets: getSecretValues(secrets),
+          scenarios,
+          executionId,
+          runNumber,
         })
         .then(result => {
           console.log('Execution completed:', result);
@@ -196,8 +224,12 @@ export function useScenarioExecution() {
     },
     [
       currentScenario,
+      scenarios,
+      runCounters,
       servers,
       params,
+      activeEnvironment,
+      secrets,
       executionContext?.stepModeOverrides,
       dispatch,
       createCallbacks,
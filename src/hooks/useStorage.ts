@@ -6,21 +6,43 @@
 import { useEffect, useCallback, useRef, useState } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { addScenario, loadScenarios as loadScenariosAction } from '@/store/scenariosSlice';
-import { loadServers as loadServersAction } from '@/store/serversSlice';
+import { addServer, updateServer, loadServers as loadServersAction } from '@/store/serversSlice';
+import {
+  loadEnvironments as loadEnvironmentsAction,
+  setActiveEnvironment,
+} from '@/store/environmentsSlice';
+import { loadSecrets as loadSecretsAction } from '@/store/secretsSlice';
+import { loadHistory, loadRunCounters as loadRunCountersAction } from '@/store/executionSlice';
+import { getSecretValues } from '@/engine/secrets';
 import {
   saveScenario,
   loadScenarios,
   loadServers,
   saveServer,
+  loadEnvironments,
+  saveEnvironments,
+  loadSecrets,
+  saveSecrets,
+  saveExecution,
+  loadExecutions,
+  deleteExecution,
+  saveRunCounter,
+  loadRunCounters,
+  loadActiveEnvironmentId,
+  saveActiveEnvironmentId,
   exportToJson,
   exportToYaml,
   importFromJson,
   importFromYaml,
+  importFromPostman,
+  importFromOpenApi,
   exportAllData,
   importAllData,
   initDatabase,
 } from '@/services/storage';
-import type { Scenario } from '@/types';
+import type { PostmanImportSummary } from '@/services/postmanImport';
+import type { OpenApiImportSummary } from '@/services/openApiImport';
+import type { Scenario, Server, ExecutionContext } from '@/types';
 
 /**
  * Hook to load scenarios and servers on app mount
@@ -44,10 +66,12 @@ export function useLoadOnMount() {
         // Initialize database
         await initDatabase();
 
-        // Load scenarios and servers in parallel
-        const [scenarios, servers] = await Promise.all([
+        // Load scenarios, servers, environments and secrets in parallel
+        const [scenarios, servers, environments, secrets] = await Promise.all([
           loadScenarios(),
           loadServers(),
+          loadEnvironments(),
+          loadSecrets(),
         ]);
 
         // Dispatch to store using bulk load actions
@@ -59,6 +83,14 @@ export function useLoadOnMount() {
           dispatch(loadServersAction(servers));
         }
 
+        dispatch(loadEnvironmentsAction(environments));
+        const activeEnvironmentId = loadActiveEnvironmentId();
+        if (activeEnvironmentId && environments.some(e => e.id === activeEnvironmentId)) {
+          dispatch(setActiveEnvironment(activeEnvironmentId));
+        }
+
+        dispatch(loadSecretsAction(secrets));
+
         console.log(`Loaded ${scenarios.length} scenarios and ${servers.length} servers from IndexedDB`);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to load data';
@@ -82,22 +114,36 @@ export function useLoadOnMount() {
 export function useAutoSave(debounceMs: number = 1000) {
   const scenarios = useAppSelector(state => state.scenarios.present.scenarios);
   const servers = useAppSelector(state => state.servers.servers);
+  const environments = useAppSelector(state => state.environments.environments);
+  const activeEnvironmentId = useAppSelector(state => state.environments.activeEnvironmentId);
+  const secrets = useAppSelector(state => state.secrets.secrets);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const previousScenariosRef = useRef<string>('');
   const previousServersRef = useRef<string>('');
+  const previousEnvironmentsRef = useRef<string>('');
+  const previousSecretsRef = useRef<string>('');
+
+  // Remember the selected environment immediately (cheap, synchronous)
+  useEffect(() => {
+    saveActiveEnvironmentId(activeEnvironmentId);
+  }, [activeEnvironmentId]);
 
   useEffect(() => {
     // Serialize current state to compare
     const currentScenarios = JSON.stringify(scenarios);
     const currentServers = JSON.stringify(servers);
+    const currentEnvironments = JSON.stringify(environments);
+    const currentSecrets = JSON.stringify(secrets);
 
     // Check if anything changed
     const scenariosChanged = currentScenarios !== previousScenariosRef.current;
     const serversChanged = currentServers !== previousServersRef.current;
+    const environmentsChanged = currentEnvironments !== previousEnvironmentsRef.current;
+    const secretsChanged = currentSecrets !== previousSecretsRef.current;
 
-    if (!scenariosChanged && !serversChanged) {
+    if (!scenariosChanged && !serversChanged && !environmentsChanged && !secretsChanged) {
       return;
     }
 
@@ -123,6 +169,18 @@ export function useAutoSave(debounceMs: number = 1000) {
           previousServersRef.current = currentServers;
         }
 
+        // Save environments that changed
+        if (environmentsChanged) {
+          await saveEnvironments(environments);
+          previousEnvironmentsRef.current = currentEnvironments;
+        }
+
+        // Save secrets that changed
+        if (secretsChanged) {
+          await saveSecrets(secrets);
+          previousSecretsRef.current = currentSecrets;
+        }
+
         setLastSaved(new Date());
         console.log('Auto-saved to IndexedDB');
       } catch (err) {
@@ -137,11 +195,93 @@ export function useAutoSave(debounceMs: number = 1000) {
         clearTimeout(timeoutRef.current);
       }
     };
-  }, [scenarios, servers, debounceMs]);
+  }, [scenarios, servers, environments, secrets, debounceMs]);
 
   return { isSaving, lastSaved };
 }
 
+/**
+ * Hook to persist execution history and run counters to IndexedDB
+ * Loads stored runs on mount, then saves finished runs and removes deleted ones
+ */
+export function useExecutionHistoryPersistence() {
+  const dispatch = useAppDispatch();
+  const history = useAppSelector(state => state.execution.history);
+  const runCounters = useAppSelector(state => state.execution.runCounters);
+  // Runs as last written to IndexedDB (null until the stored history is loaded)
+  const persistedRef = useRef<Map<string, ExecutionContext> | null>(null);
+  // Run counters as last written to IndexedDB (null until the stored counters are loaded)
+  const persistedCountersRef = useRef<Record<string, number> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadExecutions()
+      .then(executions => {
+        if (cancelled) return;
+        persistedRef.current = new Map(executions.map(execution => [execution.id, execution]));
+        dispatch(loadHistory(executions));
+      })
+      .catch(err => {
+        console.error('Failed to load execution history:', err);
+        if (!cancelled) {
+          persistedRef.current = new Map();
+        }
+      });
+
+    loadRunCounters()
+      .then(counters => {
+        if (cancelled) return;
+        persistedCountersRef.current = counters;
+        dispatch(loadRunCountersAction(counters));
+      })
+      .catch(err => {
+        console.error('Failed to load run counters:', err);
+        if (!cancelled) {
+          persistedCountersRef.current = {};
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    const persisted = persistedRef.current;
+    if (!persisted) return;
+
+    const currentIds = new Set<string>();
+    for (const run of history) {
+      currentIds.add(run.id);
+      // History entries are immutable, so a new reference means the run changed
+      if (persisted.get(run.id) !== run) {
+        persisted.set(run.id, run);
+        saveExecution(run).catch(err => console.error('Failed to save execution:', err));
+      }
+    }
+
+    for (const id of [...persisted.keys()]) {
+      if (!currentIds.has(id)) {
+        persisted.delete(id);
+        deleteExecution(id).catch(err => console.error('Failed to delete execution:', err));
+      }
+    }
+  }, [history]);
+
+  useEffect(() => {
+    const persisted = persistedCountersRef.current;
+    if (!persisted) return;
+
+    for (const [scenarioId, runNumber] of Object.entries(runCounters)) {
+      if (persisted[scenarioId] !== runNumber) {
+        persisted[scenarioId] = runNumber;
+        saveRunCounter(scenarioId, runNumber).catch(err => console.error('Failed to save run counter:', err));
+      }
+    }
+  }, [runCounters]);
+}
+
 /**
  * Hook to manually save the current scenario
  */
@@ -182,15 +322,17 @@ export function useManualSave() {
 
 /**
  * Hook to export scenarios
+ * Secret values are masked unless includeSecrets is passed
  */
 export function useExport() {
   const currentScenarioId = useAppSelector(state => state.scenarios.present.currentScenarioId);
   const scenarios = useAppSelector(state => state.scenarios.present.scenarios);
+  const secrets = useAppSelector(state => state.secrets.secrets);
   const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const exportScenario = useCallback(
-    async (format: 'json' | 'yaml' = 'json', scenarioId?: string) => {
+    async (format: 'json' | 'yaml' = 'json', scenarioId?: string, includeSecrets = false) => {
       const id = scenarioId || currentScenarioId;
       if (!id) {
         setError('No scenario selected');
@@ -207,7 +349,10 @@ export function useExport() {
         setIsExporting(true);
         setError(null);
 
-        const content = format === 'yaml' ? exportToYaml(scenario) : exportToJson(scenario);
+        const secretValues = includeSecrets ? {} : getSecretValues(secrets);
+        const content = format === 'yaml'
+          ? exportToYaml(scenario, secretValues)
+          : exportToJson(scenario, secretValues);
         const blob = new Blob([content], {
           type: format === 'yaml' ? 'text/yaml' : 'application/json',
         });
@@ -229,15 +374,15 @@ export function useExport() {
         setIsExporting(false);
       }
     },
-    [currentScenarioId, scenarios]
+    [currentScenarioId, scenarios, secrets]
   );
 
-  const exportAll = useCallback(async () => {
+  const exportAll = useCallback(async (includeSecrets = false) => {
     try {
       setIsExporting(true);
       setError(null);
 
-      const content = await exportAllData();
+      const content = await exportAllData({ includeSecrets });
       const blob = new Blob([content], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -266,6 +411,7 @@ export function useExport() {
  */
 export function useImport() {
   const dispatch = useAppDispatch();
+  const servers = useAppSelector(state => state.servers.servers);
   const [isImporting, setIsImporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -309,7 +455,14 @@ export function useImport() {
   );
 
   const importAll = useCallback(
-    async (file: File): Promise<{ success: boolean; scenarios?: number; servers?: number; error?: string }> => {
+    async (file: File): Promise<{
+      success: boolean;
+      scenarios?: number;
+      servers?: number;
+      environments?: number;
+      secrets?: number;
+      error?: string;
+    }> => {
       try {
         setIsImporting(true);
         setError(null);
@@ -318,7 +471,12 @@ export function useImport() {
         const result = await importAllData(content);
 
         // Reload data from IndexedDB
-        const [scenarios, servers] = await Promise.all([loadScenarios(), loadServers()]);
+        const [scenarios, servers, environments, secrets] = await Promise.all([
+          loadScenarios(),
+          loadServers(),
+          loadEnvironments(),
+          loadSecrets(),
+        ]);
 
         // Update Redux store using bulk load actions
         if (scenarios.length > 0) {
@@ -327,8 +485,16 @@ export function useImport() {
         if (servers.length > 0) {
           dispatch(loadServersAction(servers));
         }
-
-        return { success: true, scenarios: result.scenarios, servers: result.servers };
+        dispatch(loadEnvironmentsAction(environments));
+        dispatch(loadSecretsAction(secrets));
+
+        return {
+          success: true,
+          scenarios: result.scenarios,
+          servers: result.servers,
+          environments: result.environments,
+          secrets: result.secrets,
+        };
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to import data';
         setError(errorMessage);
@@ -340,7 +506,82 @@ export function useImport() {
     [dispatch]
   );
 
-  return { importScenario, importAll, isImporting, error };
+  const importPostman = useCallback(
+    async (
+      collectionFile: File,
+      environmentFile?: File | null
+    ): Promise<{
+      success: boolean;
+      scenario?: Scenario;
+      summary?: PostmanImportSummary;
+      error?: string;
+    }> => {
+      try {
+        setIsImporting(true);
+        setError(null);
+
+        const collection = await collectionFile.text();
+        const environment = environmentFile ? await environmentFile.text() : undefined;
+        const { scenario, servers: newServers, summary } = importFromPostman(
+          collection,
+          environment,
+          servers
+        );
+
+        // Save new servers before the scenario that references them
+        await Promise.all(newServers.map(server => saveServer(server)));
+        newServers.forEach(server => dispatch(addServer(server)));
+
+        await saveScenario(scenario);
+        dispatch(addScenario(scenario));
+
+        return { success: true, scenario, summary };
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to import Postman collection';
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [dispatch, servers]
+  );
+
+  const importOpenApi = useCallback(
+    async (file: File): Promise<{
+      success: boolean;
+      server?: Server;
+      created?: boolean;
+      summary?: OpenApiImportSummary;
+      error?: string;
+    }> => {
+      try {
+        setIsImporting(true);
+        setError(null);
+
+        const content = await file.text();
+        const { server, created, summary } = importFromOpenApi(content, servers);
+
+        await saveServer(server);
+        if (created) {
+          dispatch(addServer(server));
+        } else {
+          dispatch(updateServer({ id: server.id, changes: server }));
+        }
+
+        return { success: true, server, created, summary };
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to import OpenAPI document';
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [dispatch, servers]
+  );
+
+  return { importScenario, importAll, importPostman, importOpenApi, isImporting, error };
 }
 
 /**
@@ -48,6 +48,8 @@ export function ConfigPage() {
   // Dialog states
   const [addServerDialogOpen, setAddServerDialogOpen] = useState(false);
   const [addStepDialogOpen, setAddStepDialogOpen] = useState(false);
+  // curl command pasted onto the canvas (id remounts the dialog with it)
+  const [pastedCurl, setPastedCurl] = useState<{ id: number; command: string } | null>(null);
 
   // Sidebar section expand states
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
@@ -245,6 +247,12 @@ export function ConfigPage() {
   }, []);
 
   const handleAddStep = useCallback(() => {
+    setPastedCurl(null);
+    setAddStepDialogOpen(true);
+  }, []);
+
+  const handlePasteCurl = useCallback((command: string) => {
+    setPastedCurl({ id: Date.now(), command });
     setAddStepDialogOpen(true);
   }, []);
 
@@ -254,10 +262,24 @@ export function ConfigPage() {
     dispatch(setSelectedStep(null));
   }, [dispatch]);
 
-  const handleStepAdd = useCallback((step: Step) => {
+  const handleStepAdd = useCallback((step: Step, parameters?: ParameterSchema[], server?: Server) => {
     if (!currentScenario) return;
+    // Server created for a curl command's URL
+    if (server) {
+      dispatch(addServer(server));
+    }
     dispatch(addStep({ scenarioId: currentScenario.id, step }));
 
+    // Add parameters referenced by an endpoint template that the scenario doesn't define yet
+    const existingNames = new Set(currentScenario.parameterSchema.map(p => p.name));
+    const missing = (parameters ?? []).filter(p => !existingNames.has(p.name));
+    if (missing.length > 0) {
+      dispatch(setParameterSchema({
+        scenarioId: currentScenario.id,
+        schema: [...currentScenario.parameterSchema, ...missing],
+      }));
+    }
+
     if (currentContainerId) {
       dispatch(addStepToContainer({
         scenarioId: currentScenario.id,
@@ -485,14 +507,25 @@ export function ConfigPage() {
         handleCutStepRef.current();
       }
 
-      if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
-        e.preventDefault();
-        handlePasteStepRef.current();
-      }
+    };
+
+    // Paste is handled on the paste event so pasted curl commands can be read from the clipboard
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isInputField = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+
+      if (isInputField || e.defaultPrevented) return;
+
+      e.preventDefault();
+      handlePasteStepRef.current();
     };
 
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('paste', handlePaste);
+    };
   }, [dispatch]);
 
   /**
@@ -812,6 +845,7 @@ export function ConfigPage() {
                 onCloseDetailPanel={handleCloseDetailPanel}
                 onUndo={handleUndo}
                 onRedo={handleRedo}
+                onPasteCurl={handlePasteCurl}
               />
             ),
           },
@@ -827,8 +861,10 @@ export function ConfigPage() {
 
       {currentScenario && (
         <AddStepDialog
+          key={pastedCurl?.id ?? 'add-step'}
           open={addStepDialogOpen}
           existingSteps={steps}
+          initialCurlCommand={pastedCurl?.command}
           onClose={() => setAddStepDialogOpen(false)}
           onAdd={handleStepAdd}
         />
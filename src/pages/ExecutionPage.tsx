@@ -4,26 +4,29 @@
  */
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
-import { Box, Tabs, Tab, IconButton, Tooltip, Stack } from '@mui/material';
+import { Box, Tabs, Tab, IconButton, Tooltip, Stack, Alert, Button, Typography, Paper } from '@mui/material';
 import { FlowCanvas } from '@/components/flow';
 import { FlowBreadcrumbs, type NavigationLevel } from '@/components/flow/FlowBreadcrumbs';
 import { ResizableDetailPanel } from '@/components/layout/ResizableDetailPanel';
 import { ExecutionControls } from '@/components/execution/ExecutionControls';
 import { ExecutionLogs } from '@/components/execution/ExecutionLogs';
+import { ExecutionVariables } from '@/components/execution/ExecutionVariables';
 import { ExecutionProgressTable } from '@/components/execution/ExecutionProgressTable';
 import { StepResultViewer } from '@/components/execution/StepResultViewer';
 import { StepDetailPanel } from '@/components/execution/StepDetailPanel';
 import { ManualStepDialog } from '@/components/execution/ManualStepDialog';
 import { ParameterInputPanel } from '@/components/parameters/ParameterInputPanel';
 import { EmptyState } from '@/components/common/EmptyState';
-import { useCurrentScenario, useSelectedStepId, useAppDispatch, useExecutionStatus, useCurrentExecutionStep, useStepResult, useStepResults, useStepById } from '@/store/hooks';
+import { useCurrentScenario, useSelectedStepId, useAppDispatch, useExecutionStatus, useCurrentExecutionStep, useStepResult, useStepResults, useStepById, useExecutionContext, useViewingRunId, useIterationResults, useStepIterations, useSelectedIterationKey } from '@/store/hooks';
 import { autoLayoutSteps } from '@/store/scenariosSlice';
-import { setSelectedStep } from '@/store/uiSlice';
+import { setSelectedStep, setSelectedIteration } from '@/store/uiSlice';
+import { closeHistoryRun } from '@/store/executionSlice';
 import type { Step } from '@/types';
 import {
   PlayArrow as PlayArrowIcon,
   ViewStream as VerticalIcon,
   ViewColumn as HorizontalIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
 
 export function ExecutionPage() {
@@ -31,12 +34,17 @@ export function ExecutionPage() {
   const currentScenario = useCurrentScenario();
   const selectedStepId = useSelectedStepId();
   const selectedStep = useStepById(selectedStepId);
-  const selectedStepResult = useStepResult(selectedStepId);
+  const selectedIterationKey = useSelectedIterationKey();
+  const selectedStepResult = useStepResult(selectedStepId, selectedIterationKey);
+  const selectedStepIterations = useStepIterations(selectedStepId);
   const executionStatus = useExecutionStatus();
   const currentStep = useCurrentExecutionStep();
   const currentStepResult = useStepResult(currentStep?.id);
   const stepResults = useStepResults();
-  const [rightPanelTab, setRightPanelTab] = useState<'params' | 'detail' | 'result' | 'logs' | 'progress'>('params');
+  const iterationResults = useIterationResults();
+  const executionContext = useExecutionContext();
+  const viewingRunId = useViewingRunId();
+  const [rightPanelTab, setRightPanelTab] = useState<'params' | 'detail' | 'result' | 'logs' | 'progress' | 'variables'>('params');
   const [manualDialogOpen, setManualDialogOpen] = useState(false);
 
   // Navigation state for nested graph
@@ -63,6 +71,9 @@ export function ExecutionPage() {
     return initialParams;
   });
 
+  // Requests of unexecuted steps are previewed with the run's params, or the form values before a run
+  const previewParams = executionContext?.params ?? params;
+
   // Update params when scenario changes
   useEffect(() => {
     const initialParams: Record<string, unknown> = {};
@@ -215,6 +226,22 @@ export function ExecutionPage() {
           bgcolor: 'background.paper',
         }}
       >
+        {viewingRunId && executionContext && (
+          <Alert
+            severity="info"
+            icon={<HistoryIcon fontSize="small" />}
+            action={
+              <Button color="inherit" size="small" onClick={() => dispatch(closeHistoryRun())}>
+                Close
+              </Button>
+            }
+            sx={{ borderRadius: 0, py: 0 }}
+          >
+            Viewing a past run
+            {executionContext.startedAt && ` from ${new Date(executionContext.startedAt).toLocaleString()}`}
+            {executionContext.environmentName && ` on "${executionContext.environmentName}"`} (read-only)
+          </Alert>
+        )}
         <ExecutionControls params={params} />
       </Box>
 
@@ -301,11 +328,25 @@ export function ExecutionPage() {
               <Tab label="Step Detail" value="detail" />
               <Tab label="Step Result" value="result" />
               <Tab label="Progress" value="progress" />
+              <Tab label="Variables" value="variables" />
               <Tab label="Logs" value="logs" />
             </Tabs>
 
             <Box sx={{ flexGrow: 1, overflow: 'auto', p: rightPanelTab === 'progress' ? 0 : 2 }}>
-              {rightPanelTab === 'params' && (
+              {rightPanelTab === 'params' && viewingRunId && executionContext && (
+                <Box>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Parameters used in this run
+                  </Typography>
+                  <Paper variant="outlined" sx={{ p: 1.5, bgcolor: 'grey.50' }}>
+                    <pre style={{ margin: 0, fontSize: '0.8rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                      {JSON.stringify(executionContext.params, null, 2)}
+                    </pre>
+                  </Paper>
+                </Box>
+              )}
+
+              {rightPanelTab === 'params' && !viewingRunId && (
                 <ParameterInputPanel
                   schemas={currentScenario.parameterSchema || []}
                   onApply={(values) => {
@@ -320,6 +361,12 @@ export function ExecutionPage() {
                     step={selectedStep}
                     stepResult={selectedStepResult || undefined}
                     scenario={currentScenario}
+                    iterations={selectedStepIterations}
+                    selectedIterationKey={selectedIterationKey}
+                    onIterationChange={(iterationKey) => {
+                      dispatch(setSelectedIteration({ stepId: selectedStep.id, iterationKey }));
+                    }}
+                    params={previewParams}
                   />
                 ) : (
                   <EmptyState
@@ -331,7 +378,7 @@ export function ExecutionPage() {
 
               {rightPanelTab === 'result' && (
                 selectedStepId ? (
-                  <StepResultViewer stepId={selectedStepId} />
+                  <StepResultViewer stepId={selectedStepId} params={previewParams} />
                 ) : (
                   <EmptyState
                     title="No Step Selected"
@@ -344,14 +391,21 @@ export function ExecutionPage() {
                 <ExecutionProgressTable
                   scenario={currentScenario}
                   stepResults={stepResults}
+                  iterationResults={iterationResults}
                   onStepClick={(stepId) => {
                     // Switch to detail tab and select the step
                     setRightPanelTab('detail');
                     dispatch(setSelectedStep(stepId));
                   }}
+                  onIterationClick={(stepId, iterationKey) => {
+                    setRightPanelTab('detail');
+                    dispatch(setSelectedIteration({ stepId, iterationKey }));
+                  }}
                 />
               )}
 
+              {rightPanelTab === 'variables' && <ExecutionVariables />}
+
               {rightPanelTab === 'logs' && <ExecutionLogs />}
             </Box>
           </Box>
@@ -0,0 +1,252 @@
+/**
+ * HistoryPage Component
+ * Browser for past executions stored in IndexedDB, with read-only reopening
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Stack,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  Chip,
+  IconButton,
+  Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import {
+  History as HistoryIcon,
+  OpenInNew as OpenIcon,
+  Delete as DeleteIcon,
+  DeleteSweep as ClearIcon,
+} from '@mui/icons-material';
+import {
+  useAppDispatch,
+  useExecutionHistory,
+  useScenarios,
+  useCurrentScenario,
+  useIsExecutionRunning,
+} from '@/store/hooks';
+import { openHistoryRun, removeFromHistory, clearHistory } from '@/store/executionSlice';
+import { setCurrentScenario } from '@/store/scenariosSlice';
+import { setMode, setSelectedStep } from '@/store/uiSlice';
+import { EmptyState } from '@/components/common/EmptyState';
+import type { ExecutionContext, ExecutionStatus } from '@/types';
+
+const ALL_SCENARIOS = '__all__';
+
+const STATUS_COLORS: Record<ExecutionStatus, 'default' | 'primary' | 'warning' | 'success' | 'error'> = {
+  idle: 'default',
+  running: 'primary',
+  paused: 'warning',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'default',
+};
+
+// Format duration between start and completion
+const formatDuration = (run: ExecutionContext): string => {
+  if (!run.startedAt || !run.completedAt) return '-';
+  const ms = new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime();
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+};
+
+// Format parameters as a compact single line
+const formatParams = (params: Record<string, unknown>): string => {
+  const keys = Object.keys(params);
+  if (keys.length === 0) return '-';
+  return keys.map(key => `${key}=${JSON.stringify(params[key])}`).join(', ');
+};
+
+export function HistoryPage() {
+  const dispatch = useAppDispatch();
+  const history = useExecutionHistory();
+  const scenarios = useScenarios();
+  const currentScenario = useCurrentScenario();
+  const isRunning = useIsExecutionRunning();
+  const [scenarioFilter, setScenarioFilter] = useState<string>(currentScenario?.id ?? ALL_SCENARIOS);
+
+  const scenarioNames = useMemo(
+    () => new Map(scenarios.map(s => [s.id, s.name])),
+    [scenarios]
+  );
+
+  const runs = useMemo(
+    () => (scenarioFilter === ALL_SCENARIOS
+      ? history
+      : history.filter(run => run.scenarioId === scenarioFilter)),
+    [history, scenarioFilter]
+  );
+
+  const handleOpen = (run: ExecutionContext) => {
+    dispatch(setCurrentScenario(run.scenarioId));
+    dispatch(openHistoryRun(run.id));
+    dispatch(setSelectedStep(null));
+    dispatch(setMode('execution'));
+  };
+
+  const handleDelete = (run: ExecutionContext) => {
+    if (confirm('Delete this run from history?')) {
+      dispatch(removeFromHistory(run.id));
+    }
+  };
+
+  const handleClear = () => {
+    if (!confirm(`Delete ${runs.length} run(s) from history?`)) return;
+
+    if (scenarioFilter === ALL_SCENARIOS) {
+      dispatch(clearHistory());
+    } else {
+      runs.forEach(run => dispatch(removeFromHistory(run.id)));
+    }
+  };
+
+  return (
+    <Box sx={{ flexGrow: 1, height: '100%', overflow: 'auto', p: 3 }}>
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Execution History
+        </Typography>
+        <FormControl size="small" sx={{ minWidth: 220 }}>
+          <InputLabel>Scenario</InputLabel>
+          <Select
+            value={scenarioFilter}
+            label="Scenario"
+            onChange={(e) => setScenarioFilter(e.target.value)}
+          >
+            <MenuItem value={ALL_SCENARIOS}>All Scenarios</MenuItem>
+            {scenarios.map(scenario => (
+              <MenuItem key={scenario.id} value={scenario.id}>
+                {scenario.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          variant="outlined"
+          color="error"
+          size="small"
+          startIcon={<ClearIcon />}
+          onClick={handleClear}
+          disabled={runs.length === 0}
+        >
+          Clear
+        </Button>
+      </Stack>
+
+      {runs.length === 0 ? (
+        <Paper variant="outlined">
+          <EmptyState
+            icon={HistoryIcon}
+            title="No Runs"
+            message="Finished executions are saved here and kept across reloads."
+          />
+        </Paper>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'medium' }}>Started</TableCell>
+                <TableCell sx={{ fontWeight: 'medium' }}>Scenario</TableCell>
+                <TableCell sx={{ fontWeight: 'medium' }}>Environment</TableCell>
+                <TableCell sx={{ fontWeight: 'medium' }}>Status</TableCell>
+                <TableCell sx={{ fontWeight: 'medium' }}>Duration</TableCell>
+                <TableCell sx={{ fontWeight: 'medium' }}>Steps</TableCell>
+                <TableCell sx={{ fontWeight: 'medium' }}>Parameters</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'medium' }}>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {runs.map(run => {
+                const results = Object.values(run.stepResults);
+                const failed = results.filter(r => r.status === 'failed').length;
+                const succeeded = results.filter(r => r.status === 'success').length;
+                const scenarioName = scenarioNames.get(run.scenarioId);
+                const params = formatParams(run.params);
+
+                return (
+                  <TableRow key={run.id} hover>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {run.startedAt ? new Date(run.startedAt).toLocaleString() : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {scenarioName ?? (
+                        <Typography variant="body2" color="text.secondary" fontStyle="italic">
+                          Deleted scenario
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{run.environmentName ?? '-'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={run.status}
+                        color={STATUS_COLORS[run.status]}
+                        size="small"
+                        sx={{ textTransform: 'capitalize' }}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDuration(run)}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {succeeded} passed
+                      {failed > 0 && (
+                        <Typography component="span" variant="body2" color="error">
+                          {`, ${failed} failed`}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ maxWidth: 280 }}>
+                      <Tooltip title={params}>
+                        <Typography variant="body2" noWrap sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                          {params}
+                        </Typography>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip
+                        title={
+                          !scenarioName
+                            ? 'Scenario no longer exists'
+                            : isRunning
+                              ? 'Stop the current execution first'
+                              : 'Open (read-only)'
+                        }
+                      >
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => handleOpen(run)}
+                            disabled={!scenarioName || isRunning}
+                          >
+                            <OpenIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(run)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
@@ -4,3 +4,4 @@
 
 export { ConfigPage } from './ConfigPage';
 export { ExecutionPage } from './ExecutionPage';
+export { HistoryPage } from './HistoryPage';
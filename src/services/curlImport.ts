@@ -0,0 +1,684 @@
+/**
+ * curl Import
+ * Parses a curl command (as copied from browser dev tools or shared in chat) into
+ * a request and matches its URL against the configured servers, so it can become
+ * a request step
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Server, EndpointTemplate, HttpMethod, StepHeader } from '@/types';
+
+/**
+ * Request described by a curl command
+ */
+export interface CurlRequest {
+  /** HTTP method (explicit -X, or POST when data is sent) */
+  method: HttpMethod;
+  /** Absolute URL without query string or fragment */
+  url: string;
+  /** Request headers (-H, -A, -e, -b, -u) */
+  headers: StepHeader[];
+  /** Query parameters from the URL (and from data sent with -G) */
+  queryParams: Record<string, string>;
+  /** Request body (parsed when it is JSON) */
+  body?: unknown;
+  /** Options that were ignored or could not be converted */
+  warnings: string[];
+}
+
+/**
+ * Server a curl URL belongs to
+ */
+export interface CurlServerMatch {
+  /** Configured server whose base URL prefixes the request URL */
+  server: Server;
+  /** Request URL relative to the server's base URL */
+  endpoint: string;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Short options and the long options they stand for
+const SHORT_OPTIONS: Record<string, string> = {
+  X: '--request',
+  H: '--header',
+  d: '--data',
+  u: '--user',
+  A: '--user-agent',
+  e: '--referer',
+  b: '--cookie',
+  F: '--form',
+  G: '--get',
+  I: '--head',
+  T: '--upload-file',
+  o: '--output',
+  m: '--max-time',
+  w: '--write-out',
+  x: '--proxy',
+  E: '--cert',
+  r: '--range',
+  c: '--cookie-jar',
+  K: '--config',
+  s: '--silent',
+  S: '--show-error',
+  L: '--location',
+  k: '--insecure',
+  v: '--verbose',
+  i: '--include',
+  f: '--fail',
+  N: '--no-buffer',
+  g: '--globoff',
+  '4': '--ipv4',
+  '6': '--ipv6',
+  '#': '--progress-bar',
+};
+
+// Options that take a value
+const VALUE_OPTIONS = new Set([
+  '--request',
+  '--header',
+  '--data',
+  '--data-ascii',
+  '--data-binary',
+  '--data-raw',
+  '--data-urlencode',
+  '--json',
+  '--user',
+  '--user-agent',
+  '--referer',
+  '--cookie',
+  '--form',
+  '--form-string',
+  '--upload-file',
+  '--url',
+  '--output',
+  '--max-time',
+  '--connect-timeout',
+  '--write-out',
+  '--proxy',
+  '--cert',
+  '--cacert',
+  '--key',
+  '--range',
+  '--cookie-jar',
+  '--config',
+  '--retry',
+  '--retry-delay',
+  '--retry-max-time',
+  '--max-redirs',
+  '--resolve',
+  '--connect-to',
+  '--interface',
+  '--limit-rate',
+  '--unix-socket',
+]);
+
+// Options that only affect how curl itself behaves and are dropped silently
+const IGNORED_OPTIONS = new Set([
+  '--compressed',
+  '--silent',
+  '--show-error',
+  '--location',
+  '--location-trusted',
+  '--insecure',
+  '--verbose',
+  '--include',
+  '--fail',
+  '--fail-with-body',
+  '--no-buffer',
+  '--globoff',
+  '--path-as-is',
+  '--ipv4',
+  '--ipv6',
+  '--http1.1',
+  '--http2',
+  '--http2-prior-knowledge',
+  '--progress-bar',
+  '--output',
+  '--max-time',
+  '--connect-timeout',
+  '--write-out',
+  '--proxy',
+  '--cert',
+  '--cacert',
+  '--key',
+  '--cookie-jar',
+  '--retry',
+  '--retry-delay',
+  '--retry-max-time',
+  '--max-redirs',
+  '--resolve',
+  '--connect-to',
+  '--interface',
+  '--limit-rate',
+]);
+
+// Headers computed by the HTTP client
+const SKIPPED_HEADERS = ['content-length'];
+
+/**
+ * Checks whether pasted text is a curl command
+ */
+export function isCurlCommand(text: string): boolean {
+  return /^(?:\$\s*)?curl(?:\.exe)?\s/i.test(text.trim());
+}
+
+/**
+ * Parses a curl command
+ *
+ * @param command - curl command line (bash quoting, line continuations allowed)
+ * @returns Request the command sends
+ */
+export function parseCurlCommand(command: string): CurlRequest {
+  const tokens = tokenize(command.trim().replace(/^\$\s*/, ''));
+  if (tokens.length === 0 || !/^(?:.*[/\\])?curl(?:\.exe)?$/i.test(tokens[0])) {
+    throw new Error('Not a curl command');
+  }
+
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+
+  const headers: StepHeader[] = [];
+  const data: string[] = [];
+  let explicitMethod: string | undefined;
+  let rawUrl: string | undefined;
+  let useGet = false;
+  let isJson = false;
+
+  for (const [option, value] of readOptions(tokens.slice(1), warn)) {
+    switch (option) {
+      case '':
+        if (rawUrl === undefined) {
+          rawUrl = value;
+        } else {
+          warn(`Only the first URL is imported; ${value} was skipped`);
+        }
+        break;
+
+      case '--url':
+        rawUrl ??= value;
+        break;
+
+      case '--request':
+        explicitMethod = value.toUpperCase();
+        break;
+
+      case '--header': {
+        const separator = value.search(/[:;]/);
+        const key = (separator === -1 ? value : value.slice(0, separator)).trim();
+        // "Name:" removes a header curl would add and "Name;" sends it empty
+        if (!key || separator === -1 || (value[separator] === ':' && !value.slice(separator + 1).trim())) {
+          break;
+        }
+        if (!SKIPPED_HEADERS.includes(key.toLowerCase())) {
+          setHeader(headers, key, value[separator] === ':' ? value.slice(separator + 1).trim() : '');
+        }
+        break;
+      }
+
+      case '--data':
+      case '--data-ascii':
+      case '--data-binary':
+      case '--json':
+        if (value.startsWith('@')) {
+          warn(`Request bodies read from files (${value}) are not supported and were skipped`);
+          break;
+        }
+        if (option === '--json') isJson = true;
+        data.push(value);
+        break;
+
+      case '--data-raw':
+        data.push(value);
+        break;
+
+      case '--data-urlencode':
+        data.push(urlencodeData(value, warn));
+        break;
+
+      case '--get':
+        useGet = true;
+        break;
+
+      case '--head':
+        warn('HEAD requests are not supported; imported as GET');
+        explicitMethod = 'GET';
+        break;
+
+      case '--user': {
+        const [username, password] = splitOnce(value, ':');
+        setHeader(headers, 'Authorization', `Basic ${btoa(`${username}:${password ?? ''}`)}`, false);
+        break;
+      }
+
+      case '--user-agent':
+        setHeader(headers, 'User-Agent', value, false);
+        break;
+
+      case '--referer':
+        setHeader(headers, 'Referer', value, false);
+        break;
+
+      case '--cookie':
+        if (value.includes('=')) {
+          setHeader(headers, 'Cookie', value, false);
+        } else {
+          warn(`Cookies read from files (${value}) are not supported and were skipped`);
+        }
+        break;
+
+      case '--form':
+      case '--form-string':
+        warn('Multipart form data (-F) is not supported and was skipped');
+        break;
+
+      case '--upload-file':
+        warn(`File uploads (${value}) are not supported and were skipped`);
+        break;
+
+      case '--config':
+        warn(`Config files (${value}) are not supported and were skipped`);
+        break;
+
+      case '--unix-socket':
+        warn(`Unix sockets (${value}) are not supported; the request is sent over TCP`);
+        break;
+
+      case '--range':
+        setHeader(headers, 'Range', `bytes=${value}`, false);
+        break;
+
+      default:
+        if (!IGNORED_OPTIONS.has(option)) {
+          warn(`Option ${option} is not supported and was ignored`);
+        }
+    }
+  }
+
+  if (!rawUrl) {
+    throw new Error('The curl command has no URL');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(rawUrl) ? rawUrl : `http://${rawUrl}`);
+  } catch {
+    throw new Error(`Invalid URL: ${rawUrl}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol: ${url.protocol.slice(0, -1)}`);
+  }
+
+  // -G sends the data as query string instead of a body
+  const search = new URLSearchParams(url.search);
+  if (useGet && data.length > 0) {
+    new URLSearchParams(data.join('&')).forEach((value, key) => search.append(key, value));
+  }
+  const queryParams: Record<string, string> = {};
+  search.forEach((value, key) => {
+    if (key in queryParams) {
+      warn(`Query parameter "${key}" is repeated; only the last value is kept`);
+    }
+    queryParams[key] = value;
+  });
+
+  const method = getMethod(explicitMethod, !useGet && data.length > 0, warn);
+  const request: CurlRequest = {
+    method,
+    url: `${url.origin}${url.pathname}`,
+    headers,
+    queryParams,
+    warnings,
+  };
+
+  if (!useGet && data.length > 0) {
+    if (isJson) {
+      setHeader(headers, 'Content-Type', 'application/json', false);
+      setHeader(headers, 'Accept', 'application/json', false);
+    }
+    request.body = getBody(data.join('&'), headers);
+  }
+
+  return request;
+}
+
+/**
+ * Finds the configured server whose base URL is the longest prefix of a request URL
+ *
+ * @param url - Absolute request URL (without query string)
+ * @param servers - Configured servers
+ * @returns Matching server and the endpoint relative to it, or null
+ */
+export function matchCurlServer(url: string, servers: Server[]): CurlServerMatch | null {
+  let best: CurlServerMatch | null = null;
+  let bestLength = -1;
+
+  for (const server of servers) {
+    const endpoint = getCurlEndpoint(url, server);
+    const baseLength = server.baseUrl.replace(/\/+$/, '').length;
+    if (endpoint !== null && baseLength > bestLength) {
+      best = { server, endpoint };
+      bestLength = baseLength;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Gets the part of a request URL after a server's base URL
+ *
+ * @returns Endpoint, or null when the base URL is not a prefix of the URL
+ */
+export function getCurlEndpoint(url: string, server: Server): string | null {
+  const base = server.baseUrl.trim().replace(/\/+$/, '');
+  if (!base) return null;
+  if (url.toLowerCase() === base.toLowerCase()) return '/';
+  if (!url.toLowerCase().startsWith(`${base.toLowerCase()}/`)) return null;
+  return url.slice(base.length);
+}
+
+/**
+ * Creates a server for the origin of a request URL
+ */
+export function createServerForCurl(url: string): Server {
+  const { origin, host } = new URL(url);
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    name: host,
+    baseUrl: origin,
+    headers: [],
+    timeout: 30000,
+    description: 'Created from a curl command',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Converts a parsed curl request into an endpoint template for creating a request step
+ *
+ * @param request - Parsed curl request
+ * @param endpoint - Endpoint relative to the chosen server
+ */
+export function createCurlTemplate(request: CurlRequest, endpoint: string): EndpointTemplate {
+  const template: EndpointTemplate = {
+    id: uuidv4(),
+    method: request.method,
+    endpoint,
+    headers: request.headers.map(header => ({ ...header })),
+    parameters: [],
+  };
+  if (Object.keys(request.queryParams).length > 0) {
+    template.queryParams = { ...request.queryParams };
+  }
+  if (request.body !== undefined) {
+    template.body = request.body;
+  }
+  return template;
+}
+
+/**
+ * Splits a command line into words using bash quoting rules
+ * (single quotes, double quotes, $'...' strings, backslash escapes and line continuations)
+ */
+function tokenize(command: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let i = 0;
+
+  while (i < command.length) {
+    const char = command[i];
+
+    if (char === '\\') {
+      const next = command[i + 1];
+      // Backslash-newline continues the line
+      if (next === '\n' || (next === '\r' && command[i + 2] === '\n')) {
+        i += next === '\r' ? 3 : 2;
+        continue;
+      }
+      if (next !== undefined) {
+        current += next;
+        inToken = true;
+      }
+      i += 2;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+      i++;
+      continue;
+    }
+
+    inToken = true;
+
+    if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote');
+      current += command.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '$' && command[i + 1] === "'") {
+      const [value, end] = readAnsiCString(command, i + 2);
+      current += value;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === '\\' && i + 1 < command.length) {
+          const next = command[i + 1];
+          if (next === '\n') {
+            i += 2;
+            continue;
+          }
+          if (next === '"' || next === '\\' || next === '$' || next === '`') {
+            current += next;
+            i += 2;
+            continue;
+          }
+        }
+        current += command[i];
+        i++;
+      }
+      if (i >= command.length) throw new Error('Unterminated double quote');
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * Reads a $'...' string (as produced by "Copy as cURL (bash)") starting after the opening quote
+ *
+ * @returns Decoded value and the index of the closing quote
+ */
+function readAnsiCString(command: string, start: number): [string, number] {
+  const escapes: Record<string, string> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '0': '\0',
+    a: '\x07',
+    b: '\b',
+    e: '\x1b',
+    f: '\f',
+    v: '\v',
+    '\\': '\\',
+    "'": "'",
+    '"': '"',
+    '?': '?',
+  };
+  let value = '';
+  let i = start;
+
+  while (i < command.length && command[i] !== "'") {
+    if (command[i] !== '\\') {
+      value += command[i];
+      i++;
+      continue;
+    }
+
+    const next = command[i + 1];
+    const hex = next === 'x' ? command.slice(i + 2).match(/^[0-9a-fA-F]{1,2}/) : null;
+    const unicode = next === 'u' ? command.slice(i + 2).match(/^[0-9a-fA-F]{1,4}/) : null;
+    if (hex) {
+      value += String.fromCharCode(parseInt(hex[0], 16));
+      i += 2 + hex[0].length;
+    } else if (unicode) {
+      value += String.fromCharCode(parseInt(unicode[0], 16));
+      i += 2 + unicode[0].length;
+    } else if (next !== undefined && next in escapes) {
+      value += escapes[next];
+      i += 2;
+    } else {
+      value += '\\';
+      i++;
+    }
+  }
+
+  if (i >= command.length) throw new Error('Unterminated $\'...\' string');
+  return [value, i];
+}
+
+/**
+ * Yields [option, value] pairs; URLs and other operands are yielded with an empty option
+ * Expands combined short options (-sSL, -XPOST)
+ */
+function* readOptions(
+  args: string[],
+  warn: (message: string) => void
+): Generator<[string, string]> {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg.startsWith('--') && arg.length > 2) {
+      if (VALUE_OPTIONS.has(arg)) {
+        if (i + 1 >= args.length) {
+          warn(`Option ${arg} has no value and was ignored`);
+          continue;
+        }
+        yield [arg, args[++i]];
+      } else {
+        yield [arg, ''];
+      }
+      continue;
+    }
+
+    if (arg.startsWith('-') && arg.length > 1) {
+      for (let j = 1; j < arg.length; j++) {
+        const option = SHORT_OPTIONS[arg[j]] ?? `-${arg[j]}`;
+        if (!VALUE_OPTIONS.has(option)) {
+          yield [option, ''];
+          continue;
+        }
+        // The value is either the rest of this argument or the next one
+        const rest = arg.slice(j + 1);
+        if (rest) {
+          yield [option, rest];
+        } else if (i + 1 < args.length) {
+          yield [option, args[++i]];
+        } else {
+          warn(`Option -${arg[j]} has no value and was ignored`);
+        }
+        break;
+      }
+      continue;
+    }
+
+    yield ['', arg];
+  }
+}
+
+/**
+ * Encodes a --data-urlencode value ("content", "=content", "name=content")
+ */
+function urlencodeData(value: string, warn: (message: string) => void): string {
+  const fileMatch = value.match(/^([^=@]*)@(.*)$/);
+  if (fileMatch) {
+    warn(`Request bodies read from files (@${fileMatch[2]}) are not supported and were skipped`);
+    return '';
+  }
+  const [name, content] = splitOnce(value, '=');
+  if (content === undefined) return encodeURIComponent(name);
+  return name ? `${name}=${encodeURIComponent(content)}` : encodeURIComponent(content);
+}
+
+/**
+ * Determines the request method
+ */
+function getMethod(
+  explicit: string | undefined,
+  hasBody: boolean,
+  warn: (message: string) => void
+): HttpMethod {
+  const fallback: HttpMethod = hasBody ? 'POST' : 'GET';
+  if (!explicit) return fallback;
+  if (HTTP_METHODS.includes(explicit as HttpMethod)) return explicit as HttpMethod;
+  warn(`Method ${explicit} is not supported; imported as ${fallback}`);
+  return fallback;
+}
+
+/**
+ * Converts the sent data into a step body
+ * JSON is parsed so variables can be used inside it; other data is kept as text
+ */
+function getBody(data: string, headers: StepHeader[]): unknown {
+  const contentType = headers.find(header => header.key.toLowerCase() === 'content-type')?.value;
+
+  if (!contentType || /json/i.test(contentType)) {
+    try {
+      const parsed: unknown = JSON.parse(data);
+      if (parsed !== null && typeof parsed === 'object') {
+        return parsed;
+      }
+    } catch {
+      // Not JSON, kept as text below
+    }
+  }
+
+  // curl sends -d data as a form unless told otherwise
+  if (!contentType) {
+    setHeader(headers, 'Content-Type', 'application/x-www-form-urlencoded', false);
+  }
+  return data;
+}
+
+/**
+ * Sets a header, replacing one with the same name unless told to keep it
+ */
+function setHeader(headers: StepHeader[], key: string, value: string, replace = true): void {
+  const index = headers.findIndex(header => header.key.toLowerCase() === key.toLowerCase());
+  if (index === -1) {
+    headers.push({ key, value, enabled: true });
+  } else if (replace) {
+    headers[index] = { key, value, enabled: true };
+  }
+}
+
+/**
+ * Splits a string at the first occurrence of a separator
+ */
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
@@ -0,0 +1,621 @@
+/**
+ * OpenAPI Import
+ * Converts an OpenAPI 3 document into a server with one request template per operation
+ * Path, query and header parameters become ${params.*} references, security schemes
+ * become ${secret.*} headers and response schemas are kept for JSON Schema assertions
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Server,
+  EndpointTemplate,
+  HttpMethod,
+  ParameterSchema,
+  ParameterType,
+  StepHeader,
+} from '@/types';
+
+// OpenAPI 3 format (only the fields used by the importer)
+
+type OpenApiSchema = Record<string, unknown>;
+
+interface OpenApiParameter {
+  $ref?: string;
+  name?: string;
+  in?: string;
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+  example?: unknown;
+}
+
+interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown; $ref?: string }>;
+}
+
+interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { $ref?: string; required?: boolean; content?: Record<string, OpenApiMediaType> };
+  responses?: Record<string, { $ref?: string; content?: Record<string, OpenApiMediaType> }>;
+  security?: Record<string, string[]>[];
+}
+
+interface OpenApiSecurityScheme {
+  type?: string;
+  name?: string;
+  in?: string;
+  scheme?: string;
+}
+
+interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: { url?: string; variables?: Record<string, { default?: string }> }[];
+  paths?: Record<string, Record<string, unknown>>;
+  components?: Record<string, Record<string, unknown>>;
+  security?: Record<string, string[]>[];
+}
+
+/**
+ * What the importer created and what it could not convert
+ */
+export interface OpenApiImportSummary {
+  /** Request templates created */
+  endpoints: number;
+  /** Distinct scenario parameters referenced by the templates */
+  parameters: number;
+  /** Secrets the templates expect (from security schemes) */
+  secrets: string[];
+  /** Operations or parts of operations that were skipped */
+  warnings: string[];
+}
+
+/**
+ * Result of converting an OpenAPI document
+ */
+export interface OpenApiImportResult {
+  /** Server carrying the templates (an existing server with the same base URL is updated) */
+  server: Server;
+  /** Whether the server is new (false when an existing server was updated) */
+  created: boolean;
+  /** Conversion summary */
+  summary: OpenApiImportSummary;
+}
+
+/**
+ * State shared while converting one document
+ */
+interface ConversionState {
+  document: OpenApiDocument;
+  secrets: Set<string>;
+  warnings: string[];
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const UNSUPPORTED_METHODS = ['head', 'options', 'trace'];
+// Header parameters OpenAPI says are ignored (described by other fields instead)
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+const MAX_EXAMPLE_DEPTH = 8;
+
+/**
+ * Checks whether parsed JSON/YAML looks like an OpenAPI 3 document
+ */
+export function isOpenApiDocument(data: unknown): boolean {
+  if (!data || typeof data !== 'object') return false;
+  const { openapi, paths } = data as { openapi?: unknown; paths?: unknown };
+  return typeof openapi === 'string' && openapi.startsWith('3.') && !!paths && typeof paths === 'object';
+}
+
+/**
+ * Converts an OpenAPI 3 document into a server with request templates
+ *
+ * @param document - Parsed OpenAPI document
+ * @param existingServers - Servers already configured; one with the same base URL gets the templates
+ * @returns Server, whether it is new, and a conversion summary
+ */
+export function convertOpenApiDocument(
+  document: unknown,
+  existingServers: Server[] = []
+): OpenApiImportResult {
+  if (!isOpenApiDocument(document)) {
+    throw new Error('Not an OpenAPI 3 document (missing openapi version or paths)');
+  }
+
+  const state: ConversionState = {
+    document: document as OpenApiDocument,
+    secrets: new Set(),
+    warnings: [],
+  };
+  const { info, paths = {} } = state.document;
+
+  const endpoints: EndpointTemplate[] = [];
+  for (const [path, pathItem] of Object.entries(paths)) {
+    if (!pathItem || typeof pathItem !== 'object') continue;
+    const pathParameters = (pathItem.parameters as OpenApiParameter[] | undefined) ?? [];
+
+    for (const [key, operation] of Object.entries(pathItem)) {
+      const method = key.toUpperCase() as HttpMethod;
+      if (UNSUPPORTED_METHODS.includes(key)) {
+        warn(state, `${method} ${path}: method is not supported and was skipped`);
+        continue;
+      }
+      if (!HTTP_METHODS.includes(method)) continue;
+
+      endpoints.push(
+        convertOperation(state, method, path, operation as OpenApiOperation, pathParameters)
+      );
+    }
+  }
+
+  if (endpoints.length === 0) {
+    throw new Error('Document contains no supported operations');
+  }
+
+  const baseUrl = getBaseUrl(state);
+  const now = new Date().toISOString();
+  const existing = existingServers.find(
+    server => server.baseUrl.replace(/\/+$/, '') === baseUrl
+  );
+  const server: Server = existing
+    ? { ...existing, endpoints, updatedAt: now }
+    : {
+        id: uuidv4(),
+        name: getServerName(info?.title, existingServers),
+        baseUrl,
+        headers: [],
+        timeout: 30000,
+        description: [info?.title, info?.version && `v${info.version}`].filter(Boolean).join(' '),
+        endpoints,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+  const parameterNames = new Set(endpoints.flatMap(e => e.parameters.map(p => p.name)));
+
+  return {
+    server,
+    created: !existing,
+    summary: {
+      endpoints: endpoints.length,
+      parameters: parameterNames.size,
+      secrets: [...state.secrets],
+      warnings: state.warnings,
+    },
+  };
+}
+
+/**
+ * Builds the base URL from the first entry of servers[], substituting server variables
+ */
+function getBaseUrl(state: ConversionState): string {
+  const [first, ...others] = state.document.servers ?? [];
+  if (others.length > 0) {
+    warn(
+      state,
+      `Only the first server URL was used; use environments to target ${others.map(s => s.url).join(', ')}`
+    );
+  }
+
+  let url = (first?.url ?? '').replace(/\{([^}]+)\}/g, (match, name: string) =>
+    first?.variables?.[name]?.default ?? match
+  );
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    warn(
+      state,
+      url
+        ? `Server URL "${url}" is relative; update the server's base URL before running`
+        : 'The document has no server URL; update the server\'s base URL before running'
+    );
+    url = `http://localhost${url.startsWith('/') ? url : ''}`;
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Converts one operation into a request template
+ */
+function convertOperation(
+  state: ConversionState,
+  method: HttpMethod,
+  path: string,
+  operation: OpenApiOperation,
+  pathParameters: OpenApiParameter[]
+): EndpointTemplate {
+  const label = `${method} ${path}`;
+  const parameters = new Map<string, ParameterSchema>();
+  const headers: StepHeader[] = [];
+  const queryParams: Record<string, string> = {};
+
+  const referenceParameter = (parameter: OpenApiParameter): string => {
+    const name = toIdentifier(parameter.name!);
+    if (!parameters.has(name)) {
+      const schema = resolveSchema(state, parameter.schema);
+      const example = parameter.example ?? schema.example ?? schema.default;
+      parameters.set(name, {
+        id: uuidv4(),
+        name,
+        type: toParameterType(schema.type),
+        required: true,
+        defaultValue: example,
+        description: parameter.description,
+      });
+    }
+    return `\${params.${name}}`;
+  };
+
+  // Operation parameters override path-level parameters with the same name and location
+  const merged = new Map<string, OpenApiParameter>();
+  for (const raw of [...pathParameters, ...(operation.parameters ?? [])]) {
+    const parameter = resolveRef<OpenApiParameter>(state, raw);
+    if (parameter?.name && parameter.in) {
+      merged.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  }
+
+  let endpoint = path;
+  for (const parameter of merged.values()) {
+    switch (parameter.in) {
+      case 'path':
+        endpoint = endpoint.split(`{${parameter.name}}`).join(referenceParameter(parameter));
+        break;
+      case 'query':
+        if (parameter.required) queryParams[parameter.name!] = referenceParameter(parameter);
+        break;
+      case 'header':
+        if (parameter.required && !IGNORED_HEADERS.includes(parameter.name!.toLowerCase())) {
+          headers.push({ key: parameter.name!, value: referenceParameter(parameter), enabled: true });
+        }
+        break;
+      case 'cookie':
+        if (parameter.required) {
+          warn(state, `${label}: cookie parameter "${parameter.name}" is not supported`);
+        }
+        break;
+    }
+  }
+
+  applySecurity(state, label, operation, headers, queryParams);
+
+  const template: EndpointTemplate = {
+    id: uuidv4(),
+    method,
+    endpoint,
+    summary: operation.summary || operation.description?.split('\n')[0],
+    operationId: operation.operationId,
+    tags: operation.tags,
+    headers,
+    parameters: [...parameters.values()],
+  };
+  if (Object.keys(queryParams).length > 0) {
+    template.queryParams = queryParams;
+  }
+
+  // Request body: example from the JSON media type
+  const requestBody = resolveRef<NonNullable<OpenApiOperation['requestBody']>>(state, operation.requestBody);
+  if (requestBody?.content) {
+    const json = findJsonMediaType(requestBody.content);
+    if (json) {
+      template.headers.push({ key: 'Content-Type', value: json[0], enabled: true });
+      template.body = getMediaExample(state, json[1]);
+    } else {
+      warn(
+        state,
+        `${label}: request body types ${Object.keys(requestBody.content).join(', ')} are not supported; add the body manually`
+      );
+    }
+  }
+
+  // Success response: lowest documented 2xx status and its JSON schema
+  const success = Object.keys(operation.responses ?? {})
+    .filter(status => /^2\d\d$/.test(status))
+    .sort()[0];
+  if (success) {
+    template.expectedStatus = Number(success);
+    const response = resolveRef<{ content?: Record<string, OpenApiMediaType> }>(
+      state,
+      operation.responses![success]
+    );
+    const json = response?.content ? findJsonMediaType(response.content) : undefined;
+    if (json?.[1].schema) {
+      template.responseSchema = toJsonSchema(state, json[1].schema, []);
+    }
+  }
+
+  return template;
+}
+
+/**
+ * Adds headers or query parameters for the operation's security requirement
+ * Credentials are referenced as secrets named after the security scheme
+ */
+function applySecurity(
+  state: ConversionState,
+  label: string,
+  operation: OpenApiOperation,
+  headers: StepHeader[],
+  queryParams: Record<string, string>
+): void {
+  // The first requirement is used; an empty requirement means authentication is optional
+  const requirement = (operation.security ?? state.document.security ?? [])[0];
+  if (!requirement) return;
+
+  const schemes = (state.document.components?.securitySchemes ?? {}) as Record<string, OpenApiSecurityScheme>;
+  for (const name of Object.keys(requirement)) {
+    const scheme = resolveRef<OpenApiSecurityScheme>(state, schemes[name]);
+    const secret = `\${secret.${toIdentifier(name)}}`;
+
+    if (scheme?.type === 'apiKey' && scheme.name && scheme.in === 'header') {
+      headers.push({ key: scheme.name, value: secret, enabled: true });
+    } else if (scheme?.type === 'apiKey' && scheme.name && scheme.in === 'query') {
+      queryParams[scheme.name] = secret;
+    } else if (scheme?.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+      // Secret holds the base64-encoded "user:password"
+      headers.push({ key: 'Authorization', value: `Basic ${secret}`, enabled: true });
+    } else if (
+      (scheme?.type === 'http' && scheme.scheme?.toLowerCase() === 'bearer') ||
+      scheme?.type === 'oauth2' ||
+      scheme?.type === 'openIdConnect'
+    ) {
+      headers.push({ key: 'Authorization', value: `Bearer ${secret}`, enabled: true });
+    } else {
+      warn(state, `${label}: security scheme "${name}" is not supported`);
+      continue;
+    }
+    state.secrets.add(toIdentifier(name));
+  }
+}
+
+/**
+ * Finds the JSON media type of a content map (e.g. "application/json", "application/problem+json")
+ */
+function findJsonMediaType(
+  content: Record<string, OpenApiMediaType>
+): [string, OpenApiMediaType] | undefined {
+  return Object.entries(content).find(([type]) => /[/+]json\b/i.test(type));
+}
+
+/**
+ * Returns the documented example of a media type, or one generated from its schema
+ */
+function getMediaExample(state: ConversionState, media: OpenApiMediaType): unknown {
+  if (media.example !== undefined) return media.example;
+
+  const first = Object.values(media.examples ?? {})[0];
+  const example = first ? resolveRef<{ value?: unknown }>(state, first) : undefined;
+  if (example?.value !== undefined) return example.value;
+
+  return media.schema ? generateExample(state, media.schema, [], 0) : undefined;
+}
+
+/**
+ * Generates an example value from a schema
+ */
+function generateExample(
+  state: ConversionState,
+  rawSchema: OpenApiSchema,
+  refStack: string[],
+  depth: number
+): unknown {
+  const ref = typeof rawSchema.$ref === 'string' ? rawSchema.$ref : undefined;
+  if (depth > MAX_EXAMPLE_DEPTH || (ref && refStack.includes(ref))) return undefined;
+  const stack = ref ? [...refStack, ref] : refStack;
+  const schema = resolveSchema(state, rawSchema);
+
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign(
+      {},
+      ...schema.allOf.map(part => generateExample(state, part as OpenApiSchema, stack, depth + 1))
+    );
+  }
+  const variant = (schema.oneOf ?? schema.anyOf) as OpenApiSchema[] | undefined;
+  if (Array.isArray(variant) && variant.length > 0) {
+    return generateExample(state, variant[0], stack, depth + 1);
+  }
+
+  switch (schema.type) {
+    case 'object':
+    case undefined: {
+      if (!schema.properties) return schema.type === 'object' ? {} : undefined;
+      const result: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries(schema.properties as Record<string, OpenApiSchema>)) {
+        const value = generateExample(state, property, stack, depth + 1);
+        if (value !== undefined) result[name] = value;
+      }
+      return result;
+    }
+    case 'array': {
+      const item = schema.items
+        ? generateExample(state, schema.items as OpenApiSchema, stack, depth + 1)
+        : undefined;
+      return item === undefined ? [] : [item];
+    }
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return true;
+    case 'string':
+      switch (schema.format) {
+        case 'date':
+          return '2024-01-01';
+        case 'date-time':
+          return '2024-01-01T00:00:00Z';
+        case 'email':
+          return 'user@example.com';
+        case 'uuid':
+          return '00000000-0000-0000-0000-000000000000';
+        case 'uri':
+          return 'https://example.com';
+        default:
+          return 'string';
+      }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Converts an OpenAPI schema into a self-contained JSON Schema
+ * References are inlined (recursive references accept any value) and OpenAPI 3.0
+ * keywords such as nullable are translated
+ */
+function toJsonSchema(state: ConversionState, rawSchema: unknown, refStack: string[]): unknown {
+  if (Array.isArray(rawSchema)) {
+    return rawSchema.map(item => toJsonSchema(state, item, refStack));
+  }
+  if (!rawSchema || typeof rawSchema !== 'object') return rawSchema;
+
+  const ref = (rawSchema as OpenApiSchema).$ref;
+  if (typeof ref === 'string') {
+    if (refStack.includes(ref)) return {};
+    return toJsonSchema(state, resolveSchema(state, rawSchema as OpenApiSchema), [...refStack, ref]);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rawSchema)) {
+    switch (key) {
+      case 'example':
+      case 'examples':
+      case 'discriminator':
+      case 'xml':
+      case 'externalDocs':
+      case 'nullable':
+        break;
+      case 'exclusiveMinimum':
+      case 'exclusiveMaximum':
+        // OpenAPI 3.0 uses booleans next to minimum/maximum
+        if (typeof value === 'boolean') {
+          const bound = (rawSchema as OpenApiSchema)[key === 'exclusiveMinimum' ? 'minimum' : 'maximum'];
+          if (value && typeof bound === 'number') result[key] = bound;
+        } else {
+          result[key] = value;
+        }
+        break;
+      case 'properties':
+      case 'patternProperties':
+        result[key] = Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).map(([name, schema]) => [
+            name,
+            toJsonSchema(state, schema, refStack),
+          ])
+        );
+        break;
+      default:
+        result[key] = typeof value === 'object' ? toJsonSchema(state, value, refStack) : value;
+    }
+  }
+
+  // Exclusive bounds replace the inclusive ones they were attached to
+  if (typeof result.exclusiveMinimum === 'number' && result.exclusiveMinimum === result.minimum) {
+    delete result.minimum;
+  }
+  if (typeof result.exclusiveMaximum === 'number' && result.exclusiveMaximum === result.maximum) {
+    delete result.maximum;
+  }
+
+  if ((rawSchema as OpenApiSchema).nullable === true) {
+    if (typeof result.type === 'string') {
+      result.type = [result.type, 'null'];
+    } else if (result.enum === undefined) {
+      return { anyOf: [result, { type: 'null' }] };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolves a schema that may be a local reference
+ */
+function resolveSchema(state: ConversionState, schema: OpenApiSchema | undefined): OpenApiSchema {
+  return resolveRef<OpenApiSchema>(state, schema) ?? {};
+}
+
+/**
+ * Follows local references ("#/components/...") until a non-reference object is found
+ */
+function resolveRef<T>(state: ConversionState, value: unknown): T | undefined {
+  let current = value;
+  const seen = new Set<string>();
+
+  while (current && typeof current === 'object' && typeof (current as { $ref?: unknown }).$ref === 'string') {
+    const ref = (current as { $ref: string }).$ref;
+    if (seen.has(ref) || !ref.startsWith('#/')) {
+      if (!ref.startsWith('#/')) {
+        warn(state, `External reference "${ref}" is not supported`);
+      }
+      return undefined;
+    }
+    seen.add(ref);
+
+    current = ref
+      .slice(2)
+      .split('/')
+      .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>(
+        (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+        state.document
+      );
+  }
+
+  return current as T | undefined;
+}
+
+/**
+ * Derives a unique server name from the API title
+ */
+function getServerName(title: string | undefined, existingServers: Server[]): string {
+  const base = toIdentifier(title || 'api').toLowerCase();
+  const taken = new Set(existingServers.map(server => server.name));
+  let name = base;
+  for (let i = 2; taken.has(name); i++) {
+    name = `${base}_${i}`;
+  }
+  return name;
+}
+
+/**
+ * Adds a warning to the summary once
+ */
+function warn(state: ConversionState, message: string): void {
+  if (!state.warnings.includes(message)) {
+    state.warnings.push(message);
+  }
+}
+
+/**
+ * Maps an OpenAPI schema type to a parameter type
+ */
+function toParameterType(type: unknown): ParameterType {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return 'array';
+    case 'object':
+      return 'object';
+    default:
+      return 'string';
+  }
+}
+
+/**
+ * Turns an OpenAPI name into a name usable in variable references
+ */
+function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
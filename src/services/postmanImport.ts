@@ -0,0 +1,837 @@
+/**
+ * Postman Import
+ * Converts a Postman v2.1 collection (optionally with a Postman environment) into a scenario
+ * Folders become group steps, requests become request steps and {{variables}} become
+ * ${params.*} references; anything that cannot be converted is listed in the summary
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Scenario,
+  Server,
+  Step,
+  RequestStep,
+  GroupStep,
+  StepHeader,
+  HttpMethod,
+  ParameterSchema,
+  ScenarioEdge,
+  ResponseAssertion,
+  VariableExtraction,
+} from '@/types';
+import { calculateAutoLayout } from '@/utils/graphLayout';
+import { MAX_NESTING_DEPTH } from '@/utils/nestingUtils';
+
+// Postman v2.1 format (only the fields used by the importer)
+
+interface PostmanVariable {
+  key: string;
+  value?: unknown;
+  disabled?: boolean;
+  enabled?: boolean;
+}
+
+interface PostmanKeyValue {
+  key: string;
+  value?: string;
+  disabled?: boolean;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string[] | string;
+  port?: string;
+  path?: string[] | string;
+  query?: PostmanKeyValue[];
+  variable?: PostmanKeyValue[];
+}
+
+interface PostmanAuth {
+  type: string;
+  [type: string]: unknown;
+}
+
+interface PostmanBody {
+  mode?: string;
+  raw?: string;
+  urlencoded?: PostmanKeyValue[];
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanKeyValue[] | string;
+  body?: PostmanBody;
+  auth?: PostmanAuth;
+  description?: string | { content?: string };
+}
+
+interface PostmanEvent {
+  listen?: string;
+  script?: { exec?: string[] | string };
+}
+
+interface PostmanItem {
+  name?: string;
+  description?: string | { content?: string };
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  event?: PostmanEvent[];
+  auth?: PostmanAuth;
+}
+
+interface PostmanCollection {
+  info: { name?: string; schema?: string; description?: string | { content?: string } };
+  item: PostmanItem[];
+  variable?: PostmanVariable[];
+  auth?: PostmanAuth;
+  event?: PostmanEvent[];
+}
+
+interface PostmanEnvironment {
+  name?: string;
+  values?: PostmanVariable[];
+}
+
+/**
+ * What the importer created and what it could not convert
+ */
+export interface PostmanImportSummary {
+  /** Request steps created */
+  requests: number;
+  /** Group steps created from folders */
+  folders: number;
+  /** New servers created from request base URLs */
+  servers: number;
+  /** Scenario parameters created from variables */
+  parameters: number;
+  /** Assertions converted from test scripts */
+  assertions: number;
+  /** Variable extractions converted from test scripts */
+  extractions: number;
+  /** Parts of the collection that were skipped or only partly converted */
+  warnings: string[];
+}
+
+/**
+ * Result of converting a Postman collection
+ */
+export interface PostmanImportResult {
+  /** Converted scenario */
+  scenario: Scenario;
+  /** Servers that need to be added (existing servers with the same base URL are reused) */
+  servers: Server[];
+  /** Conversion summary */
+  summary: PostmanImportSummary;
+}
+
+/**
+ * State shared while converting one collection
+ */
+interface ConversionState {
+  /** Variable values (environment values override collection variables) */
+  values: Map<string, string>;
+  /** Variables assigned by test scripts, referenced as ${vars.*} */
+  runtimeVariables: Set<string>;
+  /** Parameters by Postman variable name */
+  parameters: Map<string, ParameterSchema>;
+  /** Servers by base URL template (e.g. "{{baseUrl}}" or "https://api.example.com") */
+  serversByBase: Map<string, Server>;
+  existingServers: Server[];
+  newServers: Server[];
+  steps: Step[];
+  edges: ScenarioEdge[];
+  collectionName: string;
+  summary: PostmanImportSummary;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const SET_VARIABLE_PATTERN =
+  /(?:pm\.(?:environment|collectionVariables|globals|variables)\.set|postman\.set(?:Environment|Global)Variable)\(\s*["'`]([^"'`]+)["'`]/g;
+
+/**
+ * Checks whether parsed JSON looks like a Postman v2.x collection
+ */
+export function isPostmanCollection(data: unknown): boolean {
+  if (!data || typeof data !== 'object') return false;
+  const info = (data as { info?: { schema?: unknown } }).info;
+  return (
+    typeof info?.schema === 'string' &&
+    info.schema.includes('getpostman.com') &&
+    Array.isArray((data as { item?: unknown }).item)
+  );
+}
+
+/**
+ * Converts a Postman v2.1 collection into a scenario
+ *
+ * @param collection - Parsed collection JSON
+ * @param environment - Parsed Postman environment JSON (its values override collection variables)
+ * @param existingServers - Servers already configured; one with a matching base URL is reused
+ * @returns Scenario, servers to add and a conversion summary
+ */
+export function convertPostmanCollection(
+  collection: unknown,
+  environment?: unknown,
+  existingServers: Server[] = []
+): PostmanImportResult {
+  if (!isPostmanCollection(collection)) {
+    throw new Error('Not a Postman v2 collection (missing info.schema or item)');
+  }
+  const source = collection as PostmanCollection;
+
+  const values = new Map<string, string>();
+  for (const variable of source.variable ?? []) {
+    addVariableValue(values, variable);
+  }
+  if (environment) {
+    const env = environment as PostmanEnvironment;
+    if (!Array.isArray(env.values)) {
+      throw new Error('Not a Postman environment (missing values)');
+    }
+    env.values.forEach(variable => addVariableValue(values, variable));
+  }
+
+  const state: ConversionState = {
+    values,
+    runtimeVariables: collectRuntimeVariables(source),
+    parameters: new Map(),
+    serversByBase: new Map(),
+    existingServers,
+    newServers: [],
+    steps: [],
+    edges: [],
+    collectionName: source.info.name || 'Postman Collection',
+    summary: {
+      requests: 0,
+      folders: 0,
+      servers: 0,
+      parameters: 0,
+      assertions: 0,
+      extractions: 0,
+      warnings: [],
+    },
+  };
+
+  if (hasScript(source.event)) {
+    warn(state, 'Collection-level scripts are not supported and were skipped');
+  }
+
+  const topLevelIds = convertItems(state, source.item, 0, source.auth);
+  if (state.summary.requests === 0) {
+    throw new Error('Collection contains no requests');
+  }
+  chainSteps(state, topLevelIds);
+
+  const positions = calculateAutoLayout(state.steps, state.edges);
+  const steps = state.steps.map(step => ({
+    ...step,
+    position: positions.get(step.id) ?? step.position,
+  }));
+
+  const serverIds = [...new Set(
+    steps.filter((step): step is RequestStep => step.type === 'request').map(step => step.serverId)
+  )];
+
+  const now = new Date().toISOString();
+  const scenario: Scenario = {
+    id: uuidv4(),
+    name: state.collectionName,
+    description: getDescription(source.info.description),
+    version: '1.0.0',
+    serverIds,
+    parameterSchema: [...state.parameters.values()],
+    steps,
+    edges: state.edges,
+    startStepId: topLevelIds[0] ?? '',
+    tags: ['postman'],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  state.summary.servers = state.newServers.length;
+  state.summary.parameters = state.parameters.size;
+
+  return { scenario, servers: state.newServers, summary: state.summary };
+}
+
+/**
+ * Records the value of an enabled Postman variable
+ */
+function addVariableValue(values: Map<string, string>, variable: PostmanVariable): void {
+  if (!variable?.key || variable.disabled || variable.enabled === false) return;
+  if (variable.value === undefined || variable.value === null) return;
+  values.set(
+    variable.key,
+    typeof variable.value === 'string' ? variable.value : JSON.stringify(variable.value)
+  );
+}
+
+/**
+ * Finds variables that test scripts assign at runtime (e.g. tokens from a login response)
+ */
+function collectRuntimeVariables(collection: PostmanCollection): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (events: PostmanEvent[] | undefined, items: PostmanItem[] | undefined) => {
+    for (const event of events ?? []) {
+      for (const match of getScript(event).matchAll(SET_VARIABLE_PATTERN)) {
+        names.add(match[1]);
+      }
+    }
+    for (const item of items ?? []) {
+      visit(item.event, item.item);
+    }
+  };
+
+  visit(collection.event, collection.item);
+  return names;
+}
+
+/**
+ * Converts a list of items and chains the resulting steps
+ *
+ * @returns IDs of the created steps in order
+ */
+function convertItems(
+  state: ConversionState,
+  items: PostmanItem[],
+  depth: number,
+  inheritedAuth: PostmanAuth | undefined
+): string[] {
+  const ids: string[] = [];
+
+  for (const item of items) {
+    if (Array.isArray(item.item)) {
+      ids.push(...convertFolder(state, item, depth, inheritedAuth));
+    } else if (item.request) {
+      ids.push(convertRequest(state, item, inheritedAuth));
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Converts a folder into a group step, or inlines it when groups would nest too deeply
+ *
+ * @returns IDs of the steps to place where the folder was
+ */
+function convertFolder(
+  state: ConversionState,
+  folder: PostmanItem,
+  depth: number,
+  inheritedAuth: PostmanAuth | undefined
+): string[] {
+  const name = folder.name || 'Folder';
+  const auth = folder.auth ?? inheritedAuth;
+
+  if (hasScript(folder.event)) {
+    warn(state, `Folder "${name}": folder scripts are not supported and were skipped`);
+  }
+
+  // Groups may only be created at depths where another container is still allowed
+  if (depth + 1 >= MAX_NESTING_DEPTH) {
+    warn(state, `Folder "${name}" is nested too deeply; its requests were added to the parent group`);
+    return convertItems(state, folder.item ?? [], depth, auth);
+  }
+
+  const childIds = convertItems(state, folder.item ?? [], depth + 1, auth);
+  chainSteps(state, childIds);
+
+  const group: GroupStep = {
+    id: uuidv4(),
+    type: 'group',
+    name,
+    description: getDescription(folder.description),
+    executionMode: 'auto',
+    position: { x: 0, y: 0 },
+    stepIds: childIds,
+    collapsed: false,
+  };
+  state.steps.push(group);
+  state.summary.folders++;
+
+  return [group.id];
+}
+
+/**
+ * Converts a request item into a request step
+ *
+ * @returns ID of the created step
+ */
+function convertRequest(
+  state: ConversionState,
+  item: PostmanItem,
+  inheritedAuth: PostmanAuth | undefined
+): string {
+  const name = item.name || 'Request';
+  const request: PostmanRequest =
+    typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request!;
+
+  let method = (request.method || 'GET').toUpperCase() as HttpMethod;
+  if (!HTTP_METHODS.includes(method)) {
+    warn(state, `Request "${name}": method ${method} is not supported; imported as GET`);
+    method = 'GET';
+  }
+
+  const url = parseUrl(state, request.url);
+  const headers: StepHeader[] = [];
+  if (Array.isArray(request.header)) {
+    for (const header of request.header) {
+      if (!header?.key) continue;
+      headers.push({
+        key: header.key,
+        value: rewriteTemplate(state, header.value ?? ''),
+        enabled: !header.disabled,
+      });
+    }
+  }
+
+  const step: RequestStep = {
+    id: uuidv4(),
+    type: 'request',
+    name,
+    description: getDescription(item.description ?? request.description),
+    executionMode: 'auto',
+    position: { x: 0, y: 0 },
+    serverId: getServer(state, url.base).id,
+    method,
+    endpoint: url.endpoint,
+    headers,
+    waitForResponse: true,
+    saveResponse: true,
+  };
+
+  if (Object.keys(url.queryParams).length > 0) {
+    step.queryParams = url.queryParams;
+  }
+
+  applyAuth(state, step, request.auth ?? item.auth ?? inheritedAuth);
+  applyBody(state, step, request.body);
+  applyScripts(state, step, item.event);
+
+  state.steps.push(step);
+  state.summary.requests++;
+  return step.id;
+}
+
+/**
+ * Splits a Postman URL into the server base, endpoint and query parameters
+ */
+function parseUrl(
+  state: ConversionState,
+  url: string | PostmanUrl | undefined
+): { base: string; endpoint: string; queryParams: Record<string, string> } {
+  let raw = typeof url === 'string' ? url : url?.raw ?? buildRawUrl(url);
+  raw = raw.trim().split('#')[0];
+
+  const [address, queryString] = splitOnce(raw, '?');
+  const queryParams: Record<string, string> = {};
+
+  if (typeof url === 'object' && Array.isArray(url.query)) {
+    for (const param of url.query) {
+      if (!param?.key || param.disabled) continue;
+      queryParams[param.key] = rewriteTemplate(state, param.value ?? '');
+    }
+  } else if (queryString) {
+    for (const pair of queryString.split('&')) {
+      if (!pair) continue;
+      const [key, value] = splitOnce(pair, '=');
+      queryParams[key] = rewriteTemplate(state, value ?? '');
+    }
+  }
+
+  // Base is everything up to the path (e.g. "{{baseUrl}}" or "https://api.example.com")
+  const baseMatch = address.match(/^((?:[a-z][a-z0-9+.-]*:\/\/)?[^/]+)(.*)$/i);
+  const [base, path] = baseMatch ? [baseMatch[1], baseMatch[2]] : ['', address];
+
+  // Postman path variables (/users/:id) become parameters
+  const pathVariables = new Map<string, string>();
+  if (typeof url === 'object') {
+    for (const variable of url.variable ?? []) {
+      if (variable?.key) pathVariables.set(variable.key, variable.value ?? '');
+    }
+  }
+  const withPathVariables = path.replace(/\/:([A-Za-z_][\w-]*)/g, (_match, key: string) => {
+    const value = pathVariables.get(key);
+    // A path variable set to {{variable}} is rewritten with the rest of the path
+    if (value?.includes('{{')) return `/${value}`;
+    const parameter = getParameter(state, key, value);
+    return `/\${params.${parameter.name}}`;
+  });
+
+  const endpoint = rewriteTemplate(state, withPathVariables);
+  return {
+    base,
+    endpoint: endpoint.startsWith('/') ? endpoint : `/${endpoint}`,
+    queryParams,
+  };
+}
+
+/**
+ * Rebuilds a raw URL from its parts when the collection omits url.raw
+ */
+function buildRawUrl(url: PostmanUrl | undefined): string {
+  if (!url) return '';
+  const host = Array.isArray(url.host) ? url.host.join('.') : url.host ?? '';
+  const path = Array.isArray(url.path) ? url.path.join('/') : url.path ?? '';
+  const protocol = url.protocol ? `${url.protocol}://` : '';
+  const port = url.port ? `:${url.port}` : '';
+  return `${protocol}${host}${port}${path ? `/${path}` : ''}`;
+}
+
+/**
+ * Finds or creates the server for a URL base
+ */
+function getServer(state: ConversionState, base: string): Server {
+  const known = state.serversByBase.get(base);
+  if (known) return known;
+
+  let baseUrl = base.replace(TEMPLATE_PATTERN, (match, name: string) => state.values.get(name) ?? match);
+  if (!baseUrl || baseUrl.includes('{{')) {
+    warn(
+      state,
+      `No value for ${base || 'the request URL'}; its server uses http://localhost, update the base URL before running`
+    );
+    baseUrl = 'http://localhost';
+  } else if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(baseUrl)) {
+    baseUrl = `http://${baseUrl}`;
+  }
+  baseUrl = baseUrl.replace(/\/+$/, '');
+
+  const existing = state.existingServers.find(
+    server => server.baseUrl.replace(/\/+$/, '') === baseUrl
+  );
+  if (existing) {
+    state.serversByBase.set(base, existing);
+    return existing;
+  }
+
+  const variable = base.match(/^\{\{\s*([^{}]+?)\s*\}\}$/);
+  const now = new Date().toISOString();
+  const server: Server = {
+    id: uuidv4(),
+    name: variable ? variable[1] : baseUrl.replace(/^[a-z][a-z0-9+.-]*:\/\//i, ''),
+    baseUrl,
+    headers: [],
+    timeout: 30000,
+    description: `Imported from Postman collection "${state.collectionName}"`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  state.serversByBase.set(base, server);
+  state.newServers.push(server);
+  return server;
+}
+
+/**
+ * Rewrites {{variable}} references to ${params.*} (or ${vars.*} for variables set by scripts)
+ */
+function rewriteTemplate(state: ConversionState, text: string): string {
+  return text.replace(TEMPLATE_PATTERN, (match, name: string) => {
+    if (name.startsWith('$')) {
+      warn(state, `Dynamic variable ${match} is not supported and was left as-is`);
+      return match;
+    }
+    if (state.runtimeVariables.has(name)) {
+      return `\${vars.${toIdentifier(name)}}`;
+    }
+    return `\${params.${getParameter(state, name).name}}`;
+  });
+}
+
+/**
+ * Finds or creates the scenario parameter for a Postman variable
+ */
+function getParameter(state: ConversionState, name: string, fallback?: string): ParameterSchema {
+  const known = state.parameters.get(name);
+  if (known) return known;
+
+  const defaultValue = state.values.get(name) ?? (fallback || undefined);
+  const parameter: ParameterSchema = {
+    id: uuidv4(),
+    name: toIdentifier(name),
+    type: 'string',
+    required: defaultValue === undefined,
+    defaultValue,
+    description: `Postman variable {{${name}}}`,
+  };
+  state.parameters.set(name, parameter);
+  return parameter;
+}
+
+/**
+ * Turns a Postman variable name into a name usable in variable references
+ */
+function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Adds the request's authentication as a header or query parameter
+ */
+function applyAuth(state: ConversionState, step: RequestStep, auth: PostmanAuth | undefined): void {
+  if (!auth || auth.type === 'noauth') return;
+
+  const options = new Map<string, string>();
+  const entries = auth[auth.type];
+  if (Array.isArray(entries)) {
+    for (const entry of entries as PostmanKeyValue[]) {
+      if (entry?.key) options.set(entry.key, String(entry.value ?? ''));
+    }
+  }
+  const option = (key: string) => rewriteTemplate(state, options.get(key) ?? '');
+
+  switch (auth.type) {
+    case 'bearer':
+      addHeader(step, 'Authorization', `Bearer ${option('token')}`);
+      return;
+
+    case 'apikey': {
+      const key = options.get('key') || 'X-API-Key';
+      if (options.get('in') === 'query') {
+        step.queryParams = { ...step.queryParams, [key]: option('value') };
+      } else {
+        addHeader(step, key, option('value'));
+      }
+      return;
+    }
+
+    case 'basic': {
+      const username = options.get('username') ?? '';
+      const password = options.get('password') ?? '';
+      if (username.includes('{{') || password.includes('{{')) {
+        warn(state, `Request "${step.name}": basic auth with variables is not supported; add the Authorization header manually`);
+        return;
+      }
+      addHeader(step, 'Authorization', `Basic ${btoa(`${username}:${password}`)}`);
+      return;
+    }
+
+    default:
+      warn(state, `Request "${step.name}": ${auth.type} auth is not supported and was skipped`);
+  }
+}
+
+/**
+ * Adds a header unless the request already defines it
+ */
+function addHeader(step: RequestStep, key: string, value: string): void {
+  const exists = step.headers.some(header => header.key.toLowerCase() === key.toLowerCase());
+  if (!exists) {
+    step.headers.push({ key, value, enabled: true });
+  }
+}
+
+/**
+ * Converts the request body
+ */
+function applyBody(state: ConversionState, step: RequestStep, body: PostmanBody | undefined): void {
+  if (!body?.mode) return;
+
+  switch (body.mode) {
+    case 'raw': {
+      const raw = rewriteTemplate(state, body.raw ?? '');
+      if (!raw.trim()) return;
+      if (body.options?.raw?.language === 'json') {
+        addHeader(step, 'Content-Type', 'application/json');
+        try {
+          step.body = JSON.parse(raw);
+          return;
+        } catch {
+          // Unquoted variables make the JSON invalid, keep it as text
+        }
+      }
+      step.body = raw;
+      return;
+    }
+
+    case 'urlencoded':
+      addHeader(step, 'Content-Type', 'application/x-www-form-urlencoded');
+      step.body = (body.urlencoded ?? [])
+        .filter(param => param?.key && !param.disabled)
+        .map(param => `${param.key}=${rewriteTemplate(state, param.value ?? '')}`)
+        .join('&');
+      return;
+
+    case 'graphql': {
+      addHeader(step, 'Content-Type', 'application/json');
+      let variables: unknown = {};
+      try {
+        variables = body.graphql?.variables ? JSON.parse(rewriteTemplate(state, body.graphql.variables)) : {};
+      } catch {
+        warn(state, `Request "${step.name}": GraphQL variables are not valid JSON and were skipped`);
+      }
+      step.body = { query: rewriteTemplate(state, body.graphql?.query ?? ''), variables };
+      return;
+    }
+
+    default:
+      warn(state, `Request "${step.name}": ${body.mode} bodies are not supported and were skipped`);
+  }
+}
+
+/**
+ * Converts common test script checks into assertions and extractions
+ * Pre-request scripts and anything else in test scripts is reported as not converted
+ */
+function applyScripts(state: ConversionState, step: RequestStep, events: PostmanEvent[] | undefined): void {
+  for (const event of events ?? []) {
+    const script = getScript(event);
+    if (!script.trim()) continue;
+
+    if (event.listen === 'prerequest') {
+      warn(state, `Request "${step.name}": pre-request script is not supported and was skipped`);
+      continue;
+    }
+    if (event.listen !== 'test') continue;
+
+    const assertions: ResponseAssertion[] = [];
+    const extractions: VariableExtraction[] = [];
+    let remaining = script;
+
+    // Identifiers holding the parsed response body (var json = pm.response.json())
+    const bodyAliases = ['pm\\.response\\.json\\(\\)'];
+    remaining = remaining.replace(
+      /(?:var|let|const)\s+([A-Za-z_$][\w$]*)\s*=\s*pm\.response\.json\(\)\s*;?/g,
+      (_match, alias: string) => {
+        bodyAliases.push(alias.replace(/\$/g, '\\$'));
+        return '';
+      }
+    );
+
+    const status = (expected: string) =>
+      assertions.push({ id: uuidv4(), type: 'status', operator: '==', expected: Number(expected) });
+
+    remaining = remaining
+      .replace(/pm\.response\.to\.(?:have|be)\.status\(\s*(\d{3})\s*\)\s*;?/g, (_match, code: string) => {
+        status(code);
+        return '';
+      })
+      .replace(
+        /pm\.expect\(\s*pm\.response\.code\s*\)\.to\.(?:eql|equal|be\.equal|equals)\(\s*(\d{3})\s*\)\s*;?/g,
+        (_match, code: string) => {
+          status(code);
+          return '';
+        }
+      )
+      .replace(
+        /pm\.expect\(\s*pm\.response\.responseTime\s*\)\.to\.be\.below\(\s*(\d+)\s*\)\s*;?/g,
+        (_match, limit: string) => {
+          assertions.push({ id: uuidv4(), type: 'responseTime', operator: '<', expected: Number(limit) });
+          return '';
+        }
+      );
+
+    const setter =
+      '(?:pm\\.(?:environment|collectionVariables|globals|variables)\\.set|postman\\.set(?:Environment|Global)Variable)';
+    remaining = remaining
+      .replace(
+        new RegExp(
+          `${setter}\\(\\s*["'\`]([^"'\`]+)["'\`]\\s*,\\s*(?:${bodyAliases.join('|')})((?:\\.[A-Za-z_$][\\w$]*|\\[\\d+\\]|\\[["'][^"']+["']\\])*)\\s*\\)\\s*;?`,
+          'g'
+        ),
+        (_match, name: string, path: string) => {
+          extractions.push({
+            id: uuidv4(),
+            name: toIdentifier(name),
+            source: 'body',
+            expression: `$${path.replace(/\[["']([^"']+)["']\]/g, '.$1')}`,
+          });
+          return '';
+        }
+      )
+      .replace(
+        new RegExp(
+          `${setter}\\(\\s*["'\`]([^"'\`]+)["'\`]\\s*,\\s*pm\\.response\\.headers\\.get\\(\\s*["']([^"']+)["']\\s*\\)\\s*\\)\\s*;?`,
+          'g'
+        ),
+        (_match, name: string, header: string) => {
+          extractions.push({ id: uuidv4(), name: toIdentifier(name), source: 'header', expression: header });
+          return '';
+        }
+      );
+
+    if (assertions.length > 0) {
+      step.assertions = [...(step.assertions ?? []), ...assertions];
+      state.summary.assertions += assertions.length;
+    }
+    if (extractions.length > 0) {
+      step.extract = [...(step.extract ?? []), ...extractions];
+      state.summary.extractions += extractions.length;
+    }
+
+    // Whatever is left besides pm.test wrappers, comments and punctuation was not converted
+    const leftover = remaining
+      .replace(/\/\/.*$/gm, '')
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/pm\.test\(\s*(["'`]).*?\1\s*,\s*(?:function\s*\(\s*\)|\(\s*\)\s*=>)\s*\{/g, '')
+      .replace(/[\s{}();]/g, '');
+    if (leftover) {
+      warn(
+        state,
+        assertions.length + extractions.length > 0
+          ? `Request "${step.name}": test script was partly converted; review the remaining checks manually`
+          : `Request "${step.name}": test script is not supported and was skipped`
+      );
+    }
+  }
+}
+
+/**
+ * Chains steps with default edges in the given order
+ */
+function chainSteps(state: ConversionState, stepIds: string[]): void {
+  for (let i = 1; i < stepIds.length; i++) {
+    state.edges.push({
+      id: uuidv4(),
+      sourceStepId: stepIds[i - 1],
+      targetStepId: stepIds[i],
+    });
+  }
+}
+
+/**
+ * Returns the source of an event script
+ */
+function getScript(event: PostmanEvent): string {
+  const exec = event?.script?.exec;
+  return Array.isArray(exec) ? exec.join('\n') : exec ?? '';
+}
+
+/**
+ * Checks whether any event has a non-empty script
+ */
+function hasScript(events: PostmanEvent[] | undefined): boolean {
+  return (events ?? []).some(event => getScript(event).trim() !== '');
+}
+
+/**
+ * Reads a Postman description (plain string or { content })
+ */
+function getDescription(description: string | { content?: string } | undefined): string {
+  return (typeof description === 'string' ? description : description?.content) ?? '';
+}
+
+/**
+ * Adds a warning to the summary once
+ */
+function warn(state: ConversionState, message: string): void {
+  if (!state.summary.warnings.includes(message)) {
+    state.summary.warnings.push(message);
+  }
+}
+
+/**
+ * Splits a string at the first occurrence of a separator
+ */
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
@@ -0,0 +1,470 @@
+/**
+ * Execution report generators
+ * Turns an execution result into JUnit XML (for CI dashboards) or a
+ * self-contained HTML report (for tickets and sharing)
+ */
+
+import type {
+  Scenario,
+  Step,
+  ExecutionContext,
+  StepExecutionResult,
+} from '@/types';
+import { formatLoopPath, compareIterations } from '@/engine/iterations';
+
+/**
+ * Execution data a report is built from
+ * Both an ExecutionResult (engine, CLI) and an ExecutionContext (UI) fit
+ */
+export type ReportSource = Pick<
+  ExecutionContext,
+  'id' | 'status' | 'stepResults' | 'iterationResults' | 'logs' | 'startedAt' | 'completedAt' | 'environmentName'
+> & {
+  /** Parameter values of the run (not part of ExecutionResult) */
+  params?: Record<string, unknown>;
+};
+
+/**
+ * One reported execution: a step outside loops, or one loop iteration of a step
+ */
+interface ReportCase {
+  step: Step;
+  /** Nesting depth of the step in the flow */
+  depth: number;
+  /** Iteration label such as "Users 3/50" (empty outside loops) */
+  iteration: string;
+  /** Result (undefined = step was never executed) */
+  result?: StepExecutionResult;
+}
+
+/**
+ * Lists steps in flow order, children of loops and groups after their container
+ */
+function flattenSteps(scenario: Scenario): Array<{ step: Step; depth: number }> {
+  const flat: Array<{ step: Step; depth: number }> = [];
+  const visited = new Set<string>();
+  const childIds = new Set(
+    scenario.steps.flatMap(step =>
+      step.type === 'loop' || step.type === 'group' ? step.stepIds : []
+    )
+  );
+
+  const visit = (step: Step, depth: number) => {
+    if (visited.has(step.id)) return;
+    visited.add(step.id);
+    flat.push({ step, depth });
+
+    if (step.type === 'loop' || step.type === 'group') {
+      step.stepIds
+        .map(id => scenario.steps.find(s => s.id === id))
+        .filter((s): s is Step => s !== undefined)
+        .forEach(child => visit(child, depth + 1));
+    }
+  };
+
+  scenario.steps
+    .filter(step => !childIds.has(step.id))
+    .forEach(step => visit(step, 0));
+  // Anything not reached from a top-level step
+  scenario.steps.forEach(step => visit(step, 0));
+
+  return flat;
+}
+
+/**
+ * Expands steps into reported executions (one per loop iteration when available)
+ */
+function collectCases(scenario: Scenario, source: ReportSource): ReportCase[] {
+  const getLoopName = (stepId: string) =>
+    scenario.steps.find(s => s.id === stepId)?.name || 'Loop';
+  const iterationResults = Object.values(source.iterationResults ?? {});
+
+  return flattenSteps(scenario).flatMap(({ step, depth }) => {
+    const iterations = iterationResults
+      .filter(r => r.stepId === step.id)
+      .sort(compareIterations);
+    if (iterations.length === 0) {
+      return [{ step, depth, iteration: '', result: source.stepResults[step.id] }];
+    }
+    return iterations.map(result => ({
+      step,
+      depth,
+      iteration: formatLoopPath(result.loopContext, getLoopName),
+      result,
+    }));
+  });
+}
+
+/**
+ * Milliseconds between two ISO timestamps (0 if either is missing)
+ */
+function elapsedMs(startedAt?: string, completedAt?: string): number {
+  if (!startedAt || !completedAt) return 0;
+  return Math.max(0, new Date(completedAt).getTime() - new Date(startedAt).getTime());
+}
+
+/**
+ * Duration of one execution (response time for requests, otherwise timestamps)
+ */
+function caseDurationMs(result?: StepExecutionResult): number {
+  if (!result) return 0;
+  return result.response?.duration ?? elapsedMs(result.startedAt, result.completedAt);
+}
+
+/**
+ * Serializes a value for display (strings are kept as-is)
+ */
+function stringify(value: unknown): string {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Describes why an execution failed (error, request, response and failed assertions)
+ */
+function describeFailure(result: StepExecutionResult): string {
+  const lines: string[] = [];
+
+  if (result.error) {
+    lines.push(`${result.error.code}: ${result.error.message}`);
+  }
+  if (result.request) {
+    lines.push(`Request: ${result.request.method} ${result.request.url}`);
+  }
+  if (result.response) {
+    lines.push(`Response: ${result.response.status} ${result.response.statusText} (${result.response.duration}ms)`);
+  }
+  result.assertionResults
+    ?.filter(assertion => !assertion.passed)
+    .forEach(assertion => {
+      lines.push(`Assertion failed: ${assertion.label}${assertion.message ? ` - ${assertion.message}` : ''}`);
+    });
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// JUnit XML
+// ============================================================================
+
+/**
+ * Escapes text for XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Formats milliseconds as JUnit seconds
+ */
+function toSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * Generates a JUnit XML report with one testcase per step or loop iteration
+ *
+ * Failed executions become <failure>, warnings pass with the failure in
+ * <system-out>, and skipped, cancelled and never executed steps become <skipped>.
+ * Environment and parameters are written as properties.
+ *
+ * @param scenario - Executed scenario
+ * @param source - Execution result or context
+ * @returns JUnit XML document
+ */
+export function generateJUnitReport(scenario: Scenario, source: ReportSource): string {
+  const cases = collectCases(scenario, source);
+  const failures = cases.filter(c => c.result?.status === 'failed').length;
+  const skipped = cases.filter(
+    c => c.result?.status !== 'success' && c.result?.status !== 'failed' && c.result?.status !== 'warning'
+  ).length;
+  const totalMs = elapsedMs(source.startedAt, source.completedAt);
+
+  const properties = [
+    ['executionId', source.id],
+    ['status', source.status],
+    ['environment', source.environmentName ?? ''],
+    ...Object.entries(source.params ?? {}).map(([name, value]) => [`param.${name}`, stringify(value)]),
+  ]
+    .map(([name, value]) => `      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`)
+    .join('\n');
+
+  const testcases = cases.map(({ step, iteration, result }) => {
+    const name = iteration ? `${step.name} [${iteration}]` : step.name;
+    const attributes = `name="${escapeXml(name)}" classname="${escapeXml(`${scenario.name}.${step.type}`)}" time="${toSeconds(caseDurationMs(result))}"`;
+
+    if (result?.status === 'failed') {
+      const message = result.error?.message ?? 'Step failed';
+      return [
+        `    <testcase ${attributes}>`,
+        `      <failure message="${escapeXml(message)}" type="${escapeXml(result.error?.code ?? 'FAILED')}">${escapeXml(describeFailure(result))}</failure>`,
+        `    </testcase>`,
+      ].join('\n');
+    }
+
+    if (result?.status === 'success') {
+      return `    <testcase ${attributes}/>`;
+    }
+
+    if (result?.status === 'warning') {
+      return [
+        `    <testcase ${attributes}>`,
+        `      <system-out>${escapeXml(`Warning: ${describeFailure(result)}`)}</system-out>`,
+        `    </testcase>`,
+      ].join('\n');
+    }
+
+    const reason = result ? `Step ${result.status}` : 'Not executed';
+    return [
+      `    <testcase ${attributes}>`,
+      `      <skipped message="${escapeXml(reason)}"/>`,
+      `    </testcase>`,
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(scenario.name)}" tests="${cases.length}" failures="${failures}" skipped="${skipped}" time="${toSeconds(totalMs)}">`,
+    `  <testsuite name="${escapeXml(scenario.name)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${toSeconds(totalMs)}"${source.startedAt ? ` timestamp="${escapeXml(source.startedAt)}"` : ''}>`,
+    '    <properties>',
+    properties,
+    '    </properties>',
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: '#2e7d32',
+  success: '#2e7d32',
+  failed: '#d32f2f',
+  warning: '#ed6c02',
+  running: '#1976d2',
+  paused: '#ed6c02',
+  waiting: '#ed6c02',
+  skipped: '#757575',
+  cancelled: '#757575',
+  pending: '#9e9e9e',
+  idle: '#9e9e9e',
+};
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 24px; color: #212121; }
+  h1 { font-size: 1.5rem; margin: 0 0 4px; }
+  h2 { font-size: 1.1rem; margin: 32px 0 8px; }
+  .meta { color: #616161; font-size: 0.875rem; }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 10px; color: #fff; font-size: 0.75rem; text-transform: capitalize; }
+  .summary { display: flex; gap: 24px; margin: 16px 0; }
+  .summary div { font-size: 0.875rem; }
+  .summary strong { display: block; font-size: 1.25rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.8125rem; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e0e0e0; vertical-align: top; }
+  th { background: #fafafa; }
+  .timeline { position: relative; height: 10px; background: #f5f5f5; border-radius: 2px; min-width: 160px; }
+  .timeline span { position: absolute; top: 0; height: 10px; border-radius: 2px; }
+  .muted { color: #9e9e9e; }
+  details { border: 1px solid #e0e0e0; border-radius: 4px; margin: 6px 0; padding: 6px 10px; }
+  details[open] { background: #fcfcfc; }
+  summary { cursor: pointer; font-size: 0.875rem; }
+  pre { background: #f5f5f5; padding: 8px; border-radius: 4px; overflow: auto; max-height: 320px; font-size: 0.75rem; white-space: pre-wrap; word-break: break-word; }
+  .error { color: #d32f2f; }
+  .log-error { color: #d32f2f; }
+  .log-warn { color: #ed6c02; }
+`;
+
+/**
+ * Escapes text for HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats milliseconds for display
+ */
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+/**
+ * Renders a status badge
+ */
+function badge(status: string): string {
+  const color = STATUS_COLORS[status] ?? '#9e9e9e';
+  return `<span class="badge" style="background:${color}">${escapeHtml(status)}</span>`;
+}
+
+/**
+ * Renders a labelled preformatted block (nothing for empty values)
+ */
+function block(label: string, value: unknown): string {
+  const text = stringify(value);
+  if (!text) return '';
+  return `<div><strong>${escapeHtml(label)}</strong><pre>${escapeHtml(text)}</pre></div>`;
+}
+
+/**
+ * Renders the details of one execution (request, response, assertions, variables, error)
+ */
+function renderCaseDetails({ step, iteration, result }: ReportCase): string {
+  if (!result) return '';
+
+  const title = iteration ? `${step.name} [${iteration}]` : step.name;
+  const parts: string[] = [];
+
+  if (result.error) {
+    parts.push(`<p class="error"><strong>${escapeHtml(result.error.code)}</strong>: ${escapeHtml(result.error.message)}</p>`);
+    parts.push(block('Error details', result.error.details));
+  }
+
+  if (result.request) {
+    parts.push(block('Request', `${result.request.method} ${result.request.url}`));
+    parts.push(block('Request headers', result.request.headers));
+    parts.push(block('Request body', result.request.body));
+  }
+
+  if (result.response) {
+    parts.push(block('Response', `${result.response.status} ${result.response.statusText} (${result.response.duration}ms)`));
+    parts.push(block('Response headers', result.response.headers));
+    parts.push(block('Response body', result.response.data));
+  }
+
+  if (result.attempts && result.attempts.length > 1) {
+    const rows = result.attempts
+      .map(a => `<tr><td>${a.attempt}</td><td>${a.status ?? '-'}</td><td>${a.duration}ms</td><td>${escapeHtml(a.error ?? '')}</td></tr>`)
+      .join('');
+    parts.push(`<div><strong>Attempts</strong><table><tr><th>#</th><th>Status</th><th>Duration</th><th>Error</th></tr>${rows}</table></div>`);
+  }
+
+  if (result.assertionResults && result.assertionResults.length > 0) {
+    const rows = result.assertionResults
+      .map(a => `<tr><td>${a.passed ? '✔' : '<span class="error">✘</span>'}</td><td>${escapeHtml(a.label)}</td><td>${escapeHtml(stringify(a.actual))}</td><td>${escapeHtml(a.message ?? '')}</td></tr>`)
+      .join('');
+    parts.push(`<div><strong>Assertions</strong><table><tr><th></th><th>Check</th><th>Actual</th><th>Message</th></tr>${rows}</table></div>`);
+  }
+
+  if (result.variables && Object.keys(result.variables).length > 0) {
+    parts.push(block('Variables', result.variables));
+  }
+
+  const content = parts.filter(Boolean).join('\n');
+  if (!content) return '';
+
+  return `<details${result.status === 'failed' || result.status === 'warning' ? ' open' : ''}><summary>${badge(result.status)} ${escapeHtml(title)}</summary>\n${content}\n</details>`;
+}
+
+/**
+ * Generates a self-contained HTML report (no external assets)
+ *
+ * Contains the run summary, the flow with per-step status and a timeline,
+ * request/response details of every execution and the execution log.
+ *
+ * @param scenario - Executed scenario
+ * @param source - Execution result or context
+ * @returns HTML document
+ */
+export function generateHtmlReport(scenario: Scenario, source: ReportSource): string {
+  const cases = collectCases(scenario, source);
+  const passed = cases.filter(c => c.result?.status === 'success').length;
+  const failed = cases.filter(c => c.result?.status === 'failed').length;
+  const warnings = cases.filter(c => c.result?.status === 'warning').length;
+  const notRun = cases.length - passed - failed - warnings;
+  const totalMs = elapsedMs(source.startedAt, source.completedAt);
+  const runStart = source.startedAt ? new Date(source.startedAt).getTime() : 0;
+
+  const flowRows = cases.map(({ step, depth, iteration, result }) => {
+    let timeline = '<div class="timeline"></div>';
+    if (result?.startedAt && runStart && totalMs > 0) {
+      const offset = new Date(result.startedAt).getTime() - runStart;
+      const duration = elapsedMs(result.startedAt, result.completedAt);
+      const left = Math.min(100, (offset / totalMs) * 100);
+      const width = Math.max(0.5, Math.min(100 - left, (duration / totalMs) * 100));
+      timeline = `<div class="timeline"><span style="left:${left.toFixed(2)}%;width:${width.toFixed(2)}%;background:${STATUS_COLORS[result.status] ?? '#9e9e9e'}"></span></div>`;
+    }
+
+    const summary = result?.error?.message
+      ?? (result?.response ? `${result.response.status} ${result.response.statusText}` : '');
+
+    return `<tr>
+      <td style="padding-left:${8 + depth * 16}px">${depth > 0 ? '<span class="muted">↳</span> ' : ''}${escapeHtml(step.name)}${iteration ? ` <span class="muted">[${escapeHtml(iteration)}]</span>` : ''}</td>
+      <td>${escapeHtml(step.type === 'request' ? step.method : step.type)}</td>
+      <td>${result ? badge(result.status) : '<span class="muted">not run</span>'}</td>
+      <td>${result ? formatMs(caseDurationMs(result)) : ''}</td>
+      <td>${timeline}</td>
+      <td class="${result?.status === 'failed' ? 'error' : ''}">${escapeHtml(summary)}</td>
+    </tr>`;
+  }).join('\n');
+
+  const details = cases.map(renderCaseDetails).filter(Boolean).join('\n');
+
+  const logRows = source.logs
+    .map(log => `<tr class="log-${log.level}"><td>${escapeHtml(new Date(log.timestamp).toISOString().slice(11, 23))}</td><td>${log.level}</td><td>${escapeHtml(log.message)}</td></tr>`)
+    .join('\n');
+
+  const params = source.params && Object.keys(source.params).length > 0
+    ? block('Parameters', source.params)
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(scenario.name)} - Execution Report</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(scenario.name)} ${badge(source.status)}</h1>
+<div class="meta">
+  Execution ${escapeHtml(source.id)}
+  ${source.startedAt ? ` · Started ${escapeHtml(new Date(source.startedAt).toLocaleString())}` : ''}
+  ${source.environmentName ? ` · Environment "${escapeHtml(source.environmentName)}"` : ''}
+</div>
+<div class="summary">
+  <div><strong>${formatMs(totalMs)}</strong>Duration</div>
+  <div><strong>${passed}</strong>Passed</div>
+  <div><strong class="${failed > 0 ? 'error' : ''}">${failed}</strong>Failed</div>
+  <div><strong>${warnings}</strong>Warnings</div>
+  <div><strong>${notRun}</strong>Skipped / not run</div>
+</div>
+${params}
+
+<h2>Flow</h2>
+<table>
+  <tr><th>Step</th><th>Type</th><th>Status</th><th>Duration</th><th>Timeline</th><th>Result</th></tr>
+  ${flowRows}
+</table>
+
+<h2>Details</h2>
+${details || '<p class="muted">No step details recorded.</p>'}
+
+<h2>Log</h2>
+<details>
+  <summary>${source.logs.length} entries</summary>
+  <table>
+    <tr><th>Time</th><th>Level</th><th>Message</th></tr>
+    ${logRows}
+  </table>
+</details>
+</body>
+</html>
+`;
+}
@@ -1,17 +1,35 @@
 /**
  * Storage Service
- * Handles IndexedDB persistence for scenarios and servers
+ * Handles IndexedDB persistence for scenarios, servers, environments, secrets,
+ * execution history and run counters
  * Provides import/export functionality with JSON and YAML formats
+ * Secret values are masked in exports unless explicitly included
  */
 
 import { openDB, type IDBPDatabase } from 'idb';
 import * as yaml from 'js-yaml';
-import type { Scenario, Server } from '@/types';
+import type { Scenario, Server, Environment, Secret, ExecutionContext } from '@/types';
+import { getSecretValues, redactSecrets } from '@/engine/secrets';
+import {
+  convertPostmanCollection,
+  isPostmanCollection,
+  type PostmanImportResult,
+} from './postmanImport';
+import {
+  convertOpenApiDocument,
+  isOpenApiDocument,
+  type OpenApiImportResult,
+} from './openApiImport';
 
 const DB_NAME = 'scenario-tool-db';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 const SCENARIOS_STORE = 'scenarios';
 const SERVERS_STORE = 'servers';
+const ENVIRONMENTS_STORE = 'environments';
+const SECRETS_STORE = 'secrets';
+const EXECUTIONS_STORE = 'executions';
+const RUN_COUNTERS_STORE = 'runCounters';
+const ACTIVE_ENVIRONMENT_KEY = 'scenario-tool-active-environment';
 
 interface ScenarioToolDBSchema {
   scenarios: {
@@ -22,6 +40,31 @@ interface ScenarioToolDBSchema {
     key: string;
     value: Server;
   };
+  environments: {
+    key: string;
+    value: Environment;
+  };
+  secrets: {
+    key: string;
+    value: Secret;
+  };
+  executions: {
+    key: string;
+    value: ExecutionContext;
+    indexes: { scenarioId: string; startedAt: string };
+  };
+  runCounters: {
+    key: string;
+    value: RunCounter;
+  };
+}
+
+/**
+ * Last run number of a scenario
+ */
+interface RunCounter {
+  scenarioId: string;
+  runNumber: number;
 }
 
 type ScenarioToolDB = IDBPDatabase<ScenarioToolDBSchema>;
@@ -48,6 +91,30 @@ export async function initDatabase(): Promise<ScenarioToolDB> {
           serversStore.createIndex('name', 'name', { unique: false });
           serversStore.createIndex('createdAt', 'createdAt', { unique: false });
         }
+
+        // Create environments store if it doesn't exist (added in version 2)
+        if (!db.objectStoreNames.contains(ENVIRONMENTS_STORE)) {
+          const environmentsStore = db.createObjectStore(ENVIRONMENTS_STORE, { keyPath: 'id' });
+          environmentsStore.createIndex('name', 'name', { unique: false });
+        }
+
+        // Create secrets store if it doesn't exist (added in version 3)
+        if (!db.objectStoreNames.contains(SECRETS_STORE)) {
+          const secretsStore = db.createObjectStore(SECRETS_STORE, { keyPath: 'id' });
+          secretsStore.createIndex('name', 'name', { unique: false });
+        }
+
+        // Create executions store if it doesn't exist (added in version 4)
+        if (!db.objectStoreNames.contains(EXECUTIONS_STORE)) {
+          const executionsStore = db.createObjectStore(EXECUTIONS_STORE, { keyPath: 'id' });
+          executionsStore.createIndex('scenarioId', 'scenarioId', { unique: false });
+          executionsStore.createIndex('startedAt', 'startedAt', { unique: false });
+        }
+
+        // Create run counters store if it doesn't exist (added in version 5)
+        if (!db.objectStoreNames.contains(RUN_COUNTERS_STORE)) {
+          db.createObjectStore(RUN_COUNTERS_STORE, { keyPath: 'scenarioId' });
+        }
       },
     });
     return db;
@@ -168,12 +235,168 @@ export async function deleteServerFromDB(id: string): Promise<void> {
   }
 }
 
+/**
+ * Save all environments to IndexedDB
+ * Replaces the stored set so deleted environments are removed
+ */
+export async function saveEnvironments(environments: Environment[]): Promise<void> {
+  try {
+    const db = await initDatabase();
+    const tx = db.transaction(ENVIRONMENTS_STORE, 'readwrite');
+
+    await tx.store.clear();
+    await Promise.all(environments.map(environment => tx.store.put(environment)));
+    await tx.done;
+  } catch (error) {
+    console.error('Failed to save environments:', error);
+    throw new Error(`Failed to save environments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load all environments from IndexedDB
+ */
+export async function loadEnvironments(): Promise<Environment[]> {
+  try {
+    const db = await initDatabase();
+    return await db.getAll(ENVIRONMENTS_STORE);
+  } catch (error) {
+    console.error('Failed to load environments:', error);
+    throw new Error(`Failed to load environments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Save all secrets to IndexedDB
+ * Replaces the stored set so deleted secrets are removed
+ */
+export async function saveSecrets(secrets: Secret[]): Promise<void> {
+  try {
+    const db = await initDatabase();
+    const tx = db.transaction(SECRETS_STORE, 'readwrite');
+
+    await tx.store.clear();
+    await Promise.all(secrets.map(secret => tx.store.put(secret)));
+    await tx.done;
+  } catch (error) {
+    console.error('Failed to save secrets:', error);
+    throw new Error(`Failed to save secrets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load all secrets from IndexedDB
+ */
+export async function loadSecrets(): Promise<Secret[]> {
+  try {
+    const db = await initDatabase();
+    return await db.getAll(SECRETS_STORE);
+  } catch (error) {
+    console.error('Failed to load secrets:', error);
+    throw new Error(`Failed to load secrets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Save a finished execution (with its logs and step results) to IndexedDB
+ */
+export async function saveExecution(execution: ExecutionContext): Promise<void> {
+  try {
+    const db = await initDatabase();
+    await db.put(EXECUTIONS_STORE, execution);
+  } catch (error) {
+    console.error('Failed to save execution:', error);
+    throw new Error(`Failed to save execution: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load stored executions, newest first
+ */
+export async function loadExecutions(): Promise<ExecutionContext[]> {
+  try {
+    const db = await initDatabase();
+    const executions = await db.getAllFromIndex(EXECUTIONS_STORE, 'startedAt');
+    return executions.reverse();
+  } catch (error) {
+    console.error('Failed to load executions:', error);
+    throw new Error(`Failed to load executions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Delete a stored execution from IndexedDB
+ */
+export async function deleteExecution(id: string): Promise<void> {
+  try {
+    const db = await initDatabase();
+    await db.delete(EXECUTIONS_STORE, id);
+  } catch (error) {
+    console.error('Failed to delete execution:', error);
+    throw new Error(`Failed to delete execution: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Save the last run number of a scenario to IndexedDB
+ */
+export async function saveRunCounter(scenarioId: string, runNumber: number): Promise<void> {
+  try {
+    const db = await initDatabase();
+    await db.put(RUN_COUNTERS_STORE, { scenarioId, runNumber });
+  } catch (error) {
+    console.error('Failed to save run counter:', error);
+    throw new Error(`Failed to save run counter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load the last run number of each scenario (scenario ID -> run number)
+ */
+export async function loadRunCounters(): Promise<Record<string, number>> {
+  try {
+    const db = await initDatabase();
+    const counters = await db.getAll(RUN_COUNTERS_STORE);
+    return Object.fromEntries(counters.map(counter => [counter.scenarioId, counter.runNumber]));
+  } catch (error) {
+    console.error('Failed to load run counters:', error);
+    throw new Error(`Failed to load run counters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load the ID of the environment selected in the last session
+ */
+export function loadActiveEnvironmentId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_ENVIRONMENT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the selected environment across sessions
+ */
+export function saveActiveEnvironmentId(id: string | null): void {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_ENVIRONMENT_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_ENVIRONMENT_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to save active environment:', error);
+  }
+}
+
 /**
  * Export a scenario to JSON string
+ * Any secret value that appears literally in the scenario is masked
  */
-export function exportToJson(scenario: Scenario): string {
+export function exportToJson(scenario: Scenario, secrets: Record<string, string> = {}): string {
   try {
-    return JSON.stringify(scenario, null, 2);
+    return JSON.stringify(redactSecrets(scenario, secrets), null, 2);
   } catch (error) {
     console.error('Failed to export to JSON:', error);
     throw new Error(`Failed to export to JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -210,10 +433,11 @@ export function importFromJson(json: string): Scenario {
 
 /**
  * Export a scenario to YAML string
+ * Any secret value that appears literally in the scenario is masked
  */
-export function exportToYaml(scenario: Scenario): string {
+export function exportToYaml(scenario: Scenario, secrets: Record<string, string> = {}): string {
   try {
-    return yaml.dump(scenario, {
+    return yaml.dump(redactSecrets(scenario, secrets), {
       indent: 2,
       lineWidth: 120,
       noRefs: true,
@@ -284,6 +508,99 @@ export function importServersFromJson(json: string): Server[] {
   }
 }
 
+/**
+ * Import environments from JSON string
+ */
+export function importEnvironmentsFromJson(json: string): Environment[] {
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Expected an array of environments');
+    }
+    parsed.forEach(validateEnvironment);
+    return parsed as Environment[];
+  } catch (error) {
+    console.error('Failed to import environments from JSON:', error);
+    if (error instanceof SyntaxError) {
+      throw new Error('Invalid JSON format');
+    }
+    throw new Error(`Failed to import environments from JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Import a scenario from a Postman v2.1 collection
+ * Values from the optional Postman environment become server base URLs and parameter defaults
+ */
+export function importFromPostman(
+  collectionJson: string,
+  environmentJson?: string,
+  existingServers: Server[] = []
+): PostmanImportResult {
+  try {
+    const collection = JSON.parse(collectionJson);
+    const environment = environmentJson ? JSON.parse(environmentJson) : undefined;
+    const result = convertPostmanCollection(collection, environment, existingServers);
+
+    validateScenario(result.scenario);
+    result.servers.forEach(validateServer);
+    sanitizeStepReferences(result.scenario);
+
+    return result;
+  } catch (error) {
+    console.error('Failed to import Postman collection:', error);
+    if (error instanceof SyntaxError) {
+      throw new Error('Invalid JSON format');
+    }
+    throw new Error(`Failed to import Postman collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Import a server with request templates from an OpenAPI 3 document (JSON or YAML)
+ * An existing server with the same base URL receives the templates instead of a new server
+ */
+export function importFromOpenApi(text: string, existingServers: Server[] = []): OpenApiImportResult {
+  try {
+    const result = convertOpenApiDocument(parseJsonOrYaml(text), existingServers);
+    validateServer(result.server);
+    return result;
+  } catch (error) {
+    console.error('Failed to import OpenAPI document:', error);
+    if (error instanceof yaml.YAMLException) {
+      throw new Error(`Invalid JSON or YAML format: ${error.message}`);
+    }
+    throw new Error(`Failed to import OpenAPI document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Detect what kind of file is being imported
+ * Falls back to "scenario" when the content is not a recognized foreign format
+ */
+export function detectImportFormat(text: string): 'scenario' | 'postman' | 'openapi' {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonOrYaml(text);
+  } catch {
+    return 'scenario';
+  }
+  if (isPostmanCollection(parsed)) return 'postman';
+  if (isOpenApiDocument(parsed)) return 'openapi';
+  return 'scenario';
+}
+
+/**
+ * Parse JSON, falling back to YAML
+ */
+function parseJsonOrYaml(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return yaml.load(text);
+  }
+}
+
 /**
  * Sanitize step references in a scenario to remove references to non-existent steps
  * This prevents rendering issues when importing scenarios with invalid references
@@ -407,16 +724,73 @@ function validateServer(obj: unknown): asserts obj is Server {
   }
 }
 
+/**
+ * Validate that an object is a valid Environment
+ */
+function validateEnvironment(obj: unknown): asserts obj is Environment {
+  if (!obj || typeof obj !== 'object') {
+    throw new Error('Invalid environment: must be an object');
+  }
+
+  const environment = obj as Partial<Environment>;
+
+  if (!environment.id || typeof environment.id !== 'string') {
+    throw new Error('Invalid environment: missing or invalid id');
+  }
+
+  if (!environment.name || typeof environment.name !== 'string') {
+    throw new Error('Invalid environment: missing or invalid name');
+  }
+
+  if (!Array.isArray(environment.variables)) {
+    throw new Error('Invalid environment: variables must be an array');
+  }
+
+  if (!Array.isArray(environment.serverOverrides)) {
+    throw new Error('Invalid environment: serverOverrides must be an array');
+  }
+}
+
+/**
+ * Validate that an object is a valid Secret
+ */
+function validateSecret(obj: unknown): asserts obj is Secret {
+  if (!obj || typeof obj !== 'object') {
+    throw new Error('Invalid secret: must be an object');
+  }
+
+  const secret = obj as Partial<Secret>;
+
+  if (!secret.id || typeof secret.id !== 'string') {
+    throw new Error('Invalid secret: missing or invalid id');
+  }
+
+  if (!secret.name || typeof secret.name !== 'string') {
+    throw new Error('Invalid secret: missing or invalid name');
+  }
+
+  if (typeof secret.value !== 'string') {
+    throw new Error('Invalid secret: value must be a string');
+  }
+}
+
 /**
  * Clear all data from IndexedDB
  */
 export async function clearAllData(): Promise<void> {
   try {
     const db = await initDatabase();
-    const tx = db.transaction([SCENARIOS_STORE, SERVERS_STORE], 'readwrite');
+    const tx = db.transaction(
+      [SCENARIOS_STORE, SERVERS_STORE, ENVIRONMENTS_STORE, SECRETS_STORE, EXECUTIONS_STORE, RUN_COUNTERS_STORE],
+      'readwrite'
+    );
     await Promise.all([
       tx.objectStore(SCENARIOS_STORE).clear(),
       tx.objectStore(SERVERS_STORE).clear(),
+      tx.objectStore(ENVIRONMENTS_STORE).clear(),
+      tx.objectStore(SECRETS_STORE).clear(),
+      tx.objectStore(EXECUTIONS_STORE).clear(),
+      tx.objectStore(RUN_COUNTERS_STORE).clear(),
     ]);
     await tx.done;
   } catch (error) {
@@ -426,22 +800,32 @@ export async function clearAllData(): Promise<void> {
 }
 
 /**
- * Export all data (scenarios and servers) to a single JSON file
+ * Export all data (scenarios, servers and environments) to a single JSON file
+ * Secrets are left out and their values masked unless includeSecrets is set
  */
-export async function exportAllData(): Promise<string> {
+export async function exportAllData(
+  options: { includeSecrets?: boolean } = {}
+): Promise<string> {
   try {
-    const [scenarios, servers] = await Promise.all([
+    const [scenarios, servers, environments, secrets] = await Promise.all([
       loadScenarios(),
       loadServers(),
+      loadEnvironments(),
+      loadSecrets(),
     ]);
 
+    const data = {
+      version: '1.0.0',
+      exportedAt: new Date().toISOString(),
+      scenarios,
+      servers,
+      environments,
+    };
+
     return JSON.stringify(
-      {
-        version: '1.0.0',
-        exportedAt: new Date().toISOString(),
-        scenarios,
-        servers,
-      },
+      options.includeSecrets
+        ? { ...data, secrets }
+        : redactSecrets(data, getSecretValues(secrets)),
       null,
       2
     );
@@ -452,9 +836,11 @@ export async function exportAllData(): Promise<string> {
 }
 
 /**
- * Import all data (scenarios and servers) from a JSON file
+ * Import all data (scenarios, servers, environments and secrets) from a JSON file
  */
-export async function importAllData(json: string): Promise<{ scenarios: number; servers: number }> {
+export async function importAllData(
+  json: string
+): Promise<{ scenarios: number; servers: number; environments: number; secrets: number }> {
   try {
     const parsed = JSON.parse(json);
 
@@ -466,6 +852,8 @@ export async function importAllData(json: string): Promise<{ scenarios: number;
       version?: string;
       scenarios?: Scenario[];
       servers?: Server[];
+      environments?: Environment[];
+      secrets?: Secret[];
     };
 
     // Validate scenarios
@@ -478,12 +866,24 @@ export async function importAllData(json: string): Promise<{ scenarios: number;
       data.servers.forEach(validateServer);
     }
 
+    // Validate environments
+    if (data.environments && Array.isArray(data.environments)) {
+      data.environments.forEach(validateEnvironment);
+    }
+
+    // Validate secrets
+    if (data.secrets && Array.isArray(data.secrets)) {
+      data.secrets.forEach(validateSecret);
+    }
+
     // Save to database
     const db = await initDatabase();
-    const tx = db.transaction([SCENARIOS_STORE, SERVERS_STORE], 'readwrite');
+    const tx = db.transaction([SCENARIOS_STORE, SERVERS_STORE, ENVIRONMENTS_STORE, SECRETS_STORE], 'readwrite');
 
     let scenariosCount = 0;
     let serversCount = 0;
+    let environmentsCount = 0;
+    let secretsCount = 0;
 
     if (data.scenarios) {
       await Promise.all(
@@ -503,9 +903,32 @@ export async function importAllData(json: string): Promise<{ scenarios: number;
       );
     }
 
+    if (data.environments) {
+      await Promise.all(
+        data.environments.map(async environment => {
+          await tx.objectStore(ENVIRONMENTS_STORE).put(environment);
+          environmentsCount++;
+        })
+      );
+    }
+
+    if (data.secrets) {
+      await Promise.all(
+        data.secrets.map(async secret => {
+          await tx.objectStore(SECRETS_STORE).put(secret);
+          secretsCount++;
+        })
+      );
+    }
+
     await tx.done;
 
-    return { scenarios: scenariosCount, servers: serversCount };
+    return {
+      scenarios: scenariosCount,
+      servers: serversCount,
+      environments: environmentsCount,
+      secrets: secretsCount,
+    };
   } catch (error) {
     console.error('Failed to import all data:', error);
     if (error instanceof SyntaxError) {
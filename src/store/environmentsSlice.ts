@@ -0,0 +1,85 @@
+/**
+ * Environments Slice
+ * Manages named environments and the environment used for execution
+ */
+
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { Environment } from '@/types';
+
+interface EnvironmentsState {
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+}
+
+const initialState: EnvironmentsState = {
+  environments: [],
+  activeEnvironmentId: null,
+};
+
+const environmentsSlice = createSlice({
+  name: 'environments',
+  initialState,
+  reducers: {
+    addEnvironment: (state, action: PayloadAction<Environment>) => {
+      state.environments.push(action.payload);
+    },
+
+    updateEnvironment: (state, action: PayloadAction<{ id: string; changes: Partial<Environment> }>) => {
+      const index = state.environments.findIndex(e => e.id === action.payload.id);
+      if (index !== -1) {
+        state.environments[index] = {
+          ...state.environments[index],
+          ...action.payload.changes,
+          updatedAt: new Date().toISOString(),
+        };
+      }
+    },
+
+    deleteEnvironment: (state, action: PayloadAction<string>) => {
+      state.environments = state.environments.filter(e => e.id !== action.payload);
+      if (state.activeEnvironmentId === action.payload) {
+        state.activeEnvironmentId = null;
+      }
+    },
+
+    duplicateEnvironment: (state, action: PayloadAction<string>) => {
+      const original = state.environments.find(e => e.id === action.payload);
+      if (original) {
+        const timestamp = Date.now();
+        const duplicate: Environment = {
+          ...original,
+          id: `env_${timestamp}`,
+          name: `${original.name}_copy`,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+        state.environments.push(duplicate);
+      }
+    },
+
+    setActiveEnvironment: (state, action: PayloadAction<string | null>) => {
+      state.activeEnvironmentId = action.payload;
+    },
+
+    // Bulk operations
+    loadEnvironments: (state, action: PayloadAction<Environment[]>) => {
+      state.environments = action.payload;
+      // If active environment no longer exists, fall back to server defaults
+      if (state.activeEnvironmentId && !action.payload.find(e => e.id === state.activeEnvironmentId)) {
+        state.activeEnvironmentId = null;
+      }
+    },
+  },
+});
+
+export const {
+  addEnvironment,
+  updateEnvironment,
+  deleteEnvironment,
+  duplicateEnvironment,
+  setActiveEnvironment,
+  loadEnvironments,
+} = environmentsSlice.actions;
+
+export default environmentsSlice.reducer;
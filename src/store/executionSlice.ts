@@ -19,6 +19,8 @@ interface ExecutionState {
   context: ExecutionContext | null;
   history: ExecutionContext[];
   maxHistorySize: number;
+  runCounters: Record<string, number>; // Last run number of each scenario, persisted so numbers are never reused
+  viewingRunId: string | null; // Past run reopened read-only from history
   executor: ScenarioExecutor | null; // Non-serializable, runtime only
 }
 
@@ -26,9 +28,21 @@ const initialState: ExecutionState = {
   context: null,
   history: [],
   maxHistorySize: 50,
+  runCounters: {},
+  viewingRunId: null,
   executor: null,
 };
 
+/**
+ * Raises the run counter of a scenario to the given run number
+ * Counters only grow, so deleting runs from history never frees their numbers
+ */
+function countRun(runCounters: Record<string, number>, scenarioId: string, runNumber: number) {
+  if (runNumber > (runCounters[scenarioId] ?? 0)) {
+    runCounters[scenarioId] = runNumber;
+  }
+}
+
 const executionSlice = createSlice({
   name: 'execution',
   initialState,
@@ -37,25 +51,38 @@ const executionSlice = createSlice({
     startExecution: (
       state,
       action: PayloadAction<{
+        id?: string;
         scenarioId: string;
+        runNumber?: number;
         params: Record<string, unknown>;
         stepModeOverrides?: Record<string, ExecutionMode>;
+        environmentId?: string;
+        environmentName?: string;
       }>
     ) => {
       const newContext: ExecutionContext = {
-        id: `exec_${Date.now()}`,
+        id: action.payload.id ?? `exec_${Date.now()}`,
         scenarioId: action.payload.scenarioId,
+        runNumber: action.payload.runNumber,
         status: 'running',
+        environmentId: action.payload.environmentId,
+        environmentName: action.payload.environmentName,
         params: action.payload.params,
         stepModeOverrides: action.payload.stepModeOverrides || {},
         stepResults: {},
+        iterationResults: {},
         responses: {},
+        variables: {},
         loopContextStack: [],
         activeLoopStack: [],
         logs: [],
         startedAt: new Date().toISOString(),
       };
       state.context = newContext;
+      state.viewingRunId = null;
+      if (action.payload.runNumber !== undefined) {
+        countRun(state.runCounters, action.payload.scenarioId, action.payload.runNumber);
+      }
     },
 
     pauseExecution: state => {
@@ -86,6 +113,7 @@ const executionSlice = createSlice({
     resetExecution: state => {
       state.context = null;
       state.executor = null;
+      state.viewingRunId = null;
     },
 
     // Executor management
@@ -95,6 +123,11 @@ const executionSlice = createSlice({
 
     clearExecutor: state => {
       state.executor = null;
+
+      // Logs added after the status change are missing from the history entry
+      if (state.context && state.history[0]?.id === state.context.id) {
+        state.history[0] = state.context;
+      }
     },
 
     // Step execution
@@ -107,6 +140,9 @@ const executionSlice = createSlice({
     updateStepResult: (state, action: PayloadAction<StepExecutionResult>) => {
       if (state.context) {
         state.context.stepResults[action.payload.stepId] = action.payload;
+        if (action.payload.iterationKey) {
+          state.context.iterationResults[action.payload.iterationKey] = action.payload;
+        }
       }
     },
 
@@ -120,6 +156,13 @@ const executionSlice = createSlice({
       }
     },
 
+    // Scenario variables
+    setVariables: (state, action: PayloadAction<Record<string, unknown>>) => {
+      if (state.context) {
+        state.context.variables = action.payload;
+      }
+    },
+
     // Parameter values
     setParameterValues: (state, action: PayloadAction<Record<string, unknown>>) => {
       if (state.context) {
@@ -186,7 +229,7 @@ const executionSlice = createSlice({
 
     updateLoopIteration: (
       state,
-      action: PayloadAction<{ stepId: string; currentIteration: number }>
+      action: PayloadAction<{ stepId: string; currentIteration: number; inFlight?: number[] }>
     ) => {
       if (state.context) {
         const loopIndex = state.context.activeLoopStack.findIndex(
@@ -195,6 +238,7 @@ const executionSlice = createSlice({
         if (loopIndex !== -1) {
           state.context.activeLoopStack[loopIndex].currentIteration =
             action.payload.currentIteration;
+          state.context.activeLoopStack[loopIndex].inFlight = action.payload.inFlight;
         }
       }
     },
@@ -232,12 +276,59 @@ const executionSlice = createSlice({
     },
 
     // History management
+    loadHistory: (state, action: PayloadAction<ExecutionContext[]>) => {
+      // Merge with runs finished before the stored history was loaded
+      const existingIds = new Set(state.history.map(h => h.id));
+      state.history = [
+        ...state.history,
+        ...action.payload
+          .filter(h => !existingIds.has(h.id))
+          // Runs stored before per-iteration results were recorded
+          .map(h => ({ ...h, iterationResults: h.iterationResults ?? {} })),
+      ]
+        .sort((a, b) => (b.startedAt ?? '').localeCompare(a.startedAt ?? ''))
+        .slice(0, state.maxHistorySize);
+      // Runs stored before run counters were persisted
+      for (const run of action.payload) {
+        countRun(state.runCounters, run.scenarioId, run.runNumber ?? 0);
+      }
+    },
+
+    loadRunCounters: (state, action: PayloadAction<Record<string, number>>) => {
+      for (const [scenarioId, runNumber] of Object.entries(action.payload)) {
+        countRun(state.runCounters, scenarioId, runNumber);
+      }
+    },
+
+    openHistoryRun: (state, action: PayloadAction<string>) => {
+      const run = state.history.find(h => h.id === action.payload);
+      if (run) {
+        state.context = run;
+        state.viewingRunId = run.id;
+      }
+    },
+
+    closeHistoryRun: state => {
+      if (state.viewingRunId) {
+        state.context = null;
+        state.viewingRunId = null;
+      }
+    },
+
     clearHistory: state => {
       state.history = [];
+      if (state.viewingRunId) {
+        state.context = null;
+        state.viewingRunId = null;
+      }
     },
 
     removeFromHistory: (state, action: PayloadAction<string>) => {
       state.history = state.history.filter(h => h.id !== action.payload);
+      if (state.viewingRunId === action.payload) {
+        state.context = null;
+        state.viewingRunId = null;
+      }
     },
 
     setMaxHistorySize: (state, action: PayloadAction<number>) => {
@@ -260,6 +351,7 @@ export const {
   setCurrentStep,
   updateStepResult,
   saveResponse,
+  setVariables,
   setParameterValues,
   updateParameterValue,
   setStepModeOverride,
@@ -272,6 +364,10 @@ export const {
   exitLoop,
   addLog,
   clearLogs,
+  loadHistory,
+  loadRunCounters,
+  openHistoryRun,
+  closeHistoryRun,
   clearHistory,
   removeFromHistory,
   setMaxHistorySize,
@@ -279,5 +375,6 @@ export const {
 
 // Selectors
 export const selectExecutor = (state: { execution: ExecutionState }) => state.execution.executor;
+export const selectRunCounters = (state: { execution: ExecutionState }) => state.execution.runCounters;
 
 export default executionSlice.reducer;
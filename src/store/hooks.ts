@@ -8,6 +8,7 @@ import type { TypedUseSelectorHook } from 'react-redux';
 import type { RootState, AppDispatch } from './index';
 import { useMemo } from 'react';
 import type { Scenario, Step, Server, ExecutionContext } from '@/types';
+import { getStepIterations } from '@/engine/iterations';
 
 // Basic typed hooks
 export const useAppDispatch = () => useDispatch<AppDispatch>();
@@ -35,6 +36,25 @@ export const useServerById = (serverId: string | null | undefined): Server | nul
   );
 };
 
+// Environment selectors
+export const useEnvironments = () => {
+  return useAppSelector(state => state.environments.environments);
+};
+
+export const useActiveEnvironment = () => {
+  const environments = useAppSelector(state => state.environments.environments);
+  const activeEnvironmentId = useAppSelector(state => state.environments.activeEnvironmentId);
+  return useMemo(
+    () => environments.find(e => e.id === activeEnvironmentId) || null,
+    [environments, activeEnvironmentId]
+  );
+};
+
+// Secret selectors
+export const useSecrets = () => {
+  return useAppSelector(state => state.secrets.secrets);
+};
+
 // Scenarios selectors (accessing .present due to redux-undo wrapper)
 export const useScenarios = () => {
   return useAppSelector(state => state.scenarios.present.scenarios);
@@ -90,12 +110,16 @@ export const useCurrentExecutionStep = () => {
   return useStepById(currentStepId);
 };
 
-export const useStepResult = (stepId: string | null | undefined) => {
+export const useStepResult = (
+  stepId: string | null | undefined,
+  iterationKey?: string | null
+) => {
   const context = useExecutionContext();
-  return useMemo(
-    () => (stepId && context ? context.stepResults[stepId] || null : null),
-    [context, stepId]
-  );
+  return useMemo(() => {
+    if (!stepId || !context) return null;
+    if (iterationKey) return context.iterationResults[iterationKey] || null;
+    return context.stepResults[stepId] || null;
+  }, [context, stepId, iterationKey]);
 };
 
 export const useStepResults = () => {
@@ -103,6 +127,19 @@ export const useStepResults = () => {
   return context?.stepResults || {};
 };
 
+export const useIterationResults = () => {
+  const context = useExecutionContext();
+  return context?.iterationResults || {};
+};
+
+export const useStepIterations = (stepId: string | null | undefined) => {
+  const iterationResults = useIterationResults();
+  return useMemo(
+    () => (stepId ? getStepIterations(iterationResults, stepId) : []),
+    [iterationResults, stepId]
+  );
+};
+
 export const useExecutionLogs = () => {
   const context = useExecutionContext();
   const filterLevel = useAppSelector(state => state.ui.logFilterLevel);
@@ -119,6 +156,11 @@ export const useExecutionResponses = () => {
   return context?.responses || {};
 };
 
+export const useExecutionVariables = () => {
+  const context = useExecutionContext();
+  return context?.variables || {};
+};
+
 export const useExecutionParams = () => {
   const context = useExecutionContext();
   return context?.params || {};
@@ -138,6 +180,10 @@ export const useExecutionHistory = () => {
   return useAppSelector(state => state.execution.history);
 };
 
+export const useViewingRunId = () => {
+  return useAppSelector(state => state.execution.viewingRunId);
+};
+
 // UI selectors
 export const useUIMode = () => {
   return useAppSelector(state => state.ui.mode);
@@ -154,6 +200,10 @@ export const useSelectedStepId = () => {
   return selectedStepId;
 };
 
+export const useSelectedIterationKey = () => {
+  return useAppSelector(state => state.ui.selectedIterationKey);
+};
+
 export const useExpandedPanels = () => {
   return useAppSelector(state => state.ui.expandedPanels);
 };
@@ -206,7 +256,12 @@ export const useStepExecutionMode = (stepId: string | null | undefined) => {
 
 export const useIsStepCompleted = (stepId: string | null | undefined) => {
   const result = useStepResult(stepId);
-  return result?.status === 'success' || result?.status === 'failed' || result?.status === 'skipped';
+  return (
+    result?.status === 'success' ||
+    result?.status === 'failed' ||
+    result?.status === 'warning' ||
+    result?.status === 'skipped'
+  );
 };
 
 export const useIsStepRunning = (stepId: string | null | undefined) => {
@@ -229,6 +284,7 @@ export const useExecutionStatistics = () => {
         totalSteps: 0,
         completedSteps: 0,
         failedSteps: 0,
+        warningSteps: 0,
         skippedSteps: 0,
         pendingSteps: 0,
         successRate: 0,
@@ -240,6 +296,7 @@ export const useExecutionStatistics = () => {
     const totalSteps = results.length;
     const completedSteps = results.filter(r => r.status === 'success').length;
     const failedSteps = results.filter(r => r.status === 'failed').length;
+    const warningSteps = results.filter(r => r.status === 'warning').length;
     const skippedSteps = results.filter(r => r.status === 'skipped').length;
     const pendingSteps = results.filter(r => r.status === 'pending').length;
     const successRate = totalSteps > 0 ? (completedSteps / totalSteps) * 100 : 0;
@@ -255,6 +312,7 @@ export const useExecutionStatistics = () => {
       totalSteps,
       completedSteps,
       failedSteps,
+      warningSteps,
       skippedSteps,
       pendingSteps,
       successRate,
@@ -5,6 +5,8 @@
 
 import { configureStore } from '@reduxjs/toolkit';
 import serversReducer from './serversSlice';
+import environmentsReducer from './environmentsSlice';
+import secretsReducer from './secretsSlice';
 import scenariosReducer from './scenariosSlice';
 import executionReducer from './executionSlice';
 import uiReducer from './uiSlice';
@@ -12,6 +14,8 @@ import uiReducer from './uiSlice';
 export const store = configureStore({
   reducer: {
     servers: serversReducer,
+    environments: environmentsReducer,
+    secrets: secretsReducer,
     scenarios: scenariosReducer,
     execution: executionReducer,
     ui: uiReducer,
@@ -125,6 +125,15 @@ const scenariosSlice = createSlice({
             });
           }
 
+          // Clear parallel lane references
+          if (step.type === 'parallel') {
+            step.lanes.forEach(lane => {
+              if (lane.nextStepId === stepIdToDelete) {
+                lane.nextStepId = '';
+              }
+            });
+          }
+
           // Remove from loop/group stepIds
           if ((step.type === 'loop' || step.type === 'group') && step.stepIds) {
             step.stepIds = step.stepIds.filter(id => id !== stepIdToDelete);
@@ -179,6 +188,7 @@ const scenariosSlice = createSlice({
      *
      * 2. Step branch/container references - Execution engine's data structure
      *    - For condition/request branches: branch.nextStepId = targetStepId
+     *    - For parallel lanes: lane.nextStepId = targetStepId
      *    - For loops/groups: step.stepIds array contains targetStepId
      *
      * WHY TWO REPRESENTATIONS?
@@ -194,6 +204,7 @@ const scenariosSlice = createSlice({
      *
      * HANDLE TYPES:
      * - "branch_XYZ" (startsWith "branch_"): Condition or request step branch
+     * - "lane_XYZ" (startsWith "lane_"): Parallel step lane
      * - "loop-body": Loop step body
      * - "group-body": Group step body
      *
@@ -237,6 +248,13 @@ const scenariosSlice = createSlice({
               branch.nextStepId = edge.targetStepId;
             }
           }
+          // Lane connections for ParallelStep (handle is lane.id like 'lane_...')
+          else if (handle?.startsWith('lane_') && sourceStep.type === 'parallel') {
+            const lane = sourceStep.lanes.find(l => l.id === handle);
+            if (lane) {
+              lane.nextStepId = edge.targetStepId;
+            }
+          }
           // Loop body connections
           else if (handle === 'loop-body' && sourceStep.type === 'loop') {
             if (!sourceStep.stepIds.includes(edge.targetStepId)) {
@@ -331,6 +349,13 @@ const scenariosSlice = createSlice({
                 branch.nextStepId = '';
               }
             }
+            // Clear lane nextStepId for ParallelStep
+            else if (handle?.startsWith('lane_') && sourceStep.type === 'parallel') {
+              const lane = sourceStep.lanes.find(l => l.id === handle);
+              if (lane) {
+                lane.nextStepId = '';
+              }
+            }
             // Remove from loop stepIds
             else if (handle === 'loop-body' && sourceStep.type === 'loop') {
               sourceStep.stepIds = sourceStep.stepIds.filter(id => id !== edge.targetStepId);
@@ -0,0 +1,55 @@
+/**
+ * Secrets Slice
+ * Manages secret values referenced by requests as ${secret.name}
+ */
+
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { Secret } from '@/types';
+
+interface SecretsState {
+  secrets: Secret[];
+}
+
+const initialState: SecretsState = {
+  secrets: [],
+};
+
+const secretsSlice = createSlice({
+  name: 'secrets',
+  initialState,
+  reducers: {
+    addSecret: (state, action: PayloadAction<Secret>) => {
+      state.secrets.push(action.payload);
+    },
+
+    updateSecret: (state, action: PayloadAction<{ id: string; changes: Partial<Secret> }>) => {
+      const index = state.secrets.findIndex(s => s.id === action.payload.id);
+      if (index !== -1) {
+        state.secrets[index] = {
+          ...state.secrets[index],
+          ...action.payload.changes,
+          updatedAt: new Date().toISOString(),
+        };
+      }
+    },
+
+    deleteSecret: (state, action: PayloadAction<string>) => {
+      state.secrets = state.secrets.filter(s => s.id !== action.payload);
+    },
+
+    // Bulk operations
+    loadSecrets: (state, action: PayloadAction<Secret[]>) => {
+      state.secrets = action.payload;
+    },
+  },
+});
+
+export const {
+  addSecret,
+  updateSecret,
+  deleteSecret,
+  loadSecrets,
+} = secretsSlice.actions;
+
+export default secretsSlice.reducer;
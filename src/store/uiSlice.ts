@@ -6,7 +6,7 @@
 import { createSlice } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
 
-type ViewMode = 'config' | 'execution';
+type ViewMode = 'config' | 'execution' | 'history';
 type LogFilterLevel = 'all' | 'info' | 'warn' | 'error' | 'debug';
 
 interface UIState {
@@ -15,6 +15,7 @@ interface UIState {
 
   // Selection state
   selectedStepId: string | null;
+  selectedIterationKey: string | null;
 
   // Panel visibility
   expandedPanels: {
@@ -54,6 +55,7 @@ interface UIState {
 const initialState: UIState = {
   mode: 'config',
   selectedStepId: null,
+  selectedIterationKey: null,
   expandedPanels: {
     parameters: true,
     steps: true,
@@ -91,6 +93,16 @@ const uiSlice = createSlice({
     // Selection
     setSelectedStep: (state, action: PayloadAction<string | null>) => {
       state.selectedStepId = action.payload;
+      state.selectedIterationKey = null;
+    },
+
+    // Select one loop iteration of a step (null = latest execution)
+    setSelectedIteration: (
+      state,
+      action: PayloadAction<{ stepId: string; iterationKey: string | null }>
+    ) => {
+      state.selectedStepId = action.payload.stepId;
+      state.selectedIterationKey = action.payload.iterationKey;
     },
 
     // Panel management
@@ -228,6 +240,7 @@ export const {
   setMode,
   toggleMode,
   setSelectedStep,
+  setSelectedIteration,
   togglePanel,
   setPanel,
   expandAllPanels,
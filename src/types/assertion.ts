@@ -0,0 +1,56 @@
+/**
+ * Response assertion types
+ * Declarative checks evaluated against the response of a request step
+ */
+
+import type { ComparisonOperator } from './condition';
+
+/**
+ * What part of the response an assertion checks
+ * - "status": HTTP status code
+ * - "header": Value of a response header (target = header name)
+ * - "body": Value selected from the response body (target = JSONPath, e.g. "$.data.id")
+ * - "responseTime": Response duration in milliseconds
+ * - "jsonSchema": Response body (or the part selected by target) matches a JSON Schema
+ */
+export type AssertionType = "status" | "header" | "body" | "responseTime" | "jsonSchema";
+
+/**
+ * Declarative assertion on a request step's response
+ */
+export interface ResponseAssertion {
+  /** Unique identifier for this assertion */
+  id: string;
+  /** What part of the response to check */
+  type: AssertionType;
+  /** Header name (header) or JSONPath (body, optional for jsonSchema) */
+  target?: string;
+  /** Comparison operator (ignored for jsonSchema assertions) */
+  operator: ComparisonOperator;
+  /** Expected value (supports variable references); JSON Schema object for jsonSchema assertions */
+  expected?: unknown;
+  /** Whether this assertion is evaluated (defaults to true) */
+  enabled?: boolean;
+  /** Optional description shown in results */
+  description?: string;
+}
+
+/**
+ * Outcome of evaluating a single assertion
+ */
+export interface AssertionResult {
+  /** ID of the evaluated assertion */
+  assertionId: string;
+  /** Assertion type */
+  type: AssertionType;
+  /** Human-readable summary of what was checked (e.g., "status == 200") */
+  label: string;
+  /** Whether the assertion passed */
+  passed: boolean;
+  /** Actual value found in the response */
+  actual?: unknown;
+  /** Resolved expected value */
+  expected?: unknown;
+  /** Explanation when the assertion failed */
+  message?: string;
+}
@@ -24,7 +24,17 @@ export type ComparisonOperator =
   | "notContains" // String/array does not contain value
   | "isEmpty" // Value is empty (string/array/object)
   | "isNotEmpty" // Value is not empty
-  | "exists"; // Field exists (not null/undefined)
+  | "exists" // Field exists (not null/undefined)
+  | "equalsIgnoreCase" // Equal to, ignoring letter case
+  | "matches" // Matches a regular expression (e.g. ^ORD-\d+$ or /^ord-\d+$/i)
+  | "startsWith" // String starts with value
+  | "endsWith" // String ends with value
+  | "in" // Equal to one of a list (JSON array or comma-separated values)
+  | "notIn" // Not equal to any of a list
+  | "isType" // Type check (string, number, integer, boolean, array, object, null)
+  | "between" // Number within an inclusive range ("min, max")
+  | "lengthEquals" // String/array length (or object key count) equals value
+  | "lengthGreaterThan"; // String/array length (or object key count) is greater than value
 
 /**
  * Logical operators for combining conditions
@@ -0,0 +1,51 @@
+/**
+ * Environment types
+ * Named environments (e.g., local, dev, staging) that override server settings
+ * and define ${env.*} variables
+ */
+
+import type { ServerHeader } from './server';
+
+/**
+ * Variable defined by an environment (referenced as ${env.key})
+ */
+export interface EnvironmentVariable {
+  /** Variable name */
+  key: string;
+  /** Variable value */
+  value: string;
+  /** Whether this variable is defined when the environment is active */
+  enabled: boolean;
+}
+
+/**
+ * Per-environment override of a server's connection settings
+ */
+export interface ServerOverride {
+  /** ID of the server to override */
+  serverId: string;
+  /** Replacement base URL (supports ${env.*} references; server default if omitted) */
+  baseUrl?: string;
+  /** Headers merged over the server's headers (same key replaces the server header) */
+  headers?: ServerHeader[];
+}
+
+/**
+ * Named environment the same scenario can be run against
+ */
+export interface Environment {
+  /** Unique identifier */
+  id: string;
+  /** Display name (e.g., "staging") */
+  name: string;
+  /** Optional description */
+  description?: string;
+  /** Variables available as ${env.key} */
+  variables: EnvironmentVariable[];
+  /** Server overrides applied while this environment is active */
+  serverOverrides: ServerOverride[];
+  /** ISO timestamp when environment was created */
+  createdAt: string;
+  /** ISO timestamp when environment was last updated */
+  updatedAt: string;
+}
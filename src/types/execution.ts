@@ -4,7 +4,8 @@
  */
 
 import type { HttpMethod } from './step';
-import type { ExecutionMode } from './step';
+import type { ExecutionMode, StepType } from './step';
+import type { AssertionResult } from './assertion';
 
 /**
  * Overall execution status
@@ -26,9 +27,157 @@ export type StepExecutionStatus =
   | "waiting" // Waiting for manual trigger or delay
   | "success" // Completed successfully
   | "failed" // Failed with error
+  | "warning" // Failed, but marked as a warning by its failure policy
   | "skipped" // Bypassed or condition not met
   | "cancelled"; // Cancelled by user
 
+/**
+ * Why a loop step stopped iterating
+ * - "completed": every iteration ran
+ * - "conditionFalse": the while condition no longer held
+ * - "break": the break condition held after a body step
+ * - "failed": a body step failed and the loop was aborted
+ * - "stopped": the run was stopped by the user
+ */
+export type LoopExitReason =
+  | "completed"
+  | "conditionFalse"
+  | "break"
+  | "failed"
+  | "stopped";
+
+/**
+ * Record of a single HTTP attempt made by a request step
+ * A step with retries enabled produces one entry per attempt
+ */
+export interface RequestAttempt {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** ISO timestamp when the attempt started */
+  startedAt: string;
+  /** ISO timestamp when the attempt finished */
+  completedAt: string;
+  /** HTTP status code (if a response was received) */
+  status?: number;
+  /** Attempt duration in milliseconds */
+  duration: number;
+  /** Error message if the attempt failed */
+  error?: string;
+  /** Backoff delay applied before the next attempt (if retried or polled again) */
+  retryDelayMs?: number;
+  /** Whether the poll step's until condition held after this attempt */
+  conditionMet?: boolean;
+}
+
+/**
+ * Outcome of one lane of a parallel step
+ */
+export interface LaneExecutionResult {
+  /** ID of the lane */
+  laneId: string;
+  /** Lane label at execution time */
+  label: string;
+  /** Status of the lane (pending until started, skipped if the join was decided first) */
+  status: StepExecutionStatus;
+  /** ISO timestamp when the lane started */
+  startedAt?: string;
+  /** ISO timestamp when the lane finished */
+  completedAt?: string;
+  /** Error that ended the lane */
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Latest outcome of one step of a scenario run by a call step
+ */
+export interface SubScenarioStepResult {
+  /** ID of the step in the called scenario */
+  stepId: string;
+  /** Step name at execution time */
+  name: string;
+  /** Type of the step */
+  type: StepType;
+  /** Latest status of the step */
+  status: StepExecutionStatus;
+  /** ISO timestamp when the step started */
+  startedAt?: string;
+  /** ISO timestamp when the step finished */
+  completedAt?: string;
+  /** Error that failed the step */
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Run of another scenario by a call step
+ */
+export interface SubScenarioResult {
+  /** ID of the called scenario */
+  scenarioId: string;
+  /** Name of the called scenario */
+  scenarioName: string;
+  /** Status of the called run */
+  status: ExecutionStatus;
+  /** Parameters the called scenario ran with */
+  params: Record<string, unknown>;
+  /** Steps of the called scenario, in the order they started */
+  steps: SubScenarioStepResult[];
+}
+
+/**
+ * Line written to the console by a script step
+ */
+export interface ScriptConsoleEntry {
+  /** Console method that wrote the line */
+  level: "log" | "info" | "warn" | "error" | "debug";
+  /** Arguments joined with spaces (objects as JSON) */
+  message: string;
+}
+
+/**
+ * Step outcomes of a run
+ * Steps inside loops count once per iteration
+ */
+export interface ExecutionSummary {
+  /** Step executions that succeeded */
+  passed: number;
+  /**
+   * Step executions that failed, including failures caught by an error edge
+   * or handled by the continue and skipIteration policies
+   */
+  failed: number;
+  /** Step executions that failed under the warning policy */
+  warnings: number;
+  /** Step executions that were skipped */
+  skipped: number;
+}
+
+/**
+ * Failure of a step that was routed to its error edge
+ * Available to the steps after the error edge as ${error.*}
+ */
+export interface CaughtStepError {
+  /** ID of the step that failed */
+  stepId: string;
+  /** Name of the step that failed */
+  stepName: string;
+  /** Error code of the failed step result (e.g., "REQUEST_FAILED") */
+  code: string;
+  /** Error message */
+  message: string;
+  /** HTTP status code (when the server responded) */
+  status?: number;
+  /** HTTP status text (when the server responded) */
+  statusText?: string;
+  /** Response body (when the server responded) */
+  response?: unknown;
+}
+
 /**
  * Result of executing a single step
  */
@@ -69,6 +218,15 @@ export interface StepExecutionResult {
     duration: number;
   };
 
+  /** Every HTTP attempt made for this step, including retries (for request steps) */
+  attempts?: RequestAttempt[];
+
+  /** Outcome of each response assertion (for request steps with assertions) */
+  assertionResults?: AssertionResult[];
+
+  /** Variables assigned by this step (request extractions and set variable steps) */
+  variables?: Record<string, unknown>;
+
   /** Error information if the step failed */
   error?: {
     /** Error code or type */
@@ -84,10 +242,26 @@ export interface StepExecutionResult {
   iterations?: number;
   /** Current iteration number (for loop steps) */
   currentIteration?: number;
+  /** Why the loop stopped iterating (for loop steps) */
+  loopExitReason?: LoopExitReason;
+
+  // Parallel step data
+  /** Status of each lane (for parallel steps) */
+  lanes?: LaneExecutionResult[];
+
+  // Call step data
+  /** Run of the called scenario (for call steps) */
+  subScenario?: SubScenarioResult;
+
+  // Script step data
+  /** Console output of the script (for script steps) */
+  scriptConsole?: ScriptConsoleEntry[];
 
   // Loop context (for steps executed inside loops)
   /** Snapshot of active loop stack when this step was executed */
   loopContext?: LoopIterationSnapshot[];
+  /** Key of this execution in ExecutionContext.iterationResults (for steps executed inside loops) */
+  iterationKey?: string;
 }
 
 /**
@@ -144,6 +318,10 @@ export interface LoopIterationSnapshot {
   depth: number;
   /** ID of the parent loop (if nested) */
   parentLoopId?: string;
+  /** Iterations currently running (1-based), for loops with concurrent iterations */
+  inFlight?: number[];
+  /** Name of the called scenario, for call steps running a sub-scenario */
+  scenarioName?: string;
 }
 
 /**
@@ -155,8 +333,14 @@ export interface ExecutionContext {
   id: string;
   /** ID of the scenario being executed */
   scenarioId: string;
+  /** Run number of the scenario (${system.runNumber}) */
+  runNumber?: number;
   /** Current overall execution status */
   status: ExecutionStatus;
+  /** ID of the environment the scenario ran against (undefined = server defaults) */
+  environmentId?: string;
+  /** Name of that environment at execution time */
+  environmentName?: string;
 
   // Input parameters
   /** Parameter values provided for this execution */
@@ -171,10 +355,14 @@ export interface ExecutionContext {
   currentStepId?: string;
   /** Results for each step that has been executed (stepId -> result) */
   stepResults: Record<string, StepExecutionResult>;
+  /** Result of every step execution inside loops (iteration key -> result) */
+  iterationResults: Record<string, StepExecutionResult>;
 
   // Variable storage
   /** Saved responses from steps (stepId or alias -> response data) */
   responses: Record<string, unknown>;
+  /** Named scenario variables (${vars.name}) */
+  variables: Record<string, unknown>;
   /** Stack of loop contexts for nested loop support */
   loopContextStack: LoopContext[];
   /** Real-time stack of active loops for visualization (updated during execution) */
@@ -4,7 +4,17 @@
  */
 
 // Server types
-export type { Server, ServerHeader } from './server';
+export type { Server, ServerHeader, EndpointTemplate } from './server';
+
+// Environment types
+export type {
+  EnvironmentVariable,
+  ServerOverride,
+  Environment,
+} from './environment';
+
+// Secret types
+export type { Secret } from './secret';
 
 // Condition types
 export type {
@@ -19,6 +29,20 @@ export type {
   ConditionExpression,
 } from './condition';
 
+// Assertion types
+export type {
+  AssertionType,
+  ResponseAssertion,
+  AssertionResult,
+} from './assertion';
+
+// Variable types
+export type {
+  ExtractionSource,
+  VariableExtraction,
+  VariableAssignment,
+} from './variable';
+
 // Loop types
 export type {
   LoopType,
@@ -36,13 +60,23 @@ export type { Branch } from './branch';
 export type {
   HttpMethod,
   ExecutionMode,
+  FailurePolicy,
   StepType,
   StepHeader,
+  RetryConfig,
   BaseStep,
   RequestStep,
   ConditionStep,
   LoopStep,
   GroupStep,
+  SetVariableStep,
+  JoinPolicy,
+  ParallelLane,
+  ParallelStep,
+  PollConfig,
+  PollStep,
+  CallStep,
+  ScriptStep,
   Step,
 } from './step';
 
@@ -63,6 +97,14 @@ export type {
 export type {
   ExecutionStatus,
   StepExecutionStatus,
+  LoopExitReason,
+  RequestAttempt,
+  LaneExecutionResult,
+  SubScenarioStepResult,
+  SubScenarioResult,
+  ScriptConsoleEntry,
+  CaughtStepError,
+  ExecutionSummary,
   StepExecutionResult,
   ExecutionLog,
   LoopContext,
@@ -30,7 +30,10 @@ export interface BaseLoop {
  */
 export interface ForEachLoop extends BaseLoop {
   type: "forEach";
-  /** JSON path to the array to iterate over (e.g., "params.list") */
+  /**
+   * Path to the array to iterate over (e.g., "params.list" or "${params.list}");
+   * JSONPath wildcards and filters collect all matches (e.g., "response.orders.items[*].lines[*]")
+   */
   source: string;
   /** Variable name for the current item (e.g., "item") */
   itemAlias: string;
@@ -41,6 +44,11 @@ export interface ForEachLoop extends BaseLoop {
    * If specified, each item will be repeated item[countField] times
    */
   countField?: string;
+  /**
+   * Maximum number of iterations that run at once
+   * Unset or 1 runs iterations one at a time
+   */
+  parallelism?: number;
 }
 
 /**
@@ -0,0 +1,23 @@
+/**
+ * Secret types
+ * Sensitive values (tokens, passwords) referenced as ${secret.name}
+ */
+
+/**
+ * Secret value available to requests as ${secret.name}
+ * Only the HTTP client sees the value; it is masked in results, logs and exports
+ */
+export interface Secret {
+  /** Unique identifier */
+  id: string;
+  /** Name used in ${secret.name} references */
+  name: string;
+  /** Secret value */
+  value: string;
+  /** Optional description */
+  description?: string;
+  /** ISO timestamp when secret was created */
+  createdAt: string;
+  /** ISO timestamp when secret was last updated */
+  updatedAt: string;
+}
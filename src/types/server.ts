@@ -3,6 +3,9 @@
  * Defines server connection settings and authentication headers
  */
 
+import type { HttpMethod, StepHeader } from './step';
+import type { ParameterSchema } from './parameter';
+
 /**
  * Header configuration for server requests
  */
@@ -15,6 +18,37 @@ export interface ServerHeader {
   enabled: boolean;
 }
 
+/**
+ * Request template generated from an API specification (e.g. an OpenAPI operation)
+ * Used to pre-fill new request steps
+ */
+export interface EndpointTemplate {
+  /** Unique identifier for this template */
+  id: string;
+  /** HTTP method of the operation */
+  method: HttpMethod;
+  /** Endpoint with path parameters as variable references (e.g., "/users/${params.userId}") */
+  endpoint: string;
+  /** Short description of the operation */
+  summary?: string;
+  /** Operation identifier from the specification */
+  operationId?: string;
+  /** Tags used to group templates */
+  tags?: string[];
+  /** Required headers (authentication, content type, header parameters) */
+  headers: StepHeader[];
+  /** Required query parameters */
+  queryParams?: Record<string, string>;
+  /** Example request body */
+  body?: unknown;
+  /** Scenario parameters referenced by the endpoint, headers or query parameters */
+  parameters: ParameterSchema[];
+  /** Documented success status code */
+  expectedStatus?: number;
+  /** JSON Schema of the success response body */
+  responseSchema?: unknown;
+}
+
 /**
  * Server definition for API endpoints
  */
@@ -31,6 +65,8 @@ export interface Server {
   timeout: number;
   /** Optional description of the server's purpose */
   description?: string;
+  /** Request templates imported from an API specification */
+  endpoints?: EndpointTemplate[];
   /** ISO timestamp when server was created */
   createdAt: string;
   /** ISO timestamp when server was last updated */
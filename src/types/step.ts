@@ -6,6 +6,8 @@
 import type { ConditionExpression } from './condition';
 import type { Loop } from './loop';
 import type { Branch } from './branch';
+import type { ResponseAssertion } from './assertion';
+import type { VariableExtraction, VariableAssignment } from './variable';
 
 /**
  * HTTP methods supported for request steps
@@ -21,10 +23,28 @@ export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
  */
 export type ExecutionMode = "auto" | "manual" | "delayed" | "bypass";
 
+/**
+ * What happens when a step fails (and has no error edge)
+ * - "stop": The failure propagates to the enclosing group or loop, or ends the run
+ * - "continue": The step stays failed and the flow continues to its next step
+ * - "skipIteration": The rest of the current loop iteration is skipped
+ * - "warning": The step is marked as a warning and the flow continues to its next step
+ */
+export type FailurePolicy = "stop" | "continue" | "skipIteration" | "warning";
+
 /**
  * Types of steps available
  */
-export type StepType = "request" | "condition" | "loop" | "group";
+export type StepType =
+  | "request"
+  | "condition"
+  | "loop"
+  | "group"
+  | "setVariable"
+  | "parallel"
+  | "poll"
+  | "call"
+  | "script";
 
 /**
  * Header configuration for individual request steps
@@ -38,6 +58,18 @@ export interface StepHeader {
   enabled: boolean;
 }
 
+/**
+ * Retry configuration for request steps
+ */
+export interface RetryConfig {
+  /** Maximum number of retry attempts (0 disables retries) */
+  maxRetries: number;
+  /** Base delay between retries in milliseconds (doubled on each retry) */
+  retryDelayMs: number;
+  /** HTTP status codes that should trigger a retry */
+  retryOn: number[];
+}
+
 /**
  * Base properties common to all step types
  */
@@ -54,6 +86,8 @@ export interface BaseStep {
   executionMode: ExecutionMode;
   /** Delay in milliseconds (required when executionMode is "delayed") */
   delayMs?: number;
+  /** What happens when this step fails (defaults to the run's continue-on-error setting) */
+  onFailure?: FailurePolicy;
   /** Optional pre-condition that must be met for this step to execute */
   condition?: ConditionExpression;
   /** Position in the visual flow editor */
@@ -91,14 +125,11 @@ export interface RequestStep extends BaseStep {
   /** Response-based branching logic */
   branches?: Branch[];
   /** Retry configuration for handling failures */
-  retryConfig?: {
-    /** Maximum number of retry attempts */
-    maxRetries: number;
-    /** Delay between retries in milliseconds */
-    retryDelayMs: number;
-    /** HTTP status codes that should trigger a retry */
-    retryOn: number[];
-  };
+  retryConfig?: RetryConfig;
+  /** Assertions the response must satisfy for the step to succeed */
+  assertions?: ResponseAssertion[];
+  /** Values captured from the response into named variables (${vars.name}) */
+  extract?: VariableExtraction[];
 }
 
 /**
@@ -121,6 +152,10 @@ export interface LoopStep extends BaseStep {
   stepIds: string[];
   /** Variable name for referencing this loop (e.g., "userLoop" for ${loops.userLoop.*}) */
   variableName: string;
+  /** Ends the loop when it holds after a body step */
+  breakCondition?: ConditionExpression;
+  /** Skips the rest of the current iteration when it holds after a body step */
+  continueCondition?: ConditionExpression;
 }
 
 /**
@@ -134,7 +169,141 @@ export interface GroupStep extends BaseStep {
   collapsed?: boolean;
 }
 
+/**
+ * Step that assigns values to named variables mid-flow
+ */
+export interface SetVariableStep extends BaseStep {
+  type: "setVariable";
+  /** Assignments applied in order (later assignments can reference earlier ones) */
+  assignments: VariableAssignment[];
+}
+
+/**
+ * When a parallel step continues after its lanes
+ * - "all": every lane succeeded
+ * - "any": at least one lane succeeded
+ * - "count": at least joinCount lanes succeeded
+ */
+export type JoinPolicy = "all" | "any" | "count";
+
+/**
+ * Lane of a parallel step
+ * A lane runs the chain of steps starting at nextStepId until a step has no next step
+ */
+export interface ParallelLane {
+  /** Unique identifier for this lane (also the graph handle ID, e.g. "lane_...") */
+  id: string;
+  /** Display label for the lane in the UI */
+  label: string;
+  /** ID of the first step of the lane */
+  nextStepId: string;
+}
+
+/**
+ * Step that runs several lanes concurrently and joins them before continuing
+ */
+export interface ParallelStep extends BaseStep {
+  type: "parallel";
+  /** Lanes started by this step */
+  lanes: ParallelLane[];
+  /** How many lanes must succeed for the step to succeed */
+  joinPolicy: JoinPolicy;
+  /** Required successful lanes (when joinPolicy is "count") */
+  joinCount?: number;
+  /** Maximum number of lanes running at once (unlimited when unset or 0) */
+  maxConcurrency?: number;
+}
+
+/**
+ * Polling configuration for poll steps
+ */
+export interface PollConfig {
+  /** Condition on the latest response that ends polling successfully */
+  until: ConditionExpression;
+  /** Delay between attempts in milliseconds */
+  intervalMs: number;
+  /** Factor applied to the delay after each attempt (1 or unset keeps it fixed) */
+  backoffMultiplier?: number;
+  /** Upper bound for the delay when backing off */
+  maxIntervalMs?: number;
+  /** Wall-clock limit for the whole step in milliseconds */
+  timeoutMs: number;
+}
+
+/**
+ * Step that repeats a request until a condition on its response holds
+ * The latest response is saved under responseAlias (or the step ID) so the
+ * until condition and later steps can reference it
+ */
+export interface PollStep extends BaseStep {
+  type: "poll";
+  /** ID of the server to send the request to */
+  serverId: string;
+  /** HTTP method to use */
+  method: HttpMethod;
+  /** API endpoint (can contain variable references like "${params.id}") */
+  endpoint: string;
+  /** Step-specific headers (merged with server headers) */
+  headers: StepHeader[];
+  /** Request body (can contain variable references) */
+  body?: unknown;
+  /** Query parameters for the request */
+  queryParams?: Record<string, string>;
+  /** Custom alias for referencing the latest response (defaults to step ID) */
+  responseAlias?: string;
+  /** Override the server's default timeout for each request */
+  timeout?: number;
+  /** When to stop polling */
+  poll: PollConfig;
+  /** Values captured from the final response into named variables (${vars.name}) */
+  extract?: VariableExtraction[];
+}
+
+/**
+ * Step that runs another scenario as a sub-scenario
+ * The called scenario runs with its own parameters, responses and variables;
+ * only the mapped outputs flow back into the calling scenario
+ */
+export interface CallStep extends BaseStep {
+  type: "call";
+  /** ID of the scenario to run */
+  scenarioId: string;
+  /**
+   * Parameters passed to the called scenario (name = parameter name)
+   * Values can reference the caller's variables, e.g. "${vars.userId}"
+   */
+  inputs: VariableAssignment[];
+  /**
+   * Caller variables assigned after the called scenario completes (${vars.name})
+   * Values are resolved against the called scenario, e.g. "${response.login.token}"
+   */
+  outputs: VariableAssignment[];
+}
+
+/**
+ * Step that runs JavaScript to compute variables
+ * The code runs in a worker with a time limit; it reads params,
+ * responses, vars, env, loop, loops, error and system (read-only) and returns
+ * an object whose entries become scenario variables (${vars.name})
+ */
+export interface ScriptStep extends BaseStep {
+  type: "script";
+  /** Body of an async function, e.g. "return { total: params.items.length };" */
+  code: string;
+  /** Time limit in milliseconds (defaults to 5000, at most 60000) */
+  timeoutMs?: number;
+}
+
 /**
  * Union type of all step types
  */
-export type Step = RequestStep | ConditionStep | LoopStep | GroupStep;
+export type Step =
+  | RequestStep
+  | ConditionStep
+  | LoopStep
+  | GroupStep
+  | SetVariableStep
+  | ParallelStep
+  | PollStep
+  | CallStep
+  | ScriptStep;
@@ -0,0 +1,43 @@
+/**
+ * Scenario variable types
+ * Named variables captured from responses or assigned mid-flow, referenced as ${vars.name}
+ */
+
+/**
+ * Where an extraction reads its value from
+ * - "body": Value selected from the response body (expression = JSONPath, e.g. "$.data.token")
+ * - "header": Value of a response header (expression = header name)
+ * - "regex": Capture group of a regular expression matched against the raw response body
+ * - "status": HTTP status code (expression is ignored)
+ */
+export type ExtractionSource = "body" | "header" | "regex" | "status";
+
+/**
+ * Captures part of a request step's response into a named variable
+ */
+export interface VariableExtraction {
+  /** Unique identifier for this extraction */
+  id: string;
+  /** Variable name (referenced as ${vars.name}) */
+  name: string;
+  /** What part of the response to read */
+  source: ExtractionSource;
+  /** JSONPath (body), header name (header) or regular expression (regex) */
+  expression: string;
+  /** Capture group to use for regex extractions (defaults to 1, or 0 if the pattern has no groups) */
+  group?: number;
+  /** Value assigned when nothing matches (variable is left unchanged if omitted) */
+  defaultValue?: unknown;
+}
+
+/**
+ * Assigns a value to a named variable (used by set variable steps)
+ */
+export interface VariableAssignment {
+  /** Unique identifier for this assignment */
+  id: string;
+  /** Variable name (referenced as ${vars.name}) */
+  name: string;
+  /** Value to assign (supports variable references; "${...}" alone keeps the referenced type) */
+  value: unknown;
+}
@@ -0,0 +1,217 @@
+/**
+ * Request Snippets
+ * Turns a recorded or previewed request into a command or code snippet
+ * (curl, HTTPie, JavaScript fetch, Python requests) for reproducing it elsewhere
+ */
+
+import type { StepExecutionResult } from '@/types';
+
+/**
+ * Request a snippet is generated from (as recorded in StepExecutionResult.request)
+ */
+export type SnippetRequest = NonNullable<StepExecutionResult['request']>;
+
+/**
+ * Supported snippet formats
+ */
+export type SnippetFormat = 'curl' | 'httpie' | 'fetch' | 'python';
+
+/**
+ * Display labels of the snippet formats
+ */
+export const SNIPPET_FORMATS: Record<SnippetFormat, string> = {
+  curl: 'curl',
+  httpie: 'HTTPie',
+  fetch: 'fetch (JavaScript)',
+  python: 'Python requests',
+};
+
+const SECRET_REFERENCE = /\$\{\s*secret\.([^}]+)\}/g;
+
+/**
+ * Generates a snippet that sends the request
+ *
+ * @param request - Request to reproduce
+ * @param format - Snippet format
+ * @param secrets - Secret values to insert for ${secret.name} references
+ *   (references are left as written when omitted or when the secret is unknown)
+ * @returns Snippet source
+ */
+export function generateSnippet(
+  request: SnippetRequest,
+  format: SnippetFormat,
+  secrets?: Record<string, string>
+): string {
+  const resolved = secrets ? insertSecrets(request, secrets) : request;
+  const body = serializeBody(resolved.body);
+  const headers = { ...resolved.headers };
+
+  // Object bodies are sent as JSON, as the HTTP client does
+  const isJson = body !== undefined && typeof resolved.body !== 'string';
+  if (isJson && !Object.keys(headers).some((key) => key.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  switch (format) {
+    case 'curl':
+      return toCurl(resolved, headers, body);
+    case 'httpie':
+      return toHttpie(resolved, headers, body);
+    case 'fetch':
+      return toFetch(resolved, headers, resolved.body, isJson);
+    case 'python':
+      return toPython(resolved, headers, resolved.body, isJson);
+  }
+}
+
+/**
+ * Replaces ${secret.name} references with secret values
+ */
+function insertSecrets(request: SnippetRequest, secrets: Record<string, string>): SnippetRequest {
+  const insert = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(SECRET_REFERENCE, (match, name: string) => secrets[name.trim()] ?? match);
+    }
+    if (Array.isArray(value)) {
+      return value.map(insert);
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, insert(item)]));
+    }
+    return value;
+  };
+
+  return insert(request) as SnippetRequest;
+}
+
+/**
+ * Serializes the request body as sent (objects as pretty-printed JSON)
+ */
+function serializeBody(body: unknown): string | undefined {
+  if (body === undefined || body === null || body === '') return undefined;
+  return typeof body === 'string' ? body : JSON.stringify(body, null, 2);
+}
+
+/**
+ * Quotes a value for POSIX shells
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function toCurl(
+  request: SnippetRequest,
+  headers: Record<string, string>,
+  body: string | undefined
+): string {
+  const lines = [
+    request.method === 'GET' && body === undefined
+      ? `curl ${shellQuote(request.url)}`
+      : `curl -X ${request.method} ${shellQuote(request.url)}`,
+  ];
+  for (const [key, value] of Object.entries(headers)) {
+    lines.push(`-H ${shellQuote(`${key}: ${value}`)}`);
+  }
+  if (body !== undefined) {
+    lines.push(`--data-raw ${shellQuote(body)}`);
+  }
+  return lines.join(' \\\n  ');
+}
+
+function toHttpie(
+  request: SnippetRequest,
+  headers: Record<string, string>,
+  body: string | undefined
+): string {
+  const lines = [
+    body === undefined
+      ? `http ${request.method} ${shellQuote(request.url)}`
+      : `http --raw ${shellQuote(body)} ${request.method} ${shellQuote(request.url)}`,
+  ];
+  for (const [key, value] of Object.entries(headers)) {
+    // "Header:value" request items (an empty value needs "Header;")
+    lines.push(shellQuote(value === '' ? `${key};` : `${key}:${value}`));
+  }
+  return lines.join(' \\\n  ');
+}
+
+function toFetch(
+  request: SnippetRequest,
+  headers: Record<string, string>,
+  body: unknown,
+  isJson: boolean
+): string {
+  const options: string[] = [`  method: ${JSON.stringify(request.method)},`];
+  if (Object.keys(headers).length > 0) {
+    options.push(`  headers: ${indent(JSON.stringify(headers, null, 2), 2)},`);
+  }
+  if (serializeBody(body) !== undefined) {
+    options.push(
+      isJson
+        ? `  body: JSON.stringify(${indent(JSON.stringify(body, null, 2), 2)}),`
+        : `  body: ${JSON.stringify(body)},`
+    );
+  }
+
+  return [
+    `const response = await fetch(${JSON.stringify(request.url)}, {`,
+    ...options,
+    '});',
+    'console.log(response.status, await response.text());',
+  ].join('\n');
+}
+
+function toPython(
+  request: SnippetRequest,
+  headers: Record<string, string>,
+  body: unknown,
+  isJson: boolean
+): string {
+  const args = [`    ${JSON.stringify(request.method)},`, `    ${JSON.stringify(request.url)},`];
+  if (Object.keys(headers).length > 0) {
+    args.push(`    headers=${toPythonLiteral(headers, 1)},`);
+  }
+  if (serializeBody(body) !== undefined) {
+    args.push(isJson ? `    json=${toPythonLiteral(body, 1)},` : `    data=${JSON.stringify(body)},`);
+  }
+
+  return [
+    'import requests',
+    '',
+    'response = requests.request(',
+    ...args,
+    ')',
+    'print(response.status_code, response.text)',
+  ].join('\n');
+}
+
+/**
+ * Formats a JSON value as a Python literal
+ */
+function toPythonLiteral(value: unknown, level: number): string {
+  const pad = '    '.repeat(level + 1);
+  const closing = '    '.repeat(level);
+
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number' || typeof value === 'string') return JSON.stringify(value);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map((item) => `${pad}${toPythonLiteral(item, level + 1)},`).join('\n')}\n${closing}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries
+    .map(([key, item]) => `${pad}${JSON.stringify(key)}: ${toPythonLiteral(item, level + 1)},`)
+    .join('\n')}\n${closing}}`;
+}
+
+/**
+ * Indents every line after the first
+ */
+function indent(text: string, spaces: number): string {
+  return text.split('\n').join(`\n${' '.repeat(spaces)}`);
+}
@@ -4,7 +4,15 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { Step, StepType } from '@/types';
+import type { Step, StepType, RequestStep, EndpointTemplate } from '@/types';
+
+/**
+ * Starting code of new script steps
+ */
+export const DEFAULT_SCRIPT_CODE = `// Read params, responses, vars, env, loop and system (read-only).
+// Entries of the returned object become variables: \${vars.name}
+return {};
+`;
 
 /**
  * Create a default step based on type
@@ -60,11 +68,120 @@ export function createDefaultStep(type: StepType, position: { x: number; y: numb
         collapsed: false,
       };
 
+    case 'setVariable':
+      return {
+        ...baseStep,
+        type: 'setVariable',
+        name: 'New Set Variable',
+        assignments: [],
+      };
+
+    case 'parallel':
+      return {
+        ...baseStep,
+        type: 'parallel',
+        lanes: [1, 2].map(n => ({
+          id: `lane_${uuidv4()}`,
+          label: `Lane ${n}`,
+          nextStepId: '',
+        })),
+        joinPolicy: 'all',
+      };
+
+    case 'poll':
+      return {
+        ...baseStep,
+        type: 'poll',
+        serverId: '',
+        method: 'GET',
+        endpoint: '/',
+        headers: [],
+        poll: {
+          // Polls its own latest response until it reports completion
+          until: {
+            id: uuidv4(),
+            source: 'response',
+            stepId: baseStep.id,
+            field: 'status',
+            operator: '==',
+            value: 'DONE',
+          },
+          intervalMs: 2000,
+          timeoutMs: 60000,
+        },
+      };
+
+    case 'call':
+      return {
+        ...baseStep,
+        type: 'call',
+        name: 'New Call Scenario',
+        scenarioId: '',
+        inputs: [],
+        outputs: [],
+      };
+
+    case 'script':
+      return {
+        ...baseStep,
+        type: 'script',
+        name: 'New Script',
+        code: DEFAULT_SCRIPT_CODE,
+      };
+
     default:
       throw new Error(`Unknown step type: ${type}`);
   }
 }
 
+/**
+ * Create a request step pre-filled from an API endpoint template
+ * Optionally adds assertions for the documented status code and response schema
+ */
+export function createRequestStepFromTemplate(
+  serverId: string,
+  template: EndpointTemplate,
+  position: { x: number; y: number },
+  includeAssertions: boolean
+): RequestStep {
+  const step = createDefaultStep('request', position) as RequestStep;
+
+  step.name = template.summary || template.operationId || `${template.method} ${template.endpoint}`;
+  step.serverId = serverId;
+  step.method = template.method;
+  step.endpoint = template.endpoint;
+  step.headers = template.headers.map(header => ({ ...header }));
+  if (template.queryParams) {
+    step.queryParams = { ...template.queryParams };
+  }
+  if (template.body !== undefined) {
+    step.body = structuredClone(template.body);
+  }
+
+  if (includeAssertions) {
+    step.assertions = [];
+    if (template.expectedStatus) {
+      step.assertions.push({
+        id: uuidv4(),
+        type: 'status',
+        operator: '==',
+        expected: template.expectedStatus,
+      });
+    }
+    if (template.responseSchema) {
+      step.assertions.push({
+        id: uuidv4(),
+        type: 'jsonSchema',
+        operator: '==',
+        expected: structuredClone(template.responseSchema),
+        description: 'Response matches the API specification',
+      });
+    }
+  }
+
+  return step;
+}
+
 /**
  * Calculate position for new nodes based on existing steps
  */
@@ -0,0 +1,142 @@
+import { test, expect } from '@playwright/test';
+import { execFile, spawnSync } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { build } from 'vite';
+import type { Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from '../engine/testServer';
+
+// Built inside the project so the bundle resolves its external packages from node_modules
+const CLI_PATH = join('node_modules', '.tmp', 'scenario-run-test', 'scenario-run.js');
+
+let api: TestServer;
+let directory: string;
+
+test.beforeAll(async () => {
+  test.setTimeout(120000);
+  directory = await mkdtemp(join(tmpdir(), 'scenario-run-'));
+  await build({
+    configFile: 'vite.cli.config.ts',
+    logLevel: 'silent',
+    build: { outDir: dirname(CLI_PATH), emptyOutDir: true },
+  });
+  api = await startTestServer((request, _body, response) => {
+    sendJson(response, request.url === '/broken' ? 500 : 200, { ok: request.url !== '/broken' });
+  });
+});
+
+test.afterAll(async () => {
+  await api.close();
+  await rm(directory, { recursive: true, force: true });
+});
+
+/** Writes a JSON input file into the temporary directory */
+async function writeInput(name: string, data: unknown): Promise<string> {
+  const path = join(directory, name);
+  await writeFile(path, typeof data === 'string' ? data : JSON.stringify(data));
+  return path;
+}
+
+/** Writes a scenario with one GET request step */
+function writeScenario(name: string, endpoint: string): Promise<string> {
+  const scenario: Scenario = {
+    id: name,
+    name,
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps: [
+      {
+        id: 'get',
+        name: 'Get',
+        type: 'request',
+        executionMode: 'auto',
+        position: { x: 0, y: 0 },
+        serverId: 'api',
+        method: 'GET',
+        endpoint,
+        headers: [],
+        waitForResponse: true,
+        saveResponse: true,
+      },
+    ],
+    edges: [],
+    startStepId: 'get',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return writeInput(`${name}.json`, scenario);
+}
+
+function writeServers(): Promise<string> {
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return writeInput('servers.json', [server]);
+}
+
+/** Runs the built CLI without blocking the test server, which answers its requests */
+function runCli(args: string[]): Promise<{ status: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve) => {
+    const child = execFile(process.execPath, [CLI_PATH, ...args], (_error, stdout, stderr) =>
+      resolve({ status: child.exitCode, stdout, stderr })
+    );
+  });
+}
+
+test('exits with 0 and prints the result when the run completes', async () => {
+  const run = await runCli([await writeScenario('healthy', '/health'), '--servers', await writeServers()]);
+
+  expect(run.status).toBe(0);
+  expect(JSON.parse(run.stdout).status).toBe('completed');
+  expect(run.stderr).toContain('Scenario "healthy" completed');
+});
+
+test('exits with 1 when the run fails', async () => {
+  const run = await runCli([await writeScenario('broken', '/broken'), '--servers', await writeServers()]);
+
+  expect(run.status).toBe(1);
+  expect(JSON.parse(run.stdout).status).toBe('failed');
+});
+
+test('exits with 2 for invalid arguments or input files', async () => {
+  const scenario = await writeScenario('healthy', '/health');
+
+  expect((await runCli([scenario])).status).toBe(2);
+  expect((await runCli([scenario, '--servers', await writeInput('bad.json', '{ not json')])).status).toBe(2);
+  expect((await runCli([scenario, '--servers', await writeServers(), '--manual', 'skip'])).status).toBe(2);
+  expect((await runCli([scenario, '--servers', await writeServers(), '--unknown'])).status).toBe(2);
+});
+
+test('writes JUnit and HTML reports next to the JSON result', async () => {
+  const junit = join(directory, 'report.xml');
+  const html = join(directory, 'report.html');
+
+  const run = await runCli([
+    await writeScenario('broken', '/broken'),
+    '--servers',
+    await writeServers(),
+    '--junit',
+    junit,
+    '--html',
+    html,
+  ]);
+
+  expect(run.status).toBe(1);
+  expect(await readFile(junit, 'utf-8')).toContain('<testsuites name="broken" tests="1" failures="1"');
+  expect(await readFile(html, 'utf-8')).toContain('<title>broken - Execution Report</title>');
+});
+
+test('--help exits with 0 without running anything', () => {
+  const run = spawnSync(process.execPath, [CLI_PATH, '--help'], { encoding: 'utf-8' });
+
+  expect(run.status).toBe(0);
+  expect(run.stdout).toContain('Exit codes:');
+});
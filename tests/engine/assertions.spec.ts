@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test';
+import { executeScenario } from '@/engine';
+import type { ResponseAssertion, Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+
+test.beforeAll(async () => {
+  // /missing answers 404, anything else 500
+  api = await startTestServer((request, _body, response) => {
+    if (request.url === '/missing') {
+      sendJson(response, 404, { error: 'NOT_FOUND' });
+    } else {
+      sendJson(response, 500, { error: 'INTERNAL' });
+    }
+  });
+});
+
+test.afterAll(() => api.close());
+
+const statusIs = (expected: number): ResponseAssertion => ({ id: 'status', type: 'status', operator: '==', expected });
+
+/** Runs a scenario with a single GET request to the given endpoint */
+function runRequest(endpoint: string, assertions: ResponseAssertion[]) {
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'assertions',
+    name: 'Assertions',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps: [{
+      id: 'fetch',
+      name: 'fetch',
+      type: 'request',
+      executionMode: 'auto',
+      position: { x: 0, y: 0 },
+      serverId: 'api',
+      method: 'GET',
+      endpoint,
+      headers: [],
+      assertions,
+      waitForResponse: true,
+      saveResponse: true,
+    }],
+    edges: [],
+    startStepId: 'fetch',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(scenario, new Map([['api', server]]), {});
+}
+
+test('an expected 404 passes its status assertion', async () => {
+  const result = await runRequest('/missing', [
+    statusIs(404),
+    { id: 'code', type: 'body', target: '$.error', operator: '==', expected: 'NOT_FOUND' },
+  ]);
+
+  expect(result.status).toBe('completed');
+  expect(result.stepResults.fetch.status).toBe('success');
+  expect(result.stepResults.fetch.response?.status).toBe(404);
+  expect(result.stepResults.fetch.assertionResults?.map((r) => r.passed)).toEqual([true, true]);
+});
+
+test('an unexpected 500 is reported as a failed status assertion', async () => {
+  const result = await runRequest('/broken', [statusIs(200)]);
+
+  expect(result.status).toBe('failed');
+  expect(result.stepResults.fetch.error?.code).toBe('ASSERTION_FAILED');
+  expect(result.stepResults.fetch.response?.status).toBe(500);
+  expect(result.stepResults.fetch.assertionResults?.[0]).toMatchObject({ passed: false, actual: 500 });
+});
+
+test('an error status without a status assertion stays a request error', async () => {
+  const result = await runRequest('/broken', [
+    { id: 'code', type: 'body', target: '$.error', operator: '==', expected: 'INTERNAL' },
+  ]);
+
+  expect(result.status).toBe('failed');
+  expect(result.stepResults.fetch.error?.code).toBe('REQUEST_FAILED');
+});
@@ -0,0 +1,170 @@
+import { test, expect } from '@playwright/test';
+import { executeScenario } from '@/engine';
+import type { CallStep, RequestStep, Scenario, Server, Step } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+const requests: { url: string; authorization?: string; body: string }[] = [];
+
+test.beforeAll(async () => {
+  // POST /login answers a token derived from the posted user
+  api = await startTestServer((request, body, response) => {
+    requests.push({ url: request.url ?? '', authorization: request.headers.authorization, body });
+    if (request.url === '/login') {
+      const { user, tenant } = JSON.parse(body) as { user: string; tenant: string };
+      sendJson(response, 200, { token: `${tenant}-${user}` });
+    } else {
+      sendJson(response, 200, { ok: true });
+    }
+  });
+});
+
+test.beforeEach(() => {
+  requests.length = 0;
+});
+
+test.afterAll(() => api.close());
+
+const position = { x: 0, y: 0 };
+
+function createRequest(id: string, method: 'GET' | 'POST', endpoint: string, extra: Partial<RequestStep> = {}): RequestStep {
+  return {
+    id,
+    name: id,
+    type: 'request',
+    executionMode: 'auto',
+    position,
+    serverId: 'api',
+    method,
+    endpoint,
+    headers: [],
+    waitForResponse: true,
+    saveResponse: true,
+    ...extra,
+  };
+}
+
+function createScenario(id: string, steps: Step[], extra: Partial<Scenario> = {}): Scenario {
+  return {
+    id,
+    name: id,
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps,
+    edges: [],
+    startStepId: steps[0].id,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+// Reusable login flow: user is required, tenant defaults to "acme"
+const login = createScenario(
+  'login-flow',
+  [createRequest('login', 'POST', '/login', { body: { user: '${params.user}', tenant: '${params.tenant}' } })],
+  {
+    name: 'Login flow',
+    parameterSchema: [
+      { id: 'p1', name: 'user', type: 'string', required: true },
+      { id: 'p2', name: 'tenant', type: 'string', required: false, defaultValue: 'acme' },
+    ],
+  }
+);
+
+function createCall(scenarioId: string, inputs: CallStep['inputs']): CallStep {
+  return {
+    id: 'call',
+    name: 'Log in',
+    type: 'call',
+    executionMode: 'auto',
+    position,
+    scenarioId,
+    inputs,
+    outputs: [{ id: 'o1', name: 'token', value: '${response.login.token}' }],
+  };
+}
+
+/** Runs a caller that logs in through a call step, then fetches the profile with the token */
+function runCaller(call: CallStep, scenarios: Scenario[] = [login]) {
+  const caller = createScenario(
+    'caller',
+    [call, createRequest('profile', 'GET', '/profile', {
+      headers: [{ key: 'Authorization', value: 'Bearer ${vars.token}', enabled: true }],
+    })],
+    { edges: [{ id: 'e1', sourceStepId: 'call', targetStepId: 'profile' }] }
+  );
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(caller, new Map([['api', server]]), { name: 'ann' }, { scenarios: [...scenarios, caller] });
+}
+
+test('maps inputs to parameters and outputs back to caller variables', async () => {
+  const result = await runCaller(createCall('login-flow', [{ id: 'i1', name: 'user', value: '${params.name}' }]));
+
+  expect(result.status).toBe('completed');
+  expect(JSON.parse(requests[0].body)).toEqual({ user: 'ann', tenant: 'acme' });
+  expect(requests[1]).toMatchObject({ url: '/profile', authorization: 'Bearer acme-ann' });
+  expect(result.variables.token).toBe('acme-ann');
+  // The called scenario keeps its own responses
+  expect(Object.keys(result.responses)).toEqual(['profile']);
+});
+
+test('records the called run in the call step result', async () => {
+  const result = await runCaller(createCall('login-flow', [
+    { id: 'i1', name: 'user', value: 'bob' },
+    { id: 'i2', name: 'tenant', value: 'globex' },
+  ]));
+
+  expect(result.stepResults.call.subScenario).toMatchObject({
+    scenarioId: 'login-flow',
+    scenarioName: 'Login flow',
+    status: 'completed',
+    params: { user: 'bob', tenant: 'globex' },
+    steps: [{ stepId: 'login', name: 'login', type: 'request', status: 'success' }],
+  });
+  expect(result.variables.token).toBe('globex-bob');
+});
+
+test('fails the call when a required parameter is missing', async () => {
+  const result = await runCaller(createCall('login-flow', []));
+
+  expect(result.status).toBe('failed');
+  expect(requests).toEqual([]);
+  expect(result.stepResults.call.error).toEqual({
+    code: 'CALL_FAILED',
+    message: 'Missing required parameter(s) for scenario "Login flow": user',
+  });
+});
+
+test('fails the call for unknown and recursive scenarios', async () => {
+  const unknown = await runCaller(createCall('missing', []));
+  expect(unknown.stepResults.call.error?.message).toBe('Called scenario "missing" not found');
+
+  const recursive = await runCaller(createCall('caller', []));
+  expect(recursive.stepResults.call.error?.message).toBe('Recursive scenario call: caller → caller');
+});
+
+test('fails the call when the called scenario fails', async () => {
+  const failing = createScenario('failing', [
+    createRequest('check', 'GET', '/check', {
+      assertions: [{ id: 'a1', type: 'status', operator: '==', expected: 201 }],
+    }),
+  ]);
+  const result = await runCaller(createCall('failing', []), [failing]);
+
+  expect(result.status).toBe('failed');
+  expect(result.stepResults.call.status).toBe('failed');
+  expect(result.stepResults.call.error?.message).toMatch(/^Scenario "failing" failed/);
+  expect(result.stepResults.call.subScenario?.steps).toEqual([
+    expect.objectContaining({ stepId: 'check', status: 'failed' }),
+  ]);
+});
@@ -0,0 +1,97 @@
+import { test, expect } from '@playwright/test';
+import { executeScenario } from '@/engine';
+import type { LoopStep, RequestStep, Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+const ITEMS = [1, 2, 3, 4];
+
+let api: TestServer;
+const checks: URLSearchParams[] = [];
+
+test.beforeAll(async () => {
+  api = await startTestServer((request, _body, response) => {
+    const url = new URL(request.url ?? '', 'http://localhost');
+    const id = Number(url.pathname.split('/').pop());
+    if (url.pathname.startsWith('/items/')) {
+      // Earlier items answer last, so every iteration saves its response while the others run
+      setTimeout(() => sendJson(response, 200, { id }), (ITEMS.length - id + 1) * 30);
+    } else {
+      checks.push(url.searchParams);
+      sendJson(response, 200, { ok: true });
+    }
+  });
+});
+
+test.afterAll(() => api.close());
+
+test('concurrent iterations read their own responses and variables', async () => {
+  const position = { x: 0, y: 0 };
+  const loop: LoopStep = {
+    id: 'loop',
+    name: 'loop',
+    type: 'loop',
+    executionMode: 'auto',
+    position,
+    loop: { id: 'items', type: 'forEach', source: '${params.items}', itemAlias: 'item', parallelism: 4 },
+    stepIds: ['get', 'check'],
+    variableName: 'items',
+  };
+  const get: RequestStep = {
+    id: 'get',
+    name: 'get',
+    type: 'request',
+    executionMode: 'auto',
+    position,
+    serverId: 'api',
+    method: 'GET',
+    endpoint: '/items/${loop.item}',
+    headers: [],
+    responseAlias: 'item',
+    extract: [{ id: 'lastId', name: 'lastId', source: 'body', expression: '$.id' }],
+    waitForResponse: true,
+    saveResponse: true,
+  };
+  const check: RequestStep = {
+    ...get,
+    id: 'check',
+    name: 'check',
+    endpoint: '/check',
+    queryParams: { item: '${loop.item}', response: '${response.item.id}', variable: '${vars.lastId}' },
+    responseAlias: undefined,
+    extract: undefined,
+  };
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'concurrent',
+    name: 'Concurrent iterations',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps: [loop, get, check],
+    edges: [{ id: 'e1', sourceStepId: 'get', targetStepId: 'check' }],
+    startStepId: 'loop',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  const result = await executeScenario(scenario, new Map([['api', server]]), { items: ITEMS });
+
+  expect(result.status).toBe('completed');
+  expect(checks).toHaveLength(ITEMS.length);
+  for (const params of checks) {
+    expect(params.get('response')).toBe(params.get('item'));
+    expect(params.get('variable')).toBe(params.get('item'));
+  }
+
+  // Iterations are merged in order, as if they had run one after another
+  expect(result.responses.item).toEqual({ id: 4 });
+  expect(result.variables.lastId).toBe(4);
+});
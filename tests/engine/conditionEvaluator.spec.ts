@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+import { compareValues } from '@/engine/conditionEvaluator';
+
+test('between compares numeric strings as numbers', () => {
+  expect(compareValues('between', '42', '1, 100')).toBe(true);
+  expect(compareValues('between', ' 7 ', [1, 10])).toBe(true);
+  expect(compareValues('between', '420', '1, 100')).toBe(false);
+  expect(compareValues('between', 'abc', '1, 100')).toBe(false);
+  expect(compareValues('between', '', '1, 100')).toBe(false);
+});
+
+test('in and notIn use strict equality after numeric conversion', () => {
+  expect(compareValues('in', '201', '200, 201')).toBe(true);
+  expect(compareValues('in', 201, ['200', '201'])).toBe(true);
+  expect(compareValues('in', 'ACTIVE', 'ACTIVE, PENDING')).toBe(true);
+
+  // Loose equality would match these
+  expect(compareValues('in', 'true', [true])).toBe(false);
+  expect(compareValues('in', 0, [''])).toBe(false);
+  expect(compareValues('in', 0, [false])).toBe(false);
+  expect(compareValues('notIn', 1, [true])).toBe(true);
+});
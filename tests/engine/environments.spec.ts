@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import { applyEnvironment, executeScenario, getEnvironmentVariables } from '@/engine';
+import type { Environment, Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+const server: Server = {
+  id: 'api',
+  name: 'api',
+  // Nothing listens here; the environment override points the run at the test server
+  baseUrl: 'http://127.0.0.1:9',
+  headers: [
+    { key: 'X-Tenant', value: 'default', enabled: true },
+    { key: 'Accept', value: 'application/json', enabled: true },
+  ],
+  timeout: 5000,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function createEnvironment(baseUrl: string): Environment {
+  return {
+    id: 'staging',
+    name: 'staging',
+    variables: [
+      { key: 'tenant', value: 'acme', enabled: true },
+      { key: 'region', value: 'eu', enabled: false },
+      { key: ' ', value: 'ignored', enabled: true },
+    ],
+    serverOverrides: [
+      { serverId: 'api', baseUrl: ` ${baseUrl} `, headers: [{ key: 'x-tenant', value: '${env.tenant}', enabled: true }] },
+      { serverId: 'unknown', baseUrl: 'http://unknown' },
+    ],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+test('overrides base URLs and replaces headers with the same key', () => {
+  const servers = applyEnvironment(new Map([['api', server]]), createEnvironment('http://staging.example.com'));
+
+  expect([...servers.keys()]).toEqual(['api']);
+  expect(servers.get('api')?.baseUrl).toBe('http://staging.example.com');
+  expect(servers.get('api')?.headers).toEqual([
+    { key: 'Accept', value: 'application/json', enabled: true },
+    { key: 'x-tenant', value: '${env.tenant}', enabled: true },
+  ]);
+});
+
+test('leaves servers unchanged without an environment', () => {
+  const servers = new Map([['api', server]]);
+
+  expect(applyEnvironment(servers, null)).toBe(servers);
+});
+
+test('exposes only enabled, named variables', () => {
+  expect(getEnvironmentVariables(createEnvironment('http://staging.example.com'))).toEqual({ tenant: 'acme' });
+  expect(getEnvironmentVariables(undefined)).toEqual({});
+});
+
+test.describe('in a scenario', () => {
+  let api: TestServer;
+  let received: { url?: string; tenant?: string | string[] } = {};
+
+  test.beforeAll(async () => {
+    api = await startTestServer((request, _body, response) => {
+      received = { url: request.url, tenant: request.headers['x-tenant'] };
+      sendJson(response, 200, { ok: true });
+    });
+  });
+
+  test.afterAll(() => api.close());
+
+  test('sends requests to the environment server with ${env.*} resolved', async () => {
+    const scenario: Scenario = {
+      id: 'env',
+      name: 'Env',
+      version: '1.0.0',
+      serverIds: ['api'],
+      parameterSchema: [],
+      steps: [
+        {
+          id: 'orders',
+          name: 'orders',
+          type: 'request',
+          executionMode: 'auto',
+          position: { x: 0, y: 0 },
+          serverId: 'api',
+          method: 'GET',
+          endpoint: '/tenants/${env.tenant}/orders',
+          headers: [],
+          waitForResponse: true,
+          saveResponse: true,
+        },
+      ],
+      edges: [],
+      startStepId: 'orders',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    const result = await executeScenario(scenario, new Map([['api', server]]), {}, {
+      environment: createEnvironment(api.url),
+    });
+
+    expect(result.status).toBe('completed');
+    expect(result.environmentName).toBe('staging');
+    expect(received).toEqual({ url: '/tenants/acme/orders', tenant: 'acme' });
+  });
+});
@@ -0,0 +1,206 @@
+import { test, expect } from '@playwright/test';
+import { executeScenario } from '@/engine';
+import type { GroupStep, LoopStep, RequestStep, Scenario, ScenarioEdge, Server, Step } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+const requested: string[] = [];
+
+test.beforeAll(async () => {
+  // /missing answers 404, everything else 200
+  api = await startTestServer((request, _body, response) => {
+    requested.push(decodeURIComponent(request.url ?? ''));
+    if (request.url === '/missing') {
+      sendJson(response, 404, { reason: 'gone' });
+    } else {
+      sendJson(response, 200, { ok: true });
+    }
+  });
+});
+
+test.beforeEach(() => {
+  requested.length = 0;
+});
+
+test.afterAll(() => api.close());
+
+const position = { x: 0, y: 0 };
+
+function createRequest(id: string, endpoint: string): RequestStep {
+  return {
+    id,
+    name: id,
+    type: 'request',
+    executionMode: 'auto',
+    position,
+    serverId: 'api',
+    method: 'GET',
+    endpoint,
+    headers: [],
+    waitForResponse: true,
+    saveResponse: true,
+  };
+}
+
+// Handler step reporting the caught failure in its URL
+const handler = createRequest(
+  'handler',
+  '/handled?step=${error.stepName}&code=${error.code}&status=${error.status}&reason=${error.response.reason}'
+);
+
+function run(steps: Step[], edges: ScenarioEdge[], startStepId: string) {
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'error-edges',
+    name: 'Error edges',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps,
+    edges,
+    startStepId,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(scenario, new Map([['api', server]]), {});
+}
+
+test('continues at the error edge of a failed request and exposes the failure', async () => {
+  const result = await run(
+    [createRequest('fetch', '/missing'), createRequest('next', '/next'), handler],
+    [
+      { id: 'e1', sourceStepId: 'fetch', targetStepId: 'next' },
+      { id: 'e2', sourceStepId: 'fetch', targetStepId: 'handler', sourceHandle: 'error' },
+    ],
+    'fetch'
+  );
+
+  expect(result.status).toBe('completed');
+  expect(requested).toEqual(['/missing', '/handled?step=fetch&code=REQUEST_FAILED&status=404&reason=gone']);
+  // The failed step keeps its failed result
+  expect(result.stepResults.fetch.status).toBe('failed');
+  expect(result.stepResults.handler.status).toBe('success');
+});
+
+test('follows the regular edge when the step succeeds', async () => {
+  const result = await run(
+    [createRequest('fetch', '/found'), createRequest('next', '/next'), handler],
+    [
+      { id: 'e1', sourceStepId: 'fetch', targetStepId: 'next' },
+      { id: 'e2', sourceStepId: 'fetch', targetStepId: 'handler', sourceHandle: 'error' },
+    ],
+    'fetch'
+  );
+
+  expect(result.status).toBe('completed');
+  expect(requested).toEqual(['/found', '/next']);
+});
+
+test('fails the run when the failed step has no error edge', async () => {
+  const result = await run(
+    [createRequest('fetch', '/missing'), createRequest('next', '/next')],
+    [{ id: 'e1', sourceStepId: 'fetch', targetStepId: 'next' }],
+    'fetch'
+  );
+
+  expect(result.status).toBe('failed');
+  expect(requested).toEqual(['/missing']);
+});
+
+test.describe('in a group', () => {
+  const group: GroupStep = {
+    id: 'group',
+    name: 'group',
+    type: 'group',
+    executionMode: 'auto',
+    position,
+    stepIds: ['first', 'second', 'third'],
+  };
+  const children = [
+    createRequest('first', '/first'),
+    createRequest('second', '/missing'),
+    createRequest('third', '/third'),
+  ];
+  const childEdges: ScenarioEdge[] = [
+    { id: 'c1', sourceStepId: 'first', targetStepId: 'second' },
+    { id: 'c2', sourceStepId: 'second', targetStepId: 'third' },
+  ];
+
+  test('routes a failing child to the error edge of the group', async () => {
+    const result = await run(
+      [group, ...children, createRequest('after', '/after'), handler],
+      [
+        ...childEdges,
+        { id: 'e1', sourceStepId: 'group', targetStepId: 'after' },
+        { id: 'e2', sourceStepId: 'group', targetStepId: 'handler', sourceHandle: 'error' },
+      ],
+      'group'
+    );
+
+    expect(result.status).toBe('completed');
+    expect(requested).toEqual([
+      '/first',
+      '/missing',
+      '/handled?step=group&code=GROUP_FAILED&status=404&reason=gone',
+    ]);
+    expect(result.stepResults.group.status).toBe('failed');
+    expect(result.stepResults.group.error?.code).toBe('GROUP_FAILED');
+  });
+
+  test('lets an error edge inside the group handle the failure first', async () => {
+    const result = await run(
+      [group, ...children, createRequest('after', '/after'), handler],
+      [
+        { id: 'c1', sourceStepId: 'first', targetStepId: 'second' },
+        { id: 'c2', sourceStepId: 'second', targetStepId: 'third', sourceHandle: 'error' },
+        { id: 'e1', sourceStepId: 'group', targetStepId: 'after' },
+        { id: 'e2', sourceStepId: 'group', targetStepId: 'handler', sourceHandle: 'error' },
+      ],
+      'group'
+    );
+
+    expect(result.status).toBe('completed');
+    expect(requested).toEqual(['/first', '/missing', '/third', '/after']);
+    expect(result.stepResults.group.status).toBe('success');
+  });
+
+  test('leaves the error edge alone when a child skips the loop iteration', async () => {
+    const loop: LoopStep = {
+      id: 'loop',
+      name: 'loop',
+      type: 'loop',
+      executionMode: 'auto',
+      position,
+      loop: { id: 'twice', type: 'count', count: 2 },
+      stepIds: ['group'],
+      variableName: 'twice',
+    };
+    const skipping = { ...children[1], onFailure: 'skipIteration' as const };
+
+    const result = await run(
+      [loop, group, children[0], skipping, children[2], createRequest('after', '/after'), handler],
+      [
+        ...childEdges,
+        { id: 'e1', sourceStepId: 'loop', targetStepId: 'after' },
+        { id: 'e2', sourceStepId: 'group', targetStepId: 'handler', sourceHandle: 'error' },
+      ],
+      'loop'
+    );
+
+    expect(requested).toEqual(['/first', '/missing', '/first', '/missing', '/after']);
+    expect(result.status).toBe('failed');
+    // Only the skipping child counts as failed, once per iteration
+    expect(result.summary.failed).toBe(2);
+    const groupResults = Object.values(result.iterationResults).filter((r) => r.stepId === 'group');
+    expect(groupResults).toHaveLength(2);
+    expect(groupResults.every((r) => r.status !== 'failed' && !r.error)).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import { test, expect } from '@playwright/test';
+import {
+  createVariableContext,
+  evaluateExpression,
+  ExpressionError,
+  resolveSingleVariable,
+  resolveStringVariables,
+} from '@/engine';
+
+const context = createVariableContext(
+  { count: 5, price: '2.50', name: 'Ann', list: ['a', 'b', 'c'], users: [{ id: 7 }, { id: 9 }], empty: '' },
+  { 'get-user': { token: 'abc' } },
+  [],
+  { retries: 0, payload: '{"a":[1]}' }
+);
+
+const resolve = (template: string) => resolveSingleVariable(template, context);
+
+test.describe('operators', () => {
+  test('follow arithmetic precedence and keep the result type', () => {
+    expect(resolve('${params.count * 2 + 1}')).toBe(11);
+    expect(resolve('${(params.count + 1) * 2}')).toBe(12);
+    expect(resolve('${params.count % 3}')).toBe(2);
+    expect(resolve('${-params.count}')).toBe(-5);
+    expect(resolve('${params.price * 2}')).toBe(5);
+  });
+
+  test('concatenate when either side is a string', () => {
+    expect(resolve("${params.name + '-' + params.count}")).toBe('Ann-5');
+    expect(resolveStringVariables('Total: ${params.count * 2}', context)).toBe('Total: 10');
+  });
+
+  test('compare and combine values', () => {
+    expect(resolve('${params.count >= 5 && params.name == "Ann"}')).toBe(true);
+    expect(resolve('${!(params.count < 5)}')).toBe(true);
+    expect(resolve("${params.empty || 'guest'}")).toBe('guest');
+    // || returns an operand, so a zero falls through as well
+    expect(resolve('${vars.retries || 3}')).toBe(3);
+  });
+
+  test('support computed access and hyphenated step IDs', () => {
+    expect(resolve('${params.users[params.count - 4].id}')).toBe(9);
+    expect(resolve('${response.get-user.token | upper}')).toBe('ABC');
+  });
+});
+
+test.describe('functions and pipes', () => {
+  test('pipe the left value as the first argument', () => {
+    expect(resolve('${params.list | length}')).toBe(3);
+    expect(resolve("${params.list | join('-') | upper}")).toBe('A-B-C');
+    expect(resolve('${params.list | last}')).toBe('c');
+    expect(resolve("${params.missing | default('none')}")).toBe('none');
+  });
+
+  test('transform strings and numbers', () => {
+    expect(resolve("${replace('a.b.c', '.', '/')}")).toBe('a/b/c');
+    expect(resolve("${substring('abcdef', 1, 3)}")).toBe('bc');
+    expect(resolve("${split('a,b', ',')}")).toEqual(['a', 'b']);
+    expect(resolve('${round(2.345, 2)}')).toBe(2.35);
+    expect(resolve('${max(1, params.count, 3)}')).toBe(5);
+    expect(resolve("${number('42') + 1}")).toBe(43);
+  });
+
+  test('encode, hash and parse', () => {
+    expect(resolve("${base64('héllo')}")).toBe('aMOpbGxv');
+    expect(resolve("${base64Decode('aMOpbGxv')}")).toBe('héllo');
+    expect(resolve("${urlEncode('a b&c')}")).toBe('a%20b%26c');
+    expect(resolve("${sha256('abc')}")).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(resolve('${params.users | json}')).toBe('[{"id":7},{"id":9}]');
+    expect(resolve('${parseJson(vars.payload).a[0]}')).toBe(1);
+  });
+
+  test('generate values', () => {
+    expect(resolve('${uuid()}')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(resolve('${randomString(12)}')).toMatch(/^[A-Za-z0-9]{12}$/);
+    const value = resolve('${randomInt(1, 3)}') as number;
+    expect([1, 2, 3]).toContain(value);
+  });
+
+  test('now() shifts and formats in UTC', () => {
+    const today = new Date();
+    const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+    const expected = tomorrow.toISOString().slice(0, 10);
+
+    expect(resolve("${now('+1d', 'yyyy-MM-dd')}")).toBe(expected);
+    expect(resolve("${now('yyyy')}")).toBe(String(today.getUTCFullYear()));
+    expect(Math.abs((resolve("${now('epoch')}") as number) - Date.now() / 1000)).toBeLessThan(5);
+  });
+});
+
+test.describe('errors', () => {
+  test('name the template and the reason', () => {
+    expect(() => resolve('${foo(1)}')).toThrow('Invalid expression "${foo(1)}": unknown function "foo"');
+    expect(() => resolve('${length()}')).toThrow('length() expects 1 argument(s), got 0');
+    expect(() => resolve("${randomInt(5, 1)}")).toThrow('randomInt(): min (5) is greater than max (1)');
+    expect(() => resolve('${params.count +}')).toThrow(ExpressionError);
+  });
+
+  test('keep secrets out of expressions', () => {
+    expect(resolveStringVariables('Bearer ${secret.token}', context)).toBe('Bearer ${secret.token}');
+    expect(() => resolve('${secret.token | upper}')).toThrow(
+      'secrets can only be used as a plain ${secret.name} reference'
+    );
+  });
+});
+
+test('evaluates expressions against any path resolver', () => {
+  const paths: Record<string, unknown> = { 'a.b': 2, c: [1, 2, 3] };
+  expect(evaluateExpression('a.b * (c | length)', (path) => paths[path])).toBe(6);
+});
@@ -0,0 +1,225 @@
+import { test, expect } from '@playwright/test';
+import { executeScenario, getFailurePolicy, summarizeResults } from '@/engine';
+import type { FailurePolicy, LoopStep, RequestStep, Scenario, ScenarioEdge, Server, Step } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+const requested: string[] = [];
+
+test.beforeAll(async () => {
+  // Paths containing "fail" answer 500, everything else 200
+  api = await startTestServer((request, _body, response) => {
+    requested.push(request.url ?? '');
+    sendJson(response, request.url?.includes('fail') ? 500 : 200, {});
+  });
+});
+
+test.beforeEach(() => {
+  requested.length = 0;
+});
+
+test.afterAll(() => api.close());
+
+const position = { x: 0, y: 0 };
+
+function createRequest(id: string, endpoint: string, onFailure?: FailurePolicy): RequestStep {
+  return {
+    id,
+    name: id,
+    type: 'request',
+    executionMode: 'auto',
+    position,
+    serverId: 'api',
+    method: 'GET',
+    endpoint,
+    headers: [],
+    waitForResponse: true,
+    saveResponse: true,
+    onFailure,
+  };
+}
+
+function run(steps: Step[], edges: ScenarioEdge[], stopOnError?: boolean) {
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'failure-policies',
+    name: 'Failure policies',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps,
+    edges,
+    startStepId: steps[0].id,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(scenario, new Map([['api', server]]), { items: ['a', 'fail', 'c'] }, { stopOnError });
+}
+
+/** Runs a failing request followed by another request */
+function runFailingStep(onFailure?: FailurePolicy, stopOnError?: boolean) {
+  return run(
+    [createRequest('failing', '/fail', onFailure), createRequest('next', '/next')],
+    [{ id: 'e1', sourceStepId: 'failing', targetStepId: 'next' }],
+    stopOnError
+  );
+}
+
+test('uses the step policy before the run default', () => {
+  const step = createRequest('a', '/a');
+  expect(getFailurePolicy(step, true)).toBe('stop');
+  expect(getFailurePolicy(step, false)).toBe('continue');
+  expect(getFailurePolicy({ ...step, onFailure: 'warning' }, true)).toBe('warning');
+});
+
+test('stop ends the run at the failed step', async () => {
+  const result = await runFailingStep('stop', false);
+
+  expect(result.status).toBe('failed');
+  expect(requested).toEqual(['/fail']);
+  expect(result.summary).toEqual({ passed: 0, failed: 1, warnings: 0, skipped: 0 });
+});
+
+test('continue keeps the failure and fails the run once every step ran', async () => {
+  const result = await runFailingStep('continue');
+
+  expect(requested).toEqual(['/fail', '/next']);
+  expect(result.status).toBe('failed');
+  expect(result.stepResults.failing.status).toBe('failed');
+  expect(result.summary).toEqual({ passed: 1, failed: 1, warnings: 0, skipped: 0 });
+});
+
+test('warning marks the step and completes the run', async () => {
+  const result = await runFailingStep('warning');
+
+  expect(requested).toEqual(['/fail', '/next']);
+  expect(result.status).toBe('completed');
+  expect(result.stepResults.failing.status).toBe('warning');
+  expect(result.summary).toEqual({ passed: 1, failed: 0, warnings: 1, skipped: 0 });
+});
+
+test('stopOnError false continues after steps without a policy', async () => {
+  const result = await runFailingStep(undefined, false);
+
+  expect(requested).toEqual(['/fail', '/next']);
+  expect(result.status).toBe('failed');
+});
+
+test('skipIteration ends the iteration and the loop goes on', async () => {
+  const loop: LoopStep = {
+    id: 'loop',
+    name: 'loop',
+    type: 'loop',
+    executionMode: 'auto',
+    position,
+    loop: { id: 'items', type: 'forEach', source: '${params.items}', itemAlias: 'item' },
+    stepIds: ['check', 'use'],
+    variableName: 'items',
+  };
+
+  const result = await run(
+    [
+      loop,
+      createRequest('check', '/check-${loop.item}', 'skipIteration'),
+      createRequest('use', '/use-${loop.item}'),
+      createRequest('after', '/after'),
+    ],
+    [
+      { id: 'e1', sourceStepId: 'check', targetStepId: 'use' },
+      { id: 'e2', sourceStepId: 'loop', targetStepId: 'after' },
+    ]
+  );
+
+  expect(requested).toEqual(['/check-a', '/use-a', '/check-fail', '/check-c', '/use-c', '/after']);
+  expect(result.status).toBe('failed');
+  expect(result.stepResults.loop.status).toBe('success');
+  expect(result.summary).toEqual({ passed: 6, failed: 1, warnings: 0, skipped: 0 });
+});
+
+test('skipIteration outside a loop stops the run', async () => {
+  const result = await runFailingStep('skipIteration', false);
+
+  expect(result.status).toBe('failed');
+  expect(requested).toEqual(['/fail']);
+});
+
+test('handled failures count as failed, only the warning policy counts them as warnings', async () => {
+  /** Runs a loop over a, fail, c whose check step fails for "fail", handled by the policy or an error edge */
+  const runLoop = (onFailure: FailurePolicy | 'errorEdge') => {
+    const loop: LoopStep = {
+      id: 'loop',
+      name: 'loop',
+      type: 'loop',
+      executionMode: 'auto',
+      position,
+      loop: { id: 'items', type: 'forEach', source: '${params.items}', itemAlias: 'item' },
+      stepIds: ['check', 'use'],
+      variableName: 'items',
+    };
+    const edges: ScenarioEdge[] = [
+      { id: 'e1', sourceStepId: 'check', targetStepId: 'use' },
+      { id: 'e2', sourceStepId: 'loop', targetStepId: 'after' },
+    ];
+    if (onFailure === 'errorEdge') {
+      edges.push({ id: 'e3', sourceStepId: 'check', targetStepId: 'use', sourceHandle: 'error' });
+    }
+    return run(
+      [
+        loop,
+        createRequest('check', '/check-${loop.item}', onFailure === 'errorEdge' ? undefined : onFailure),
+        createRequest('use', '/use'),
+        createRequest('after', '/after'),
+      ],
+      edges
+    );
+  };
+
+  const stop = await runLoop('stop');
+  expect(stop.status).toBe('failed');
+  // The loop fails along with the step that stopped it
+  expect(stop.summary).toEqual({ passed: 2, failed: 2, warnings: 0, skipped: 0 });
+
+  const continued = await runLoop('continue');
+  expect(continued.status).toBe('failed');
+  expect(continued.summary).toEqual({ passed: 7, failed: 1, warnings: 0, skipped: 0 });
+
+  const skipped = await runLoop('skipIteration');
+  expect(skipped.status).toBe('failed');
+  expect(skipped.summary).toEqual({ passed: 6, failed: 1, warnings: 0, skipped: 0 });
+
+  const warning = await runLoop('warning');
+  expect(warning.status).toBe('completed');
+  expect(warning.summary).toEqual({ passed: 7, failed: 0, warnings: 1, skipped: 0 });
+
+  // An error edge completes the run, but the step it caught still counts as failed
+  const caught = await runLoop('errorEdge');
+  expect(caught.status).toBe('completed');
+  expect(caught.summary).toEqual({ passed: 7, failed: 1, warnings: 0, skipped: 0 });
+});
+
+test('summary counts loop steps once per iteration', () => {
+  const result = (stepId: string, status: 'success' | 'failed' | 'warning' | 'skipped') => ({
+    stepId,
+    status,
+    startedAt: '',
+  });
+
+  expect(
+    summarizeResults(
+      { loop: result('loop', 'success'), check: result('check', 'failed'), after: result('after', 'skipped') },
+      {
+        'check@loop#1': result('check', 'success'),
+        'check@loop#2': result('check', 'failed'),
+        'check@loop#3': result('check', 'warning'),
+      }
+    )
+  ).toEqual({ passed: 2, failed: 1, warnings: 1, skipped: 1 });
+});
@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test';
+import {
+  createLoopIterator,
+  createVariableContext,
+  evaluateCondition,
+  isMultiValuePath,
+  queryJsonPath,
+  resolveSingleVariable,
+} from '@/engine';
+
+const orders = {
+  items: [
+    { id: 1, status: 'OK', price: 5, owner: 'ann', lines: [{ sku: 'a' }, { sku: 'b' }] },
+    { id: 3, status: 'FAILED', price: 12, owner: 'bob', lines: [{ sku: 'c' }] },
+    { id: 7, status: 'FAILED', price: 30, owner: 'ann', lines: [] },
+  ],
+  meta: { total: 3, page: { id: 'p1' } },
+};
+
+test.describe('queryJsonPath', () => {
+  test('returns every match of wildcards and filters', () => {
+    expect(queryJsonPath(orders, "items[?(@.status == 'FAILED')].id")).toEqual([3, 7]);
+    expect(queryJsonPath(orders, '$.items[?(@.price > 10 && @.owner == "ann")].id')).toEqual([7]);
+    expect(queryJsonPath(orders, 'items[*].lines[*].sku')).toEqual(['a', 'b', 'c']);
+    expect(queryJsonPath(orders, 'meta.*')).toEqual([3, { id: 'p1' }]);
+  });
+
+  test('supports slices, unions, negative indexes and recursive descent', () => {
+    expect(queryJsonPath(orders, 'items[0:2].id')).toEqual([1, 3]);
+    expect(queryJsonPath(orders, 'items[::-1].id')).toEqual([7, 3, 1]);
+    expect(queryJsonPath(orders, 'items[0,2].id')).toEqual([1, 7]);
+    expect(queryJsonPath(orders, "items[0]['id','owner']")).toEqual([1, 'ann']);
+    expect(queryJsonPath(orders, 'items[-1].id')).toBe(7);
+    expect(queryJsonPath(orders, '$..id')).toEqual([1, 3, 7, 'p1']);
+  });
+
+  test('returns a single value or undefined for definite paths', () => {
+    expect(queryJsonPath(orders, '$.meta.page.id')).toBe('p1');
+    expect(queryJsonPath(orders, "$['meta']['total']")).toBe(3);
+    expect(queryJsonPath(orders, 'meta.missing')).toBeUndefined();
+    expect(queryJsonPath(orders, "items[?(@.status == 'NONE')]")).toEqual([]);
+  });
+
+  test('resolves other variables used in filters', () => {
+    const variables: Record<string, unknown> = { 'vars.userId': 'bob' };
+    expect(queryJsonPath(orders, 'items[?(@.owner == vars.userId)].id', (path) => variables[path])).toEqual([3]);
+  });
+
+  test('tells multi-value paths apart and rejects malformed ones', () => {
+    expect(isMultiValuePath('items[0].id')).toBe(false);
+    expect(isMultiValuePath('items[*].id')).toBe(true);
+    expect(isMultiValuePath('items[?(@.id)]')).toBe(true);
+    expect(() => queryJsonPath(orders, 'items[')).toThrow('Invalid JSONPath "items[": unclosed "["');
+  });
+});
+
+test.describe('in scenarios', () => {
+  const context = createVariableContext({ minPrice: 10 }, { list: orders }, [], { userId: 'ann' });
+
+  test('references select all matches', () => {
+    expect(resolveSingleVariable("${response.list.items[?(@.status == 'FAILED')].id}", context)).toEqual([3, 7]);
+    expect(resolveSingleVariable('${response.list.items[?(@.owner == vars.userId)].id}', context)).toEqual([1, 7]);
+    expect(resolveSingleVariable('${response.list.items[?(@.price > params.minPrice)] | length}', context)).toBe(2);
+  });
+
+  test('condition fields are JSONPath queries', () => {
+    expect(evaluateCondition(
+      { id: 'c1', source: 'response', stepId: 'list', field: "items[?(@.status == 'FAILED')]", operator: 'isNotEmpty' },
+      context
+    )).toBe(true);
+    expect(evaluateCondition(
+      { id: 'c2', source: 'response', stepId: 'list', field: 'items[*].id', operator: 'contains', value: 3 },
+      context
+    )).toBe(true);
+    expect(evaluateCondition(
+      { id: 'c3', source: 'response', stepId: 'list', field: "items[?(@.owner == 'eve')]", operator: 'isEmpty' },
+      context
+    )).toBe(true);
+  });
+
+  test('forEach sources may be bare paths that flatten matches', () => {
+    const iterator = createLoopIterator(
+      { id: 'lines', type: 'forEach', source: 'response.list.items[*].lines[*]', itemAlias: 'line' },
+      context
+    );
+
+    expect(iterator.totalIterations).toBe(3);
+    expect(iterator.next()?.currentItem).toEqual({ sku: 'a' });
+  });
+});
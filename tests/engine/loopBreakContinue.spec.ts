@@ -0,0 +1,132 @@
+import { test, expect } from '@playwright/test';
+import { describeCondition, executeScenario } from '@/engine';
+import type { ConditionExpression, LoopStep, RequestStep, Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+const requested: string[] = [];
+
+test.beforeAll(async () => {
+  // /find/<item> reports whether the item is the one searched for ("c") or should be skipped ("b")
+  api = await startTestServer((request, _body, response) => {
+    requested.push(request.url ?? '');
+    const item = request.url?.split('/')[2];
+    sendJson(response, 200, { found: item === 'c', skip: item === 'b' });
+  });
+});
+
+test.beforeEach(() => {
+  requested.length = 0;
+});
+
+test.afterAll(() => api.close());
+
+const position = { x: 0, y: 0 };
+
+function createRequest(id: string, endpoint: string): RequestStep {
+  return {
+    id,
+    name: id,
+    type: 'request',
+    executionMode: 'auto',
+    position,
+    serverId: 'api',
+    method: 'GET',
+    endpoint,
+    headers: [],
+    waitForResponse: true,
+    saveResponse: true,
+  };
+}
+
+const found: ConditionExpression = { id: 'c1', source: 'response', stepId: 'find', field: 'found', operator: '==', value: true };
+const skip: ConditionExpression = { id: 'c2', source: 'response', stepId: 'find', field: 'skip', operator: '==', value: true };
+
+/** Runs a forEach loop over a..e with the body find -> use, followed by an "after" request */
+function runLoop(conditions: Pick<LoopStep, 'breakCondition' | 'continueCondition'>, parallelism?: number) {
+  const loop: LoopStep = {
+    id: 'loop',
+    name: 'loop',
+    type: 'loop',
+    executionMode: 'auto',
+    position,
+    loop: { id: 'items', type: 'forEach', source: '${params.items}', itemAlias: 'item', parallelism },
+    stepIds: ['find', 'use'],
+    variableName: 'items',
+    ...conditions,
+  };
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'break-continue',
+    name: 'Break and continue',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps: [loop, createRequest('find', '/find/${loop.item}'), createRequest('use', '/use/${loop.item}'), createRequest('after', '/after')],
+    edges: [
+      { id: 'e1', sourceStepId: 'find', targetStepId: 'use' },
+      { id: 'e2', sourceStepId: 'loop', targetStepId: 'after' },
+    ],
+    startStepId: 'loop',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(scenario, new Map([['api', server]]), { items: ['a', 'b', 'c', 'd', 'e'] });
+}
+
+test('runs every iteration when no condition holds', async () => {
+  const result = await runLoop({});
+
+  expect(requested).toHaveLength(11);
+  expect(result.stepResults.loop.loopExitReason).toBe('completed');
+});
+
+test('break condition ends the loop right after the step that met it', async () => {
+  const result = await runLoop({ breakCondition: found });
+
+  expect(requested).toEqual(['/find/a', '/use/a', '/find/b', '/use/b', '/find/c', '/after']);
+  expect(result.status).toBe('completed');
+  expect(result.stepResults.loop).toMatchObject({ status: 'success', loopExitReason: 'break' });
+});
+
+test('continue condition skips the rest of the iteration', async () => {
+  const result = await runLoop({ continueCondition: skip });
+
+  expect(requested).toEqual([
+    '/find/a', '/use/a',
+    '/find/b',
+    '/find/c', '/use/c',
+    '/find/d', '/use/d',
+    '/find/e', '/use/e',
+    '/after',
+  ]);
+  expect(result.stepResults.loop.loopExitReason).toBe('completed');
+});
+
+test('break with concurrent iterations starts no further iterations', async () => {
+  const result = await runLoop({ breakCondition: found }, 2);
+
+  expect(result.stepResults.loop.loopExitReason).toBe('break');
+  expect(requested.at(-1)).toBe('/after');
+  expect(requested).toContain('/find/c');
+  expect(requested).not.toContain('/find/e');
+});
+
+test('describes conditions for display', () => {
+  expect(describeCondition(found)).toBe('find.found == true');
+  expect(describeCondition({ id: 'p', source: 'params', field: 'target', operator: '==', value: '${loop.item}' }))
+    .toBe('params.target == ${loop.item}');
+  expect(describeCondition({
+    id: 'g',
+    operator: 'OR',
+    conditions: [found, { id: 'e', source: 'params', field: 'list', operator: 'isEmpty' }],
+  })).toBe('(find.found == true OR params.list isEmpty)');
+});
@@ -0,0 +1,189 @@
+import { test, expect } from '@playwright/test';
+import {
+  executeScenario,
+  formatJoinPolicy,
+  getJoinOutcome,
+  getLaneConcurrency,
+  getRequiredLanes,
+} from '@/engine';
+import type { JoinPolicy, ParallelStep, RequestStep, Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+let inFlight = 0;
+let maxInFlight = 0;
+const requested: string[] = [];
+
+test.beforeAll(async () => {
+  // /<name>/<status> answers <status> after a short delay and records how many requests overlap
+  api = await startTestServer((request, _body, response) => {
+    const [, name, status] = /^\/(\w+)\/(\d+)$/.exec(request.url ?? '') ?? [];
+    requested.push(name);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    setTimeout(() => {
+      inFlight--;
+      sendJson(response, Number(status), { name });
+    }, 40);
+  });
+});
+
+test.beforeEach(() => {
+  maxInFlight = 0;
+  requested.length = 0;
+});
+
+test.afterAll(() => api.close());
+
+const position = { x: 0, y: 0 };
+
+function createRequest(id: string, status = 200): RequestStep {
+  return {
+    id,
+    name: id,
+    type: 'request',
+    executionMode: 'auto',
+    position,
+    serverId: 'api',
+    method: 'GET',
+    endpoint: `/${id}/${status}`,
+    headers: [],
+    waitForResponse: true,
+    saveResponse: true,
+  };
+}
+
+/**
+ * Runs fork -> lanes (one request each, "b" followed by "b2") -> after
+ */
+function runLanes(
+  statuses: Record<'a' | 'b' | 'c', number>,
+  joinPolicy: JoinPolicy,
+  options: Partial<Pick<ParallelStep, 'joinCount' | 'maxConcurrency'>> = {}
+) {
+  const fork: ParallelStep = {
+    id: 'fork',
+    name: 'Fork',
+    type: 'parallel',
+    executionMode: 'auto',
+    position,
+    lanes: [
+      { id: 'lane_a', label: 'A', nextStepId: 'a' },
+      { id: 'lane_b', label: 'B', nextStepId: 'b' },
+      { id: 'lane_c', label: 'C', nextStepId: 'c' },
+    ],
+    joinPolicy,
+    ...options,
+  };
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'parallel',
+    name: 'Parallel',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps: [
+      fork,
+      createRequest('a', statuses.a),
+      createRequest('b', statuses.b),
+      createRequest('b2'),
+      createRequest('c', statuses.c),
+      createRequest('after'),
+    ],
+    edges: [
+      { id: 'e1', sourceStepId: 'fork', targetStepId: 'a', sourceHandle: 'lane_a' },
+      { id: 'e2', sourceStepId: 'fork', targetStepId: 'b', sourceHandle: 'lane_b' },
+      { id: 'e3', sourceStepId: 'fork', targetStepId: 'c', sourceHandle: 'lane_c' },
+      { id: 'e4', sourceStepId: 'b', targetStepId: 'b2' },
+      { id: 'e5', sourceStepId: 'fork', targetStepId: 'after' },
+    ],
+    startStepId: 'fork',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(scenario, new Map([['api', server]]), {});
+}
+
+test.describe('join policy', () => {
+  test('requires every lane, any lane, or a capped count', () => {
+    expect(getRequiredLanes('all', undefined, 3)).toBe(3);
+    expect(getRequiredLanes('any', undefined, 3)).toBe(1);
+    expect(getRequiredLanes('count', 2, 3)).toBe(2);
+    expect(getRequiredLanes('count', 5, 3)).toBe(3);
+    expect(getRequiredLanes('count', 0, 3)).toBe(1);
+    expect(getRequiredLanes('all', undefined, 0)).toBe(0);
+  });
+
+  test('is decided as soon as the finished lanes settle it', () => {
+    expect(getJoinOutcome(2, 3, 1, 0)).toBe('pending');
+    expect(getJoinOutcome(2, 3, 2, 0)).toBe('satisfied');
+    expect(getJoinOutcome(2, 3, 1, 1)).toBe('pending');
+    expect(getJoinOutcome(2, 3, 0, 2)).toBe('failed');
+    expect(getJoinOutcome(0, 0, 0, 0)).toBe('satisfied');
+  });
+
+  test('caps concurrency and formats the policy', () => {
+    const step = { lanes: [{}, {}, {}], joinPolicy: 'count', joinCount: 2 } as ParallelStep;
+    expect(getLaneConcurrency(step, 3)).toBe(3);
+    expect(getLaneConcurrency({ ...step, maxConcurrency: 2 }, 3)).toBe(2);
+    expect(getLaneConcurrency({ ...step, maxConcurrency: 9 }, 3)).toBe(3);
+    expect(formatJoinPolicy(step)).toBe('2 of 3');
+    expect(formatJoinPolicy({ ...step, joinPolicy: 'any' })).toBe('any');
+  });
+});
+
+test.describe('parallel step', () => {
+  test('runs lanes concurrently and continues after all of them joined', async () => {
+    const result = await runLanes({ a: 200, b: 200, c: 200 }, 'all');
+
+    expect(result.status).toBe('completed');
+    expect(maxInFlight).toBe(3);
+    expect(requested.at(-1)).toBe('after');
+    expect(requested).toContain('b2');
+    expect(result.stepResults.fork.lanes?.map((lane) => lane.status)).toEqual(['success', 'success', 'success']);
+  });
+
+  test('runs at most maxConcurrency lanes at once', async () => {
+    const result = await runLanes({ a: 200, b: 200, c: 200 }, 'all', { maxConcurrency: 1 });
+
+    expect(result.status).toBe('completed');
+    expect(maxInFlight).toBe(1);
+    expect(requested).toEqual(['a', 'b', 'b2', 'c', 'after']);
+  });
+
+  test('skips lanes not started once the join is satisfied', async () => {
+    const result = await runLanes({ a: 200, b: 200, c: 200 }, 'any', { maxConcurrency: 1 });
+
+    expect(result.status).toBe('completed');
+    expect(requested).toEqual(['a', 'after']);
+    expect(result.stepResults.fork.lanes?.map((lane) => lane.status)).toEqual(['success', 'skipped', 'skipped']);
+  });
+
+  test('fails the step with JOIN_FAILED when too few lanes succeed', async () => {
+    const result = await runLanes({ a: 200, b: 500, c: 200 }, 'all');
+
+    expect(result.status).toBe('failed');
+    expect(requested).not.toContain('after');
+    // The failed request ends lane B before its second step
+    expect(requested).not.toContain('b2');
+    expect(result.stepResults.fork.status).toBe('failed');
+    expect(result.stepResults.fork.error?.code).toBe('JOIN_FAILED');
+    expect(result.stepResults.fork.lanes?.[1]).toMatchObject({ status: 'failed', error: { code: 'LANE_FAILED' } });
+  });
+
+  test('tolerates failed lanes while the count is still met', async () => {
+    const result = await runLanes({ a: 200, b: 500, c: 200 }, 'count', { joinCount: 2 });
+
+    expect(result.status).toBe('completed');
+    expect(result.stepResults.fork.status).toBe('success');
+    expect(requested.at(-1)).toBe('after');
+  });
+});
@@ -0,0 +1,173 @@
+import { test, expect } from '@playwright/test';
+import { executeScenario, getAttemptTimeout } from '@/engine';
+import type { PollStep, RequestStep, Scenario, ScenarioEdge, Server, Step } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+const calls = new Map<string, number>();
+
+test.beforeAll(async () => {
+  // Jobs report DONE; "created" answers 404 twice, "unstable" drops the first connection,
+  // "down" drops every connection and "slow" answers after 1s
+  api = await startTestServer((request, _body, response) => {
+    const url = request.url ?? '';
+    const call = (calls.get(url) ?? 0) + 1;
+    calls.set(url, call);
+
+    if (url === '/jobs/created' && call <= 2) {
+      sendJson(response, 404, { error: 'NOT_FOUND' });
+    } else if ((url === '/jobs/unstable' && call === 1) || url === '/jobs/down') {
+      response.destroy();
+    } else if (url === '/jobs/slow') {
+      setTimeout(() => sendJson(response, 200, { state: 'DONE' }), 1000);
+    } else {
+      sendJson(response, 200, { state: 'DONE' });
+    }
+  });
+});
+
+test.beforeEach(() => {
+  calls.clear();
+});
+
+test.afterAll(() => api.close());
+
+const position = { x: 0, y: 0 };
+
+/** Poll step whose until condition throws (invalid regular expression) */
+const brokenPoll: PollStep = {
+  id: 'job',
+  name: 'job',
+  type: 'poll',
+  executionMode: 'auto',
+  position,
+  serverId: 'api',
+  method: 'GET',
+  endpoint: '/jobs/1',
+  headers: [],
+  poll: {
+    until: { id: 'done', source: 'response', stepId: 'job', field: 'state', operator: 'matches', value: '[' },
+    intervalMs: 10,
+    timeoutMs: 1000,
+  },
+};
+
+/** Poll step waiting for the job to report DONE */
+function createPoll(endpoint: string, timeoutMs = 2000): PollStep {
+  return {
+    ...brokenPoll,
+    endpoint,
+    poll: {
+      until: { id: 'done', source: 'response', stepId: 'job', field: 'state', operator: '==', value: 'DONE' },
+      intervalMs: 20,
+      timeoutMs,
+    },
+  };
+}
+
+const cleanup: RequestStep = {
+  id: 'cleanup',
+  name: 'cleanup',
+  type: 'request',
+  executionMode: 'auto',
+  position,
+  serverId: 'api',
+  method: 'DELETE',
+  endpoint: '/jobs/1',
+  headers: [],
+  waitForResponse: true,
+  saveResponse: true,
+};
+
+function runPoll(steps: Step[], edges: ScenarioEdge[] = [], stopOnError = true) {
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'poll',
+    name: 'Poll',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps,
+    edges,
+    startStepId: steps[0].id,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(scenario, new Map([['api', server]]), {}, { stopOnError });
+}
+
+test('fails the step when the until condition cannot be evaluated', async () => {
+  const result = await runPoll([brokenPoll], [], false);
+
+  expect(result.status).toBe('failed');
+  expect(result.stepResults.job.status).toBe('failed');
+  expect(result.stepResults.job.error?.code).toBe('CONDITION_EVAL_FAILED');
+  expect(result.stepResults.job.attempts).toHaveLength(1);
+  expect(result.summary.failed).toBe(1);
+});
+
+test('routes an until condition error along the error edge', async () => {
+  const result = await runPoll(
+    [brokenPoll, cleanup],
+    [{ id: 'error', sourceStepId: 'job', targetStepId: 'cleanup', sourceHandle: 'error' }]
+  );
+
+  expect(result.stepResults.job.status).toBe('failed');
+  expect(result.stepResults.cleanup.status).toBe('success');
+});
+
+test('keeps polling through error statuses until the condition holds', async () => {
+  const result = await runPoll([createPoll('/jobs/created')]);
+
+  expect(result.status).toBe('completed');
+  expect(result.stepResults.job.attempts?.map((a) => [a.status, a.conditionMet])).toEqual([
+    [404, false],
+    [404, false],
+    [200, true],
+  ]);
+});
+
+test('records network errors as attempts and polls on', async () => {
+  const result = await runPoll([createPoll('/jobs/unstable')]);
+
+  expect(result.status).toBe('completed');
+  const [failed, succeeded] = result.stepResults.job.attempts ?? [];
+  expect(failed.status).toBeUndefined();
+  expect(failed.error).toBeTruthy();
+  expect(failed.conditionMet).toBeUndefined();
+  expect(succeeded).toMatchObject({ status: 200, conditionMet: true });
+});
+
+test('times out with the last error when every request fails', async () => {
+  const result = await runPoll([createPoll('/jobs/down', 200)]);
+
+  expect(result.stepResults.job.error?.code).toBe('POLL_TIMEOUT');
+  expect(result.stepResults.job.error?.message).toContain('(last attempt failed: ');
+  expect(result.stepResults.job.attempts?.length).toBeGreaterThan(1);
+  expect(result.stepResults.job.attempts?.every((a) => a.error)).toBe(true);
+});
+
+test('a request cannot outlast the poll timeout', async () => {
+  const startedAt = Date.now();
+  const result = await runPoll([createPoll('/jobs/slow', 300)]);
+
+  // The server would answer after 1s, and the server timeout is 5s
+  expect(Date.now() - startedAt).toBeLessThan(900);
+  expect(result.stepResults.job.error?.code).toBe('POLL_TIMEOUT');
+  expect(result.stepResults.job.attempts).toHaveLength(1);
+});
+
+test('each attempt gets the time left, or the request timeout when shorter', () => {
+  expect(getAttemptTimeout(1000, 5000, 30000, 2000)).toBe(4000);
+  expect(getAttemptTimeout(1000, 5000, 1500, 2000)).toBe(1500);
+  expect(getAttemptTimeout(1000, 5000, undefined, 2000)).toBe(4000);
+  expect(getAttemptTimeout(1000, 5000, 1500, 9000)).toBe(1);
+});
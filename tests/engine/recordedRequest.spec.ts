@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import { executeScenario } from '@/engine';
+import type { RequestStep, Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+interface ReceivedRequest {
+  url: string;
+  requestId: string;
+  body: unknown;
+}
+
+let api: TestServer;
+const received: ReceivedRequest[] = [];
+
+test.beforeAll(async () => {
+  api = await startTestServer((request, body, response) => {
+    received.push({
+      url: request.url ?? '',
+      requestId: String(request.headers['x-request-id']),
+      body: body ? JSON.parse(body) : undefined,
+    });
+    // The first attempt fails so the retry can be compared with it
+    sendJson(response, received.length === 1 ? 503 : 201, { ok: true });
+  });
+});
+
+test.afterAll(() => api.close());
+
+test('records the generated values that were sent, on every attempt', async () => {
+  const create: RequestStep = {
+    id: 'create',
+    name: 'Create order',
+    type: 'request',
+    executionMode: 'auto',
+    position: { x: 0, y: 0 },
+    serverId: 'api',
+    method: 'POST',
+    endpoint: '/orders',
+    headers: [{ key: 'X-Request-Id', value: '${system.uuid}', enabled: true }],
+    queryParams: { nonce: '${randomString(16)}' },
+    body: '{ "orderId": "${uuid()}", "amount": ${randomInt(1, 1000000)} }',
+    retryConfig: { maxRetries: 1, retryDelayMs: 1, retryOn: [503] },
+    waitForResponse: true,
+    saveResponse: true,
+  };
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'orders',
+    name: 'Orders',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps: [create],
+    edges: [],
+    startStepId: 'create',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  const result = await executeScenario(scenario, new Map([['api', server]]), {});
+  const recorded = result.stepResults.create.request!;
+
+  expect(result.status).toBe('completed');
+  expect(received).toHaveLength(2);
+  expect(recorded.method).toBe('POST');
+  for (const sent of received) {
+    expect(`${api.url}${sent.url}`).toBe(recorded.url);
+    expect(sent.requestId).toBe(recorded.headers['X-Request-Id']);
+    expect(sent.body).toEqual(recorded.body);
+  }
+});
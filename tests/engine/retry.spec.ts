@@ -0,0 +1,105 @@
+import { test, expect } from '@playwright/test';
+import { calculateRetryDelay, executeScenario } from '@/engine';
+import type { RetryConfig, Scenario, Server } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+let api: TestServer;
+const calls = new Map<string, number>();
+
+test.beforeAll(async () => {
+  // /fail-<n>/<status> answers <status> for the first n calls, then 200
+  api = await startTestServer((request, _body, response) => {
+    const [, failures, status] = /^\/fail-(\d+)\/(\d+)$/.exec(request.url ?? '') ?? [];
+    const count = (calls.get(request.url ?? '') ?? 0) + 1;
+    calls.set(request.url ?? '', count);
+    sendJson(response, count <= Number(failures) ? Number(status) : 200, { call: count });
+  });
+});
+
+test.beforeEach(() => calls.clear());
+
+test.afterAll(() => api.close());
+
+/** Runs a scenario with a single GET request step */
+function runRequest(endpoint: string, retryConfig?: RetryConfig) {
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: api.url,
+    headers: [],
+    timeout: 5000,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const scenario: Scenario = {
+    id: 'retry',
+    name: 'Retry',
+    version: '1.0.0',
+    serverIds: ['api'],
+    parameterSchema: [],
+    steps: [
+      {
+        id: 'get',
+        name: 'Get',
+        type: 'request',
+        executionMode: 'auto',
+        position: { x: 0, y: 0 },
+        serverId: 'api',
+        method: 'GET',
+        endpoint,
+        headers: [],
+        waitForResponse: true,
+        saveResponse: true,
+        retryConfig,
+      },
+    ],
+    edges: [],
+    startStepId: 'get',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return executeScenario(scenario, new Map([['api', server]]), {});
+}
+
+test('retries a listed status until the request succeeds', async () => {
+  const result = await runRequest('/fail-2/503', { maxRetries: 3, retryDelayMs: 1, retryOn: [503] });
+  const attempts = result.stepResults.get.attempts ?? [];
+
+  expect(result.stepResults.get.status).toBe('success');
+  expect(attempts.map((attempt) => attempt.status)).toEqual([503, 503, 200]);
+  expect(attempts[0].retryDelayMs).toBeGreaterThanOrEqual(0);
+  expect(attempts[2].retryDelayMs).toBeUndefined();
+});
+
+test('does not retry a status missing from retryOn', async () => {
+  const result = await runRequest('/fail-1/400', { maxRetries: 3, retryDelayMs: 1, retryOn: [503] });
+
+  expect(result.stepResults.get.status).toBe('failed');
+  expect(result.stepResults.get.attempts).toHaveLength(1);
+  expect(calls.get('/fail-1/400')).toBe(1);
+});
+
+test('gives up after maxRetries', async () => {
+  const result = await runRequest('/fail-9/503', { maxRetries: 2, retryDelayMs: 1, retryOn: [503] });
+
+  expect(result.stepResults.get.status).toBe('failed');
+  expect(result.stepResults.get.attempts?.map((attempt) => attempt.status)).toEqual([503, 503, 503]);
+});
+
+test('sends a request once without a retryConfig', async () => {
+  const result = await runRequest('/fail-1/503');
+
+  expect(result.stepResults.get.status).toBe('failed');
+  expect(calls.get('/fail-1/503')).toBe(1);
+});
+
+test('doubles the backoff delay per attempt with jitter, capped at 30s', () => {
+  for (let i = 0; i < 20; i++) {
+    expect(calculateRetryDelay(1, 100)).toBeGreaterThanOrEqual(50);
+    expect(calculateRetryDelay(1, 100)).toBeLessThanOrEqual(100);
+    expect(calculateRetryDelay(3, 100)).toBeGreaterThanOrEqual(200);
+    expect(calculateRetryDelay(3, 100)).toBeLessThanOrEqual(400);
+    expect(calculateRetryDelay(20, 100)).toBeLessThanOrEqual(30000);
+  }
+  expect(calculateRetryDelay(20, 100)).toBeGreaterThanOrEqual(15000);
+});
@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test';
+import { createScriptScope, createVariableContext } from '@/engine';
+import { runScriptInWorkerThread } from '@/cli/nodeScriptRunner';
+
+function run(code: string, scope: Record<string, unknown> = {}) {
+  return runScriptInWorkerThread({ code, scope, timeoutMs: 5000 });
+}
+
+test('runs scripts against the scope', async () => {
+  const result = await run('console.log("items", params.items.length); return { total: params.items.length };', {
+    params: { items: [1, 2, 3] },
+  });
+
+  expect(result).toEqual({ value: { total: 3 }, console: [{ level: 'log', message: 'items 3' }] });
+});
+
+test('scripts cannot compile code to reach the global object', async () => {
+  await expect(run('return new Function("return this")();')).rejects.toThrow('Scripts cannot compile code');
+  await expect(run('return Function("return this")();')).rejects.toThrow('Scripts cannot compile code');
+  await expect(run('return (async () => {}).constructor("return this")();')).rejects.toThrow(
+    'Scripts cannot compile code'
+  );
+  await expect(run('return (function* () {}).constructor("return this")().next();')).rejects.toThrow(
+    'Scripts cannot compile code'
+  );
+  await expect(run('return (0, eval)("this");')).rejects.toThrow('Scripts cannot compile code');
+});
+
+test('scripts have no host globals', async () => {
+  const result = await run(`
+    return {
+      process: typeof process,
+      require: typeof require,
+      fetch: typeof fetch,
+      globalThis: typeof globalThis,
+      setTimeout: typeof setTimeout,
+    };
+  `);
+
+  expect(result.value).toEqual({
+    process: 'undefined',
+    require: 'undefined',
+    fetch: 'undefined',
+    globalThis: 'undefined',
+    setTimeout: 'undefined',
+  });
+});
+
+test('errors from the runtime do not lead back to the host', async () => {
+  const result = await run(`
+    const escape = (value) => {
+      try {
+        return typeof value.constructor.constructor('return process')();
+      } catch (error) {
+        return error.name;
+      }
+    };
+    const failure = await Promise.reject(new Error('failed')).then(() => null, (error) => error);
+    return { error: escape(failure), console: escape(console.log) };
+  `);
+
+  expect(result.value).toEqual({ error: 'TypeError', console: 'TypeError' });
+});
+
+test('scripts cannot use import', async () => {
+  await expect(run('return import("node:fs");')).rejects.toThrow('Scripts cannot use import');
+  await expect(run('return import /* spaced */ ("node:fs");')).rejects.toThrow('Scripts cannot use import');
+});
+
+test('scripts can define then() on their own objects', async () => {
+  const result = await run(`
+    class Deferred {
+      then(resolve) {
+        resolve(3);
+      }
+    }
+    return { total: await new Deferred(), plan: { then: 'ship' }.then };
+  `);
+
+  expect(result.value).toEqual({ total: 3, plan: 'ship' });
+});
+
+test('a then() added to Object.prototype never receives the host functions', async () => {
+  const result = await run(`
+    Object.prototype.then = function (resolve) {
+      delete Object.prototype.then;
+      let reached;
+      try {
+        reached = typeof resolve.constructor('return process')();
+      } catch (error) {
+        reached = error.name;
+      }
+      resolve({ reached });
+    };
+    return {};
+  `);
+
+  expect(result.value).toEqual({ reached: 'TypeError' });
+  await expect(run('Promise.prototype.then = () => {}; return {};')).rejects.toThrow('TypeError');
+});
+
+test('replacing JSON.stringify does not change what is sent back', async () => {
+  const result = await run('JSON.stringify = () => ({ then: () => {} }); return { total: 3 };');
+
+  expect(result.value).toEqual({ total: 3 });
+});
+
+test('system.uuid is new for every read, like ${system.uuid}', async () => {
+  const scope = createScriptScope(createVariableContext({}));
+
+  const result = await run('return { first: system.uuid, second: system.uuid, listed: "uuid" in system };', scope);
+  const value = result.value as { first: string; second: string; listed: boolean };
+
+  expect(value.first).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  expect(value.second).not.toBe(value.first);
+  expect(value.listed).toBe(true);
+});
@@ -0,0 +1,23 @@
+import { test, expect } from '@playwright/test';
+import { getUnmaskedSecretNames, redactSecrets, SECRET_MASK } from '@/engine/secrets';
+
+test('masks secret values wherever they appear', () => {
+  const redacted = redactSecrets(
+    { url: '/users?token=s3cr3t-token', headers: ['Bearer s3cr3t-token'] },
+    { token: 's3cr3t-token' }
+  );
+
+  expect(redacted).toEqual({
+    url: `/users?token=${SECRET_MASK}`,
+    headers: [`Bearer ${SECRET_MASK}`],
+  });
+});
+
+test('does not mask very short secret values', () => {
+  const secrets = { region: 'eu', pin: '7', token: 's3cr3t-token' };
+
+  expect(redactSecrets('Created user 7 in eu-west with s3cr3t-token', secrets)).toBe(
+    `Created user 7 in eu-west with ${SECRET_MASK}`
+  );
+  expect(getUnmaskedSecretNames(secrets)).toEqual(['region', 'pin']);
+});
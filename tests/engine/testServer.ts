@@ -0,0 +1,45 @@
+/**
+ * Local HTTP server for engine tests
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * Local HTTP server answering test requests
+ */
+export interface TestServer {
+  /** Base URL of the server (e.g. "http://127.0.0.1:43210") */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts an HTTP server on a free local port
+ *
+ * @param handler - Handles each request; the body is read before it is called
+ */
+export async function startTestServer(
+  handler: (request: IncomingMessage, body: string, response: ServerResponse) => void
+): Promise<TestServer> {
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => handler(request, body, response));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Sends a JSON response
+ */
+export function sendJson(response: ServerResponse, status: number, data: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(data));
+}
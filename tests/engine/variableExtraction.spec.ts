@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test';
+import { applyAssignments, createVariableContext, executeScenario, extractVariables, type HttpResponse } from '@/engine';
+import type { Scenario, Server, Step } from '@/types';
+import { sendJson, startTestServer, type TestServer } from './testServer';
+
+const loginResponse: HttpResponse = {
+  status: 201,
+  statusText: 'Created',
+  headers: { 'x-session-id': 'session-7' },
+  data: { data: { token: 'abc123', user: { id: 42 } }, message: 'order ORD-981 created' },
+  duration: 12,
+};
+
+test('extracts body, header, regex and status values', () => {
+  const outcome = extractVariables(
+    [
+      { id: '1', name: 'token', source: 'body', expression: '$.data.token' },
+      { id: '2', name: 'session', source: 'header', expression: 'X-Session-Id' },
+      { id: '3', name: 'orderId', source: 'regex', expression: 'ORD-(\\d+)' },
+      { id: '4', name: 'status', source: 'status', expression: '' },
+    ],
+    loginResponse
+  );
+
+  expect(outcome).toEqual({
+    values: { token: 'abc123', session: 'session-7', orderId: '981', status: 201 },
+    missing: [],
+  });
+});
+
+test('uses the default value or reports the extraction as missing', () => {
+  const outcome = extractVariables(
+    [
+      { id: '1', name: 'role', source: 'body', expression: '$.data.role', defaultValue: 'guest' },
+      { id: '2', name: 'refresh', source: 'body', expression: '$.data.refreshToken' },
+      { id: '3', name: ' ', source: 'status', expression: '' },
+    ],
+    loginResponse
+  );
+
+  expect(outcome).toEqual({ values: { role: 'guest' }, missing: ['refresh'] });
+});
+
+test('applies assignments in order so later ones see earlier ones', () => {
+  const context = createVariableContext({ userId: 42 }, {}, [], { prefix: 'user' });
+
+  const values = applyAssignments(
+    [
+      { id: '1', name: 'key', value: '${vars.prefix}-${params.userId}' },
+      { id: '2', name: 'path', value: '/cache/${vars.key}' },
+      { id: '3', name: 'id', value: '${params.userId}' },
+    ],
+    context
+  );
+
+  expect(values).toEqual({ key: 'user-42', path: '/cache/user-42', id: 42 });
+});
+
+test.describe('in a scenario', () => {
+  let api: TestServer;
+  let authorization: string | undefined;
+
+  test.beforeAll(async () => {
+    api = await startTestServer((request, _body, response) => {
+      if (request.url === '/login') {
+        sendJson(response, 200, { token: 'abc123' });
+      } else {
+        authorization = request.headers.authorization;
+        sendJson(response, 200, { ok: true });
+      }
+    });
+  });
+
+  test.afterAll(() => api.close());
+
+  test('later steps reference extracted variables as ${vars.name}', async () => {
+    const request = (id: string, changes: Partial<Step>): Step =>
+      ({
+        id,
+        name: id,
+        type: 'request',
+        executionMode: 'auto',
+        position: { x: 0, y: 0 },
+        serverId: 'api',
+        method: 'GET',
+        endpoint: `/${id}`,
+        headers: [],
+        waitForResponse: true,
+        saveResponse: true,
+        ...changes,
+      }) as Step;
+    const scenario: Scenario = {
+      id: 'extract',
+      name: 'Extract',
+      version: '1.0.0',
+      serverIds: ['api'],
+      parameterSchema: [],
+      steps: [
+        request('login', { extract: [{ id: '1', name: 'token', source: 'body', expression: '$.token' }] }),
+        {
+          id: 'bearer',
+          name: 'bearer',
+          type: 'setVariable',
+          executionMode: 'auto',
+          position: { x: 0, y: 0 },
+          assignments: [{ id: '1', name: 'authorization', value: 'Bearer ${vars.token}' }],
+        },
+        request('profile', { headers: [{ key: 'Authorization', value: '${vars.authorization}', enabled: true }] }),
+      ],
+      edges: [
+        { id: 'e1', sourceStepId: 'login', targetStepId: 'bearer' },
+        { id: 'e2', sourceStepId: 'bearer', targetStepId: 'profile' },
+      ],
+      startStepId: 'login',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const server: Server = {
+      id: 'api',
+      name: 'api',
+      baseUrl: api.url,
+      headers: [],
+      timeout: 5000,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    const result = await executeScenario(scenario, new Map([['api', server]]), {});
+
+    expect(result.status).toBe('completed');
+    expect(result.stepResults.login.variables).toEqual({ token: 'abc123' });
+    expect(result.variables).toEqual({ token: 'abc123', authorization: 'Bearer abc123' });
+    expect(authorization).toBe('Bearer abc123');
+  });
+});
@@ -0,0 +1,17 @@
+import { test, expect } from '@playwright/test';
+import { createVariableContext, resolveVariables } from '@/engine';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+test('${system.uuid} is new for every reference', () => {
+  const context = createVariableContext({});
+
+  const resolved = resolveVariables({ header: '${system.uuid}', body: { id: '${system.uuid}' } }, context) as {
+    header: string;
+    body: { id: string };
+  };
+
+  expect(resolved.header).toMatch(UUID);
+  expect(resolved.body.id).toMatch(UUID);
+  expect(resolved.body.id).not.toBe(resolved.header);
+});
@@ -0,0 +1,145 @@
+import { test, expect } from '@playwright/test';
+import {
+  createCurlTemplate,
+  createServerForCurl,
+  isCurlCommand,
+  matchCurlServer,
+  parseCurlCommand,
+} from '@/services/curlImport';
+import type { Server } from '@/types';
+
+const createServer = (id: string, baseUrl: string): Server => ({
+  id,
+  name: id,
+  baseUrl,
+  headers: [],
+  timeout: 5000,
+  createdAt: '',
+  updatedAt: '',
+});
+
+test('recognizes curl commands', () => {
+  expect(isCurlCommand("curl 'https://api.example.com'")).toBe(true);
+  expect(isCurlCommand('$ curl.exe https://api.example.com')).toBe(true);
+  expect(isCurlCommand('wget https://api.example.com')).toBe(false);
+});
+
+test('parses a command copied from browser dev tools', () => {
+  const request = parseCurlCommand(
+    [
+      "curl 'https://api.example.com/v1/orders?page=2&sort=desc' \\",
+      "  -H 'accept: application/json' \\",
+      "  -H 'content-type: application/json' \\",
+      "  -H 'content-length: 27' \\",
+      '  --data-raw \'{"item":"book","qty":2}\' \\',
+      '  --compressed',
+    ].join('\n')
+  );
+
+  expect(request).toEqual({
+    method: 'POST',
+    url: 'https://api.example.com/v1/orders',
+    headers: [
+      { key: 'accept', value: 'application/json', enabled: true },
+      { key: 'content-type', value: 'application/json', enabled: true },
+    ],
+    queryParams: { page: '2', sort: 'desc' },
+    body: { item: 'book', qty: 2 },
+    warnings: [],
+  });
+});
+
+test('handles bash quoting and combined short options', () => {
+  const request = parseCurlCommand(
+    `curl -sSX PUT "https://api.example.com/notes/1" -H $'X-Note: it\\'s' -d "text=\\"hi\\""`
+  );
+
+  expect(request.method).toBe('PUT');
+  expect(request.headers).toContainEqual({ key: 'X-Note', value: "it's", enabled: true });
+  expect(request.headers).toContainEqual({
+    key: 'Content-Type',
+    value: 'application/x-www-form-urlencoded',
+    enabled: true,
+  });
+  expect(request.body).toBe('text="hi"');
+});
+
+test('converts authentication, cookies and -G data into headers and query parameters', () => {
+  const request = parseCurlCommand(
+    "curl -G -u ann:pw -b 'session=abc' -A agent/1.0 https://api.example.com/search --data-urlencode 'q=a b'"
+  );
+
+  expect(request.method).toBe('GET');
+  expect(request.body).toBeUndefined();
+  expect(request.queryParams).toEqual({ q: 'a b' });
+  expect(request.headers).toEqual([
+    { key: 'Authorization', value: `Basic ${btoa('ann:pw')}`, enabled: true },
+    { key: 'Cookie', value: 'session=abc', enabled: true },
+    { key: 'User-Agent', value: 'agent/1.0', enabled: true },
+  ]);
+});
+
+test('--json sets JSON headers', () => {
+  const request = parseCurlCommand(`curl --json '{"a":1}' https://api.example.com/a`);
+
+  expect(request.method).toBe('POST');
+  expect(request.body).toEqual({ a: 1 });
+  expect(request.headers).toEqual([
+    { key: 'Content-Type', value: 'application/json', enabled: true },
+    { key: 'Accept', value: 'application/json', enabled: true },
+  ]);
+});
+
+test('reports options it cannot convert', () => {
+  const request = parseCurlCommand(
+    'curl -X OPTIONS -F file=@a.txt --data @body.json --foo https://api.example.com https://other.example.com'
+  );
+
+  expect(request.method).toBe('GET');
+  expect(request.warnings).toEqual([
+    'Multipart form data (-F) is not supported and was skipped',
+    'Request bodies read from files (@body.json) are not supported and were skipped',
+    'Option --foo is not supported and was ignored',
+    'Only the first URL is imported; https://other.example.com was skipped',
+    'Method OPTIONS is not supported; imported as GET',
+  ]);
+});
+
+test('rejects commands it cannot parse', () => {
+  expect(() => parseCurlCommand('wget https://a.test')).toThrow('Not a curl command');
+  expect(() => parseCurlCommand('curl -s')).toThrow('The curl command has no URL');
+  expect(() => parseCurlCommand('curl ftp://a.test/file')).toThrow('Unsupported protocol: ftp');
+  expect(() => parseCurlCommand("curl 'https://a.test")).toThrow('Unterminated single quote');
+});
+
+test('matches the server with the longest base URL prefix', () => {
+  const servers = [
+    createServer('root', 'https://api.example.com'),
+    createServer('v1', 'https://api.example.com/v1/'),
+    createServer('other', 'https://other.example.com'),
+  ];
+
+  expect(matchCurlServer('https://api.example.com/v1/orders', servers)).toEqual({
+    server: servers[1],
+    endpoint: '/orders',
+  });
+  expect(matchCurlServer('https://api.example.com/v10', servers)?.server.id).toBe('root');
+  expect(matchCurlServer('https://api.example.com/v1', servers)?.endpoint).toBe('/');
+  expect(matchCurlServer('https://unknown.example.com/a', servers)).toBeNull();
+});
+
+test('creates a server and an endpoint template for an unmatched URL', () => {
+  const request = parseCurlCommand("curl -H 'X-A: 1' 'https://api.example.com:8443/items?limit=5'");
+  const server = createServerForCurl(request.url);
+  expect(server).toMatchObject({ name: 'api.example.com:8443', baseUrl: 'https://api.example.com:8443' });
+
+  const template = createCurlTemplate(request, '/items');
+  expect(template).toMatchObject({
+    method: 'GET',
+    endpoint: '/items',
+    headers: [{ key: 'X-A', value: '1', enabled: true }],
+    queryParams: { limit: '5' },
+    parameters: [],
+  });
+  expect(template.headers[0]).not.toBe(request.headers[0]);
+});
@@ -0,0 +1,189 @@
+import { test, expect } from '@playwright/test';
+import { convertOpenApiDocument, isOpenApiDocument } from '@/services/openApiImport';
+import { createRequestStepFromTemplate } from '@/utils/stepFactory';
+import type { EndpointTemplate, Server } from '@/types';
+
+const document = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '2.1' },
+  servers: [
+    { url: 'https://{region}.pets.example.com/v1/', variables: { region: { default: 'eu' } } },
+    { url: 'https://staging.pets.example.com/v1' },
+  ],
+  security: [{ apiKey: [] }],
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+    },
+    parameters: {
+      PetId: { name: 'petId', in: 'path', required: true, schema: { type: 'integer', example: 7 } },
+    },
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'integer', minimum: 1 },
+          name: { type: 'string' },
+          tag: { type: 'string', nullable: true },
+          owner: { $ref: '#/components/schemas/Owner' },
+        },
+      },
+      Owner: {
+        type: 'object',
+        properties: { email: { type: 'string', format: 'email' }, pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } },
+      },
+    },
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        summary: 'List pets',
+        tags: ['pets'],
+        parameters: [
+          { name: 'limit', in: 'query', required: true, schema: { type: 'integer', default: 20 } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: { '200': { description: 'ok' } },
+      },
+      post: {
+        operationId: 'createPet',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        },
+        responses: {
+          '201': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+          '400': { description: 'bad request' },
+        },
+      },
+      head: { responses: { '200': { description: 'ok' } } },
+    },
+    '/pets/{petId}': {
+      parameters: [{ $ref: '#/components/parameters/PetId' }],
+      delete: { description: 'Delete a pet\nPermanently', responses: { '204': { description: 'gone' } } },
+    },
+  },
+};
+
+const findTemplate = (templates: EndpointTemplate[], method: string, endpoint: string) =>
+  templates.find(template => template.method === method && template.endpoint === endpoint)!;
+
+test('recognizes OpenAPI 3 documents', () => {
+  expect(isOpenApiDocument(document)).toBe(true);
+  expect(isOpenApiDocument({ swagger: '2.0', paths: {} })).toBe(false);
+  expect(isOpenApiDocument({ openapi: '3.1.0' })).toBe(false);
+});
+
+test('creates a server from the first server URL with one template per operation', () => {
+  const { server, created, summary } = convertOpenApiDocument(document);
+
+  expect(created).toBe(true);
+  expect(server).toMatchObject({
+    name: 'pet_store',
+    baseUrl: 'https://eu.pets.example.com/v1',
+    description: 'Pet Store v2.1',
+  });
+  expect(server.endpoints!.map(template => `${template.method} ${template.endpoint}`)).toEqual([
+    'GET /pets',
+    'POST /pets',
+    'DELETE /pets/${params.petId}',
+  ]);
+  expect(summary.endpoints).toBe(3);
+  expect(summary.warnings).toEqual([
+    'HEAD /pets: method is not supported and was skipped',
+    'Only the first server URL was used; use environments to target https://staging.pets.example.com/v1',
+  ]);
+});
+
+test('adds the templates to an existing server with the same base URL', () => {
+  const existing = {
+    id: 'pets',
+    name: 'pets',
+    baseUrl: 'https://eu.pets.example.com/v1/',
+    headers: [],
+    timeout: 5000,
+    createdAt: '',
+    updatedAt: '',
+  } as Server;
+  const { server, created } = convertOpenApiDocument(document, [existing]);
+
+  expect(created).toBe(false);
+  expect(server).toMatchObject({ id: 'pets', timeout: 5000 });
+  expect(server.endpoints).toHaveLength(3);
+});
+
+test('turns required parameters into scenario parameters and security into secrets', () => {
+  const { server, summary } = convertOpenApiDocument(document);
+  const list = findTemplate(server.endpoints!, 'GET', '/pets');
+  const remove = findTemplate(server.endpoints!, 'DELETE', '/pets/${params.petId}');
+
+  expect(list.queryParams).toEqual({ limit: '${params.limit}' });
+  expect(list.headers).toEqual([
+    { key: 'X-Tenant', value: '${params.X_Tenant}', enabled: true },
+    { key: 'X-API-Key', value: '${secret.apiKey}', enabled: true },
+  ]);
+  expect(list.parameters.map(parameter => [parameter.name, parameter.type, parameter.defaultValue])).toEqual([
+    ['limit', 'number', 20],
+    ['X_Tenant', 'string', undefined],
+  ]);
+  expect(remove.summary).toBe('Delete a pet');
+  expect(remove.parameters).toEqual([expect.objectContaining({ name: 'petId', type: 'number', defaultValue: 7 })]);
+  expect(summary.secrets).toEqual(['apiKey', 'bearerAuth']);
+  expect(summary.parameters).toBe(3);
+});
+
+test('generates an example body and a JSON Schema for the success response', () => {
+  const { server } = convertOpenApiDocument(document);
+  const create = findTemplate(server.endpoints!, 'POST', '/pets');
+
+  expect(create.headers).toEqual([
+    { key: 'Authorization', value: 'Bearer ${secret.bearerAuth}', enabled: true },
+    { key: 'Content-Type', value: 'application/json', enabled: true },
+  ]);
+  expect(create.body).toEqual({
+    id: 1,
+    name: 'string',
+    tag: 'string',
+    owner: { email: 'user@example.com', pets: [] },
+  });
+  expect(create.expectedStatus).toBe(201);
+
+  const schema = create.responseSchema as {
+    properties: Record<string, { type?: unknown; properties?: Record<string, { items?: unknown }> }>;
+  };
+  expect(schema.properties.tag.type).toEqual(['string', 'null']);
+  // The recursive reference back to Pet accepts any value
+  expect(schema.properties.owner.properties!.pets.items).toEqual({});
+});
+
+test('pre-fills a request step from a template', () => {
+  const { server } = convertOpenApiDocument(document);
+  const create = findTemplate(server.endpoints!, 'POST', '/pets');
+
+  const step = createRequestStepFromTemplate(server.id, create, { x: 10, y: 20 }, true);
+  expect(step).toMatchObject({
+    name: 'createPet',
+    serverId: server.id,
+    method: 'POST',
+    endpoint: '/pets',
+    position: { x: 10, y: 20 },
+  });
+  expect(step.body).toEqual(create.body);
+  expect(step.body).not.toBe(create.body);
+  expect(step.assertions).toEqual([
+    expect.objectContaining({ type: 'status', expected: 201 }),
+    expect.objectContaining({ type: 'jsonSchema', expected: create.responseSchema }),
+  ]);
+
+  expect(createRequestStepFromTemplate(server.id, create, { x: 0, y: 0 }, false).assertions).toBeUndefined();
+});
+
+test('rejects documents without supported operations', () => {
+  expect(() => convertOpenApiDocument({ swagger: '2.0' })).toThrow('Not an OpenAPI 3 document');
+  expect(() => convertOpenApiDocument({ openapi: '3.0.0', paths: { '/': { options: {} } } }))
+    .toThrow('Document contains no supported operations');
+});
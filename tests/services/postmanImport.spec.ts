@@ -0,0 +1,177 @@
+import { test, expect } from '@playwright/test';
+import { convertPostmanCollection, isPostmanCollection } from '@/services/postmanImport';
+import type { GroupStep, RequestStep, Server } from '@/types';
+
+const SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const collection = {
+  info: { name: 'Shop API', schema: SCHEMA },
+  variable: [{ key: 'baseUrl', value: 'https://shop.example.com' }],
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+  item: [
+    {
+      name: 'Login',
+      request: {
+        method: 'POST',
+        url: '{{baseUrl}}/login',
+        body: {
+          mode: 'raw',
+          raw: '{"user": "{{user}}"}',
+          options: { raw: { language: 'json' } },
+        },
+      },
+      event: [
+        {
+          listen: 'test',
+          script: {
+            exec: [
+              'pm.test("ok", function () {',
+              '  pm.response.to.have.status(200);',
+              '});',
+              'var json = pm.response.json();',
+              'pm.environment.set("session", json.data.session);',
+            ],
+          },
+        },
+      ],
+    },
+    {
+      name: 'Orders',
+      item: [
+        {
+          name: 'List orders',
+          request: {
+            method: 'GET',
+            url: {
+              raw: '{{baseUrl}}/orders/:status?limit=10',
+              query: [{ key: 'limit', value: '10' }],
+              variable: [{ key: 'status', value: 'open' }],
+            },
+            header: [{ key: 'X-Session', value: '{{session}}' }],
+          },
+          event: [{ listen: 'prerequest', script: { exec: ['console.log(1);'] } }],
+        },
+      ],
+    },
+  ],
+};
+
+const getRequest = (steps: { type: string; name: string }[], name: string) =>
+  steps.find(step => step.type === 'request' && step.name === name) as RequestStep;
+
+test('recognizes Postman v2 collections', () => {
+  expect(isPostmanCollection(collection)).toBe(true);
+  expect(isPostmanCollection({ info: { name: 'x' }, item: [] })).toBe(false);
+  expect(isPostmanCollection({ openapi: '3.0.0' })).toBe(false);
+});
+
+test('turns folders into groups chained after top-level requests', () => {
+  const { scenario, summary } = convertPostmanCollection(collection);
+
+  const login = getRequest(scenario.steps, 'Login');
+  const group = scenario.steps.find(step => step.type === 'group') as GroupStep;
+  const list = getRequest(scenario.steps, 'List orders');
+
+  expect(group.name).toBe('Orders');
+  expect(group.stepIds).toEqual([list.id]);
+  expect(scenario.startStepId).toBe(login.id);
+  expect(scenario.edges).toEqual([
+    expect.objectContaining({ sourceStepId: login.id, targetStepId: group.id }),
+  ]);
+  expect(summary).toMatchObject({ requests: 2, folders: 1 });
+});
+
+test('creates a server from {{baseUrl}} and reuses an existing one', () => {
+  const created = convertPostmanCollection(collection);
+  expect(created.servers).toEqual([
+    expect.objectContaining({ name: 'baseUrl', baseUrl: 'https://shop.example.com' }),
+  ]);
+  expect(getRequest(created.scenario.steps, 'Login').serverId).toBe(created.servers[0].id);
+
+  const existing = { ...created.servers[0], id: 'shop', baseUrl: 'https://shop.example.com/' } as Server;
+  const reused = convertPostmanCollection(collection, undefined, [existing]);
+  expect(reused.servers).toEqual([]);
+  expect(reused.scenario.serverIds).toEqual(['shop']);
+});
+
+test('uses environment values for the server base URL', () => {
+  const environment = { name: 'Staging', values: [{ key: 'baseUrl', value: 'staging.example.com/' }] };
+  const { servers } = convertPostmanCollection(collection, environment);
+
+  expect(servers[0].baseUrl).toBe('http://staging.example.com');
+});
+
+test('rewrites variables as parameters, and script-set variables as vars', () => {
+  const { scenario } = convertPostmanCollection(collection);
+  const login = getRequest(scenario.steps, 'Login');
+  const list = getRequest(scenario.steps, 'List orders');
+
+  expect(login.endpoint).toBe('/login');
+  expect(login.body).toEqual({ user: '${params.user}' });
+  expect(login.headers).toContainEqual({ key: 'Authorization', value: 'Bearer ${params.token}', enabled: true });
+  expect(login.headers).toContainEqual({ key: 'Content-Type', value: 'application/json', enabled: true });
+
+  expect(list.endpoint).toBe('/orders/${params.status}');
+  expect(list.queryParams).toEqual({ limit: '10' });
+  expect(list.headers).toContainEqual({ key: 'X-Session', value: '${vars.session}', enabled: true });
+
+  expect(scenario.parameterSchema.map(parameter => [parameter.name, parameter.required, parameter.defaultValue]))
+    .toEqual([
+      ['token', true, undefined],
+      ['user', true, undefined],
+      ['status', false, 'open'],
+    ]);
+});
+
+test('converts status checks and variable setters from test scripts', () => {
+  const { scenario, summary } = convertPostmanCollection(collection);
+  const login = getRequest(scenario.steps, 'Login');
+
+  expect(login.assertions).toEqual([
+    expect.objectContaining({ type: 'status', operator: '==', expected: 200 }),
+  ]);
+  expect(login.extract).toEqual([
+    expect.objectContaining({ name: 'session', source: 'body', expression: '$.data.session' }),
+  ]);
+  expect(summary).toMatchObject({ assertions: 1, extractions: 1 });
+  expect(summary.warnings).toEqual([
+    'Request "List orders": pre-request script is not supported and was skipped',
+  ]);
+});
+
+test('converts api key, basic auth and urlencoded bodies', () => {
+  const { scenario } = convertPostmanCollection({
+    info: { name: 'Auth', schema: SCHEMA },
+    item: [
+      {
+        name: 'Key',
+        request: {
+          url: 'https://api.example.com/a',
+          auth: { type: 'apikey', apikey: [{ key: 'key', value: 'api_key' }, { key: 'in', value: 'query' }, { key: 'value', value: 'abc' }] },
+        },
+      },
+      {
+        name: 'Basic',
+        request: {
+          method: 'post',
+          url: 'https://api.example.com/b',
+          auth: { type: 'basic', basic: [{ key: 'username', value: 'ann' }, { key: 'password', value: 'pw' }] },
+          body: { mode: 'urlencoded', urlencoded: [{ key: 'a', value: '1' }, { key: 'b', value: '2', disabled: true }] },
+        },
+      },
+    ],
+  });
+
+  expect(getRequest(scenario.steps, 'Key').queryParams).toEqual({ api_key: 'abc' });
+  const basic = getRequest(scenario.steps, 'Basic');
+  expect(basic.method).toBe('POST');
+  expect(basic.headers).toContainEqual({ key: 'Authorization', value: `Basic ${btoa('ann:pw')}`, enabled: true });
+  expect(basic.body).toBe('a=1');
+});
+
+test('rejects invalid and empty collections', () => {
+  expect(() => convertPostmanCollection({ item: [] })).toThrow('Not a Postman v2 collection');
+  expect(() => convertPostmanCollection({ info: { name: 'Empty', schema: SCHEMA }, item: [{ name: 'Folder', item: [] }] }))
+    .toThrow('Collection contains no requests');
+  expect(() => convertPostmanCollection(collection, { name: 'Env' })).toThrow('Not a Postman environment');
+});
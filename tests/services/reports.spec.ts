@@ -0,0 +1,111 @@
+import { test, expect } from '@playwright/test';
+import { generateHtmlReport, generateJUnitReport, type ReportSource } from '@/services/reports';
+import type { Scenario, Step, StepExecutionResult } from '@/types';
+
+const position = { x: 0, y: 0 };
+const request = (id: string, name: string): Step => ({
+  id,
+  name,
+  type: 'request',
+  executionMode: 'auto',
+  position,
+  serverId: 'api',
+  method: 'GET',
+  endpoint: `/${id}`,
+  headers: [],
+  waitForResponse: true,
+  saveResponse: true,
+});
+
+const scenario: Scenario = {
+  id: 'orders',
+  name: 'Orders <nightly>',
+  version: '1.0.0',
+  serverIds: ['api'],
+  parameterSchema: [],
+  steps: [
+    request('login', 'Login'),
+    {
+      id: 'users',
+      name: 'Users',
+      type: 'loop',
+      executionMode: 'auto',
+      position,
+      loop: { id: 'users', type: 'count', count: 2 },
+      stepIds: ['fetch'],
+      variableName: 'users',
+    },
+    request('fetch', 'Fetch user'),
+    request('cleanup', 'Cleanup'),
+  ],
+  edges: [],
+  startStepId: 'login',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const iteration = (index: number, result: Partial<StepExecutionResult>): StepExecutionResult => ({
+  stepId: 'fetch',
+  status: 'success',
+  startedAt: `2026-01-01T00:00:0${index}.000Z`,
+  completedAt: `2026-01-01T00:00:0${index}.500Z`,
+  loopContext: [{ stepId: 'users', currentIteration: index, totalIterations: 2, depth: 0 }],
+  ...result,
+});
+
+const source: ReportSource = {
+  id: 'run-1',
+  status: 'failed',
+  environmentName: 'staging',
+  params: { userId: 42, flags: ['a&b'] },
+  startedAt: '2026-01-01T00:00:00.000Z',
+  completedAt: '2026-01-01T00:00:04.000Z',
+  stepResults: {
+    login: { stepId: 'login', status: 'success', startedAt: '2026-01-01T00:00:00.000Z', completedAt: '2026-01-01T00:00:00.250Z' },
+    users: { stepId: 'users', status: 'failed', startedAt: '2026-01-01T00:00:01.000Z', completedAt: '2026-01-01T00:00:03.000Z' },
+  },
+  iterationResults: {
+    'fetch#1': iteration(1, {}),
+    'fetch#2': iteration(2, {
+      status: 'failed',
+      error: { code: 'REQUEST_FAILED', message: 'Request failed with status 500 <Internal>' },
+      response: { status: 500, statusText: 'Internal Server Error', headers: {}, data: {}, duration: 120 },
+    }),
+  },
+  logs: [{ id: '1', timestamp: '2026-01-01T00:00:00.000Z', level: 'error', message: 'Fetch <failed>' }],
+};
+
+test('writes one JUnit testcase per step or loop iteration', () => {
+  const xml = generateJUnitReport(scenario, source);
+
+  expect(xml).toContain('<testsuites name="Orders &lt;nightly&gt;" tests="5" failures="2" skipped="1" time="4.000">');
+  expect(xml).toContain('<testcase name="Login" classname="Orders &lt;nightly&gt;.request" time="0.250"/>');
+  expect(xml).toContain('<testcase name="Fetch user [Users 1/2]"');
+  expect(xml).toContain(
+    '<failure message="Request failed with status 500 &lt;Internal&gt;" type="REQUEST_FAILED">'
+  );
+  expect(xml).toContain('Response: 500 Internal Server Error (120ms)');
+  expect(xml).toMatch(/<testcase name="Cleanup"[^>]*>\s*<skipped message="Not executed"\/>/);
+});
+
+test('writes the run as JUnit properties', () => {
+  const xml = generateJUnitReport(scenario, source);
+
+  expect(xml).toContain('<property name="executionId" value="run-1"/>');
+  expect(xml).toContain('<property name="environment" value="staging"/>');
+  expect(xml).toContain('<property name="param.userId" value="42"/>');
+  expect(xml).toContain('&quot;a&amp;b&quot;');
+});
+
+test('renders a self-contained HTML report', () => {
+  const html = generateHtmlReport(scenario, source);
+
+  expect(html).toMatch(/^<!DOCTYPE html>/);
+  expect(html).not.toMatch(/<(script|link)\b[^>]*\b(src|href)=/);
+  expect(html).toContain('<title>Orders &lt;nightly&gt; - Execution Report</title>');
+  expect(html).toContain('Environment "staging"');
+  expect(html).toContain('<strong>2</strong>Passed');
+  expect(html).toContain('Fetch user <span class="muted">[Users 2/2]</span>');
+  expect(html).toContain('Fetch &lt;failed&gt;');
+  expect(html).not.toContain('Fetch <failed>');
+});
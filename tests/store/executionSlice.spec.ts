@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import reducer, {
+  clearHistory,
+  loadHistory,
+  loadRunCounters,
+  startExecution,
+  stopExecution,
+} from '@/store/executionSlice';
+import type { ExecutionContext } from '@/types';
+
+type ExecutionState = ReturnType<typeof reducer>;
+
+function runScenario(state: ExecutionState, scenarioId: string): ExecutionState {
+  const runNumber = (state.runCounters[scenarioId] ?? 0) + 1;
+  const started = reducer(state, startExecution({ scenarioId, runNumber, params: {} }));
+  return reducer(started, stopExecution('completed'));
+}
+
+test('run counters keep growing after history is cleared', () => {
+  let state = reducer(undefined, { type: 'init' });
+  state = runScenario(state, 'orders');
+  state = runScenario(state, 'orders');
+  state = runScenario(state, 'users');
+
+  expect(state.runCounters).toEqual({ orders: 2, users: 1 });
+
+  state = reducer(state, clearHistory());
+  state = runScenario(state, 'orders');
+
+  expect(state.history[0].runNumber).toBe(3);
+});
+
+test('loaded counters and stored runs never lower a counter', () => {
+  const storedRun = (scenarioId: string, runNumber?: number) =>
+    ({ id: `${scenarioId}-${runNumber}`, scenarioId, runNumber, startedAt: '' }) as ExecutionContext;
+
+  let state = reducer(undefined, { type: 'init' });
+  state = reducer(state, loadRunCounters({ orders: 7, users: 2 }));
+  state = reducer(state, loadHistory([storedRun('orders', 5), storedRun('users', 4), storedRun('legacy')]));
+
+  expect(state.runCounters).toEqual({ orders: 7, users: 4 });
+});
@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { createVariableContext, describeStepRequest } from '@/engine';
+import { generateSnippet, type SnippetRequest } from '@/utils/requestSnippets';
+import type { RequestStep, Server } from '@/types';
+
+const postRequest: SnippetRequest = {
+  method: 'POST',
+  url: 'https://api.example.com/orders?dry=true',
+  headers: { Authorization: 'Bearer ${secret.token}', 'X-Note': "it's" },
+  body: { item: 'book', quantity: 2, gift: false, note: null },
+};
+
+test('curl snippet quotes values for the shell and sends object bodies as JSON', () => {
+  expect(generateSnippet(postRequest, 'curl')).toBe(
+    [
+      "curl -X POST 'https://api.example.com/orders?dry=true'",
+      "  -H 'Authorization: Bearer ${secret.token}'",
+      "  -H 'X-Note: it'\\''s'",
+      "  -H 'Content-Type: application/json'",
+      `  --data-raw '${JSON.stringify(postRequest.body, null, 2)}'`,
+    ].join(' \\\n')
+  );
+});
+
+test('curl snippet of a GET without body omits the method', () => {
+  const snippet = generateSnippet({ method: 'GET', url: 'https://api.example.com/ping', headers: {} }, 'curl');
+  expect(snippet).toBe("curl 'https://api.example.com/ping'");
+});
+
+test('secret values are inserted only when given', () => {
+  expect(generateSnippet(postRequest, 'curl', { token: 's3cr3t' })).toContain("'Authorization: Bearer s3cr3t'");
+  expect(generateSnippet(postRequest, 'curl', { other: 'x' })).toContain('Bearer ${secret.token}');
+});
+
+test('HTTPie snippet sends the body raw and headers as request items', () => {
+  const snippet = generateSnippet(
+    { method: 'PUT', url: 'https://api.example.com/a', headers: { 'X-Empty': '' }, body: 'plain text' },
+    'httpie'
+  );
+  expect(snippet).toBe(
+    ["http --raw 'plain text' PUT 'https://api.example.com/a'", "  'X-Empty;'"].join(' \\\n')
+  );
+});
+
+test('fetch snippet stringifies JSON bodies and keeps text bodies as strings', () => {
+  const json = generateSnippet(postRequest, 'fetch');
+  expect(json).toContain('const response = await fetch("https://api.example.com/orders?dry=true", {');
+  expect(json).toContain('  body: JSON.stringify({\n    "item": "book",');
+  expect(json).toContain('"Content-Type": "application/json"');
+
+  const text = generateSnippet({ method: 'POST', url: 'https://a.test/', headers: {}, body: 'a=1' }, 'fetch');
+  expect(text).toContain('  body: "a=1",');
+  expect(text).not.toContain('headers:');
+});
+
+test('Python snippet uses Python literals for JSON bodies', () => {
+  const snippet = generateSnippet(postRequest, 'python');
+  expect(snippet).toContain('import requests');
+  expect(snippet).toContain(
+    '    json={\n        "item": "book",\n        "quantity": 2,\n        "gift": False,\n        "note": None,\n    },'
+  );
+  expect(snippet).toContain('print(response.status_code, response.text)');
+});
+
+test('describes the request a step sends with variables resolved and secrets kept', () => {
+  const server: Server = {
+    id: 'api',
+    name: 'api',
+    baseUrl: 'https://api.example.com/v1/',
+    headers: [
+      { key: 'Authorization', value: 'Bearer ${secret.token}', enabled: true },
+      { key: 'X-Disabled', value: 'no', enabled: false },
+    ],
+    timeout: 5000,
+    createdAt: '',
+    updatedAt: '',
+  };
+  const step: RequestStep = {
+    id: 'order',
+    name: 'Order',
+    type: 'request',
+    executionMode: 'auto',
+    position: { x: 0, y: 0 },
+    serverId: 'api',
+    method: 'POST',
+    endpoint: '/orders/${params.orderId}?expand=items',
+    headers: [{ key: 'X-Tenant', value: '${vars.tenant}', enabled: true }],
+    queryParams: { page: '${params.page}' },
+    body: { note: '${vars.tenant} order' },
+    waitForResponse: true,
+    saveResponse: true,
+  };
+  const context = createVariableContext({ orderId: 42, page: 2 }, {}, [], { tenant: 'acme' });
+
+  expect(describeStepRequest(step, server, context)).toEqual({
+    method: 'POST',
+    url: 'https://api.example.com/v1/orders/42?expand=items&page=2',
+    headers: { Authorization: 'Bearer ${secret.token}', 'X-Tenant': 'acme' },
+    body: { note: 'acme order' },
+  });
+});
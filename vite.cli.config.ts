@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Node build of the headless scenario runner (npm run build:cli)
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/scenarioRun.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'scenario-run.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})